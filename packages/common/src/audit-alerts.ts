@@ -9,6 +9,9 @@ export enum SuspiciousActivityType {
   UNUSUAL_PATTERN = 'unusual_pattern',
   SUSPICIOUS_IP = 'suspicious_ip',
   BRUTE_FORCE_ATTEMPT = 'brute_force_attempt',
+  ACCOUNT_LOCKED = 'account_locked',
+  IMPOSSIBLE_TRAVEL = 'impossible_travel',
+  UNUSUAL_SIGNIN = 'unusual_signin', // New location, device or network for the account
 }
 
 export enum Severity {
@@ -63,6 +66,75 @@ export class AuditAlertHelper {
     return null;
   }
 
+  /**
+   * Check for an account lockout caused by repeated failed sign-ins against one account
+   * Admin lockouts are critical - admin accounts can disable merchants and read audit logs
+   */
+  static async checkAccountLockout(
+    ipAddress: string,
+    failedAttempts: number,
+    lockoutThreshold: number,
+    account: {
+      subjectType: 'merchant' | 'admin';
+      email: string;
+      userId?: number;
+      merchantId?: string;
+      lockedUntil: Date;
+    }
+  ): Promise<SuspiciousActivity | null> {
+    if (failedAttempts < lockoutThreshold) {
+      return null;
+    }
+
+    return {
+      activityType: SuspiciousActivityType.ACCOUNT_LOCKED,
+      ipAddress,
+      userId: account.userId,
+      merchantId: account.merchantId,
+      severity: account.subjectType === 'admin' ? Severity.CRITICAL : Severity.HIGH,
+      description: `${account.subjectType} account ${account.email} locked until ${account.lockedUntil.toISOString()} after ${failedAttempts} failed sign-in attempts (last from IP ${ipAddress})`,
+      metadata: {
+        subjectType: account.subjectType,
+        email: account.email,
+        failedAttempts,
+        lockedUntil: account.lockedUntil.toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Check a successful password sign-in against the account's recent sign-ins
+   * Low-risk sign-ins are not reported
+   */
+  static async checkSignInRisk(
+    ipAddress: string,
+    risk: {
+      level: 'low' | 'medium' | 'high';
+      reasons: string[];
+      impossibleTravel: boolean;
+      metadata?: any;
+    },
+    account: {
+      email: string;
+      userId?: number;
+      merchantId?: string;
+    }
+  ): Promise<SuspiciousActivity | null> {
+    if (risk.level === 'low') {
+      return null;
+    }
+
+    return {
+      activityType: risk.impossibleTravel ? SuspiciousActivityType.IMPOSSIBLE_TRAVEL : SuspiciousActivityType.UNUSUAL_SIGNIN,
+      ipAddress,
+      userId: account.userId,
+      merchantId: account.merchantId,
+      severity: risk.level === 'high' ? Severity.HIGH : Severity.MEDIUM,
+      description: `${risk.level} risk sign-in for ${account.email} from IP ${ipAddress}: ${risk.reasons.join('; ')}`,
+      metadata: { email: account.email, reasons: risk.reasons, ...risk.metadata },
+    };
+  }
+
   /**
    * Check for rate limit abuse
    */
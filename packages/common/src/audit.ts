@@ -1,4 +1,5 @@
 import { logger } from './logger';
+import { createIpMatcher, normalizeIpAddress } from './ipAllowlist';
 
 /**
  * Mask sensitive data in request body
@@ -26,51 +27,117 @@ export const maskSensitiveData = (data: any): any => {
 };
 
 /**
- * Extract IP address from headers (Nginx reverse proxy) with socket fallback
+ * Trusted reverse proxies (Nginx, load balancer, Cloudflare)
+ * Forwarding headers are honoured only when the TCP peer is one of these
  */
-export const extractIpAddress = (
-  headers: Record<string, string | string[] | undefined>,
-  socket?: { remoteAddress?: string }
-): string => {
-  // Priority order for IP detection (Nginx reverse proxy)
-  const forwardedFor = headers['x-forwarded-for'];
-  if (forwardedFor) {
-    // X-Forwarded-For can contain multiple IPs, take the first one
-    const ips = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
-    const ip = ips.split(',')[0].trim();
-    if (ip && ip !== '') {
-      return ip;
-    }
+export interface TrustedProxyConfig {
+  proxies: string[]; // IPs or CIDR ranges (TRUSTED_PROXIES, comma separated)
+  hops: number; // Fixed number of proxies in front of the app (TRUSTED_PROXY_HOPS, 0 = skip trusted addresses)
+}
+
+export const trustedProxyConfig: TrustedProxyConfig = {
+  proxies: (process.env.TRUSTED_PROXIES ?? '127.0.0.1,::1')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== ''),
+  hops: parseInt(process.env.TRUSTED_PROXY_HOPS || '0', 10),
+};
+
+export interface ResolvedClientIp {
+  clientIp: string; // Resolved client IP (from forwarding headers when sent by a trusted proxy)
+  socketIp: string; // TCP peer address
+}
+
+let trustedProxyMatcher: ((ip: string) => boolean) | null = null;
+
+const isTrustedProxy = (ip: string): boolean => {
+  if (!trustedProxyMatcher) {
+    trustedProxyMatcher = createIpMatcher(trustedProxyConfig.proxies);
+  }
+  return trustedProxyMatcher(ip);
+};
+
+const getHeaderValues = (value: string | string[] | undefined): string[] => {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value])
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+};
+
+/**
+ * Pick the client IP from an X-Forwarded-For chain sent by a trusted proxy
+ * Walks from the right (entries added by our own proxies) - the left side is client-controlled
+ */
+const getClientIpFromForwardedFor = (forwardedFor: string[], socketIp: string): string | null => {
+  const chain = [...forwardedFor, socketIp];
+
+  if (trustedProxyConfig.hops > 0) {
+    // Exactly `hops` proxies in front of the app - the client is the entry before them
+    return normalizeIpAddress(chain[Math.max(chain.length - 1 - trustedProxyConfig.hops, 0)]);
   }
 
-  const realIp = headers['x-real-ip'];
-  if (realIp) {
-    const ip = Array.isArray(realIp) ? realIp[0] : realIp;
-    if (ip && ip !== '') {
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const ip = normalizeIpAddress(chain[i]);
+    if (!ip) {
+      return null; // Malformed entry - nothing to its left can be trusted
+    }
+    if (!isTrustedProxy(ip)) {
       return ip;
     }
   }
 
-  const cfConnectingIp = headers['cf-connecting-ip'];
-  if (cfConnectingIp) {
-    const ip = Array.isArray(cfConnectingIp) ? cfConnectingIp[0] : cfConnectingIp;
-    if (ip && ip !== '') {
-      return ip;
+  // Every hop is a trusted proxy (e.g., internal health checks)
+  return normalizeIpAddress(chain[0]);
+};
+
+/**
+ * Resolve the client IP and the socket (TCP peer) address of a request
+ * X-Forwarded-For, X-Real-IP and CF-Connecting-IP are ignored unless the peer is a trusted proxy
+ */
+export const resolveClientIp = (
+  headers: Record<string, string | string[] | undefined>,
+  socket?: { remoteAddress?: string }
+): ResolvedClientIp => {
+  const socketIp = socket?.remoteAddress ? normalizeIpAddress(socket.remoteAddress) : null;
+
+  if (!socketIp) {
+    logger.warn('[Audit] Could not determine socket address, using unknown');
+    return { clientIp: 'unknown', socketIp: 'unknown' };
+  }
+
+  if (!isTrustedProxy(socketIp)) {
+    return { clientIp: socketIp, socketIp };
+  }
+
+  // Priority order for IP detection behind trusted proxies
+  const forwardedFor = getHeaderValues(headers['x-forwarded-for']);
+  if (forwardedFor.length > 0) {
+    const ip = getClientIpFromForwardedFor(forwardedFor, socketIp);
+    if (ip) {
+      return { clientIp: ip, socketIp };
     }
   }
 
-  // Fallback to socket remote address if available
-  if (socket?.remoteAddress) {
-    // Handle IPv6-mapped IPv4 addresses (::ffff:127.0.0.1 -> 127.0.0.1)
-    const ip = socket.remoteAddress.replace(/^::ffff:/, '');
-    if (ip && ip !== '') {
-      return ip;
+  for (const header of ['x-real-ip', 'cf-connecting-ip']) {
+    const [value] = getHeaderValues(headers[header]);
+    const ip = value ? normalizeIpAddress(value) : null;
+    if (ip) {
+      return { clientIp: ip, socketIp };
     }
   }
 
-  // Last resort fallback
-  logger.warn('[Audit] Could not extract IP from headers or socket, using unknown');
-  return 'unknown';
+  return { clientIp: socketIp, socketIp };
+};
+
+/**
+ * Extract client IP address (trusted-proxy aware) with socket fallback
+ */
+export const extractIpAddress = (
+  headers: Record<string, string | string[] | undefined>,
+  socket?: { remoteAddress?: string }
+): string => {
+  return resolveClientIp(headers, socket).clientIp;
 };
 
 /**
@@ -103,8 +170,129 @@ export const getActionTypeFromPath = (path: string, method: string): string | nu
   if (lowerPath.includes('/auth/logout')) {
     return 'logout';
   }
+  if (lowerPath.includes('/auth/token/refresh')) {
+    return 'token_refresh';
+  }
+  if (lowerPath.includes('/auth/password/change')) {
+    return 'change_password';
+  }
+  const contactChange = lowerPath.match(/\/auth\/(email|mobile)\/change\/(request|verify)/);
+  if (contactChange) {
+    return `change_${contactChange[1]}_${contactChange[2]}`;
+  }
+  if (lowerPath.includes('/auth/unlock/')) {
+    return `unlock_${lowerPath.split('/auth/unlock/')[1].split(/[/?]/)[0]}`;
+  }
+  if (lowerPath.includes('/auth/mfa/totp/')) {
+    return `totp_${lowerPath.split('/auth/mfa/totp/')[1].split(/[/?]/)[0].replace(/-/g, '_')}`;
+  }
+  const mfaAction = lowerPath.match(/\/auth\/mfa(?:\/([a-z/]+))?(?:\?|$)/);
+  if (mfaAction) {
+    if (mfaAction[1]) {
+      return `mfa_${mfaAction[1].replace(/\//g, '_')}`;
+    }
+    return 'get_mfa_settings';
+  }
+
+  // Admin user management
+  if (lowerPath.includes('/admin/setup')) {
+    return 'admin_setup';
+  }
+  const adminUserAction = lowerPath.match(/\/admin\/admins(?:\/\d+)?(?:\/([a-z-]+))?(?:\?|$)/);
+  if (adminUserAction) {
+    if (adminUserAction[1]) {
+      return adminUserAction[1] === 'role' ? 'admin_change_role' : `admin_${adminUserAction[1].replace(/-/g, '_')}`;
+    }
+    if (lowerMethod === 'post') {
+      return 'admin_invite';
+    }
+    return /\/admin\/admins\/\d+/.test(lowerPath) ? 'admin_get_admin' : 'admin_list_admins';
+  }
+
+  // Maker-checker approval queue
+  const pendingChangeAction = lowerPath.match(/\/admin\/pending-changes(?:\/\d+)?(?:\/([a-z]+))?(?:\?|$)/);
+  if (pendingChangeAction) {
+    if (pendingChangeAction[1]) {
+      return `pending_change_${pendingChangeAction[1]}`;
+    }
+    return /\/admin\/pending-changes\/\d+/.test(lowerPath) ? 'pending_change_get' : 'pending_change_list';
+  }
+
+  // KYC/KYB documents (admin review queue)
+  const adminDocumentAction = lowerPath.match(/\/admin\/documents(?:\/\d+)?(?:\/([a-z]+))?(?:\?|$)/);
+  if (adminDocumentAction) {
+    return adminDocumentAction[1] === 'file' ? 'document_review_download' : `document_${adminDocumentAction[1] || 'review_list'}`;
+  }
+
+  // KYC/KYB documents (merchant uploads)
+  const merchantDocumentAction = lowerPath.match(/\/merchant\/documents(?:\/\d+)?(?:\/([a-z]+))?(?:\?|$)/);
+  if (merchantDocumentAction) {
+    if (merchantDocumentAction[1] === 'file') {
+      return 'document_download';
+    }
+    if (lowerMethod === 'post') {
+      return 'document_upload';
+    }
+    return lowerMethod === 'delete' ? 'document_delete' : 'list_documents';
+  }
+
+  // KYB verification of PAN / GSTIN / CIN
+  const kybAction = lowerPath.match(/\/admin\/merchants\/[^/?]+\/kyb(?:\/([a-z]+))?(?:\?|$)/);
+  if (kybAction) {
+    return kybAction[1] ? `kyb_${kybAction[1]}` : 'get_kyb_verification';
+  }
+
+  // Settlement accounts (merchant penny drop) and settlement activation (admin)
+  const merchantSettlementAction = lowerPath.match(/\/merchant\/settlement-accounts(?:\/\d+)?(?:\/([a-z]+))?(?:\?|$)/);
+  if (merchantSettlementAction) {
+    if (merchantSettlementAction[1]) {
+      return `settlement_account_${merchantSettlementAction[1]}`;
+    }
+    if (lowerMethod === 'post') {
+      return 'settlement_account_add';
+    }
+    return lowerMethod === 'delete' ? 'settlement_account_delete' : 'list_settlement_accounts';
+  }
+  const adminSettlementAction = lowerPath.match(/\/admin\/merchants\/[^/?]+\/settlement(?:-accounts|\/([a-z]+))(?:\?|$)/);
+  if (adminSettlementAction) {
+    return adminSettlementAction[1] ? `settlement_${adminSettlementAction[1]}` : 'get_settlement_accounts';
+  }
+
+  // Merchant lifecycle status (merchant submit, admin review / suspend / reinstate)
+  const merchantStatusAction = lowerPath.match(/\/merchants?(?:\/[^/?]+)?\/status(?:\/([a-z]+))?(?:\?|$)/);
+  if (merchantStatusAction) {
+    return merchantStatusAction[1] ? `merchant_status_${merchantStatusAction[1]}` : 'get_merchant_status';
+  }
 
   // Merchant actions
+  const tpinAction = lowerPath.match(/\/merchant\/tpin(?:\/([a-z/]+))?/);
+  if (tpinAction) {
+    if (tpinAction[1]) {
+      return `tpin_${tpinAction[1].replace(/\//g, '_')}`;
+    }
+    return lowerMethod === 'post' ? 'tpin_set' : 'get_tpin_status';
+  }
+  if (lowerPath.includes('/merchant/ip-allowlist/')) {
+    return `ip_allowlist_${lowerPath.split('/merchant/ip-allowlist/')[1].split(/[/?]/)[0]}`;
+  }
+  if (lowerPath.includes('/merchant/ip-allowlist')) {
+    return 'get_ip_allowlist';
+  }
+  if (lowerPath.includes('/merchant/api-keys/verify')) {
+    return 'api_key_verify';
+  }
+  if (lowerPath.includes('/merchant/api-keys')) {
+    if (lowerPath.includes('/rotate')) {
+      return 'rotate_api_key';
+    }
+    if (lowerMethod === 'post') {
+      return 'create_api_key';
+    }
+    if (lowerMethod === 'delete') {
+      return 'revoke_api_key';
+    }
+    return 'list_api_keys';
+  }
   if (lowerPath.includes('/merchant') && lowerMethod === 'get') {
     return 'get_merchant';
   }
@@ -124,7 +312,8 @@ export interface AuditLogData {
   userId?: number;
   merchantId?: string;
   email?: string;
-  ipAddress: string;
+  ipAddress: string; // Resolved client IP
+  socketIpAddress?: string; // TCP peer address (the proxy when behind one)
   userAgent?: string;
   requestMethod: string;
   requestPath: string;
@@ -1,10 +1,13 @@
 import jwt, { SignOptions } from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { getJwtKeyRing } from './jwtKeys';
 
+// HS256 secret - only used when JWT_SIGNING_KEYS is not set outside production
 const JWT_SECRET = process.env.JWT_SECRET || 'default-secret-change-in-production';
-// Force 10 minutes expiry for security - sliding session handles refresh
+// Force 10 minutes expiry for security - clients renew via refresh token rotation
 // Production should NOT override this with longer expiry times
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '10m'; // 10 minutes for sliding session
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '10m'; // 10 minutes short-lived access token
 // Validate that expiry is not too long (max 1 hour for security)
 const MAX_EXPIRY_SECONDS = 3600; // 1 hour maximum
 const BCRYPT_ROUNDS = parseInt(process.env.BCRYPT_ROUNDS || '12', 10);
@@ -35,7 +38,7 @@ const parseExpiryTime = (expiresIn: string): string => {
   
   // Warn if expiry is too long (security risk)
   if (seconds > MAX_EXPIRY_SECONDS) {
-    console.warn(`[Auth] WARNING: JWT_EXPIRES_IN is set to ${expiresIn} (${seconds}s), which exceeds maximum recommended ${MAX_EXPIRY_SECONDS}s (1 hour). This is a security risk. Consider using 10m with sliding session.`);
+    console.warn(`[Auth] WARNING: JWT_EXPIRES_IN is set to ${expiresIn} (${seconds}s), which exceeds maximum recommended ${MAX_EXPIRY_SECONDS}s (1 hour). This is a security risk. Consider using 10m with refresh tokens.`);
   }
   
   return expiresIn;
@@ -43,6 +46,25 @@ const parseExpiryTime = (expiresIn: string): string => {
 
 const validatedExpiresIn = parseExpiryTime(JWT_EXPIRES_IN);
 
+/**
+ * Convert an expiry string (e.g., "10m") to seconds
+ */
+const expiryToSeconds = (expiresIn: string): number => {
+  const match = expiresIn.match(/^(\d+)([smhd])$/);
+  if (!match) return 600;
+  const value = parseInt(match[1], 10);
+  const multipliers: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+  return value * multipliers[match[2]];
+};
+
+/**
+ * Lifetime of an issued access token in seconds
+ * Used to size Redis TTLs for revocation entries
+ */
+export const getTokenLifetimeSeconds = (): number => {
+  return expiryToSeconds(validatedExpiresIn);
+};
+
 export interface JWTPayload {
   userId: string;
   merchantId: string; // nineteen_merchant_id
@@ -50,28 +72,59 @@ export interface JWTPayload {
   email: string;
   kycVerified: boolean;
   isActive: boolean;
+  jti?: string; // Unique token ID - used for server-side revocation
+  sid?: string; // Session (refresh token family) ID
+  iatMs?: number; // Issue time in milliseconds - iat is whole seconds, too coarse for revoke-all checks
   iat?: number;
   exp?: number;
 }
 
-export const generateToken = (payload: Omit<JWTPayload, 'iat' | 'exp'>): string => {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: validatedExpiresIn } as SignOptions);
-};
+/**
+ * Sign an access token with the active key (RS256/ES256, kid header)
+ */
+export const generateToken = (payload: Omit<JWTPayload, 'iat' | 'iatMs' | 'exp' | 'jti'>): string => {
+  const { signingKey, keys } = getJwtKeyRing();
+  const claims = { ...payload, iatMs: Date.now() };
 
-export const verifyToken = (token: string): JWTPayload => {
-  return jwt.verify(token, JWT_SECRET) as JWTPayload;
+  if (keys.size === 0) {
+    return jwt.sign(claims, JWT_SECRET, {
+      algorithm: 'HS256',
+      expiresIn: validatedExpiresIn,
+      jwtid: crypto.randomUUID(),
+    } as SignOptions);
+  }
+
+  if (!signingKey) {
+    throw new Error('No private signing key configured (JWT_SIGNING_KEYS)');
+  }
+
+  return jwt.sign(claims, signingKey.privateKey!, {
+    algorithm: signingKey.algorithm,
+    keyid: signingKey.kid,
+    expiresIn: validatedExpiresIn,
+    jwtid: crypto.randomUUID(),
+  } as SignOptions);
 };
 
 /**
- * Check if token should be refreshed (within 2 minutes of expiry)
- * Returns true if token should be refreshed
+ * Verify an access token against the key named in its kid header
+ * The algorithm is pinned to the key's type - tokens can't choose their own
  */
-export const shouldRefreshToken = (payload: JWTPayload): boolean => {
-  if (!payload.exp) return true;
-  const now = Math.floor(Date.now() / 1000);
-  const timeUntilExpiry = payload.exp - now;
-  // Refresh if less than 2 minutes remaining
-  return timeUntilExpiry < 120;
+export const verifyToken = (token: string): JWTPayload => {
+  const { keys } = getJwtKeyRing();
+
+  if (keys.size === 0) {
+    return jwt.verify(token, JWT_SECRET, { algorithms: ['HS256'] }) as JWTPayload;
+  }
+
+  const decoded = jwt.decode(token, { complete: true });
+  const key = decoded?.header.kid ? keys.get(decoded.header.kid) : undefined;
+
+  if (!key) {
+    throw new jwt.JsonWebTokenError('Unknown token signing key');
+  }
+
+  return jwt.verify(token, key.publicKey, { algorithms: [key.algorithm] }) as JWTPayload;
 };
 
 export const hashPassword = async (password: string): Promise<string> => {
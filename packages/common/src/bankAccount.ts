@@ -0,0 +1,54 @@
+import { ValidationError } from './errors';
+import { IFSC_BANK_CODES } from './ifscBanks';
+
+// HDFC0001234 - bank code, always "0", branch code
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+// Indian bank account numbers are 9 to 18 digits
+const ACCOUNT_NUMBER_PATTERN = /^[0-9]{9,18}$/;
+
+/**
+ * Bank name for an IFSC from the bundled bank code table (null if the bank is unknown)
+ */
+export const getBankNameFromIfsc = (ifsc: string): string | null =>
+  IFSC_BANK_CODES[ifsc.trim().toUpperCase().slice(0, 4)] ?? null;
+
+/**
+ * IFSC format check with a known bank code
+ */
+export const isValidIfsc = (ifsc: string): boolean => {
+  const value = ifsc.trim().toUpperCase();
+  return IFSC_PATTERN.test(value) && getBankNameFromIfsc(value) !== null;
+};
+
+/**
+ * Normalize and validate an IFSC (uppercase, known bank code)
+ * @throws ValidationError if the format is wrong or the bank code is not in the IFSC table
+ */
+export const normalizeIfsc = (ifsc: string): string => {
+  const value = ifsc.trim().toUpperCase();
+  if (!IFSC_PATTERN.test(value)) {
+    throw new ValidationError(`Invalid IFSC "${value}". Expected format: HDFC0001234 (5th character is always 0)`);
+  }
+  if (getBankNameFromIfsc(value) === null) {
+    throw new ValidationError(`Unknown bank code "${value.slice(0, 4)}" in IFSC ${value}`);
+  }
+  return value;
+};
+
+/**
+ * Normalize and validate a bank account number (spaces and dashes removed)
+ * @throws ValidationError if it is not 9-18 digits
+ */
+export const normalizeAccountNumber = (accountNumber: string): string => {
+  const value = accountNumber.replace(/[\s-]/g, '');
+  if (!ACCOUNT_NUMBER_PATTERN.test(value) || /^0+$/.test(value)) {
+    throw new ValidationError('Account number must be 9 to 18 digits');
+  }
+  return value;
+};
+
+/**
+ * Mask an account number for display (XXXXXX1234)
+ */
+export const maskAccountNumber = (last4: string): string => `XXXXXX${last4}`;
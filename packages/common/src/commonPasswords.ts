@@ -0,0 +1,41 @@
+/**
+ * Offline list of the most common / breached passwords (lowercase)
+ * Compiled from public breach corpora top lists - checked without any network call
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456', '123456789', '12345678', '12345', '1234567', '1234567890', '123123', '111111',
+  '000000', '654321', '666666', '121212', '112233', '123321', '987654321', '1q2w3e4r',
+  '1q2w3e', '1q2w3e4r5t', 'qwerty', 'qwerty123', 'qwerty1', 'qwertyuiop', 'qwe123', 'qweasd',
+  'qweasdzxc', 'asdfgh', 'asdfghjkl', 'asdf1234', 'zxcvbnm', 'zxcvbn', '1qaz2wsx', 'zaq12wsx',
+  'password', 'password1', 'password12', 'password123', 'passw0rd', 'p@ssw0rd', 'p@ssword', 'pass123',
+  'pass@123', 'password@123', 'admin', 'admin123', 'admin@123', 'administrator', 'root', 'toor',
+  'welcome', 'welcome1', 'welcome123', 'welcome@123', 'letmein', 'letmein1', 'iloveyou', 'iloveyou1',
+  'princess', 'sunshine', 'monkey', 'dragon', 'football', 'baseball', 'soccer', 'hockey',
+  'master', 'shadow', 'superman', 'batman', 'trustno1', 'michael', 'jennifer', 'jordan',
+  'jordan23', 'hunter', 'hunter2', 'ranger', 'buster', 'thomas', 'tigger', 'robert',
+  'soccer1', 'harley', 'charlie', 'andrew', 'daniel', 'george', 'computer', 'michelle',
+  'jessica', 'pepper', 'freedom', 'ginger', 'summer', 'ashley', 'nicole', 'chelsea',
+  'biteme', 'matthew', 'access', 'yankees', 'dallas', 'austin', 'thunder', 'taylor',
+  'matrix', 'mobilemail', 'mustang', 'starwars', 'whatever', 'flower', 'secret', 'secret123',
+  'login', 'login123', 'abc123', 'abcd1234', 'abc@123', 'abcdef', 'abcdefg', 'abcdefgh',
+  'a1b2c3', 'a1b2c3d4', 'aa123456', 'aa12345678', 'loveme', 'love123', 'lovely', 'hello',
+  'hello123', 'hellohello', 'test', 'test123', 'test@123', 'testing', 'testing123', 'changeme',
+  'changeit', 'default', 'guest', 'user', 'user123', 'demo', 'demo123', 'temp123',
+  'money', 'money123', 'pa55word', 'pa$$word', 'passport', 'killer', 'cheese', 'cookie',
+  'samsung', 'google', 'facebook', 'linkedin', 'apple', 'banana', 'orange', 'chocolate',
+  'internet', 'service', 'qazwsx', 'qazwsxedc', 'zxcasdqwe', '1234qwer', 'qwer1234', 'q1w2e3r4',
+  'q1w2e3r4t5', '147258369', '159753', '147258', '741852963', '789456123', '456789', '11111111',
+  '88888888', '99999999', '12121212', '00000000', '55555555', '77777777', '12341234', '123qwe',
+  '123abc', '123456a', '123456q', 'a123456', 'a123456789', 'qwerty12', 'qwerty123456', 'asd123',
+  'india', 'india123', 'india@123', 'bharat', 'mumbai', 'delhi', 'bangalore', 'chennai',
+  'hyderabad', 'kolkata', 'pune', 'krishna', 'ganesh', 'shiva', 'sairam', 'omsairam',
+  'jaihind', 'jaishreeram', 'sachin', 'cricket', 'cricket123', 'rahul', 'priya', 'pooja',
+  'nineteen', 'nineteenpay', 'merchant', 'merchant123', 'payment', 'payments', 'paytm', 'upi',
+  'company', 'business', 'office', 'office123', 'finance', 'account', 'account123', 'bank',
+  'bank123', 'banking', 'success', 'success123', 'welcome2024', 'welcome2025', 'welcome2026', 'summer2024',
+  'summer2025', 'winter2024', 'winter2025', 'spring2025', 'autumn2025', 'january', 'february', 'december',
+  'monday', 'friday', 'sunday', 'superstar', 'rockstar', 'starlight', 'blessed', 'family',
+  'friends', 'forever', 'angel', 'angels', 'baby', 'babygirl', 'sweet', 'sweetheart',
+  'qwerty!', 'zaq1zaq1', 'pokemon', 'naruto', 'minecraft', 'fortnite', 'letmein!', 'security',
+  'private', 'passwd', 'system', 'server', 'oracle', 'mysql', 'postgres', 'database',
+]);
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { logger } from './logger';
+
+/**
+ * Encrypts and decrypts one kind of secret field (AES-256-GCM, stored as "iv:authTag:ciphertext" hex)
+ */
+export interface FieldCipher {
+  encrypt(plaintext: string): string;
+  decrypt(stored: string): string;
+}
+
+/**
+ * AES-256 key from the configured key material
+ * There is no fallback - a field type without its own key can't be encrypted or read
+ */
+const getKey = (keyMaterial: string, keyName: string): Buffer => {
+  if (!keyMaterial) {
+    throw new Error(`[Encryption] ${keyName} is not set`);
+  }
+  return crypto.createHash('sha256').update(keyMaterial).digest();
+};
+
+/**
+ * Cipher for a field type, keyed by its own environment variable (e.g. TOTP_ENCRYPTION_KEY)
+ * The key is checked on use, so development can run without keys for unused features
+ */
+export const createFieldCipher = (keyMaterial: string, keyName: string): FieldCipher => ({
+  encrypt(plaintext) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', getKey(keyMaterial, keyName), iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted.toString('hex')}`;
+  },
+
+  decrypt(stored) {
+    const [iv, authTag, encrypted] = stored.split(':');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(keyMaterial, keyName), Buffer.from(iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'hex')), decipher.final()]).toString('utf8');
+  },
+});
+
+/**
+ * Keyed hash (HMAC-SHA256, hex) for looking up or checking values without storing them
+ * A purpose label derives a separate HMAC key, so the hash never runs under the encryption key itself
+ */
+export const createKeyedHash = (keyMaterial: string, keyName: string, purpose?: string) => (value: string): string => {
+  const baseKey = getKey(keyMaterial, keyName);
+  const key = purpose ? crypto.createHmac('sha256', baseKey).update(purpose).digest() : baseKey;
+  return crypto.createHmac('sha256', key).update(value).digest('hex');
+};
+
+/**
+ * Fail fast at service startup when encryption or hashing keys are missing (production)
+ * Outside production a warning is logged and only the features using the key fail
+ */
+export const assertEncryptionKeysConfigured = (keys: Record<string, string>): void => {
+  const missing = Object.keys(keys).filter((keyName) => !keys[keyName]);
+
+  if (missing.length === 0) {
+    return;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`[Encryption] ${missing.join(', ')} must be set in production`);
+  }
+
+  logger.warn(`[Encryption] ${missing.join(', ')} not set. Data protected with these keys can't be written or read.`);
+};
@@ -51,6 +51,16 @@ export class UnprocessableEntityError extends AppError {
   }
 }
 
+/**
+ * Locked Error (423)
+ * Used when an account is temporarily locked after repeated failed sign-ins
+ */
+export class AccountLockedError extends AppError {
+  constructor(message: string, public lockedUntil?: Date) {
+    super(423, message);
+  }
+}
+
 /**
  * Precondition Required Error (428)
  * Used when account verification is required before access
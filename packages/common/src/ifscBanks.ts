@@ -0,0 +1,84 @@
+/**
+ * Offline table of IFSC bank codes (first four IFSC characters) to bank names
+ * Covers public sector, private, small finance, payments and major foreign banks - checked without any network call
+ */
+export const IFSC_BANK_CODES: Readonly<Record<string, string>> = {
+  // Public sector banks
+  SBIN: 'State Bank of India',
+  PUNB: 'Punjab National Bank',
+  BARB: 'Bank of Baroda',
+  CNRB: 'Canara Bank',
+  UBIN: 'Union Bank of India',
+  BKID: 'Bank of India',
+  IDIB: 'Indian Bank',
+  CBIN: 'Central Bank of India',
+  IOBA: 'Indian Overseas Bank',
+  UCBA: 'UCO Bank',
+  MAHB: 'Bank of Maharashtra',
+  PSIB: 'Punjab & Sind Bank',
+
+  // Private sector banks
+  HDFC: 'HDFC Bank',
+  ICIC: 'ICICI Bank',
+  UTIB: 'Axis Bank',
+  KKBK: 'Kotak Mahindra Bank',
+  INDB: 'IndusInd Bank',
+  YESB: 'Yes Bank',
+  IDFB: 'IDFC First Bank',
+  FDRL: 'Federal Bank',
+  SIBL: 'South Indian Bank',
+  KARB: 'Karnataka Bank',
+  KVBL: 'Karur Vysya Bank',
+  CIUB: 'City Union Bank',
+  TMBL: 'Tamilnad Mercantile Bank',
+  DCBL: 'DCB Bank',
+  RATN: 'RBL Bank',
+  BDBL: 'Bandhan Bank',
+  CSBK: 'CSB Bank',
+  DLXB: 'Dhanlaxmi Bank',
+  JAKA: 'Jammu & Kashmir Bank',
+  NTBL: 'Nainital Bank',
+  IBKL: 'IDBI Bank',
+
+  // Small finance banks
+  AUBL: 'AU Small Finance Bank',
+  ESFB: 'Equitas Small Finance Bank',
+  UJVN: 'Ujjivan Small Finance Bank',
+  JSFB: 'Jana Small Finance Bank',
+  SURY: 'Suryoday Small Finance Bank',
+  UTKS: 'Utkarsh Small Finance Bank',
+  ESMF: 'ESAF Small Finance Bank',
+  FSFB: 'Fincare Small Finance Bank',
+  NESF: 'North East Small Finance Bank',
+  SMCB: 'Shivalik Small Finance Bank',
+
+  // Payments banks
+  AIRP: 'Airtel Payments Bank',
+  PYTM: 'Paytm Payments Bank',
+  IPOS: 'India Post Payments Bank',
+  FINO: 'Fino Payments Bank',
+  JIOP: 'Jio Payments Bank',
+  NSPB: 'NSDL Payments Bank',
+
+  // Foreign banks
+  SCBL: 'Standard Chartered Bank',
+  CITI: 'Citibank',
+  HSBC: 'HSBC',
+  DBSS: 'DBS Bank India',
+  DEUT: 'Deutsche Bank',
+  BARC: 'Barclays Bank',
+  BOFA: 'Bank of America',
+  CHAS: 'JPMorgan Chase Bank',
+  MHCB: 'Mizuho Bank',
+  BNPA: 'BNP Paribas',
+
+  // Cooperative banks with their own IFSC code
+  SVCB: 'SVC Co-operative Bank',
+  SRCB: 'Saraswat Co-operative Bank',
+  COSB: 'Cosmos Co-operative Bank',
+  ABHY: 'Abhyudaya Co-operative Bank',
+  TJSB: 'TJSB Sahakari Bank',
+  NKGS: 'NKGSB Co-operative Bank',
+  HPSC: 'Himachal Pradesh State Co-operative Bank',
+  GSCB: 'Gujarat State Co-operative Bank',
+};
@@ -2,6 +2,14 @@ export * from './logger';
 export * from './errors';
 export * from './validation';
 export * from './auth';
+export * from './encryption';
+export * from './jwtKeys';
+export * from './passwordPolicy';
+export * from './otp';
+export * from './ipAllowlist';
+export * from './kybIdentifiers';
+export * from './bankAccount';
+export * from './tokenRevocation';
 export * from './utils';
 export * from './redis';
 export * from './rateLimit';
@@ -0,0 +1,142 @@
+import net from 'net';
+import { ValidationError } from './errors';
+
+/**
+ * Maximum entries in a merchant IP allowlist
+ */
+export const MAX_IP_ALLOWLIST_ENTRIES = 20;
+
+// Broadest CIDR ranges accepted - wider ranges defeat the purpose of an allowlist
+const MIN_PREFIX_LENGTH = { ipv4: 16, ipv6: 48 };
+
+interface AllowlistEntry {
+  address: string;
+  prefix: number;
+  family: 'ipv4' | 'ipv6';
+}
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix (e.g., "::ffff:10.0.0.1" from dual-stack sockets)
+ */
+const unmapIpv4 = (ip: string): string => {
+  const lower = ip.trim().toLowerCase();
+  return lower.startsWith('::ffff:') && net.isIPv4(lower.substring(7)) ? lower.substring(7) : lower;
+};
+
+/**
+ * Parse an allowlist entry - a single IP or a CIDR range ("203.0.113.0/24", "2001:db8::/48")
+ */
+const parseAllowlistEntry = (entry: string): AllowlistEntry | null => {
+  const [rawAddress, rawPrefix, ...rest] = entry.trim().split('/');
+  if (rest.length > 0) return null;
+
+  const address = unmapIpv4(rawAddress);
+  const family = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+  if (!family) return null;
+
+  const maxPrefix = family === 'ipv4' ? 32 : 128;
+  if (rawPrefix === undefined) {
+    return { address, prefix: maxPrefix, family };
+  }
+
+  if (!/^\d{1,3}$/.test(rawPrefix)) return null;
+  const prefix = parseInt(rawPrefix, 10);
+  if (prefix > maxPrefix) return null;
+
+  return { address, prefix, family };
+};
+
+/**
+ * Validate and normalize an allowlist (trimmed, lower-cased, de-duplicated)
+ * Throws ValidationError naming every invalid or overly broad entry
+ */
+export const normalizeIpAllowlist = (entries: unknown): string[] => {
+  if (!Array.isArray(entries)) {
+    throw new ValidationError('IP allowlist must be an array of IP addresses or CIDR ranges');
+  }
+
+  if (entries.length > MAX_IP_ALLOWLIST_ENTRIES) {
+    throw new ValidationError(`IP allowlist can have at most ${MAX_IP_ALLOWLIST_ENTRIES} entries`);
+  }
+
+  const invalid: string[] = [];
+  const tooBroad: string[] = [];
+  const normalized: string[] = [];
+
+  for (const entry of entries) {
+    const parsed = typeof entry === 'string' ? parseAllowlistEntry(entry) : null;
+    if (!parsed) {
+      invalid.push(String(entry));
+      continue;
+    }
+
+    if (parsed.prefix < MIN_PREFIX_LENGTH[parsed.family]) {
+      tooBroad.push(entry as string);
+      continue;
+    }
+
+    const maxPrefix = parsed.family === 'ipv4' ? 32 : 128;
+    const value = parsed.prefix === maxPrefix ? parsed.address : `${parsed.address}/${parsed.prefix}`;
+    if (!normalized.includes(value)) {
+      normalized.push(value);
+    }
+  }
+
+  const violations: string[] = [];
+  if (invalid.length > 0) {
+    violations.push(`Invalid IP address or CIDR range: ${invalid.join(', ')}`);
+  }
+  if (tooBroad.length > 0) {
+    violations.push(
+      `CIDR ranges broader than /${MIN_PREFIX_LENGTH.ipv4} (IPv4) or /${MIN_PREFIX_LENGTH.ipv6} (IPv6) are not allowed: ${tooBroad.join(', ')}`
+    );
+  }
+  if (violations.length > 0) {
+    throw new ValidationError(violations.join('. '));
+  }
+
+  return normalized;
+};
+
+/**
+ * Normalize an IP address for comparison (IPv4-mapped IPv6 unwrapped, lower-cased)
+ * Returns null if the value is not an IP address
+ */
+export const normalizeIpAddress = (ip: string): string | null => {
+  const address = unmapIpv4(ip);
+  return net.isIP(address) ? address : null;
+};
+
+/**
+ * Build a matcher for a list of IPs/CIDR ranges (entries that don't parse are ignored)
+ * Build once and reuse - matching against the prepared list is cheap
+ */
+export const createIpMatcher = (entries: unknown[]): ((ip: string) => boolean) => {
+  const blockList = new net.BlockList();
+  for (const entry of entries) {
+    const parsed = typeof entry === 'string' ? parseAllowlistEntry(entry) : null;
+    if (parsed) {
+      blockList.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+
+  return (ip: string): boolean => {
+    const address = normalizeIpAddress(ip);
+    if (!address) {
+      return false;
+    }
+    return blockList.check(address, net.isIPv4(address) ? 'ipv4' : 'ipv6');
+  };
+};
+
+/**
+ * Check if an IP is covered by an allowlist
+ * Stored entries that don't parse are ignored; an empty or missing allowlist allows nothing
+ */
+export const isIpAllowlisted = (ip: string, allowlist: unknown): boolean => {
+  if (!Array.isArray(allowlist) || allowlist.length === 0) {
+    return false;
+  }
+
+  return createIpMatcher(allowlist)(ip);
+};
@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { logger } from './logger';
+
+export type JwtSigningAlgorithm = 'RS256' | 'ES256';
+
+// Key used to sign or verify access tokens, identified by the kid header
+export interface JwtKey {
+  kid: string;
+  algorithm: JwtSigningAlgorithm;
+  publicKey: crypto.KeyObject;
+  privateKey: crypto.KeyObject | null; // null for retired keys kept only to verify tokens still in flight
+}
+
+export interface JwtKeyRing {
+  signingKey: JwtKey | null; // null in verify-only services (public keys only) and the development HS256 fallback
+  keys: Map<string, JwtKey>; // Empty only in the development HS256 fallback
+}
+
+// Public key in JSON Web Key format (RFC 7517)
+export interface PublicJwk {
+  kid: string;
+  kty: string;
+  use: 'sig';
+  alg: JwtSigningAlgorithm;
+  n?: string;
+  e?: string;
+  crv?: string;
+  x?: string;
+  y?: string;
+}
+
+const MIN_RSA_MODULUS_BITS = 2048;
+const KID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+let keyRing: JwtKeyRing | null = null;
+
+/**
+ * Algorithm for a key - RSA (2048+ bits) signs with RS256, EC P-256 with ES256
+ */
+const getKeyAlgorithm = (kid: string, publicKey: crypto.KeyObject): JwtSigningAlgorithm => {
+  if (publicKey.asymmetricKeyType === 'rsa') {
+    const modulusLength = publicKey.asymmetricKeyDetails?.modulusLength || 0;
+    if (modulusLength < MIN_RSA_MODULUS_BITS) {
+      throw new Error(`[JWT Keys] Key "${kid}" is ${modulusLength}-bit RSA. At least ${MIN_RSA_MODULUS_BITS} bits are required.`);
+    }
+    return 'RS256';
+  }
+
+  if (publicKey.asymmetricKeyType === 'ec' && publicKey.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+
+  throw new Error(`[JWT Keys] Key "${kid}" must be an RSA or EC P-256 key`);
+};
+
+/**
+ * Load a PEM file - private keys can sign, public keys only verify
+ */
+const loadKey = (kid: string, path: string): JwtKey => {
+  if (!KID_PATTERN.test(kid)) {
+    throw new Error(`[JWT Keys] Invalid key ID "${kid}". Use 1-64 letters, digits, ".", "_" or "-".`);
+  }
+
+  const pem = fs.readFileSync(path, 'utf8');
+  const isPrivate = pem.includes('PRIVATE KEY');
+  const privateKey = isPrivate ? crypto.createPrivateKey(pem) : null;
+  const publicKey = privateKey ? crypto.createPublicKey(privateKey) : crypto.createPublicKey(pem);
+
+  return { kid, algorithm: getKeyAlgorithm(kid, publicKey), publicKey, privateKey };
+};
+
+/**
+ * Build the key ring from JWT_SIGNING_KEYS (comma separated kid=path/to/key.pem)
+ * The first key signs new tokens when it is a private key; the others stay valid for
+ * verification so tokens signed before a rotation keep working until they expire.
+ * Services that only verify tokens list public keys.
+ */
+const buildKeyRing = (): JwtKeyRing => {
+  const entries = (process.env.JWT_SIGNING_KEYS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+
+  const keys = new Map<string, JwtKey>();
+
+  for (const entry of entries) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`[JWT Keys] Invalid JWT_SIGNING_KEYS entry "${entry}". Expected kid=path/to/key.pem`);
+    }
+
+    const kid = entry.slice(0, separator).trim();
+    if (keys.has(kid)) {
+      throw new Error(`[JWT Keys] Duplicate key ID "${kid}" in JWT_SIGNING_KEYS`);
+    }
+
+    keys.set(kid, loadKey(kid, entry.slice(separator + 1).trim()));
+  }
+
+  if (keys.size === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('[JWT Keys] JWT_SIGNING_KEYS is required in production');
+    }
+    logger.warn('[JWT Keys] JWT_SIGNING_KEYS not set. Falling back to HS256 with JWT_SECRET (development only).');
+    return { signingKey: null, keys };
+  }
+
+  const firstKey = keys.values().next().value as JwtKey;
+  const signingKey = firstKey.privateKey ? firstKey : null;
+
+  logger.info(
+    signingKey
+      ? `[JWT Keys] Signing with "${signingKey.kid}" (${signingKey.algorithm}). ${keys.size} key(s) accepted for verification.`
+      : `[JWT Keys] Verify-only key ring. ${keys.size} key(s) accepted for verification.`
+  );
+
+  return { signingKey, keys };
+};
+
+/**
+ * Get the JWT key ring (loaded once)
+ * Throws when the keys are misconfigured, or missing in production
+ */
+export const getJwtKeyRing = (): JwtKeyRing => {
+  if (!keyRing) {
+    keyRing = buildKeyRing();
+  }
+  return keyRing;
+};
+
+/**
+ * Fail fast at service startup instead of on the first sign-in
+ * Services that issue tokens need a private key first in JWT_SIGNING_KEYS
+ */
+export const assertJwtKeysConfigured = (options: { signing: boolean } = { signing: true }): void => {
+  const { signingKey, keys } = getJwtKeyRing();
+
+  if (options.signing && keys.size > 0 && !signingKey) {
+    throw new Error('[JWT Keys] The first JWT_SIGNING_KEYS entry must be a private key to issue tokens');
+  }
+};
+
+/**
+ * Public keys for /.well-known/jwks.json - lets other services verify tokens
+ * without sharing any secret
+ */
+export const getJwks = (): { keys: PublicJwk[] } => {
+  const { keys } = getJwtKeyRing();
+
+  return {
+    keys: Array.from(keys.values()).map((key) => {
+      const jwk = key.publicKey.export({ format: 'jwk' });
+      return {
+        kid: key.kid,
+        kty: jwk.kty as string,
+        use: 'sig' as const,
+        alg: key.algorithm,
+        ...(key.algorithm === 'RS256'
+          ? { n: jwk.n, e: jwk.e }
+          : { crv: jwk.crv, x: jwk.x, y: jwk.y }),
+      };
+    }),
+  };
+};
@@ -0,0 +1,105 @@
+import { ValidationError } from './errors';
+
+// AAAPL1234C - 5 letters, 4 digits, check letter. The 4th letter is the holder type.
+const PAN_PATTERN = /^[A-Z]{3}[ABCFGHJLPT][A-Z][0-9]{4}[A-Z]$/;
+
+// 27AAAPL1234C1ZE - state code, PAN, entity number, "Z", check character
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{3}[ABCFGHJLPT][A-Z][0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// U72900KA2015PTC082988 - listing, industry code, state, year, company class, registration number
+const CIN_PATTERN = /^[LU][0-9]{5}[A-Z]{2}[0-9]{4}[A-Z]{3}[0-9]{6}$/;
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// GST state codes: 01-38, 97 (other territory), 99 (centre jurisdiction)
+const isValidGstStateCode = (code: number): boolean => (code >= 1 && code <= 38) || code === 97 || code === 99;
+
+const normalizeIdentifier = (value: string): string => value.trim().toUpperCase();
+
+/**
+ * GSTIN check character - mod 36 over the first 14 characters, weights alternating 1 and 2
+ */
+export const getGstinCheckCharacter = (gstin: string): string => {
+  let sum = 0;
+
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+};
+
+/**
+ * PAN format check. The PAN check letter algorithm is not published, so only the structure is verified.
+ */
+export const isValidPan = (pan: string): boolean => PAN_PATTERN.test(normalizeIdentifier(pan));
+
+/**
+ * GSTIN format, state code and check character
+ */
+export const isValidGstin = (gstin: string): boolean => {
+  const value = normalizeIdentifier(gstin);
+  return (
+    GSTIN_PATTERN.test(value) &&
+    isValidGstStateCode(parseInt(value.slice(0, 2), 10)) &&
+    getGstinCheckCharacter(value) === value[14]
+  );
+};
+
+/**
+ * CIN format, with a plausible year of incorporation
+ */
+export const isValidCin = (cin: string): boolean => {
+  const value = normalizeIdentifier(cin);
+  if (!CIN_PATTERN.test(value)) {
+    return false;
+  }
+
+  const year = parseInt(value.slice(8, 12), 10);
+  return year >= 1850 && year <= new Date().getFullYear();
+};
+
+/**
+ * PAN the GSTIN was issued on
+ */
+export const getPanFromGstin = (gstin: string): string => normalizeIdentifier(gstin).slice(2, 12);
+
+/**
+ * Normalize and validate a PAN (uppercase, no spaces)
+ * @throws ValidationError if the PAN is malformed
+ */
+export const normalizePan = (pan: string): string => {
+  const value = normalizeIdentifier(pan);
+  if (!isValidPan(value)) {
+    throw new ValidationError(`Invalid PAN "${value}". Expected format: AAAPL1234C`);
+  }
+  return value;
+};
+
+/**
+ * Normalize and validate a GSTIN
+ * @throws ValidationError if the format, state code or check character is wrong
+ */
+export const normalizeGstin = (gstin: string): string => {
+  const value = normalizeIdentifier(gstin);
+  if (!GSTIN_PATTERN.test(value) || !isValidGstStateCode(parseInt(value.slice(0, 2), 10))) {
+    throw new ValidationError(`Invalid GSTIN "${value}". Expected format: 27AAAPL1234C1ZE`);
+  }
+  if (getGstinCheckCharacter(value) !== value[14]) {
+    throw new ValidationError(`Invalid GSTIN "${value}" - check character does not match`);
+  }
+  return value;
+};
+
+/**
+ * Normalize and validate a CIN
+ * @throws ValidationError if the CIN is malformed
+ */
+export const normalizeCin = (cin: string): string => {
+  const value = normalizeIdentifier(cin);
+  if (!isValidCin(value)) {
+    throw new ValidationError(`Invalid CIN "${value}". Expected format: U72900KA2015PTC082988`);
+  }
+  return value;
+};
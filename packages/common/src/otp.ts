@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+
+/**
+ * Wrong guesses allowed against a single OTP before it is burned
+ */
+export const MAX_OTP_ATTEMPTS = 5;
+
+/**
+ * Generate a numeric OTP with a CSPRNG (default 6 digits)
+ */
+export const generateOtp = (length = 6): string => {
+  return crypto.randomInt(0, 10 ** length).toString().padStart(length, '0');
+};
+
+/**
+ * Hashes OTPs for storage and checks them - format "salt:hmac" (both hex)
+ */
+export interface OtpHasher {
+  hash(otp: string): string;
+  verify(otp: string, storedHash: string): boolean;
+}
+
+/**
+ * OTP hasher keyed with a server-side secret (OTP_HASH_SECRET) so a leaked table can't be brute-forced offline
+ * There is no fallback - the secret is checked on use, like the field encryption keys
+ */
+export const createOtpHasher = (secret: string, keyName: string): OtpHasher => {
+  const digestOtp = (salt: string, otp: string): Buffer => {
+    if (!secret) {
+      throw new Error(`[OTP] ${keyName} is not set`);
+    }
+    return crypto.createHmac('sha256', secret).update(`${salt}:${otp}`).digest();
+  };
+
+  return {
+    hash(otp) {
+      const salt = crypto.randomBytes(16).toString('hex');
+      return `${salt}:${digestOtp(salt, otp).toString('hex')}`;
+    },
+
+    // Constant-time comparison with the stored hash
+    verify(otp, storedHash) {
+      const [salt, hash] = storedHash.split(':');
+      if (!salt || !hash) return false;
+
+      const expected = Buffer.from(hash, 'hex');
+      const actual = digestOtp(salt, otp);
+      return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+    },
+  };
+};
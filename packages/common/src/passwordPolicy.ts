@@ -0,0 +1,174 @@
+import { comparePassword } from './auth';
+import { ValidationError } from './errors';
+import { COMMON_PASSWORDS } from './commonPasswords';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historySize: number; // Number of previous passwords (including the current one) that can't be reused
+  blockCommonPasswords: boolean;
+}
+
+/**
+ * Context used to reject passwords derived from the user's own details
+ */
+export interface PasswordPolicyContext {
+  email?: string;
+  name?: string;
+  mobile?: string | null;
+  currentPasswordHash?: string; // Hash of the password being replaced (change/reset)
+  passwordHistory?: string[]; // Hashes of earlier passwords, newest first
+}
+
+const envFlag = (name: string, defaultValue: boolean): boolean => {
+  const value = process.env[name];
+  if (value === undefined) return defaultValue;
+  return value === 'true';
+};
+
+export const defaultPasswordPolicy: PasswordPolicy = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '8', 10),
+  maxLength: 72, // bcrypt ignores bytes beyond 72
+  requireUppercase: envFlag('PASSWORD_REQUIRE_UPPERCASE', true),
+  requireLowercase: envFlag('PASSWORD_REQUIRE_LOWERCASE', true),
+  requireDigit: envFlag('PASSWORD_REQUIRE_DIGIT', true),
+  requireSymbol: envFlag('PASSWORD_REQUIRE_SYMBOL', true),
+  historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5', 10),
+  blockCommonPasswords: envFlag('PASSWORD_BLOCK_COMMON', true),
+};
+
+// Parts of the email/name shorter than this are too generic to block (e.g. "in", "raj")
+const MIN_PERSONAL_TOKEN_LENGTH = 4;
+
+const getPersonalTokens = (context: PasswordPolicyContext): string[] => {
+  const tokens: string[] = [];
+
+  if (context.email) {
+    const localPart = context.email.split('@')[0].toLowerCase();
+    tokens.push(localPart, ...localPart.split(/[^a-z0-9]+/));
+  }
+  if (context.name) {
+    const name = context.name.toLowerCase();
+    tokens.push(name.replace(/\s+/g, ''), ...name.split(/[^a-z0-9]+/));
+  }
+  if (context.mobile) {
+    const digits = context.mobile.replace(/\D/g, '');
+    tokens.push(digits.slice(-10));
+  }
+
+  return tokens.filter((token) => token.length >= MIN_PERSONAL_TOKEN_LENGTH);
+};
+
+/**
+ * Check if a password is (or is a trivial variation of) a common password
+ * Variations covered: case changes and leading/trailing digits or symbols ("Password@123")
+ */
+export const isCommonPassword = (password: string): boolean => {
+  const lower = password.toLowerCase();
+  if (COMMON_PASSWORDS.has(lower)) return true;
+
+  const core = lower.replace(/^[^a-z]+|[^a-z]+$/g, '');
+  return core.length >= MIN_PERSONAL_TOKEN_LENGTH && COMMON_PASSWORDS.has(core);
+};
+
+/**
+ * Validate password complexity rules (synchronous part of the policy)
+ * Returns the list of violated rules, empty if the password is acceptable
+ */
+export const getPasswordPolicyViolations = (
+  password: string,
+  context: PasswordPolicyContext = {},
+  policy: PasswordPolicy = defaultPasswordPolicy
+): string[] => {
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`Password must be at least ${policy.minLength} characters long`);
+  }
+  if (Buffer.byteLength(password, 'utf8') > policy.maxLength) {
+    violations.push(`Password must be at most ${policy.maxLength} characters long`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('Password must contain an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('Password must contain a lowercase letter');
+  }
+  if (policy.requireDigit && !/[0-9]/.test(password)) {
+    violations.push('Password must contain a digit');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push('Password must contain a special character');
+  }
+
+  const lower = password.toLowerCase();
+  if (getPersonalTokens(context).some((token) => lower.includes(token))) {
+    violations.push('Password must not contain your email, name or mobile number');
+  }
+
+  if (policy.blockCommonPasswords && isCommonPassword(password)) {
+    violations.push('Password is too common. Please choose a less predictable password');
+  }
+
+  return violations;
+};
+
+/**
+ * Check if a password matches the current password or one of the last N passwords
+ */
+export const isPasswordReused = async (
+  password: string,
+  context: PasswordPolicyContext,
+  policy: PasswordPolicy = defaultPasswordPolicy
+): Promise<boolean> => {
+  const hashes = [
+    ...(context.currentPasswordHash ? [context.currentPasswordHash] : []),
+    ...(context.passwordHistory || []),
+  ].slice(0, policy.historySize);
+
+  for (const hash of hashes) {
+    if (await comparePassword(password, hash)) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Enforce the full password policy (complexity, personal data, common list, history)
+ * Throws ValidationError listing every violated rule
+ */
+export const assertPasswordPolicy = async (
+  password: string,
+  context: PasswordPolicyContext = {},
+  policy: PasswordPolicy = defaultPasswordPolicy
+): Promise<void> => {
+  const violations = getPasswordPolicyViolations(password, context, policy);
+
+  if (violations.length === 0 && (await isPasswordReused(password, context, policy))) {
+    violations.push(`Password must not match any of your last ${policy.historySize} passwords`);
+  }
+
+  if (violations.length > 0) {
+    throw new ValidationError(violations.join('. '));
+  }
+};
+
+/**
+ * Build the password history to store after a password change
+ * The replaced hash goes first; the list is trimmed so that together with the
+ * new current password it covers exactly `historySize` passwords
+ */
+export const buildPasswordHistory = (
+  replacedHash: string,
+  previousHistory: unknown,
+  policy: PasswordPolicy = defaultPasswordPolicy
+): string[] => {
+  const history = Array.isArray(previousHistory) ? (previousHistory as string[]) : [];
+  return [replacedHash, ...history].slice(0, Math.max(policy.historySize - 1, 0));
+};
@@ -56,18 +56,216 @@ export const baseRateLimits: Record<string, RateLimitConfig> = {
     perHour: 100,      // Allow 100 attempts per hour
     perDay: 500,       // Allow 500 attempts per day
   },
+  '/api/auth/password/change': {
+    perSecond: 1,
+    perMinute: 5,
+    perHour: 20,
+    perDay: 50,
+  },
+  '/api/auth/email/change/request': {
+    perSecond: 1,
+    perMinute: 3,
+    perHour: 10,
+    perDay: 20,
+  },
+  '/api/auth/email/change/verify': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/auth/mobile/change/request': {
+    perSecond: 1,
+    perMinute: 3,
+    perHour: 10,
+    perDay: 20,
+  },
+  '/api/auth/mobile/change/verify': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/auth/unlock/request': {
+    perSecond: 1,
+    perMinute: 5,
+    perHour: 20,
+    perDay: 50,
+  },
+  '/api/auth/unlock/verify': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/auth/token/refresh': {
+    perSecond: 3,
+    perMinute: 20,
+    perHour: 200,
+    perDay: 1000,
+  },
+  '/api/auth/mfa/totp/confirm': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/auth/mfa/totp/disable': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/auth/mfa/totp/recovery-codes': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/auth/mfa/enable': {
+    perSecond: 2,
+    perMinute: 5,
+    perHour: 20,
+    perDay: 50,
+  },
+  '/api/auth/mfa/disable/request': {
+    perSecond: 1,
+    perMinute: 3,
+    perHour: 10,
+    perDay: 30,
+  },
+  '/api/auth/mfa/disable/verify': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/auth/mfa/factor': {
+    perSecond: 2,
+    perMinute: 5,
+    perHour: 20,
+    perDay: 50,
+  },
+  '/api/merchant/api-keys/verify': {
+    perSecond: 10,
+    perMinute: 100,
+    perHour: 2000,
+    perDay: 20000,
+  },
+  '/api/merchant/api-keys': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/merchant/ip-allowlist/request': {
+    perSecond: 1,
+    perMinute: 3,
+    perHour: 10,
+    perDay: 30,
+  },
+  '/api/merchant/ip-allowlist/verify': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/merchant/tpin/change': {
+    perSecond: 2,
+    perMinute: 5,
+    perHour: 20,
+    perDay: 50,
+  },
+  '/api/merchant/tpin/reset/request': {
+    perSecond: 1,
+    perMinute: 3,
+    perHour: 10,
+    perDay: 30,
+  },
+  '/api/merchant/tpin/reset/verify': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/merchant/tpin': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/merchant/status/submit': {
+    perSecond: 1,
+    perMinute: 5,
+    perHour: 20,
+    perDay: 50,
+  },
+  '/api/merchant/documents': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 60,
+    perDay: 200,
+  },
+  '/api/merchant/settlement-accounts': {
+    perSecond: 1,
+    perMinute: 5,
+    perHour: 20,
+    perDay: 50,
+  },
   '/api/admin/signin': {
     perSecond: 2,
     perMinute: 5,
     perHour: 20,
     perDay: 50,
   },
+  '/api/admin/verify-otp': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
+  '/api/admin/send-otp': {
+    perSecond: 3,
+    perMinute: 10,
+    perHour: 20,
+    perDay: 50,
+  },
+  '/api/admin/verify-webauthn': {
+    perSecond: 2,
+    perMinute: 10,
+    perHour: 50,
+    perDay: 200,
+  },
   '/api/admin/merchants': {
     perSecond: 5,
     perMinute: 30,
     perHour: 200,
     perDay: 1000,
   },
+  '/api/admin/admins': {
+    perSecond: 5,
+    perMinute: 30,
+    perHour: 200,
+    perDay: 1000,
+  },
+  '/api/admin/pending-changes': {
+    perSecond: 5,
+    perMinute: 30,
+    perHour: 200,
+    perDay: 1000,
+  },
+  '/api/admin/documents': {
+    perSecond: 5,
+    perMinute: 30,
+    perHour: 200,
+    perDay: 1000,
+  },
+  '/api/admin/setup': {
+    perSecond: 2,
+    perMinute: 5,
+    perHour: 20,
+    perDay: 50,
+  },
   '/api/admin/password-reset/request': {
     perSecond: 3,      // Allow 3 requests per second (user might retry if OTP not received)
     perMinute: 10,     // Allow 10 requests per minute (reasonable retry limit)
@@ -0,0 +1,89 @@
+import { revokeAllUserTokens, revokeToken, isTokenRevoked } from './tokenRevocation';
+import { JWTPayload } from './auth';
+
+const store = new Map<string, string>();
+
+jest.mock('./redis', () => ({
+  getRedisClient: async () => ({
+    get: async (key: string) => store.get(key) ?? null,
+    setEx: async (key: string, _ttl: number, value: string) => {
+      store.set(key, value);
+    },
+  }),
+}));
+
+jest.mock('./auth', () => ({
+  getTokenLifetimeSeconds: () => 600,
+}));
+
+jest.mock('./logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+// 2026-10-19T10:00:00.000Z
+const SECOND_START_MS = 1792404000000;
+
+const tokenIssuedAt = (ms: number, overrides: Partial<JWTPayload> = {}): JWTPayload => ({
+  userId: '42',
+  merchantId: '12345678',
+  role: 'merchant',
+  email: 'merchant@example.com',
+  kycVerified: true,
+  isActive: true,
+  jti: `jti-${ms}`,
+  iat: Math.floor(ms / 1000),
+  iatMs: ms,
+  ...overrides,
+});
+
+const revokeAllAt = async (ms: number): Promise<void> => {
+  const now = jest.spyOn(Date, 'now').mockReturnValue(ms);
+  await revokeAllUserTokens('merchant', 42);
+  now.mockRestore();
+};
+
+describe('isTokenRevoked', () => {
+  beforeEach(() => {
+    store.clear();
+  });
+
+  it('accepts a token that was never revoked', async () => {
+    expect(await isTokenRevoked(tokenIssuedAt(SECOND_START_MS))).toBe(false);
+  });
+
+  it('rejects a token revoked by its jti', async () => {
+    const payload = tokenIssuedAt(SECOND_START_MS, { exp: Math.floor(Date.now() / 1000) + 600 });
+    await revokeToken(payload);
+
+    expect(await isTokenRevoked(payload)).toBe(true);
+  });
+
+  it('rejects a token issued earlier in the same second as a revoke-all', async () => {
+    const oldToken = tokenIssuedAt(SECOND_START_MS + 100);
+    await revokeAllAt(SECOND_START_MS + 400);
+
+    expect(await isTokenRevoked(oldToken)).toBe(true);
+  });
+
+  it('accepts a token issued later in the same second as a revoke-all (new sign-in)', async () => {
+    await revokeAllAt(SECOND_START_MS + 400);
+    const newToken = tokenIssuedAt(SECOND_START_MS + 650);
+
+    expect(newToken.iat).toBe(Math.floor((SECOND_START_MS + 400) / 1000));
+    expect(await isTokenRevoked(newToken)).toBe(false);
+  });
+
+  it('rejects tokens from before a revoke-all and accepts tokens from a later second', async () => {
+    await revokeAllAt(SECOND_START_MS + 400);
+
+    expect(await isTokenRevoked(tokenIssuedAt(SECOND_START_MS - 5000))).toBe(true);
+    expect(await isTokenRevoked(tokenIssuedAt(SECOND_START_MS + 2000))).toBe(false);
+  });
+
+  it('treats a token without iatMs as issued at the start of its second', async () => {
+    await revokeAllAt(SECOND_START_MS + 400);
+    const legacyToken = tokenIssuedAt(SECOND_START_MS + 650, { iatMs: undefined });
+
+    expect(await isTokenRevoked(legacyToken)).toBe(true);
+  });
+});
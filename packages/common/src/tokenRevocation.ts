@@ -0,0 +1,109 @@
+import { getRedisClient } from './redis';
+import { logger } from './logger';
+import { JWTPayload, getTokenLifetimeSeconds } from './auth';
+
+/**
+ * Token subject scope - merchant and admin IDs come from different tables,
+ * so revocations are namespaced to avoid collisions (merchant 1 != admin 1)
+ */
+export type TokenSubjectType = 'merchant' | 'admin';
+
+/**
+ * Resolve the subject scope of a token from its role claim
+ */
+export const getTokenSubjectType = (payload: JWTPayload): TokenSubjectType => {
+  return payload.role === 'merchant' ? 'merchant' : 'admin';
+};
+
+/**
+ * Generate Redis key for a single revoked token
+ */
+const getRevokedTokenKey = (jti: string): string => {
+  return `token:revoked:${jti}`;
+};
+
+/**
+ * Generate Redis key for "all tokens issued before" marker of a user
+ */
+const getRevokedBeforeKey = (subjectType: TokenSubjectType, userId: string | number): string => {
+  return `token:revoked_before:${subjectType}:${userId}`;
+};
+
+/**
+ * Token issue time in milliseconds
+ * Tokens without iatMs only carry whole seconds - they count as issued at the start of that
+ * second, so one issued in the second of a revoke-all is still revoked
+ */
+const getIssuedAtMs = (payload: JWTPayload): number | null => {
+  if (payload.iatMs) {
+    return payload.iatMs;
+  }
+  return payload.iat ? payload.iat * 1000 : null;
+};
+
+/**
+ * Revoke a single token by its jti
+ * Entry lives only until the token would have expired anyway
+ */
+export const revokeToken = async (payload: JWTPayload): Promise<void> => {
+  if (!payload.jti) {
+    logger.warn(`[Token Revocation] Token for user ${payload.userId} has no jti, revoking all tokens instead`);
+    await revokeAllUserTokens(getTokenSubjectType(payload), payload.userId);
+    return;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const ttl = payload.exp ? payload.exp - now : getTokenLifetimeSeconds();
+  if (ttl <= 0) {
+    return; // Already expired - nothing to revoke
+  }
+
+  const redisClient = await getRedisClient();
+  await redisClient.setEx(getRevokedTokenKey(payload.jti), ttl, '1');
+  logger.info(`[Token Revocation] Token ${payload.jti.substring(0, 8)}... revoked for user ${payload.userId}`);
+};
+
+/**
+ * Revoke every token issued to a user up to now
+ * Used on password reset and account disable
+ */
+export const revokeAllUserTokens = async (
+  subjectType: TokenSubjectType,
+  userId: string | number
+): Promise<void> => {
+  const redisClient = await getRedisClient();
+  // Marker in milliseconds, so a token issued later in the same second (new sign-in) stays valid.
+  // Kept for one full token lifetime - after that every older token has expired
+  await redisClient.setEx(
+    getRevokedBeforeKey(subjectType, userId),
+    getTokenLifetimeSeconds(),
+    Date.now().toString()
+  );
+  logger.info(`[Token Revocation] All tokens revoked for ${subjectType} ${userId}`);
+};
+
+/**
+ * Check if a token has been revoked (individually or via revoke-all)
+ */
+export const isTokenRevoked = async (payload: JWTPayload): Promise<boolean> => {
+  const redisClient = await getRedisClient();
+
+  if (payload.jti) {
+    const revoked = await redisClient.get(getRevokedTokenKey(payload.jti));
+    if (revoked) {
+      return true;
+    }
+  }
+
+  const revokedBefore = await redisClient.get(
+    getRevokedBeforeKey(getTokenSubjectType(payload), payload.userId)
+  );
+  if (revokedBefore) {
+    const issuedAtMs = getIssuedAtMs(payload);
+    if (issuedAtMs === null || issuedAtMs < parseInt(revokedBefore, 10)) {
+      return true;
+    }
+  }
+
+  return false;
+};
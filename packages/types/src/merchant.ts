@@ -25,14 +25,56 @@ export interface Merchant {
   updatedAt: Date;
 }
 
+export enum KYCDocumentType {
+  PAN = 'PAN',
+  GST_CERTIFICATE = 'GST_CERTIFICATE',
+  INCORPORATION_CERTIFICATE = 'INCORPORATION_CERTIFICATE',
+  CANCELLED_CHEQUE = 'CANCELLED_CHEQUE',
+  DIRECTOR_ID = 'DIRECTOR_ID',
+}
+
+export enum KYCDocumentStatus {
+  PENDING = 'PENDING',
+  VERIFIED = 'VERIFIED',
+  REJECTED = 'REJECTED',
+  REPLACED = 'REPLACED',
+}
+
 export interface KYCDocument {
   id: string;
   merchantId: string;
-  documentType: string;
-  documentNumber: string;
-  documentUrl: string;
-  verified: boolean;
-  verifiedAt?: Date;
+  documentType: KYCDocumentType;
+  label?: string; // Director name for DIRECTOR_ID
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  checksum: string; // SHA-256 of the file
+  status: KYCDocumentStatus;
+  reviewComment?: string;
+  reviewedAt?: Date;
   createdAt: Date;
 }
 
+
+export enum KYBCheckType {
+  PAN = 'PAN',
+  GSTIN = 'GSTIN',
+  CIN = 'CIN',
+}
+
+export enum KYBVerificationStatus {
+  VERIFIED = 'VERIFIED', // Found, active and the registered name matches the merchant
+  NAME_MISMATCH = 'NAME_MISMATCH', // Found and active, name match score below the threshold
+  INACTIVE = 'INACTIVE', // Found but cancelled / struck off
+  NOT_FOUND = 'NOT_FOUND', // Not known to the issuing registry
+}
+
+export interface KYBVerificationResult {
+  checkType: KYBCheckType;
+  idNumber: string;
+  status: KYBVerificationStatus;
+  registeredName?: string;
+  nameMatchScore?: number; // 0-100 against the merchant name
+  provider: string;
+  checkedAt: Date;
+}
@@ -20,3 +20,25 @@ export interface Settlement {
   createdAt: Date;
 }
 
+
+export enum SettlementAccountStatus {
+  PENDING = 'PENDING', // Penny drop not done yet (or the bank was unreachable)
+  VERIFIED = 'VERIFIED', // Account exists and the holder name matches the merchant
+  NAME_MISMATCH = 'NAME_MISMATCH', // Account exists under a different name
+  FAILED = 'FAILED', // Account does not exist or cannot receive credits
+}
+
+export interface SettlementAccount {
+  id: string;
+  merchantId: string;
+  accountNumberMasked: string; // XXXXXX1234
+  ifsc: string;
+  bankName: string;
+  holderName: string;
+  status: SettlementAccountStatus;
+  registeredName?: string; // Holder name returned by the bank
+  nameMatchScore?: number;
+  isPrimary: boolean;
+  verifiedAt?: Date;
+  createdAt: Date;
+}
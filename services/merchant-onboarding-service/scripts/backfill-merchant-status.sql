@@ -0,0 +1,13 @@
+-- One-off backfill of merchants_master.status for merchants created before lifecycle statuses
+-- Run once after the status column is added (prisma db push / migrate); safe to re-run
+--
+-- Mapping:
+--   kyc_verified = true  -> APPROVED (already live)
+--   kyc_verified = false -> PENDING  (column default, nothing to update)
+--   is_active is left as it is - disabling an account is separate from its lifecycle status,
+--   so a disabled KYC-verified merchant becomes APPROVED and stays disabled
+
+UPDATE merchants_master
+SET status = 'APPROVED'
+WHERE kyc_verified = true
+  AND status = 'PENDING';
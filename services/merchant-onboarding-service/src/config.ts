@@ -17,13 +17,58 @@ export const config = {
   },
   jwt: {
     secret: process.env.JWT_SECRET || '',
-    expiresIn: process.env.JWT_EXPIRES_IN || '10m', // 10 minutes for sliding session
+    expiresIn: process.env.JWT_EXPIRES_IN || '10m', // 10 minutes short-lived access token
+    refreshTokenTtlSeconds: parseInt(process.env.REFRESH_TOKEN_TTL_SECONDS || '1800', 10), // 30 minutes idle timeout
+    sessionMaxAgeSeconds: parseInt(process.env.SESSION_MAX_AGE_SECONDS || '43200', 10), // 12 hours absolute session lifetime
+  },
+  otp: {
+    hashSecret: process.env.OTP_HASH_SECRET || '', // Keys OTP hashes (required, no fallback)
+  },
+  totp: {
+    issuer: process.env.TOTP_ISSUER || 'NineteenPay', // Shown in authenticator apps
+    encryptionKey: process.env.TOTP_ENCRYPTION_KEY || '', // Encrypts TOTP secrets at rest (required, no fallback)
+  },
+  apiKeys: {
+    encryptionKey: process.env.API_KEY_ENCRYPTION_KEY || '', // Encrypts API signing secrets at rest (required, no fallback)
+    signatureToleranceSeconds: parseInt(process.env.API_SIGNATURE_TOLERANCE_SECONDS || '300', 10), // Max clock skew of X-Timestamp
+    rotationGraceSeconds: parseInt(process.env.API_KEY_ROTATION_GRACE_SECONDS || '86400', 10), // Old key keeps working for 24 hours after rotation
+    maxKeysPerMerchant: parseInt(process.env.API_KEY_MAX_PER_MERCHANT || '10', 10),
+  },
+  webauthn: {
+    rpId: process.env.WEBAUTHN_RP_ID || 'localhost', // Domain of the admin panel
+    rpName: process.env.WEBAUTHN_RP_NAME || 'NineteenPay Admin',
+    origins: (process.env.WEBAUTHN_ORIGINS || 'http://localhost:3000').split(',').map((origin) => origin.trim()),
+  },
+  adminUsers: {
+    setupUrl: process.env.ADMIN_SETUP_URL || 'http://localhost:3000/setup-password', // Admin panel page that accepts ?token=
+    setupLinkTtlHours: parseInt(process.env.ADMIN_SETUP_LINK_TTL_HOURS || '72', 10), // Invite and forced reset links
+  },
+  makerChecker: {
+    pendingChangeTtlHours: parseInt(process.env.PENDING_CHANGE_TTL_HOURS || '72', 10), // Unreviewed changes expire after this
+  },
+  kycDocuments: {
+    maxFileSizeBytes: parseInt(process.env.KYC_DOCUMENT_MAX_SIZE_MB || '5', 10) * 1024 * 1024,
+  },
+  settlementAccounts: {
+    encryptionKey: process.env.BANK_ACCOUNT_ENCRYPTION_KEY || '', // Encrypts account numbers at rest (required, no fallback)
+    pennyDropProvider: process.env.PENNY_DROP_PROVIDER || (process.env.NODE_ENV === 'production' ? 'surepass' : 'mock'), // surepass or mock bank
+    maxPerMerchant: parseInt(process.env.SETTLEMENT_ACCOUNT_MAX_PER_MERCHANT || '5', 10),
+    maxVerificationAttempts: parseInt(process.env.PENNY_DROP_MAX_ATTEMPTS || '3', 10), // Penny drops per account
+  },
+  kyb: {
+    provider: process.env.KYB_PROVIDER || (process.env.NODE_ENV === 'production' ? 'surepass' : 'mock'), // surepass or mock (dev/tests)
+    nameMatchThreshold: parseInt(process.env.KYB_NAME_MATCH_THRESHOLD || '80', 10), // Minimum 0-100 score for a VERIFIED result
   },
   surepass: {
     apiKey: process.env.SUREPASS_API_KEY || '',
     apiUrl: process.env.SUREPASS_API_URL || 'https://api.surepass.io',
+    timeoutMs: parseInt(process.env.SUREPASS_TIMEOUT_MS || '15000', 10),
   },
   storage: {
+    driver: process.env.STORAGE_DRIVER || (process.env.NODE_ENV === 'production' ? 's3' : 'local'), // local (dev/tests) or s3
+    localPath: process.env.STORAGE_LOCAL_PATH || path.resolve(__dirname, '../storage'), // Root folder of the local driver
+    endpoint: process.env.STORAGE_ENDPOINT || '', // S3-compatible endpoint (MinIO, R2, ...) - empty for AWS S3
+    forcePathStyle: process.env.STORAGE_FORCE_PATH_STYLE === 'true', // Needed by most S3-compatible stores
     bucket: process.env.STORAGE_BUCKET || 'tsp-kyc-documents',
     region: process.env.STORAGE_REGION || 'ap-south-1',
     accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
@@ -2,26 +2,67 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { 
   adminService, 
   AdminSignInInput,
-  UpdateMerchantProfileInput,
+  AdminVerifyOtpInput,
+  AdminSendOtpInput,
+  AdminVerifyWebauthnInput,
   AdminPasswordResetRequestInput,
   AdminPasswordResetVerifyInput,
   GetAuditLogsInput,
 } from '../services/admin.service';
+import { buildClientContext } from '../services/session.service';
+import {
+  webauthnService,
+  WebauthnRegistrationInput,
+  RenameWebauthnCredentialInput,
+} from '../services/webauthn.service';
+import {
+  adminUserService,
+  AdminInviteInput,
+  ChangeAdminRoleInput,
+  AdminSetupInput,
+} from '../services/adminUser.service';
+import {
+  pendingChangeService,
+  ProposeProfileUpdateInput,
+  PendingChangeCommentInput,
+  RejectPendingChangeInput,
+} from '../services/pendingChange.service';
+import { merchantStatusService, MerchantStatusTransitionInput } from '../services/merchantStatus.service';
+import { kybService, RunKybChecksInput } from '../services/kyb.service';
+import {
+  kycDocumentService,
+  ReviewDocumentInput,
+  RejectDocumentInput,
+} from '../services/kycDocument.service';
+import { settlementAccountService } from '../services/settlementAccount.service';
 import { logger, AppError, formatErrorResponse } from '@tsp/common';
 
+/**
+ * Attach admin user management details to the request's audit log entry
+ * Routes pass a shallow copy of the request, so set them on the original (reply.request)
+ */
+const setAuditMetadata = (reply: FastifyReply, metadata: Record<string, unknown>): void => {
+  reply.request.auditMetadata = metadata;
+};
+
 export const adminController = {
   /**
    * POST /api/admin/signin
    * 
    * Response Codes:
-   * - 200 OK: Sign in successful, returns token
+   * - 200 OK: Password valid, MFA challenge returned (SMS OTP or security key)
    * - 401 Unauthorized: Invalid email or password
-   * - 403 Forbidden: Admin account is disabled
+   * - 403 Forbidden: Admin account is disabled, password reset forced by a super admin, or no second factor (mobile/security key) registered
+   * - 423 Locked: Account temporarily locked after too many failed sign-ins
+   * - 429 Too Many Requests: Failed sign-in backoff still in effect
+   * - 503 Service Unavailable: SMS service temporarily unavailable
    * - 500 Internal Server Error: Unexpected server error
    */
   async signIn(request: FastifyRequest<{ Body: AdminSignInInput }>, reply: FastifyReply) {
     try {
-      const result = await adminService.signIn(request.body);
+      // Routes pass a shallow copy of the request, so read headers/socket from the raw request
+      const context = buildClientContext(request.raw.headers, request.raw.socket, (request as any).sessionId);
+      const result = await adminService.signIn(request.body, context);
       return reply.status(200).send(result);
     } catch (error: any) {
       logger.error('[Admin Controller] Sign in error:', error);
@@ -41,6 +82,106 @@ export const adminController = {
     }
   },
 
+  /**
+   * POST /api/admin/verify-otp
+   * 
+   * Response Codes:
+   * - 200 OK: OTP verified, returns token
+   * - 400 Bad Request: Validation error or MFA session requires a security key
+   * - 401 Unauthorized: Invalid/expired OTP, invalid/expired MFA session, or too many attempts
+   * - 403 Forbidden: Admin account is disabled
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async verifyOtp(request: FastifyRequest<{ Body: AdminVerifyOtpInput }>, reply: FastifyReply) {
+    try {
+      // Routes pass a shallow copy of the request, so read headers/socket from the raw request
+      const context = buildClientContext(request.raw.headers, request.raw.socket, (request as any).sessionId);
+      const result = await adminService.verifyOtp(request.body, context);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Verify OTP error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/send-otp
+   * 
+   * Response Codes:
+   * - 200 OK: OTP resent
+   * - 400 Bad Request: Cooldown not elapsed or MFA session requires a security key
+   * - 401 Unauthorized: Invalid/expired MFA session
+   * - 429 Too Many Requests: Resend limit reached
+   * - 503 Service Unavailable: SMS service temporarily unavailable
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async sendOtp(request: FastifyRequest<{ Body: AdminSendOtpInput }>, reply: FastifyReply) {
+    try {
+      const result = await adminService.sendOtp(request.body);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Send OTP error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/verify-webauthn
+   * 
+   * Response Codes:
+   * - 200 OK: Security key verified, returns token
+   * - 401 Unauthorized: Invalid/expired MFA session, failed verification or too many attempts
+   * - 403 Forbidden: Admin account is disabled
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async verifyWebauthn(request: FastifyRequest<{ Body: AdminVerifyWebauthnInput }>, reply: FastifyReply) {
+    try {
+      // Routes pass a shallow copy of the request, so read headers/socket from the raw request
+      const context = buildClientContext(request.raw.headers, request.raw.socket, (request as any).sessionId);
+      const result = await adminService.verifyWebauthn(request.body, context);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Verify WebAuthn error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
   /**
    * GET /api/admin/merchants
    * 
@@ -54,8 +195,9 @@ export const adminController = {
       const page = parseInt((request.query as any)?.page || '1', 10);
       const limit = parseInt((request.query as any)?.limit || '20', 10);
       const search = (request.query as any)?.search;
+      const status = (request.query as any)?.status;
 
-      const result = await adminService.getAllMerchants(page, limit, search);
+      const result = await adminService.getAllMerchants(page, limit, search, status);
       return reply.status(200).send(result);
     } catch (error: any) {
       logger.error('[Admin Controller] Get all merchants error:', error);
@@ -153,25 +295,28 @@ export const adminController = {
 
   /**
    * PUT /api/admin/merchants/:merchantId/profile
+   * Proposes the update - applied once another admin approves it
    * 
    * Response Codes:
-   * - 200 OK: Profile updated successfully
-   * - 400 Bad Request: Validation error
+   * - 202 Accepted: Change submitted for approval
+   * - 400 Bad Request: Validation error or no changes
    * - 401 Unauthorized: Invalid or missing authentication token
    * - 404 Not Found: Merchant not found
+   * - 409 Conflict: A profile change for this merchant is already awaiting approval
    * - 500 Internal Server Error: Unexpected server error
    */
   async updateMerchantProfile(
     request: FastifyRequest<{ 
       Params: { merchantId: string };
-      Body: UpdateMerchantProfileInput;
+      Body: ProposeProfileUpdateInput;
     }>, 
     reply: FastifyReply
   ) {
     try {
       const { merchantId } = request.params;
-      const result = await adminService.updateMerchantProfile(merchantId, request.body);
-      return reply.status(200).send(result);
+      const result = await pendingChangeService.proposeProfileUpdate(parseInt(request.admin!.userId), merchantId, request.body);
+      setAuditMetadata(reply, { pendingChangeId: result.pendingChange.id, fields: Object.keys(result.pendingChange.diff as object) });
+      return reply.status(202).send(result);
     } catch (error: any) {
       logger.error('[Admin Controller] Update merchant profile error:', error);
       
@@ -192,20 +337,32 @@ export const adminController = {
 
   /**
    * POST /api/admin/merchants/:merchantId/disable
+   * Proposes the change - applied once another admin approves it
    * 
    * Response Codes:
-   * - 200 OK: Merchant account disabled successfully
+   * - 200 OK: Merchant account already disabled (nothing to approve)
+   * - 202 Accepted: Change submitted for approval
    * - 401 Unauthorized: Invalid or missing authentication token
    * - 404 Not Found: Merchant not found
+   * - 409 Conflict: A status change for this merchant is already awaiting approval
    * - 500 Internal Server Error: Unexpected server error
    */
   async disableMerchantAccount(
-    request: FastifyRequest<{ Params: { merchantId: string } }>, 
+    request: FastifyRequest<{ Params: { merchantId: string }; Body: PendingChangeCommentInput }>, 
     reply: FastifyReply
   ) {
     try {
       const { merchantId } = request.params;
-      const result = await adminService.disableMerchantAccount(merchantId);
+      const result = await pendingChangeService.proposeStatusChange(
+        parseInt(request.admin!.userId),
+        merchantId,
+        false,
+        request.body
+      );
+      if ('pendingChange' in result) {
+        setAuditMetadata(reply, { pendingChangeId: result.pendingChange.id });
+        return reply.status(202).send(result);
+      }
       return reply.status(200).send(result);
     } catch (error: any) {
       logger.error('[Admin Controller] Disable merchant account error:', error);
@@ -227,20 +384,32 @@ export const adminController = {
 
   /**
    * POST /api/admin/merchants/:merchantId/enable
+   * Proposes the change - applied once another admin approves it
    * 
    * Response Codes:
-   * - 200 OK: Merchant account enabled successfully
+   * - 200 OK: Merchant account already enabled (nothing to approve)
+   * - 202 Accepted: Change submitted for approval
    * - 401 Unauthorized: Invalid or missing authentication token
    * - 404 Not Found: Merchant not found
+   * - 409 Conflict: A status change for this merchant is already awaiting approval
    * - 500 Internal Server Error: Unexpected server error
    */
   async enableMerchantAccount(
-    request: FastifyRequest<{ Params: { merchantId: string } }>, 
+    request: FastifyRequest<{ Params: { merchantId: string }; Body: PendingChangeCommentInput }>, 
     reply: FastifyReply
   ) {
     try {
       const { merchantId } = request.params;
-      const result = await adminService.enableMerchantAccount(merchantId);
+      const result = await pendingChangeService.proposeStatusChange(
+        parseInt(request.admin!.userId),
+        merchantId,
+        true,
+        request.body
+      );
+      if ('pendingChange' in result) {
+        setAuditMetadata(reply, { pendingChangeId: result.pendingChange.id });
+        return reply.status(202).send(result);
+      }
       return reply.status(200).send(result);
     } catch (error: any) {
       logger.error('[Admin Controller] Enable merchant account error:', error);
@@ -260,6 +429,41 @@ export const adminController = {
     }
   },
 
+  /**
+   * POST /api/admin/merchants/:merchantId/unlock
+   * 
+   * Response Codes:
+   * - 200 OK: Merchant account unlocked (or was not locked)
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 404 Not Found: Merchant not found
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async unlockMerchantAccount(
+    request: FastifyRequest<{ Params: { merchantId: string } }>, 
+    reply: FastifyReply
+  ) {
+    try {
+      const { merchantId } = request.params;
+      const result = await adminService.unlockMerchantAccount(merchantId);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Unlock merchant account error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
   /**
    * POST /api/admin/password-reset/request
    * 
@@ -417,5 +621,1236 @@ export const adminController = {
       });
     }
   },
-};
 
+  /**
+   * POST /api/admin/webauthn/registration/options
+   * 
+   * Response Codes:
+   * - 200 OK: Returns registration options for navigator.credentials.create()
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async getWebauthnRegistrationOptions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const result = await webauthnService.generateRegistrationOptions(parseInt(request.admin!.userId));
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] WebAuthn registration options error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/webauthn/registration/verify
+   * 
+   * Response Codes:
+   * - 200 OK: Security key registered
+   * - 400 Bad Request: Challenge expired, verification failed or key already registered
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async verifyWebauthnRegistration(request: FastifyRequest<{ Body: WebauthnRegistrationInput }>, reply: FastifyReply) {
+    try {
+      const result = await webauthnService.verifyRegistration(parseInt(request.admin!.userId), request.body);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] WebAuthn registration verify error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * GET /api/admin/webauthn/credentials
+   * 
+   * Response Codes:
+   * - 200 OK: Returns registered security keys
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async listWebauthnCredentials(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const result = await webauthnService.listCredentials(parseInt(request.admin!.userId));
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] List WebAuthn credentials error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * PUT /api/admin/webauthn/credentials/:credentialId
+   * 
+   * Response Codes:
+   * - 200 OK: Security key renamed
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 404 Not Found: Security key not found
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async renameWebauthnCredential(
+    request: FastifyRequest<{ Params: { credentialId: string }; Body: RenameWebauthnCredentialInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const result = await webauthnService.renameCredential(
+        parseInt(request.admin!.userId),
+        parseInt(request.params.credentialId, 10),
+        request.body
+      );
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Rename WebAuthn credential error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * DELETE /api/admin/webauthn/credentials/:credentialId
+   * 
+   * Response Codes:
+   * - 200 OK: Security key removed
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 404 Not Found: Security key not found
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async removeWebauthnCredential(
+    request: FastifyRequest<{ Params: { credentialId: string } }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const result = await webauthnService.removeCredential(
+        parseInt(request.admin!.userId),
+        parseInt(request.params.credentialId, 10)
+      );
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Remove WebAuthn credential error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/admins
+   * 
+   * Response Codes:
+   * - 201 Created: Admin invited, setup link emailed
+   * - 400 Bad Request: Validation error
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks admin:manage
+   * - 409 Conflict: An admin with this email already exists
+   * - 503 Service Unavailable: Email service temporarily unavailable (admin not created)
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async inviteAdmin(request: FastifyRequest<{ Body: AdminInviteInput }>, reply: FastifyReply) {
+    try {
+      setAuditMetadata(reply, { targetEmail: request.body.email, role: request.body.role });
+      const result = await adminUserService.inviteAdmin(parseInt(request.admin!.userId), request.body);
+      setAuditMetadata(reply, { targetAdminId: result.admin.id, targetEmail: result.admin.email, role: result.admin.role });
+      return reply.status(201).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Invite admin error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * GET /api/admin/admins
+   * 
+   * Response Codes:
+   * - 200 OK: Returns list of admins with status and last login
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks admin:manage
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async listAdmins(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as any;
+      const result = await adminUserService.listAdmins({
+        page: query?.page ? parseInt(query.page, 10) : undefined,
+        limit: query?.limit ? parseInt(query.limit, 10) : undefined,
+        search: query?.search,
+        role: query?.role,
+        status: query?.status,
+      });
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] List admins error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * GET /api/admin/admins/:adminId
+   * 
+   * Response Codes:
+   * - 200 OK: Returns admin details
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks admin:manage
+   * - 404 Not Found: Admin not found
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async getAdminById(request: FastifyRequest<{ Params: { adminId: string } }>, reply: FastifyReply) {
+    try {
+      const result = await adminUserService.getAdminById(parseInt(request.params.adminId, 10));
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Get admin error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * PUT /api/admin/admins/:adminId/role
+   * 
+   * Response Codes:
+   * - 200 OK: Role updated, admin signed out everywhere
+   * - 400 Bad Request: Validation error or own account
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks admin:manage
+   * - 404 Not Found: Admin not found
+   * - 409 Conflict: Would leave no active super admin
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async changeAdminRole(
+    request: FastifyRequest<{ Params: { adminId: string }; Body: ChangeAdminRoleInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const adminId = parseInt(request.params.adminId, 10);
+      setAuditMetadata(reply, { targetAdminId: adminId, role: request.body.role });
+      const result = await adminUserService.changeRole(parseInt(request.admin!.userId), adminId, request.body);
+      setAuditMetadata(reply, { targetAdminId: adminId, previousRole: result.previousRole, role: result.admin.role });
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Change admin role error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/admins/:adminId/deactivate
+   * 
+   * Response Codes:
+   * - 200 OK: Admin deactivated and signed out everywhere
+   * - 400 Bad Request: Own account
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks admin:manage
+   * - 404 Not Found: Admin not found
+   * - 409 Conflict: Would leave no active super admin
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async deactivateAdmin(request: FastifyRequest<{ Params: { adminId: string } }>, reply: FastifyReply) {
+    try {
+      const adminId = parseInt(request.params.adminId, 10);
+      setAuditMetadata(reply, { targetAdminId: adminId });
+      const result = await adminUserService.deactivateAdmin(parseInt(request.admin!.userId), adminId);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Deactivate admin error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/admins/:adminId/reactivate
+   * 
+   * Response Codes:
+   * - 200 OK: Admin reactivated
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks admin:manage
+   * - 404 Not Found: Admin not found
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async reactivateAdmin(request: FastifyRequest<{ Params: { adminId: string } }>, reply: FastifyReply) {
+    try {
+      const adminId = parseInt(request.params.adminId, 10);
+      setAuditMetadata(reply, { targetAdminId: adminId });
+      const result = await adminUserService.reactivateAdmin(parseInt(request.admin!.userId), adminId);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Reactivate admin error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/admins/:adminId/force-password-reset
+   * 
+   * Response Codes:
+   * - 200 OK: Password invalidated, admin signed out, setup link emailed
+   * - 400 Bad Request: Own account or admin deactivated
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks admin:manage
+   * - 404 Not Found: Admin not found
+   * - 503 Service Unavailable: Reset applied but the email could not be sent
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async forceAdminPasswordReset(request: FastifyRequest<{ Params: { adminId: string } }>, reply: FastifyReply) {
+    try {
+      const adminId = parseInt(request.params.adminId, 10);
+      setAuditMetadata(reply, { targetAdminId: adminId });
+      const result = await adminUserService.forcePasswordReset(parseInt(request.admin!.userId), adminId);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Force admin password reset error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/setup
+   * 
+   * Response Codes:
+   * - 200 OK: Password set, admin can sign in
+   * - 400 Bad Request: Validation error or password policy violation
+   * - 401 Unauthorized: Invalid, used or expired setup link
+   * - 403 Forbidden: Admin account is disabled
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async completeAdminSetup(request: FastifyRequest<{ Body: AdminSetupInput }>, reply: FastifyReply) {
+    try {
+      const result = await adminUserService.completeSetup(request.body);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Admin setup error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * GET /api/admin/pending-changes
+   * 
+   * Response Codes:
+   * - 200 OK: Returns the approval queue (pending changes unless a status is given)
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:read
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async listPendingChanges(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as any;
+      const result = await pendingChangeService.listChanges({
+        page: query?.page ? parseInt(query.page, 10) : undefined,
+        limit: query?.limit ? parseInt(query.limit, 10) : undefined,
+        status: query?.status,
+        action: query?.action,
+        merchantId: query?.merchantId,
+      });
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] List pending changes error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * GET /api/admin/pending-changes/:changeId
+   * 
+   * Response Codes:
+   * - 200 OK: Returns the change with its diff
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:read
+   * - 404 Not Found: Pending change not found
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async getPendingChange(request: FastifyRequest<{ Params: { changeId: string } }>, reply: FastifyReply) {
+    try {
+      const result = await pendingChangeService.getChange(parseInt(request.params.changeId, 10));
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Get pending change error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/pending-changes/:changeId/approve
+   * 
+   * Response Codes:
+   * - 200 OK: Change approved and applied
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks change:approve, or own change
+   * - 404 Not Found: Pending change or merchant not found
+   * - 409 Conflict: Change no longer pending, or the merchant changed since it was proposed
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async approvePendingChange(
+    request: FastifyRequest<{ Params: { changeId: string }; Body: PendingChangeCommentInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const changeId = parseInt(request.params.changeId, 10);
+      setAuditMetadata(reply, { pendingChangeId: changeId });
+      const result = await pendingChangeService.approveChange(parseInt(request.admin!.userId), changeId, request.body);
+      setAuditMetadata(reply, {
+        pendingChangeId: changeId,
+        action: result.pendingChange.action,
+        targetMerchantId: result.pendingChange.merchantId,
+        requestedById: result.pendingChange.requestedBy.id,
+      });
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Approve pending change error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/pending-changes/:changeId/reject
+   * 
+   * Response Codes:
+   * - 200 OK: Change rejected
+   * - 400 Bad Request: Comment missing
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks change:approve, or own change
+   * - 404 Not Found: Pending change not found
+   * - 409 Conflict: Change no longer pending
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async rejectPendingChange(
+    request: FastifyRequest<{ Params: { changeId: string }; Body: RejectPendingChangeInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const changeId = parseInt(request.params.changeId, 10);
+      setAuditMetadata(reply, { pendingChangeId: changeId });
+      const result = await pendingChangeService.rejectChange(parseInt(request.admin!.userId), changeId, request.body);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Reject pending change error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/pending-changes/:changeId/cancel
+   * 
+   * Response Codes:
+   * - 200 OK: Change withdrawn
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Not the admin who proposed the change
+   * - 404 Not Found: Pending change not found
+   * - 409 Conflict: Change no longer pending
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async cancelPendingChange(request: FastifyRequest<{ Params: { changeId: string } }>, reply: FastifyReply) {
+    try {
+      const changeId = parseInt(request.params.changeId, 10);
+      setAuditMetadata(reply, { pendingChangeId: changeId });
+      const result = await pendingChangeService.cancelChange(parseInt(request.admin!.userId), request.admin!.role, changeId);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Cancel pending change error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * GET /api/admin/merchants/:merchantId/status
+   * 
+   * Response Codes:
+   * - 200 OK: Returns the status, the actions available from it and the status history
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:read
+   * - 404 Not Found: Merchant not found
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async getMerchantStatus(request: FastifyRequest<{ Params: { merchantId: string } }>, reply: FastifyReply) {
+    try {
+      const result = await merchantStatusService.getStatus(request.params.merchantId);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Get merchant status error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/merchants/:merchantId/status/submit
+   * 
+   * Response Codes:
+   * - 200 OK: Status changed
+   * - 400 Bad Request: Merchant profile incomplete
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:review
+   * - 404 Not Found: Merchant not found
+   * - 409 Conflict: Merchant is not PENDING or REJECTED
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async submitMerchantForReview(
+    request: FastifyRequest<{ Params: { merchantId: string }; Body: MerchantStatusTransitionInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const { merchantId } = request.params;
+      const result = await merchantStatusService.transition(
+        merchantId,
+        'submit',
+        { type: 'admin', adminId: parseInt(request.admin!.userId) },
+        request.body
+      );
+      setAuditMetadata(reply, { targetMerchantId: merchantId, status: result.merchant.status });
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Submit merchant for review error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/merchants/:merchantId/status/approve
+   * 
+   * Response Codes:
+   * - 200 OK: Status changed
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:review, or you submitted this merchant
+   * - 404 Not Found: Merchant not found
+   * - 409 Conflict: Merchant is not UNDER_REVIEW
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async approveMerchant(
+    request: FastifyRequest<{ Params: { merchantId: string }; Body: MerchantStatusTransitionInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const { merchantId } = request.params;
+      const result = await merchantStatusService.transition(
+        merchantId,
+        'approve',
+        { type: 'admin', adminId: parseInt(request.admin!.userId) },
+        request.body
+      );
+      setAuditMetadata(reply, { targetMerchantId: merchantId, status: result.merchant.status });
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Approve merchant error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/merchants/:merchantId/status/reject
+   * 
+   * Response Codes:
+   * - 200 OK: Status changed
+   * - 400 Bad Request: Reason missing
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:review
+   * - 404 Not Found: Merchant not found
+   * - 409 Conflict: Merchant is not UNDER_REVIEW
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async rejectMerchant(
+    request: FastifyRequest<{ Params: { merchantId: string }; Body: MerchantStatusTransitionInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const { merchantId } = request.params;
+      const result = await merchantStatusService.transition(
+        merchantId,
+        'reject',
+        { type: 'admin', adminId: parseInt(request.admin!.userId) },
+        request.body
+      );
+      setAuditMetadata(reply, { targetMerchantId: merchantId, status: result.merchant.status });
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Reject merchant error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/merchants/:merchantId/status/suspend
+   * Proposes the transition - applied once another admin approves it
+   * 
+   * Response Codes:
+   * - 202 Accepted: Suspension submitted for approval
+   * - 400 Bad Request: Reason missing
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:disable
+   * - 404 Not Found: Merchant not found
+   * - 409 Conflict: Merchant is not APPROVED, or a status change is already awaiting approval
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async suspendMerchant(
+    request: FastifyRequest<{ Params: { merchantId: string }; Body: MerchantStatusTransitionInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const { merchantId } = request.params;
+      const result = await pendingChangeService.proposeStatusTransition(
+        parseInt(request.admin!.userId),
+        merchantId,
+        'suspend',
+        request.body
+      );
+      setAuditMetadata(reply, { targetMerchantId: merchantId, pendingChangeId: result.pendingChange.id });
+      return reply.status(202).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Suspend merchant error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/merchants/:merchantId/status/reinstate
+   * Proposes the transition - applied once another admin approves it
+   * 
+   * Response Codes:
+   * - 202 Accepted: Reinstatement submitted for approval
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:disable
+   * - 404 Not Found: Merchant not found
+   * - 409 Conflict: Merchant is not SUSPENDED, or a status change is already awaiting approval
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async reinstateMerchant(
+    request: FastifyRequest<{ Params: { merchantId: string }; Body: MerchantStatusTransitionInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const { merchantId } = request.params;
+      const result = await pendingChangeService.proposeStatusTransition(
+        parseInt(request.admin!.userId),
+        merchantId,
+        'reinstate',
+        request.body
+      );
+      setAuditMetadata(reply, { targetMerchantId: merchantId, pendingChangeId: result.pendingChange.id });
+      return reply.status(202).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Reinstate merchant error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+  /**
+   * GET /api/admin/merchants/:merchantId/kyb
+   * 
+   * Response Codes:
+   * - 200 OK: Returns the latest PAN, GSTIN and CIN verification results
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:read
+   * - 404 Not Found: Merchant not found
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async getMerchantKyb(request: FastifyRequest<{ Params: { merchantId: string } }>, reply: FastifyReply) {
+    try {
+      const result = await kybService.getVerification(request.params.merchantId);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Get merchant KYB error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/merchants/:merchantId/kyb/verify
+   * 
+   * Response Codes:
+   * - 200 OK: Checks run and results stored on the profile
+   * - 400 Bad Request: Identifier missing or malformed, GSTIN not issued on the profile PAN
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:review
+   * - 404 Not Found: Merchant not found
+   * - 409 Conflict: Identifier changed during the check
+   * - 500 Internal Server Error: Unexpected server error
+   * - 503 Service Unavailable: KYB provider unavailable
+   */
+  async verifyMerchantKyb(
+    request: FastifyRequest<{ Params: { merchantId: string }; Body: RunKybChecksInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const { merchantId } = request.params;
+      setAuditMetadata(reply, { targetMerchantId: merchantId, checks: request.body.checks ?? 'all' });
+      const result = await kybService.verify(merchantId, request.body, parseInt(request.admin!.userId));
+      setAuditMetadata(reply, {
+        targetMerchantId: merchantId,
+        provider: result.kyb.provider,
+        results: result.kyb.results
+          .filter((check) => check.status)
+          .map((check) => `${check.checkType}:${check.status}`),
+      });
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Verify merchant KYB error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * GET /api/admin/documents
+   * 
+   * Response Codes:
+   * - 200 OK: Returns the document review queue (pending documents unless a status is given)
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:read
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async listDocuments(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as any;
+      const result = await kycDocumentService.listDocuments({
+        page: query?.page ? parseInt(query.page, 10) : undefined,
+        limit: query?.limit ? parseInt(query.limit, 10) : undefined,
+        status: query?.status,
+        documentType: query?.documentType,
+        merchantId: query?.merchantId,
+      });
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] List documents error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * GET /api/admin/documents/:documentId/file
+   * 
+   * Response Codes:
+   * - 200 OK: Returns the file
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:review
+   * - 404 Not Found: Document not found
+   * - 500 Internal Server Error: Unexpected server error (including a file that fails its checksum)
+   */
+  async getDocumentFile(request: FastifyRequest<{ Params: { documentId: string } }>, reply: FastifyReply) {
+    try {
+      const documentId = parseInt(request.params.documentId, 10);
+      setAuditMetadata(reply, { documentId });
+      const file = await kycDocumentService.getFile(documentId);
+      return reply
+        .header('Content-Type', file.mimeType)
+        .header('Content-Disposition', `attachment; filename="${file.fileName.replace(/[^\w.-]/g, '_')}"`)
+        .header('Cache-Control', 'no-store')
+        .send(file.content);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Download document error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/documents/:documentId/verify
+   * 
+   * Response Codes:
+   * - 200 OK: Document verified
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:review
+   * - 404 Not Found: Document not found
+   * - 409 Conflict: Document is not PENDING
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async verifyDocument(
+    request: FastifyRequest<{ Params: { documentId: string }; Body: ReviewDocumentInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const documentId = parseInt(request.params.documentId, 10);
+      setAuditMetadata(reply, { documentId });
+      const result = await kycDocumentService.verifyDocument(parseInt(request.admin!.userId), documentId, request.body);
+      setAuditMetadata(reply, {
+        documentId,
+        documentType: result.document.documentType,
+        targetMerchantId: result.document.merchant.nineteenMerchantId,
+      });
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Verify document error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/documents/:documentId/reject
+   * 
+   * Response Codes:
+   * - 200 OK: Document rejected
+   * - 400 Bad Request: Comment missing
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:review
+   * - 404 Not Found: Document not found
+   * - 409 Conflict: Document is not PENDING
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async rejectDocument(
+    request: FastifyRequest<{ Params: { documentId: string }; Body: RejectDocumentInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const documentId = parseInt(request.params.documentId, 10);
+      setAuditMetadata(reply, { documentId });
+      const result = await kycDocumentService.rejectDocument(parseInt(request.admin!.userId), documentId, request.body);
+      setAuditMetadata(reply, {
+        documentId,
+        documentType: result.document.documentType,
+        targetMerchantId: result.document.merchant.nineteenMerchantId,
+      });
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Reject document error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * GET /api/admin/merchants/:merchantId/settlement-accounts
+   * 
+   * Response Codes:
+   * - 200 OK: Returns the merchant's settlement accounts with penny drop results
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks merchant:read
+   * - 404 Not Found: Merchant not found
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async getSettlementAccounts(request: FastifyRequest<{ Params: { merchantId: string } }>, reply: FastifyReply) {
+    try {
+      const result = await settlementAccountService.listAccounts(request.params.merchantId);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Get settlement accounts error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/merchants/:merchantId/settlement/activate
+   * 
+   * Response Codes:
+   * - 200 OK: Settlement activated (or already active)
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks settlement:manage
+   * - 404 Not Found: Merchant not found
+   * - 409 Conflict: Merchant not active and APPROVED, or no penny-drop verified settlement account
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async activateSettlement(request: FastifyRequest<{ Params: { merchantId: string } }>, reply: FastifyReply) {
+    try {
+      const { merchantId } = request.params;
+      setAuditMetadata(reply, { targetMerchantId: merchantId });
+      const result = await settlementAccountService.activateSettlement(merchantId, parseInt(request.admin!.userId));
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Activate settlement error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/admin/merchants/:merchantId/settlement/deactivate
+   * 
+   * Response Codes:
+   * - 200 OK: Settlement deactivated (or already inactive)
+   * - 401 Unauthorized: Invalid or missing authentication token
+   * - 403 Forbidden: Role lacks settlement:manage
+   * - 404 Not Found: Merchant not found
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async deactivateSettlement(request: FastifyRequest<{ Params: { merchantId: string } }>, reply: FastifyReply) {
+    try {
+      const { merchantId } = request.params;
+      setAuditMetadata(reply, { targetMerchantId: merchantId });
+      const result = await settlementAccountService.deactivateSettlement(merchantId, parseInt(request.admin!.userId));
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Admin Controller] Deactivate settlement error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+};
@@ -8,7 +8,18 @@ import {
   PasswordResetRequestInput,
   PasswordResetVerifyInput,
   LogoutInput,
+  RefreshTokenInput,
+  ChangePasswordInput,
+  ChangeEmailRequestInput,
+  ChangeMobileRequestInput,
+  ContactChangeVerifyInput,
+  UnlockRequestInput,
+  UnlockVerifyInput,
 } from '../services/auth.service';
+import { tokenService } from '../services/token.service';
+import { totpService, TotpCodeInput, TotpConfirmInput, TotpDisableInput } from '../services/totp.service';
+import { mfaService, MfaEnableInput, MfaDisableRequestInput, MfaDisableVerifyInput, MfaFactorInput } from '../services/mfa.service';
+import { buildClientContext } from '../services/session.service';
 import { logger, AppError, formatErrorResponse } from '@tsp/common';
 
 export const authController = {
@@ -47,19 +58,24 @@ export const authController = {
    * POST /api/auth/signin
    * 
    * Response Codes:
-   * - 200 OK: Password valid, MFA OTP verification required (for subsequent logins)
+   * - 200 OK: Password valid, MFA OTP verification required (for subsequent logins),
+   *     or tokens returned directly when the merchant turned 2FA off
    * - 401 Unauthorized: Invalid email or password
    * - 403 Forbidden: Account verification required
    *     - Both email and mobile unverified (message: "Please verify both your email and mobile number...")
    *     - Only email unverified (message: "Please verify your email...")
    *     - Only mobile unverified (message: "Please verify your mobile number...")
-   * - 422 Unprocessable Entity: Account in invalid state
+   *   or account disabled by an admin (standard error body)
+   * - 423 Locked: Account temporarily locked after too many failed sign-ins
+   * - 429 Too Many Requests: Failed sign-in backoff still in effect
    * - 503 Service Unavailable: SMS/Email service temporarily unavailable
    * - 500 Internal Server Error: Unexpected server error
    */
   async signIn(request: FastifyRequest<{ Body: SignInInput }>, reply: FastifyReply) {
     try {
-      const result = await authService.signIn(request.body);
+      // Routes pass a shallow copy of the request, so read headers/socket from the raw request
+      const context = buildClientContext(request.raw.headers, request.raw.socket, (request as any).sessionId);
+      const result = await authService.signIn(request.body, context);
       
       // If OTP is required, return 200 OK with requiresOtp flag
       // If token is present, authentication is complete
@@ -90,12 +106,75 @@ export const authController = {
     }
   },
 
+  /**
+   * POST /api/auth/unlock/request
+   * 
+   * Response Codes:
+   * - 200 OK: Generic success (OTP sent only if the account exists and is locked)
+   * - 400 Bad Request: Validation error
+   * - 503 Service Unavailable: SMS service temporarily unavailable
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async requestUnlock(request: FastifyRequest<{ Body: UnlockRequestInput }>, reply: FastifyReply) {
+    try {
+      const result = await authService.requestUnlock(request.body);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] Unlock request error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/unlock/verify
+   * 
+   * Response Codes:
+   * - 200 OK: Account unlocked
+   * - 400 Bad Request: Validation error
+   * - 401 Unauthorized: Invalid or expired OTP
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async verifyUnlock(request: FastifyRequest<{ Body: UnlockVerifyInput }>, reply: FastifyReply) {
+    try {
+      const result = await authService.verifyUnlock(request.body);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] Unlock verify error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
   /**
    * POST /api/auth/send-otp
    * 
    * Response Codes:
    * - 200 OK: OTP sent successfully
-   * - 400 Bad Request: Validation error or invalid OTP type
+   * - 400 Bad Request: Validation error, invalid OTP type, or account already verified (email without MFA session)
+   * - 403 Forbidden: Account disabled
    * - 404 Not Found: Merchant not found
    * - 503 Service Unavailable: SMS/Email service temporarily unavailable
    * - 500 Internal Server Error: Unexpected server error
@@ -127,15 +206,18 @@ export const authController = {
    * 
    * Response Codes:
    * - 200 OK: OTP verified successfully (returns token if authentication complete, or requiresOtp if more verification needed)
-   * - 400 Bad Request: Validation error or invalid OTP
-   * - 401 Unauthorized: Invalid/expired OTP, invalid/expired MFA session, or too many attempts
+   * - 400 Bad Request: Validation error, invalid OTP, or account already verified (email without MFA session)
+   * - 401 Unauthorized: Invalid/expired OTP or authenticator code, invalid/expired MFA session, or too many attempts
+   * - 403 Forbidden: Account disabled
    * - 404 Not Found: Merchant not found
    * - 422 Unprocessable Entity: Invalid OTP type for MFA login (e.g., email OTP for MFA-only login)
    * - 500 Internal Server Error: Unexpected server error
    */
   async verifyOtp(request: FastifyRequest<{ Body: VerifyOtpInput }>, reply: FastifyReply) {
     try {
-      const result = await authService.verifyOtp(request.body);
+      // Routes pass a shallow copy of the request, so read headers/socket from the raw request
+      const context = buildClientContext(request.raw.headers, request.raw.socket, (request as any).sessionId);
+      const result = await authService.verifyOtp(request.body, context);
       return reply.status(200).send(result);
     } catch (error: any) {
       logger.error('[Auth Controller] Verify OTP error:', error);
@@ -218,6 +300,512 @@ export const authController = {
     }
   },
 
+  /**
+   * POST /api/auth/token/refresh
+   * 
+   * Response Codes:
+   * - 200 OK: New access token and refresh token issued (previous refresh token is consumed)
+   * - 400 Bad Request: Validation error
+   * - 401 Unauthorized: Invalid, expired or reused refresh token, session expired, or account inactive
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async refreshToken(request: FastifyRequest<{ Body: RefreshTokenInput }>, reply: FastifyReply) {
+    try {
+      const result = await tokenService.refresh(request.body.refreshToken);
+      return reply.status(200).send({
+        success: true,
+        ...result,
+      });
+    } catch (error: any) {
+      logger.error('[Auth Controller] Refresh token error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/mfa/totp/setup
+   * Start authenticator app enrollment
+   * 
+   * Response Codes:
+   * - 200 OK: Secret and otpauth:// URI returned (enrollment pending confirmation)
+   * - 401 Unauthorized: Authentication required
+   * - 404 Not Found: Merchant not found
+   * - 409 Conflict: Authenticator app already enabled
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async setupTotp(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await totpService.startEnrollment(parseInt(user.userId));
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] TOTP setup error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/mfa/totp/confirm
+   * Confirm enrollment with the account password and a code from the app
+   * 
+   * Response Codes:
+   * - 200 OK: Authenticator app enabled, recovery codes returned
+   * - 400 Bad Request: Validation error or no pending enrollment
+   * - 401 Unauthorized: Invalid password, invalid authenticator code or authentication required
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async confirmTotp(request: FastifyRequest<{ Body: TotpConfirmInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const { password, otp } = request.body;
+      const result = await totpService.confirmEnrollment(parseInt(user.userId), password, otp);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] TOTP confirm error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/mfa/totp/recovery-codes
+   * Regenerate recovery codes
+   * 
+   * Response Codes:
+   * - 200 OK: New recovery codes returned
+   * - 400 Bad Request: Validation error or authenticator app not enabled
+   * - 401 Unauthorized: Invalid authenticator code or authentication required
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async regenerateRecoveryCodes(request: FastifyRequest<{ Body: TotpCodeInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await totpService.regenerateRecoveryCodes(parseInt(user.userId), request.body.otp);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] Regenerate recovery codes error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/mfa/totp/disable
+   * Disable authenticator app and fall back to SMS OTP
+   * 
+   * Response Codes:
+   * - 200 OK: Authenticator app disabled
+   * - 400 Bad Request: Validation error or authenticator app not enabled
+   * - 401 Unauthorized: Invalid password, invalid authenticator code or authentication required
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async disableTotp(request: FastifyRequest<{ Body: TotpDisableInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await totpService.disable(parseInt(user.userId), request.body.password, request.body.otp);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] TOTP disable error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * GET /api/auth/mfa
+   * Get sign-in 2FA settings
+   * 
+   * Response Codes:
+   * - 200 OK: 2FA status, sign-in factor and whether an authenticator app is enrolled
+   * - 401 Unauthorized: Authentication required
+   * - 404 Not Found: Merchant not found
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async getMfaSettings(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await mfaService.getSettings(parseInt(user.userId));
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] MFA settings error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/mfa/enable
+   * Turn sign-in 2FA on (requires password)
+   * 
+   * Response Codes:
+   * - 200 OK: 2FA enabled (or already enabled)
+   * - 400 Bad Request: Validation error
+   * - 401 Unauthorized: Invalid password or authentication required
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async enableMfa(request: FastifyRequest<{ Body: MfaEnableInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await mfaService.enable(parseInt(user.userId), request.body);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] MFA enable error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/mfa/disable/request
+   * Request turning sign-in 2FA off - OTP sent to the registered mobile
+   * 
+   * Response Codes:
+   * - 200 OK: OTP sent
+   * - 400 Bad Request: Validation error, 2FA already disabled, or OTP requested too recently
+   * - 401 Unauthorized: Invalid password or authentication required
+   * - 503 Service Unavailable: SMS service temporarily unavailable
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async requestMfaDisable(request: FastifyRequest<{ Body: MfaDisableRequestInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await mfaService.requestDisable(parseInt(user.userId), request.body);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] MFA disable request error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/mfa/disable/verify
+   * Confirm turning sign-in 2FA off with the OTP
+   * 
+   * Response Codes:
+   * - 200 OK: 2FA disabled
+   * - 400 Bad Request: Validation error or 2FA already disabled
+   * - 401 Unauthorized: Invalid or expired OTP or authentication required
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async verifyMfaDisable(request: FastifyRequest<{ Body: MfaDisableVerifyInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await mfaService.verifyDisable(parseInt(user.userId), request.body);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] MFA disable verify error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * PUT /api/auth/mfa/factor
+   * Choose the sign-in factor: SMS OTP or authenticator app (requires password)
+   * 
+   * Response Codes:
+   * - 200 OK: Sign-in factor updated
+   * - 400 Bad Request: Validation error
+   * - 401 Unauthorized: Invalid password or authentication required
+   * - 428 Precondition Required: Authenticator app not enrolled
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async setMfaFactor(request: FastifyRequest<{ Body: MfaFactorInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await mfaService.setFactor(parseInt(user.userId), request.body);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] MFA factor error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/password/change
+   * Change password of the signed-in merchant
+   * 
+   * Response Codes:
+   * - 200 OK: Password changed, other sessions signed out
+   * - 400 Bad Request: Validation error or new password violates the password policy
+   * - 401 Unauthorized: Current password is incorrect or authentication required
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async changePassword(request: FastifyRequest<{ Body: ChangePasswordInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await authService.changePassword(parseInt(user.userId), request.body, user.sid);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] Change password error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/email/change/request
+   * Start changing the registered email (requires current password)
+   * 
+   * Response Codes:
+   * - 200 OK: OTPs sent to the current and new email
+   * - 400 Bad Request: Validation error, same email as current, or OTP requested too recently
+   * - 401 Unauthorized: Current password is incorrect or authentication required
+   * - 409 Conflict: Email already registered
+   * - 503 Service Unavailable: Email service temporarily unavailable
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async requestEmailChange(request: FastifyRequest<{ Body: ChangeEmailRequestInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await authService.requestContactChange(parseInt(user.userId), 'email', request.body.newEmail, request.body.password);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] Email change request error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/email/change/verify
+   * Confirm the email change with OTPs from the current and new email
+   * 
+   * Response Codes:
+   * - 200 OK: Email changed, other sessions signed out
+   * - 400 Bad Request: Validation error or no pending change
+   * - 401 Unauthorized: Invalid/expired OTP, too many attempts or authentication required
+   * - 409 Conflict: Email was registered by another account meanwhile
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async verifyEmailChange(request: FastifyRequest<{ Body: ContactChangeVerifyInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await authService.verifyContactChange(parseInt(user.userId), 'email', request.body, user.sid);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] Email change verify error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/mobile/change/request
+   * Start changing the registered mobile number (requires current password)
+   * 
+   * Response Codes:
+   * - 200 OK: OTPs sent to the current and new mobile number
+   * - 400 Bad Request: Validation error, same mobile number as current, or OTP requested too recently
+   * - 401 Unauthorized: Current password is incorrect or authentication required
+   * - 409 Conflict: Mobile number already registered
+   * - 503 Service Unavailable: SMS service temporarily unavailable
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async requestMobileChange(request: FastifyRequest<{ Body: ChangeMobileRequestInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await authService.requestContactChange(parseInt(user.userId), 'mobile', request.body.newMobile, request.body.password);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] Mobile change request error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/mobile/change/verify
+   * Confirm the mobile change with OTPs from the current and new mobile number
+   * 
+   * Response Codes:
+   * - 200 OK: Mobile number changed, other sessions signed out
+   * - 400 Bad Request: Validation error or no pending change
+   * - 401 Unauthorized: Invalid/expired OTP, too many attempts or authentication required
+   * - 409 Conflict: Mobile number was registered by another account meanwhile
+   * - 500 Internal Server Error: Unexpected server error
+   */
+  async verifyMobileChange(request: FastifyRequest<{ Body: ContactChangeVerifyInput }>, reply: FastifyReply) {
+    try {
+      const user = (request as any).user;
+      const result = await authService.verifyContactChange(parseInt(user.userId), 'mobile', request.body, user.sid);
+      return reply.status(200).send(result);
+    } catch (error: any) {
+      logger.error('[Auth Controller] Mobile change verify error:', error);
+      
+      if (error instanceof AppError) {
+        const errorResponse = formatErrorResponse(error);
+        return reply.status(error.statusCode || 500).send(errorResponse);
+      }
+      
+      return reply.status(500).send({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          statusCode: 500,
+        },
+      });
+    }
+  },
+
   /**
    * POST /api/auth/logout
    * 
@@ -237,7 +825,8 @@ export const authController = {
 
       const result = await authService.logout(
         parseInt(user.userId),
-        user.email
+        user.email,
+        user
       );
       
       return reply.status(200).send(result);
@@ -1,9 +1,10 @@
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
+import multipart from '@fastify/multipart';
 import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
 import { config } from './config';
-import { logger } from '@tsp/common';
+import { logger, assertJwtKeysConfigured, assertEncryptionKeysConfigured, getJwks } from '@tsp/common';
 import { rateLimitMiddleware } from './middleware/rateLimit.middleware';
 import { errorHandler } from './middleware/errorHandler.middleware';
 
@@ -14,11 +15,28 @@ const app = Fastify({
 // Set error handler
 app.setErrorHandler(errorHandler);
 
+// Keep the raw JSON body - API key signatures are computed over the exact bytes sent
+// Parsing still rejects __proto__ and constructor keys, as Fastify's default parser does
+const defaultJsonParser = app.getDefaultJsonParser('error', 'error');
+app.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+  request.rawBody = body as string;
+  defaultJsonParser(request, request.rawBody, done);
+});
+
 // Register plugins
 app.register(cors, {
   origin: true,
 });
 
+// Multipart uploads (KYC documents) - one file per request, capped before it is buffered
+app.register(multipart, {
+  limits: {
+    fileSize: config.kycDocuments.maxFileSizeBytes,
+    files: 1,
+    fields: 5,
+  },
+});
+
 app.register(swagger, {
   openapi: {
     info: {
@@ -43,6 +61,12 @@ app.register(swagger, {
           scheme: 'bearer',
           bearerFormat: 'JWT',
         },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Api-Key',
+          description: 'Key ID; requests must also carry X-Timestamp, X-Nonce and X-Signature (HMAC-SHA256)',
+        },
       },
     },
   },
@@ -101,9 +125,25 @@ app.get('/health', async () => {
   return { status: 'ok', service: 'merchant-onboarding-service' };
 });
 
+// Public keys of the access token signing keys - other services verify tokens with these
+app.get('/.well-known/jwks.json', async (request, reply) => {
+  reply.header('Cache-Control', 'public, max-age=300');
+  return getJwks();
+});
+
 // Start server
 const start = async () => {
   try {
+    // Refuse to start without usable signing keys (required in production)
+    assertJwtKeysConfigured();
+    // Same for field encryption and OTP hashing keys
+    assertEncryptionKeysConfigured({
+      OTP_HASH_SECRET: config.otp.hashSecret,
+      TOTP_ENCRYPTION_KEY: config.totp.encryptionKey,
+      API_KEY_ENCRYPTION_KEY: config.apiKeys.encryptionKey,
+      BANK_ACCOUNT_ENCRYPTION_KEY: config.settlementAccounts.encryptionKey,
+    });
+
     await app.listen({ port: config.port, host: '0.0.0.0' });
     logger.info(`Merchant Onboarding Service running on port ${config.port}`);
   } catch (err) {
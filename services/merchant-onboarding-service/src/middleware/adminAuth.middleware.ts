@@ -1,6 +1,61 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { verifyToken, generateToken, shouldRefreshToken, JWTPayload } from '@tsp/common';
+import { verifyToken, isTokenRevoked, extractIpAddress, JWTPayload } from '@tsp/common';
 import { UnauthorizedError, ForbiddenError } from '@tsp/common';
+import { sessionService } from '../services/session.service';
+
+export type AdminRole = 'super_admin' | 'admin' | 'support';
+
+// Actions an admin role may perform - checked per route with requirePermission
+export type AdminPermission =
+  | 'merchant:read' // List and view merchants
+  | 'merchant:update' // Edit merchant profiles
+  | 'merchant:disable' // Disable and re-enable merchant accounts, suspend and reinstate merchants
+  | 'merchant:review' // Submit merchants for review, approve or reject them
+  | 'merchant:unlock' // Lift a merchant's sign-in lockout
+  | 'settlement:manage' // Activate and deactivate merchant settlement
+  | 'audit:read' // Search audit logs
+  | 'audit:export' // Export audit logs
+  | 'change:approve' // Approve or reject changes proposed by another admin (maker-checker)
+  | 'admin:manage' // Manage admin users and roles
+  | 'account:security'; // Manage own sign-in security (passkeys)
+
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  super_admin: [
+    'merchant:read',
+    'merchant:update',
+    'merchant:disable',
+    'merchant:review',
+    'merchant:unlock',
+    'settlement:manage',
+    'audit:read',
+    'audit:export',
+    'change:approve',
+    'admin:manage',
+    'account:security',
+  ],
+  admin: [
+    'merchant:read',
+    'merchant:update',
+    'merchant:disable',
+    'merchant:review',
+    'merchant:unlock',
+    'settlement:manage',
+    'audit:read',
+    'audit:export',
+    'change:approve',
+    'account:security',
+  ],
+  support: ['merchant:read', 'merchant:unlock', 'account:security'],
+};
+
+export const isAdminRole = (role: string): role is AdminRole =>
+  Object.prototype.hasOwnProperty.call(ADMIN_ROLE_PERMISSIONS, role);
+
+/**
+ * Check whether a role grants a permission (unknown roles grant nothing)
+ */
+export const hasAdminPermission = (role: string, permission: AdminPermission): boolean =>
+  isAdminRole(role) && ADMIN_ROLE_PERMISSIONS[role].includes(permission);
 
 // Extend FastifyRequest to include admin user
 declare module 'fastify' {
@@ -12,8 +67,9 @@ declare module 'fastify' {
 /**
  * Admin authentication middleware
  * - Validates JWT token
- * - Checks if user is admin (role must be 'admin' or 'super_admin')
- * - Refreshes token if close to expiry (sliding session)
+ * - Rejects tokens revoked server-side (logout, password reset, account disable)
+ * - Rejects tokens of signed-out sessions and updates session last-seen
+ * - Checks if user is admin (role must be 'super_admin', 'admin' or 'support')
  * - Attaches admin payload to request
  */
 export const authenticateAdmin = async (
@@ -31,9 +87,22 @@ export const authenticateAdmin = async (
     
     // Verify token
     const payload = verifyToken(token);
+
+    // Reject revoked tokens
+    if (await isTokenRevoked(payload)) {
+      throw new UnauthorizedError('Token has been revoked. Please sign in again.');
+    }
+
+    // Reject tokens whose session was signed out, and record session activity
+    if (payload.sid) {
+      const ipAddress = extractIpAddress(request.headers, request.socket);
+      if (!(await sessionService.touchSession(payload.sid, ipAddress))) {
+        throw new UnauthorizedError('Session has been signed out. Please sign in again.');
+      }
+    }
     
-    // Check if user is admin (role must be admin or super_admin)
-    if (payload.role !== 'admin' && payload.role !== 'super_admin' && payload.role !== 'support') {
+    // Check if user is admin (role must be one of the admin roles)
+    if (!isAdminRole(payload.role)) {
       throw new ForbiddenError('Admin access required');
     }
 
@@ -44,22 +113,6 @@ export const authenticateAdmin = async (
 
     // Attach admin to request
     request.admin = payload as JWTPayload & { role: string };
-
-    // Check if token should be refreshed (sliding session)
-    if (shouldRefreshToken(payload)) {
-      // Generate new token with same payload
-      const newToken = generateToken({
-        userId: payload.userId,
-        merchantId: payload.merchantId,
-        role: payload.role,
-        email: payload.email,
-        kycVerified: payload.kycVerified,
-        isActive: payload.isActive,
-      });
-
-      // Send new token in response header
-      reply.header('X-New-Token', newToken);
-    }
   } catch (error: any) {
     if (error.name === 'JsonWebTokenError' || error.name === 'TokenExpiredError') {
       throw new UnauthorizedError('Invalid or expired token');
@@ -68,3 +121,19 @@ export const authenticateAdmin = async (
   }
 };
 
+/**
+ * Admin permission middleware
+ * - Must run after authenticateAdmin: preHandler: [authenticateAdmin, requirePermission('merchant:read')]
+ * - Requires every listed permission for the admin's role (403 otherwise)
+ */
+export const requirePermission = (...permissions: AdminPermission[]) =>
+  async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    if (!request.admin) {
+      throw new UnauthorizedError('Authorization token required');
+    }
+
+    const missing = permissions.filter((permission) => !hasAdminPermission(request.admin!.role, permission));
+    if (missing.length > 0) {
+      throw new ForbiddenError(`Your role does not have permission for this action (${missing.join(', ')})`);
+    }
+  };
@@ -0,0 +1,63 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { extractIpAddress, logger } from '@tsp/common';
+import { UnauthorizedError, ForbiddenError } from '@tsp/common';
+import { apiKeyService, ApiKeyContext } from '../services/apiKey.service';
+import { ipAllowlistService } from '../services/ipAllowlist.service';
+
+// Extend FastifyRequest to include the API key caller and the unparsed body
+declare module 'fastify' {
+  interface FastifyRequest {
+    apiKey?: ApiKeyContext;
+    rawBody?: string; // Set by the JSON content type parser - signatures cover the exact bytes sent
+  }
+}
+
+/**
+ * API key authentication middleware (server-to-server calls)
+ * - Requires X-Api-Key, X-Timestamp, X-Nonce and X-Signature headers
+ * - Verifies the HMAC-SHA256 signature over method, path, timestamp, nonce and body
+ * - Rejects stale timestamps and reused nonces (replay protection)
+ * - Rejects requests from IPs outside the merchant's allowlist (403, audited as ip_not_allowlisted)
+ * - Attaches the key's merchant and environment to request
+ */
+export const authenticateApiKey = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  const header = (name: string): string | undefined => {
+    const value = request.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const keyId = header('x-api-key');
+  const timestamp = header('x-timestamp');
+  const nonce = header('x-nonce');
+  const signature = header('x-signature');
+
+  if (!keyId || !timestamp || !nonce || !signature) {
+    throw new UnauthorizedError('X-Api-Key, X-Timestamp, X-Nonce and X-Signature headers are required');
+  }
+
+  const apiKey = await apiKeyService.verifySignedRequest({
+    keyId,
+    timestamp,
+    nonce,
+    signature,
+    method: request.method,
+    url: request.url,
+    rawBody: request.rawBody,
+  });
+
+  const ipAddress = extractIpAddress(request.headers, request.socket);
+
+  if (!(await ipAllowlistService.isAllowed(apiKey.nineteenMerchantId, ipAddress))) {
+    logger.warn(`[API Key Auth] Blocked request from ${ipAddress} for merchant ${apiKey.nineteenMerchantId} (key ${apiKey.keyId})`);
+    request.auditActionType = 'ip_not_allowlisted';
+    request.apiKey = apiKey; // Lets the audit log attribute the blocked request to the merchant
+    throw new ForbiddenError('Request IP address is not in the merchant IP allowlist');
+  }
+
+  await apiKeyService.recordUse(apiKey.keyId, ipAddress);
+
+  request.apiKey = apiKey;
+};
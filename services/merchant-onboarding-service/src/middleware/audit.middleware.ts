@@ -1,7 +1,7 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { PrismaClient } from '@prisma/client';
 import {
-  extractIpAddress,
+  resolveClientIp,
   maskSensitiveData,
   generateSessionId,
   getActionTypeFromPath,
@@ -13,6 +13,14 @@ import { logger } from '@tsp/common';
 
 const prisma = new PrismaClient();
 
+// Extend FastifyRequest with audit details set by handlers that know more than the path
+declare module 'fastify' {
+  interface FastifyRequest {
+    auditActionType?: string; // Overrides the path-derived action type (e.g. 'ip_not_allowlisted')
+    auditMetadata?: Record<string, unknown>; // Merged into the entry's metadata
+  }
+}
+
 // In-memory queue for non-blocking audit log insertion
 const auditLogQueue: AuditLogData[] = [];
 let queueProcessing = false;
@@ -40,6 +48,7 @@ const processAuditQueue = async (): Promise<void> => {
           merchantId: log.merchantId,
           email: log.email,
           ipAddress: log.ipAddress,
+          socketIpAddress: log.socketIpAddress || null,
           userAgent: log.userAgent || null,
           requestMethod: log.requestMethod,
           requestPath: log.requestPath,
@@ -122,8 +131,8 @@ export const auditMiddlewareOnRequest = async (
   request: FastifyRequest,
   reply: FastifyReply
 ): Promise<void> => {
-  // Skip audit logging for health check and docs
-  if (request.url === '/health' || request.url.startsWith('/api-docs') || request.url === '/redoc') {
+  // Skip audit logging for health check, docs and public signing keys
+  if (request.url === '/health' || request.url.startsWith('/api-docs') || request.url === '/redoc' || request.url === '/.well-known/jwks.json') {
     return;
   }
 
@@ -142,8 +151,8 @@ export const auditMiddlewareOnResponse = async (
   request: FastifyRequest,
   reply: FastifyReply
 ): Promise<void> => {
-  // Skip audit logging for health check and docs
-  if (request.url === '/health' || request.url.startsWith('/api-docs') || request.url === '/redoc') {
+  // Skip audit logging for health check, docs and public signing keys
+  if (request.url === '/health' || request.url.startsWith('/api-docs') || request.url === '/redoc' || request.url === '/.well-known/jwks.json') {
     return;
   }
 
@@ -152,8 +161,8 @@ export const auditMiddlewareOnResponse = async (
   const responseTime = Date.now() - startTime;
   const responseStatus = reply.statusCode || 200;
 
-  // Extract IP address from headers and socket
-  const ipAddress = extractIpAddress(request.headers, request.socket);
+  // Resolve client IP (forwarding headers only from trusted proxies) and keep the socket address
+  const { clientIp: ipAddress, socketIp: socketIpAddress } = resolveClientIp(request.headers, request.socket);
 
   // Get user info from request (if authenticated)
   const user = (request as any).user; // From auth middleware
@@ -163,8 +172,8 @@ export const auditMiddlewareOnResponse = async (
   const requestQuery = Object.keys(request.query || {}).length > 0 ? request.query : undefined;
   const maskedBody = request.body ? maskSensitiveData(request.body) : undefined;
 
-  // Determine action type
-  const actionType = getActionTypeFromPath(requestPath, request.method) || undefined;
+  // Determine action type (handlers may set a more specific one, e.g. blocked requests)
+  const actionType = request.auditActionType || getActionTypeFromPath(requestPath, request.method) || undefined;
 
   // Extract location from request body for sign-in requests
   const metadata: any = {
@@ -183,13 +192,28 @@ export const auditMiddlewareOnResponse = async (
     }
   }
 
+  // Admin requests - the acting admin goes in metadata so userId/merchantId stay merchant fields
+  if (request.admin) {
+    metadata.admin = {
+      id: parseInt(request.admin.userId),
+      email: request.admin.email,
+      role: request.admin.role,
+    };
+  }
+
+  // Details set by handlers (e.g., target and role of an admin user change)
+  if (request.auditMetadata) {
+    Object.assign(metadata, request.auditMetadata);
+  }
+
   // Create audit log entry (non-blocking - add to queue)
   const auditLog: AuditLogData = {
     sessionId,
     userId: user?.userId ? parseInt(user.userId) : undefined,
-    merchantId: user?.merchantId || undefined,
+    merchantId: user?.merchantId || request.apiKey?.nineteenMerchantId || undefined, // JWT or API key caller
     email: user?.email || undefined,
     ipAddress,
+    socketIpAddress,
     userAgent: request.headers['user-agent'] || undefined,
     requestMethod: request.method,
     requestPath,
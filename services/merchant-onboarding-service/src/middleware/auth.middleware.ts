@@ -1,6 +1,7 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { verifyToken, generateToken, shouldRefreshToken, JWTPayload } from '@tsp/common';
+import { verifyToken, isTokenRevoked, extractIpAddress, JWTPayload } from '@tsp/common';
 import { UnauthorizedError } from '@tsp/common';
+import { sessionService } from '../services/session.service';
 
 // Extend FastifyRequest to include user
 declare module 'fastify' {
@@ -12,7 +13,8 @@ declare module 'fastify' {
 /**
  * Authentication middleware
  * - Validates JWT token
- * - Refreshes token if close to expiry (sliding session)
+ * - Rejects tokens revoked server-side (logout, password reset, account disable)
+ * - Rejects tokens of signed-out sessions and updates session last-seen
  * - Attaches user payload to request
  */
 export const authenticate = async (
@@ -30,6 +32,19 @@ export const authenticate = async (
     
     // Verify token
     const payload = verifyToken(token);
+
+    // Reject revoked tokens
+    if (await isTokenRevoked(payload)) {
+      throw new UnauthorizedError('Token has been revoked. Please sign in again.');
+    }
+
+    // Reject tokens whose session was signed out, and record session activity
+    if (payload.sid) {
+      const ipAddress = extractIpAddress(request.headers, request.socket);
+      if (!(await sessionService.touchSession(payload.sid, ipAddress))) {
+        throw new UnauthorizedError('Session has been signed out. Please sign in again.');
+      }
+    }
     
     // Check if merchant is active
     if (!payload.isActive) {
@@ -38,22 +53,6 @@ export const authenticate = async (
 
     // Attach user to request
     request.user = payload;
-
-    // Check if token should be refreshed (sliding session)
-    if (shouldRefreshToken(payload)) {
-      // Generate new token with same payload
-      const newToken = generateToken({
-        userId: payload.userId,
-        merchantId: payload.merchantId,
-        role: payload.role,
-        email: payload.email,
-        kycVerified: payload.kycVerified,
-        isActive: payload.isActive,
-      });
-
-      // Send new token in response header
-      reply.header('X-New-Token', newToken);
-    }
   } catch (error: any) {
     if (error.name === 'JsonWebTokenError' || error.name === 'TokenExpiredError') {
       throw new UnauthorizedError('Invalid or expired token');
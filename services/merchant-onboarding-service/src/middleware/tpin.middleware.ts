@@ -0,0 +1,27 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { ValidationError, UnauthorizedError } from '@tsp/common';
+import { tpinService } from '../services/tpin.service';
+
+/**
+ * Transaction PIN middleware for sensitive operations (bank account changes, payouts)
+ * - Must run after authenticate: preHandler: [authenticate, requireTpin]
+ * - Reads the TPIN from the X-Tpin header (kept out of bodies and audit logs)
+ * - Wrong entries count towards the TPIN lock (423 once locked)
+ */
+export const requireTpin = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  if (!request.user) {
+    throw new UnauthorizedError('Authorization token required');
+  }
+
+  const header = request.headers['x-tpin'];
+  const tpin = Array.isArray(header) ? header[0] : header;
+
+  if (!tpin) {
+    throw new ValidationError('Transaction PIN required (X-Tpin header)');
+  }
+
+  await tpinService.verifyTpin(parseInt(request.user.userId, 10), tpin);
+};
@@ -0,0 +1,142 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { adminRoutes } from './admin.routes';
+import { errorHandler } from '../middleware/errorHandler.middleware';
+import { AdminRole } from '../middleware/adminAuth.middleware';
+
+jest.mock('bcrypt', () => ({ hash: jest.fn(), compare: jest.fn() }));
+
+// Bearer token is the role name - permissions are the only thing under test
+jest.mock('@tsp/common', () => ({
+  ...jest.requireActual('@tsp/common'),
+  verifyToken: (token: string) => ({
+    userId: '1',
+    email: `${token}@example.com`,
+    role: token,
+    kycVerified: true,
+    isActive: true,
+  }),
+  isTokenRevoked: async () => false,
+}));
+
+jest.mock('../services/session.service', () => ({
+  sessionService: { touchSession: async () => true },
+}));
+
+// Every controller method answers 200, so a 403 can only come from the permission check
+jest.mock('../controllers/admin.controller', () => ({
+  adminController: new Proxy({}, {
+    get: () => async (_request: unknown, reply: { status: (code: number) => { send: (body: unknown) => unknown } }) =>
+      reply.status(200).send({ success: true }),
+  }),
+}));
+
+interface RouteCase {
+  method: 'GET' | 'POST' | 'PUT';
+  url: string;
+  permission: string;
+  payload?: Record<string, unknown>; // Body that passes the route's schema (defaults to {})
+}
+
+const ROUTES: RouteCase[] = [
+  { method: 'GET', url: '/api/admin/merchants', permission: 'merchant:read' },
+  { method: 'GET', url: '/api/admin/pending-changes', permission: 'merchant:read' },
+  { method: 'PUT', url: '/api/admin/merchants/12345678/profile', permission: 'merchant:update' },
+  { method: 'POST', url: '/api/admin/merchants/12345678/disable', permission: 'merchant:disable' },
+  {
+    method: 'POST',
+    url: '/api/admin/merchants/12345678/status/suspend',
+    permission: 'merchant:disable',
+    payload: { reason: 'Chargeback investigation' },
+  },
+  { method: 'POST', url: '/api/admin/merchants/12345678/status/submit', permission: 'merchant:review' },
+  { method: 'POST', url: '/api/admin/merchants/12345678/unlock', permission: 'merchant:unlock' },
+  { method: 'POST', url: '/api/admin/merchants/12345678/settlement/activate', permission: 'settlement:manage' },
+  { method: 'GET', url: '/api/admin/audit-logs', permission: 'audit:read' },
+  { method: 'GET', url: '/api/admin/audit-logs/export', permission: 'audit:export' },
+  { method: 'POST', url: '/api/admin/pending-changes/1/approve', permission: 'change:approve' },
+  { method: 'GET', url: '/api/admin/admins', permission: 'admin:manage' },
+  { method: 'GET', url: '/api/admin/webauthn/credentials', permission: 'account:security' },
+];
+
+// Expected access per role, written out rather than read from ADMIN_ROLE_PERMISSIONS
+const ALLOWED: Record<AdminRole, string[]> = {
+  super_admin: [
+    'merchant:read',
+    'merchant:update',
+    'merchant:disable',
+    'merchant:review',
+    'merchant:unlock',
+    'settlement:manage',
+    'audit:read',
+    'audit:export',
+    'change:approve',
+    'admin:manage',
+    'account:security',
+  ],
+  admin: [
+    'merchant:read',
+    'merchant:update',
+    'merchant:disable',
+    'merchant:review',
+    'merchant:unlock',
+    'settlement:manage',
+    'audit:read',
+    'audit:export',
+    'change:approve',
+    'account:security',
+  ],
+  support: ['merchant:read', 'merchant:unlock', 'account:security'],
+};
+
+const inject = (app: FastifyInstance, route: RouteCase, token?: string) =>
+  app.inject({
+    method: route.method,
+    url: route.url,
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+    ...(route.method === 'GET' ? {} : { payload: route.payload ?? {} }),
+  });
+
+describe('admin route permissions', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = Fastify();
+    app.setErrorHandler(errorHandler);
+    app.register(adminRoutes);
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe.each(Object.keys(ALLOWED) as AdminRole[])('%s', (role) => {
+    const allowed = ROUTES.filter((route) => ALLOWED[role].includes(route.permission));
+    const forbidden = ROUTES.filter((route) => !ALLOWED[role].includes(route.permission));
+
+    if (allowed.length > 0) {
+      it.each(allowed.map((route) => [`${route.method} ${route.url}`, route] as const))('may use %s', async (_name, route) => {
+        const response = await inject(app, route, role);
+        expect(response.statusCode).toBe(200);
+      });
+    }
+
+    if (forbidden.length > 0) {
+      it.each(forbidden.map((route) => [`${route.method} ${route.url}`, route] as const))('gets 403 on %s', async (_name, route) => {
+        const response = await inject(app, route, role);
+        expect(response.statusCode).toBe(403);
+        expect(response.json().error.message).toContain(route.permission);
+      });
+    }
+  });
+
+  it('rejects requests without a token before checking permissions', async () => {
+    const response = await inject(app, ROUTES[0]);
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('rejects tokens with a non-admin role', async () => {
+    const response = await inject(app, ROUTES[0], 'merchant');
+    expect(response.statusCode).toBe(403);
+  });
+});
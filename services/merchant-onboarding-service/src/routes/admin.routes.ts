@@ -1,7 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { adminController } from '../controllers/admin.controller';
-import { authenticateAdmin } from '../middleware/adminAuth.middleware';
+import { authenticateAdmin, requirePermission } from '../middleware/adminAuth.middleware';
 import { logger } from '@tsp/common';
 
 // Validation schemas
@@ -29,6 +29,30 @@ const updateMerchantProfileSchema = z.object({
   expectedTurnover: z.number().optional(),
   turnoverDoneTillDate: z.number().optional(),
   numberOfTransactionsDone: z.number().int().optional(),
+  comment: z.string().max(500).optional(), // Reason shown to the approver
+});
+
+const adminVerifyOtpSchema = z.object({
+  mfaSessionToken: z.string().min(1),
+  otp: z.string().length(6),
+});
+
+const adminSendOtpSchema = z.object({
+  mfaSessionToken: z.string().min(1),
+});
+
+const adminVerifyWebauthnSchema = z.object({
+  mfaSessionToken: z.string().min(1),
+  response: z.object({ id: z.string().min(1) }).passthrough(),
+});
+
+const webauthnRegistrationSchema = z.object({
+  name: z.string().min(1).max(100),
+  response: z.object({ id: z.string().min(1) }).passthrough(),
+});
+
+const renameWebauthnCredentialSchema = z.object({
+  name: z.string().min(1).max(100),
 });
 
 const adminPasswordResetRequestSchema = z.object({
@@ -41,13 +65,230 @@ const adminPasswordResetVerifySchema = z.object({
   newPassword: z.string().min(8),
 });
 
+const adminRoleSchema = z.enum(['super_admin', 'admin', 'support']);
+
+const inviteAdminSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1).max(255),
+  role: adminRoleSchema,
+  mobile: z.string().min(10).max(20),
+});
+
+const changeAdminRoleSchema = z.object({
+  role: adminRoleSchema,
+});
+
+const merchantStatusReasonSchema = z.object({
+  reason: z.string().max(1000).optional(),
+});
+
+const merchantStatusReasonRequiredSchema = z.object({
+  reason: z.string().trim().min(1).max(1000),
+});
+
+const runKybChecksSchema = z.object({
+  checks: z.array(z.enum(['PAN', 'GSTIN', 'CIN'])).min(1).max(3).optional(),
+});
+
+const pendingChangeCommentSchema = z.object({
+  comment: z.string().max(500).optional(),
+});
+
+const rejectPendingChangeSchema = z.object({
+  comment: z.string().min(1).max(500),
+});
+
+const listPendingChangesQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'cancelled', 'expired']).optional(),
+  action: z.enum(['merchant_profile_update', 'merchant_disable', 'merchant_enable', 'merchant_suspend', 'merchant_reinstate']).optional(),
+  merchantId: z.string().optional(),
+  page: z.string().optional(),
+  limit: z.string().optional(),
+});
+
+const documentReviewCommentSchema = z.object({
+  comment: z.string().max(500).optional(),
+});
+
+const rejectDocumentSchema = z.object({
+  comment: z.string().trim().min(1).max(500),
+});
+
+const listDocumentsQuerySchema = z.object({
+  status: z.enum(['PENDING', 'VERIFIED', 'REJECTED', 'REPLACED']).optional(),
+  documentType: z.enum(['PAN', 'GST_CERTIFICATE', 'INCORPORATION_CERTIFICATE', 'CANCELLED_CHEQUE', 'DIRECTOR_ID']).optional(),
+  merchantId: z.string().optional(),
+  page: z.string().optional(),
+  limit: z.string().optional(),
+});
+
+const adminSetupSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8),
+});
+
+// Admin returned by the admin user management routes
+const adminUserResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    email: { type: 'string' },
+    name: { type: 'string' },
+    mobile: { type: 'string', nullable: true },
+    role: { type: 'string' },
+    status: { type: 'string', enum: ['active', 'invited', 'password_reset_required', 'deactivated'] },
+    isActive: { type: 'boolean' },
+    is2faActive: { type: 'boolean' },
+    isEmailVerified: { type: 'boolean' },
+    passwordResetRequired: { type: 'boolean' },
+    invitedById: { type: 'number', nullable: true },
+    invitedAt: { type: 'string', format: 'date-time', nullable: true },
+    lastLoginAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+// Merchant lifecycle status returned by the status routes
+const merchantStatusResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    email: { type: 'string' },
+    nineteenMerchantId: { type: 'string' },
+    status: { type: 'string', enum: ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'SUSPENDED'] },
+    statusReason: { type: 'string', nullable: true },
+    statusChangedAt: { type: 'string', format: 'date-time', nullable: true },
+    kycVerified: { type: 'boolean' },
+    isActive: { type: 'boolean' },
+    isSettlementActive: { type: 'boolean' },
+    availableActions: { type: 'array', items: { type: 'string', enum: ['submit', 'approve', 'reject', 'suspend', 'reinstate'] } },
+  },
+};
+
+// Merchant a KYB result belongs to
+const kybMerchantResponseSchema = {
+  type: 'object',
+  properties: {
+    nineteenMerchantId: { type: 'string' },
+    name: { type: 'string' },
+  },
+};
+
+// Latest PAN / GSTIN / CIN verification results stored on the profile
+const kybVerificationResponseSchema = {
+  type: 'object',
+  properties: {
+    provider: { type: 'string', nullable: true },
+    nameMatchThreshold: { type: 'number' },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          checkType: { type: 'string', enum: ['PAN', 'GSTIN', 'CIN'] },
+          idNumber: { type: 'string', nullable: true },
+          status: { type: 'string', enum: ['VERIFIED', 'NAME_MISMATCH', 'INACTIVE', 'NOT_FOUND'], nullable: true },
+          registeredName: { type: 'string', nullable: true },
+          nameMatchScore: { type: 'number', nullable: true },
+          checkedAt: { type: 'string', format: 'date-time', nullable: true },
+        },
+      },
+    },
+  },
+};
+
+// Admin as shown on a pending change (proposer / reviewer)
+const pendingChangeAdminSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    id: { type: 'number' },
+    email: { type: 'string' },
+    name: { type: 'string' },
+  },
+};
+
+// Change awaiting (or past) maker-checker review
+const pendingChangeResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    action: { type: 'string', enum: ['merchant_profile_update', 'merchant_disable', 'merchant_enable', 'merchant_suspend', 'merchant_reinstate'] },
+    merchantId: { type: 'string' },
+    summary: { type: 'string' },
+    // Changed fields - { field: { from, to } }
+    diff: { type: 'object', additionalProperties: true },
+    status: { type: 'string', enum: ['pending', 'approved', 'rejected', 'cancelled', 'expired'] },
+    requestComment: { type: 'string', nullable: true },
+    reviewComment: { type: 'string', nullable: true },
+    requestedBy: pendingChangeAdminSchema,
+    reviewedBy: pendingChangeAdminSchema,
+    reviewedAt: { type: 'string', format: 'date-time', nullable: true },
+    expiresAt: { type: 'string', format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+// KYC/KYB document in the review queue
+const merchantDocumentResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    merchant: {
+      type: 'object',
+      properties: {
+        id: { type: 'number' },
+        name: { type: 'string' },
+        nineteenMerchantId: { type: 'string' },
+        status: { type: 'string' },
+      },
+    },
+    documentType: { type: 'string', enum: ['PAN', 'GST_CERTIFICATE', 'INCORPORATION_CERTIFICATE', 'CANCELLED_CHEQUE', 'DIRECTOR_ID'] },
+    label: { type: 'string', nullable: true },
+    fileName: { type: 'string' },
+    mimeType: { type: 'string' },
+    sizeBytes: { type: 'number' },
+    checksum: { type: 'string' },
+    status: { type: 'string', enum: ['PENDING', 'VERIFIED', 'REJECTED', 'REPLACED'] },
+    reviewComment: { type: 'string', nullable: true },
+    reviewedBy: pendingChangeAdminSchema,
+    reviewedAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+// Settlement bank account with its penny drop result - the account number is only ever returned masked
+const settlementAccountResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    accountNumberMasked: { type: 'string' },
+    ifsc: { type: 'string' },
+    bankName: { type: 'string' },
+    holderName: { type: 'string' },
+    status: { type: 'string', enum: ['PENDING', 'VERIFIED', 'NAME_MISMATCH', 'FAILED'] },
+    registeredName: { type: 'string', nullable: true },
+    nameMatchScore: { type: 'number', nullable: true },
+    failureReason: { type: 'string', nullable: true },
+    verificationAttempts: { type: 'number' },
+    isPrimary: { type: 'boolean' },
+    provider: { type: 'string', nullable: true },
+    providerReference: { type: 'string', nullable: true },
+    checkedAt: { type: 'string', format: 'date-time', nullable: true },
+    verifiedAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
 export async function adminRoutes(fastify: FastifyInstance) {
   // Admin Sign In
   fastify.post(
     '/api/admin/signin',
     {
       schema: {
-        description: 'Admin sign in - Returns JWT token on success',
+        description: 'Admin sign in - MFA always required. Returns an SMS OTP challenge, or a security key (WebAuthn) challenge when 2FA is enabled with registered keys.',
         tags: ['Admin'],
         body: {
           type: 'object',
@@ -63,7 +304,19 @@ export async function adminRoutes(fastify: FastifyInstance) {
             type: 'object',
             properties: {
               success: { type: 'boolean' },
+              requiresMfa: { type: 'boolean' },
+              mfaMethod: { type: 'string', enum: ['sms', 'webauthn'], description: 'sms: /api/admin/verify-otp, webauthn: /api/admin/verify-webauthn' },
+              message: { type: 'string' },
+              mfaSessionToken: { type: 'string' },
+              maskedMobile: { type: 'string' },
+              webauthnOptions: {
+                type: 'object',
+                additionalProperties: true,
+                description: 'PublicKeyCredentialRequestOptions (JSON) for navigator.credentials.get()',
+              },
               token: { type: 'string' },
+              refreshToken: { type: 'string' },
+              expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
               admin: {
                 type: 'object',
                 properties: {
@@ -91,7 +344,7 @@ export async function adminRoutes(fastify: FastifyInstance) {
             },
           },
           403: {
-            description: 'Forbidden - Admin account is disabled',
+            description: 'Forbidden - Admin account is disabled, password reset required, or no second factor registered',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
@@ -104,121 +357,58 @@ export async function adminRoutes(fastify: FastifyInstance) {
               },
             },
           },
-          500: {
-            description: 'Internal Server Error',
+          423: {
+            description: 'Locked - Account temporarily locked after too many failed sign-ins',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Internal server error' },
-                  statusCode: { type: 'number', example: 500 },
+                  message: { type: 'string', example: 'Account is temporarily locked due to too many failed sign-in attempts. Try again in 30 minute(s) or unlock it with an OTP.' },
+                  statusCode: { type: 'number', example: 423 },
                 },
               },
             },
           },
-        },
-      },
-    },
-    async (request, reply) => {
-      const validated = adminSignInSchema.parse(request.body);
-      return adminController.signIn({ ...request, body: validated } as any, reply);
-    }
-  );
-
-  // Get All Merchants (Protected)
-  fastify.get(
-    '/api/admin/merchants',
-    {
-      preHandler: [authenticateAdmin],
-      schema: {
-        description: 'Get all merchants with pagination and search (Admin only)',
-        tags: ['Admin'],
-        security: [{ bearerAuth: [] }],
-        querystring: {
-          type: 'object',
-          properties: {
-            page: { type: 'number', minimum: 1, default: 1 },
-            limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
-            search: { type: 'string' },
-          },
-        },
-        response: {
-          200: {
-            description: 'Success - Returns list of merchants',
+          429: {
+            description: 'Too Many Requests - Wait before the next sign-in attempt (progressive backoff)',
             type: 'object',
             properties: {
-              success: { type: 'boolean' },
-              merchants: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    id: { type: 'number' },
-                    name: { type: 'string' },
-                    email: { type: 'string' },
-                    mobile: { type: 'string' },
-                    nineteenMerchantId: { type: 'string' },
-                    kycVerified: { type: 'boolean' },
-                    isActive: { type: 'boolean' },
-                    isSettlementActive: { type: 'boolean' },
-                    is2faActive: { type: 'boolean' },
-                    isMobileVerified: { type: 'boolean' },
-                    isEmailVerified: { type: 'boolean' },
-                    state: { type: 'string' },
-                    createdAt: { type: 'string', format: 'date-time' },
-                    updatedAt: { type: 'string', format: 'date-time' },
-                  profile: {
-                    type: 'object',
-                    properties: {
-                      nineteenMerchantId: { type: 'string' },
-                      typeOfEntity: { type: 'string', nullable: true },
-                      pan: { type: 'string', nullable: true },
-                      incorporationDate: { type: 'string', format: 'date-time', nullable: true },
-                      gst: { type: 'string', nullable: true },
-                      businessAddress: { type: 'string', nullable: true },
-                      registrationNumber: { type: 'string', nullable: true },
-                      mccCodes: { type: 'object', nullable: true, additionalProperties: true },
-                      directorDetails: { type: 'object', nullable: true, additionalProperties: true },
-                      shareholdingPatterns: { type: 'object', nullable: true, additionalProperties: true },
-                      uboDetails: { type: 'object', nullable: true, additionalProperties: true },
-                      accountDetails: { type: 'object', nullable: true, additionalProperties: true },
-                      whitelistedIps: { type: 'array', nullable: true, items: { type: 'string' } },
-                      apDetails: { type: 'object', nullable: true, additionalProperties: true },
-                      averageTicketSize: { type: 'number', nullable: true },
-                      averageVolume: { type: 'number', nullable: true },
-                      expectedTurnover: { type: 'number', nullable: true },
-                      turnoverDoneTillDate: { type: 'number', nullable: true },
-                      numberOfTransactionsDone: { type: 'number' },
-                      createdAt: { type: 'string', format: 'date-time', nullable: true },
-                      updatedAt: { type: 'string', format: 'date-time', nullable: true },
-                    },
-                  },
-                  },
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Too many failed sign-in attempts. Please wait 4 second(s) before trying again.' },
+                  statusCode: { type: 'number', example: 429 },
                 },
               },
-              pagination: {
+            },
+          },
+          503: {
+            description: 'Service Unavailable - SMS service temporarily unavailable',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
                 type: 'object',
                 properties: {
-                  page: { type: 'number' },
-                  limit: { type: 'number' },
-                  total: { type: 'number' },
-                  totalPages: { type: 'number' },
+                  message: { type: 'string', example: 'SMS service temporarily unavailable. Please try again later or contact support.' },
+                  statusCode: { type: 'number', example: 503 },
                 },
               },
             },
           },
-          401: {
-            description: 'Unauthorized - Invalid or missing authentication token',
+          500: {
+            description: 'Internal Server Error',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string' },
-                  statusCode: { type: 'number', example: 401 },
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
                 },
               },
             },
@@ -227,116 +417,85 @@ export async function adminRoutes(fastify: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      return adminController.getAllMerchants(request, reply);
+      const validated = adminSignInSchema.parse(request.body);
+      return adminController.signIn({ ...request, body: validated } as any, reply);
     }
   );
 
-  // Get Merchant by ID (Query Parameter) - Alternative endpoint
-  fastify.get(
-    '/api/admin/merchant',
+  // Admin Verify OTP (completes sign-in with SMS OTP)
+  fastify.post(
+    '/api/admin/verify-otp',
     {
-      preHandler: [authenticateAdmin],
       schema: {
-        description: 'Get merchant details by merchant ID using query parameter (Admin only)',
+        description: 'Complete admin sign-in with the SMS OTP. Max 3 attempts per MFA session.',
         tags: ['Admin'],
-        security: [{ bearerAuth: [] }],
-        querystring: {
+        body: {
           type: 'object',
-          required: ['merchantId'],
+          required: ['mfaSessionToken', 'otp'],
           properties: {
-            merchantId: { type: 'string', description: 'The 8-digit merchant ID' },
+            mfaSessionToken: { type: 'string' },
+            otp: { type: 'string', minLength: 6, maxLength: 6 },
           },
         },
         response: {
           200: {
-            description: 'Success - Returns merchant details with full profile',
+            description: 'Success - Sign in successful',
             type: 'object',
             properties: {
               success: { type: 'boolean' },
-              merchant: {
+              token: { type: 'string' },
+              refreshToken: { type: 'string' },
+              expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
+              admin: {
                 type: 'object',
                 properties: {
                   id: { type: 'number' },
-                  name: { type: 'string' },
                   email: { type: 'string' },
-                  mobile: { type: 'string' },
-                  nineteenMerchantId: { type: 'string' },
-                  kycVerified: { type: 'boolean' },
+                  name: { type: 'string' },
+                  role: { type: 'string' },
                   isActive: { type: 'boolean' },
-                  isSettlementActive: { type: 'boolean' },
-                  is2faActive: { type: 'boolean' },
-                  isMobileVerified: { type: 'boolean' },
-                  isEmailVerified: { type: 'boolean' },
-                  state: { type: 'string' },
-                  createdAt: { type: 'string', format: 'date-time' },
-                  updatedAt: { type: 'string', format: 'date-time' },
-                  profile: {
-                    type: 'object',
-                    properties: {
-                      typeOfEntity: { type: 'string', nullable: true },
-                      pan: { type: 'string', nullable: true },
-                      incorporationDate: { type: 'string', format: 'date-time', nullable: true },
-                      gst: { type: 'string', nullable: true },
-                      businessAddress: { type: 'string', nullable: true },
-                      registrationNumber: { type: 'string', nullable: true },
-                      mccCodes: { type: 'object', nullable: true, additionalProperties: true },
-                      directorDetails: { type: 'object', nullable: true, additionalProperties: true },
-                      shareholdingPatterns: { type: 'object', nullable: true, additionalProperties: true },
-                      uboDetails: { type: 'object', nullable: true, additionalProperties: true },
-                      accountDetails: { type: 'object', nullable: true, additionalProperties: true },
-                      whitelistedIps: { type: 'array', nullable: true, items: { type: 'string' } },
-                      apDetails: { type: 'object', nullable: true, additionalProperties: true },
-                      averageTicketSize: { type: 'number', nullable: true },
-                      averageVolume: { type: 'number', nullable: true },
-                      expectedTurnover: { type: 'number', nullable: true },
-                      turnoverDoneTillDate: { type: 'number', nullable: true },
-                      numberOfTransactionsDone: { type: 'number' },
-                      createdAt: { type: 'string', format: 'date-time', nullable: true },
-                      updatedAt: { type: 'string', format: 'date-time', nullable: true },
-                    },
-                  },
                 },
               },
             },
           },
           400: {
-            description: 'Bad Request - Missing merchantId parameter',
+            description: 'Bad Request - Validation error or MFA session requires a security key',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'merchantId query parameter is required' },
+                  message: { type: 'string' },
                   statusCode: { type: 'number', example: 400 },
                 },
               },
             },
           },
           401: {
-            description: 'Unauthorized',
+            description: 'Unauthorized - Invalid/expired OTP or MFA session, or too many attempts',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string' },
+                  message: { type: 'string', example: 'Invalid OTP' },
                   statusCode: { type: 'number', example: 401 },
                 },
               },
             },
           },
-          404: {
-            description: 'Not Found - Merchant not found',
+          403: {
+            description: 'Forbidden - Admin account is disabled',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Merchant not found' },
-                  statusCode: { type: 'number', example: 404 },
+                  message: { type: 'string', example: 'Admin account is disabled. Please contact support.' },
+                  statusCode: { type: 'number', example: 403 },
                 },
               },
             },
@@ -359,52 +518,256 @@ export async function adminRoutes(fastify: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      return adminController.getMerchantByQuery(request, reply);
+      const validated = adminVerifyOtpSchema.parse(request.body);
+      return adminController.verifyOtp({ ...request, body: validated } as any, reply);
     }
   );
 
-  // Get Merchant by ID (Path Parameter) - Original endpoint
-  fastify.get(
-    '/api/admin/merchants/:merchantId',
+  // Admin Resend OTP
+  fastify.post(
+    '/api/admin/send-otp',
     {
-      preHandler: [authenticateAdmin],
       schema: {
-        description: 'Get merchant details by merchant ID using path parameter (Admin only)',
+        description: 'Resend the sign-in SMS OTP for an MFA session. 60 second cooldown, max 3 resends per session.',
         tags: ['Admin'],
-        security: [{ bearerAuth: [] }],
-        params: {
+        body: {
           type: 'object',
-          required: ['merchantId'],
+          required: ['mfaSessionToken'],
           properties: {
-            merchantId: { type: 'string' },
+            mfaSessionToken: { type: 'string' },
           },
         },
         response: {
           200: {
-            description: 'Success - Returns merchant details with full profile',
+            description: 'Success - OTP sent',
             type: 'object',
             properties: {
               success: { type: 'boolean' },
-              merchant: {
+              message: { type: 'string' },
+              maskedMobile: { type: 'string' },
+              expiresIn: { type: 'number', description: 'OTP expiry time in seconds' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Cooldown not elapsed or MFA session requires a security key',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or expired MFA session',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid or expired MFA session. Please sign in again.' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          429: {
+            description: 'Too Many Requests - Resend limit reached',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'OTP resend limit reached. Please sign in again.' },
+                  statusCode: { type: 'number', example: 429 },
+                },
+              },
+            },
+          },
+          503: {
+            description: 'Service Unavailable - SMS service temporarily unavailable',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'SMS service temporarily unavailable. Please try again later or contact support.' },
+                  statusCode: { type: 'number', example: 503 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = adminSendOtpSchema.parse(request.body);
+      return adminController.sendOtp({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Admin Verify Security Key (completes sign-in when 2FA is enabled)
+  fastify.post(
+    '/api/admin/verify-webauthn',
+    {
+      schema: {
+        description: 'Complete admin sign-in with a WebAuthn assertion (security key / passkey). Max 3 attempts per MFA session.',
+        tags: ['Admin'],
+        body: {
+          type: 'object',
+          required: ['mfaSessionToken', 'response'],
+          properties: {
+            mfaSessionToken: { type: 'string' },
+            response: {
+              type: 'object',
+              additionalProperties: true,
+              description: 'AuthenticationResponseJSON from navigator.credentials.get()',
+            },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Sign in successful',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              token: { type: 'string' },
+              refreshToken: { type: 'string' },
+              expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
+              admin: {
                 type: 'object',
                 properties: {
                   id: { type: 'number' },
-                  name: { type: 'string' },
                   email: { type: 'string' },
-                  mobile: { type: 'string' },
-                  nineteenMerchantId: { type: 'string' },
-                  kycVerified: { type: 'boolean' },
+                  name: { type: 'string' },
+                  role: { type: 'string' },
                   isActive: { type: 'boolean' },
-                  isSettlementActive: { type: 'boolean' },
-                  is2faActive: { type: 'boolean' },
-                  isMobileVerified: { type: 'boolean' },
-                  isEmailVerified: { type: 'boolean' },
-                  state: { type: 'string' },
-                  createdAt: { type: 'string', format: 'date-time' },
-                  updatedAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid/expired MFA session, verification failed or too many attempts',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Security key verification failed' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin account is disabled',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Admin account is disabled. Please contact support.' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = adminVerifyWebauthnSchema.parse(request.body);
+      return adminController.verifyWebauthn({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Get All Merchants (Protected)
+  fastify.get(
+    '/api/admin/merchants',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:read')],
+      schema: {
+        description: 'Get all merchants with pagination, search and status filter (Admin only)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: { type: 'number', minimum: 1, default: 1 },
+            limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+            search: { type: 'string' },
+            status: { type: 'string', enum: ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'SUSPENDED'] },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns list of merchants',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              merchants: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'number' },
+                    name: { type: 'string' },
+                    email: { type: 'string' },
+                    mobile: { type: 'string' },
+                    nineteenMerchantId: { type: 'string' },
+                    kycVerified: { type: 'boolean' },
+                    isActive: { type: 'boolean' },
+                    isSettlementActive: { type: 'boolean' },
+                    status: { type: 'string', enum: ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'SUSPENDED'] },
+                    statusReason: { type: 'string', nullable: true },
+                    statusChangedAt: { type: 'string', format: 'date-time', nullable: true },
+                    is2faActive: { type: 'boolean' },
+                    isMobileVerified: { type: 'boolean' },
+                    isEmailVerified: { type: 'boolean' },
+                    state: { type: 'string' },
+                    createdAt: { type: 'string', format: 'date-time' },
+                    updatedAt: { type: 'string', format: 'date-time' },
                   profile: {
                     type: 'object',
                     properties: {
+                      nineteenMerchantId: { type: 'string' },
                       typeOfEntity: { type: 'string', nullable: true },
                       pan: { type: 'string', nullable: true },
                       incorporationDate: { type: 'string', format: 'date-time', nullable: true },
@@ -427,12 +790,3470 @@ export async function adminRoutes(fastify: FastifyInstance) {
                       updatedAt: { type: 'string', format: 'date-time', nullable: true },
                     },
                   },
+                  },
+                },
+              },
+              pagination: {
+                type: 'object',
+                properties: {
+                  page: { type: 'number' },
+                  limit: { type: 'number' },
+                  total: { type: 'number' },
+                  totalPages: { type: 'number' },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.getAllMerchants(request, reply);
+    }
+  );
+
+  // Get Merchant by ID (Query Parameter) - Alternative endpoint
+  fastify.get(
+    '/api/admin/merchant',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:read')],
+      schema: {
+        description: 'Get merchant details by merchant ID using query parameter (Admin only)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string', description: 'The 8-digit merchant ID' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns merchant details with full profile',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              merchant: {
+                type: 'object',
+                properties: {
+                  id: { type: 'number' },
+                  name: { type: 'string' },
+                  email: { type: 'string' },
+                  mobile: { type: 'string' },
+                  nineteenMerchantId: { type: 'string' },
+                  kycVerified: { type: 'boolean' },
+                  isActive: { type: 'boolean' },
+                  isSettlementActive: { type: 'boolean' },
+                  status: { type: 'string', enum: ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'SUSPENDED'] },
+                  statusReason: { type: 'string', nullable: true },
+                  statusChangedAt: { type: 'string', format: 'date-time', nullable: true },
+                  is2faActive: { type: 'boolean' },
+                  isMobileVerified: { type: 'boolean' },
+                  isEmailVerified: { type: 'boolean' },
+                  state: { type: 'string' },
+                  createdAt: { type: 'string', format: 'date-time' },
+                  updatedAt: { type: 'string', format: 'date-time' },
+                  profile: {
+                    type: 'object',
+                    properties: {
+                      typeOfEntity: { type: 'string', nullable: true },
+                      pan: { type: 'string', nullable: true },
+                      incorporationDate: { type: 'string', format: 'date-time', nullable: true },
+                      gst: { type: 'string', nullable: true },
+                      businessAddress: { type: 'string', nullable: true },
+                      registrationNumber: { type: 'string', nullable: true },
+                      mccCodes: { type: 'object', nullable: true, additionalProperties: true },
+                      directorDetails: { type: 'object', nullable: true, additionalProperties: true },
+                      shareholdingPatterns: { type: 'object', nullable: true, additionalProperties: true },
+                      uboDetails: { type: 'object', nullable: true, additionalProperties: true },
+                      accountDetails: { type: 'object', nullable: true, additionalProperties: true },
+                      whitelistedIps: { type: 'array', nullable: true, items: { type: 'string' } },
+                      apDetails: { type: 'object', nullable: true, additionalProperties: true },
+                      averageTicketSize: { type: 'number', nullable: true },
+                      averageVolume: { type: 'number', nullable: true },
+                      expectedTurnover: { type: 'number', nullable: true },
+                      turnoverDoneTillDate: { type: 'number', nullable: true },
+                      numberOfTransactionsDone: { type: 'number' },
+                      createdAt: { type: 'string', format: 'date-time', nullable: true },
+                      updatedAt: { type: 'string', format: 'date-time', nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Bad Request - Missing merchantId parameter',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'merchantId query parameter is required' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.getMerchantByQuery(request, reply);
+    }
+  );
+
+  // Get Merchant by ID (Path Parameter) - Original endpoint
+  fastify.get(
+    '/api/admin/merchants/:merchantId',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:read')],
+      schema: {
+        description: 'Get merchant details by merchant ID using path parameter (Admin only)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns merchant details with full profile',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              merchant: {
+                type: 'object',
+                properties: {
+                  id: { type: 'number' },
+                  name: { type: 'string' },
+                  email: { type: 'string' },
+                  mobile: { type: 'string' },
+                  nineteenMerchantId: { type: 'string' },
+                  kycVerified: { type: 'boolean' },
+                  isActive: { type: 'boolean' },
+                  isSettlementActive: { type: 'boolean' },
+                  status: { type: 'string', enum: ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'SUSPENDED'] },
+                  statusReason: { type: 'string', nullable: true },
+                  statusChangedAt: { type: 'string', format: 'date-time', nullable: true },
+                  is2faActive: { type: 'boolean' },
+                  isMobileVerified: { type: 'boolean' },
+                  isEmailVerified: { type: 'boolean' },
+                  state: { type: 'string' },
+                  createdAt: { type: 'string', format: 'date-time' },
+                  updatedAt: { type: 'string', format: 'date-time' },
+                  profile: {
+                    type: 'object',
+                    properties: {
+                      typeOfEntity: { type: 'string', nullable: true },
+                      pan: { type: 'string', nullable: true },
+                      incorporationDate: { type: 'string', format: 'date-time', nullable: true },
+                      gst: { type: 'string', nullable: true },
+                      businessAddress: { type: 'string', nullable: true },
+                      registrationNumber: { type: 'string', nullable: true },
+                      mccCodes: { type: 'object', nullable: true, additionalProperties: true },
+                      directorDetails: { type: 'object', nullable: true, additionalProperties: true },
+                      shareholdingPatterns: { type: 'object', nullable: true, additionalProperties: true },
+                      uboDetails: { type: 'object', nullable: true, additionalProperties: true },
+                      accountDetails: { type: 'object', nullable: true, additionalProperties: true },
+                      whitelistedIps: { type: 'array', nullable: true, items: { type: 'string' } },
+                      apDetails: { type: 'object', nullable: true, additionalProperties: true },
+                      averageTicketSize: { type: 'number', nullable: true },
+                      averageVolume: { type: 'number', nullable: true },
+                      expectedTurnover: { type: 'number', nullable: true },
+                      turnoverDoneTillDate: { type: 'number', nullable: true },
+                      numberOfTransactionsDone: { type: 'number' },
+                      createdAt: { type: 'string', format: 'date-time', nullable: true },
+                      updatedAt: { type: 'string', format: 'date-time', nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.getMerchantById(request as any, reply);
+    }
+  );
+
+  // Update Merchant Profile (Protected)
+  fastify.put(
+    '/api/admin/merchants/:merchantId/profile',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:update')],
+      preValidation: async (request, reply) => {
+        // Log the incoming request body for debugging
+        logger.info('[Admin Routes] Update merchant profile request body:', {
+          body: request.body,
+          params: request.params,
+        });
+      },
+      schema: {
+        description: 'Propose a merchant profile update - applied once another admin approves it (Admin only)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        body: {
+          type: 'object',
+          properties: {
+            typeOfEntity: { type: 'string', maxLength: 100 },
+            pan: { type: 'string', maxLength: 10 },
+            incorporationDate: { type: 'string', format: 'date' },
+            gst: { type: 'string', maxLength: 15 },
+            businessAddress: { type: 'string' },
+            registrationNumber: { type: 'string', maxLength: 100 },
+            // Allow object, array, or null for JSON fields - Zod will validate the structure
+            // Using array syntax for JSON Schema Draft 7+ compatibility
+            // Note: For response schemas, we need additionalProperties: true to preserve JSON content
+            mccCodes: { type: ['object', 'array', 'null'], additionalProperties: true },
+            directorDetails: { type: ['object', 'array', 'null'], additionalProperties: true },
+            shareholdingPatterns: { type: ['object', 'array', 'null'], additionalProperties: true },
+            uboDetails: { type: ['object', 'array', 'null'], additionalProperties: true },
+            accountDetails: { type: ['object', 'array', 'null'], additionalProperties: true },
+            whitelistedIps: { type: ['array', 'null'], items: { type: 'string' } },
+            apDetails: { type: ['object', 'array', 'null'], additionalProperties: true },
+            // Allow number or null - Zod will validate
+            averageTicketSize: { type: ['number', 'null'] },
+            averageVolume: { type: ['number', 'null'] },
+            expectedTurnover: { type: ['number', 'null'] },
+            turnoverDoneTillDate: { type: ['number', 'null'] },
+            numberOfTransactionsDone: { type: ['number', 'null'] },
+            comment: { type: 'string', maxLength: 500 },
+          },
+        },
+        response: {
+          202: {
+            description: 'Accepted - Change submitted for approval',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              pendingChange: pendingChangeResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error or no changes',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - A profile change for this merchant is already awaiting approval',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = updateMerchantProfileSchema.parse(request.body);
+      return adminController.updateMerchantProfile(
+        { ...request, body: validated } as any,
+        reply
+      );
+    }
+  );
+
+  // Disable Merchant Account (Protected)
+  fastify.post(
+    '/api/admin/merchants/:merchantId/disable',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:disable')],
+      schema: {
+        description: 'Propose disableing a merchant account - applied once another admin approves it. Optional body: { comment } (Admin only)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Account already disabled, nothing to approve',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              merchant: { type: 'object' },
+            },
+          },
+          202: {
+            description: 'Accepted - Change submitted for approval',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              pendingChange: pendingChangeResponseSchema,
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - A status change for this merchant is already awaiting approval',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      // Body is optional - no body schema so requests without one are accepted
+      const validated = pendingChangeCommentSchema.parse(request.body ?? {});
+      return adminController.disableMerchantAccount({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Enable Merchant Account (Protected)
+  fastify.post(
+    '/api/admin/merchants/:merchantId/enable',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:disable')],
+      schema: {
+        description: 'Propose enableing a merchant account - applied once another admin approves it. Optional body: { comment } (Admin only)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Account already enabled, nothing to approve',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              merchant: { type: 'object' },
+            },
+          },
+          202: {
+            description: 'Accepted - Change submitted for approval',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              pendingChange: pendingChangeResponseSchema,
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - A status change for this merchant is already awaiting approval',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      // Body is optional - no body schema so requests without one are accepted
+      const validated = pendingChangeCommentSchema.parse(request.body ?? {});
+      return adminController.enableMerchantAccount({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Get Merchant Status (Protected)
+  fastify.get(
+    '/api/admin/merchants/:merchantId/status',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:read')],
+      schema: {
+        description: 'Get the merchant lifecycle status, the actions available from it and who moved the merchant and why',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns the status and its history (newest first)',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              merchant: merchantStatusResponseSchema,
+              history: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'number' },
+                    action: { type: 'string', enum: ['submit', 'approve', 'reject', 'suspend', 'reinstate'] },
+                    fromStatus: { type: 'string' },
+                    toStatus: { type: 'string' },
+                    reason: { type: 'string', nullable: true },
+                    actorType: { type: 'string', enum: ['merchant', 'admin'] },
+                    admin: {
+                      type: 'object',
+                      nullable: true,
+                      properties: {
+                        id: { type: 'number' },
+                        email: { type: 'string' },
+                        name: { type: 'string' },
+                      },
+                    },
+                    createdAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.getMerchantStatus(request as any, reply);
+    }
+  );
+
+  // Submit Merchant for Review (Protected)
+  fastify.post(
+    '/api/admin/merchants/:merchantId/status/submit',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:review')],
+      schema: {
+        description: 'Move a PENDING or REJECTED merchant to UNDER_REVIEW once the profile has entity type, PAN and business address. Optional body: { reason } (merchant:review)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Status changed',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              merchant: merchantStatusResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - Merchant profile incomplete',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Merchant is not PENDING or REJECTED',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      // Body is optional - no body schema so requests without one are accepted
+      const validated = merchantStatusReasonSchema.parse(request.body ?? {});
+      return adminController.submitMerchantForReview({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Approve Merchant (Protected)
+  fastify.post(
+    '/api/admin/merchants/:merchantId/status/approve',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:review')],
+      schema: {
+        description: 'Approve a merchant UNDER_REVIEW - sets kycVerified. The admin who submitted the merchant cannot approve it. Optional body: { reason } (merchant:review)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Status changed',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              merchant: merchantStatusResponseSchema,
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Role lacks merchant:review, or you submitted this merchant',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Merchant is not UNDER_REVIEW',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      // Body is optional - no body schema so requests without one are accepted
+      const validated = merchantStatusReasonSchema.parse(request.body ?? {});
+      return adminController.approveMerchant({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Reject Merchant (Protected)
+  fastify.post(
+    '/api/admin/merchants/:merchantId/status/reject',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:review')],
+      schema: {
+        description: 'Reject a merchant UNDER_REVIEW with a reason - the merchant can fix it and submit again (merchant:review)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['reason'],
+          properties: {
+            reason: { type: 'string', minLength: 1, maxLength: 1000 },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Status changed',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              merchant: merchantStatusResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - Reason missing',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Merchant is not UNDER_REVIEW',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = merchantStatusReasonRequiredSchema.parse(request.body);
+      return adminController.rejectMerchant({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Suspend Merchant (Protected)
+  fastify.post(
+    '/api/admin/merchants/:merchantId/status/suspend',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:disable')],
+      schema: {
+        description: 'Propose suspending an APPROVED merchant with a reason - once another admin approves it, sign-in is blocked, settlement turned off and the merchant signed out everywhere (merchant:disable)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['reason'],
+          properties: {
+            reason: { type: 'string', minLength: 1, maxLength: 1000 },
+          },
+        },
+        response: {
+          202: {
+            description: 'Accepted - Change submitted for approval',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              pendingChange: pendingChangeResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - Reason missing',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Merchant is not APPROVED, or a status change is already awaiting approval',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = merchantStatusReasonRequiredSchema.parse(request.body);
+      return adminController.suspendMerchant({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Reinstate Merchant (Protected)
+  fastify.post(
+    '/api/admin/merchants/:merchantId/status/reinstate',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:disable')],
+      schema: {
+        description: 'Propose moving a SUSPENDED merchant back to APPROVED and re-enabling sign-in (settlement stays off) - applied once another admin approves it. Optional body: { reason } (merchant:disable)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          202: {
+            description: 'Accepted - Change submitted for approval',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              pendingChange: pendingChangeResponseSchema,
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Merchant is not SUSPENDED, or a status change is already awaiting approval',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      // Body is optional - no body schema so requests without one are accepted
+      const validated = merchantStatusReasonSchema.parse(request.body ?? {});
+      return adminController.reinstateMerchant({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Get Merchant KYB Verification (Protected)
+  fastify.get(
+    '/api/admin/merchants/:merchantId/kyb',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:read')],
+      schema: {
+        description: 'Get the latest PAN, GSTIN and CIN verification results stored on the merchant profile',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns the KYB results',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              merchant: kybMerchantResponseSchema,
+              kyb: kybVerificationResponseSchema,
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.getMerchantKyb(request as any, reply);
+    }
+  );
+
+  // Verify Merchant PAN / GSTIN / CIN (Protected)
+  fastify.post(
+    '/api/admin/merchants/:merchantId/kyb/verify',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:review')],
+      schema: {
+        description: 'Check the profile PAN, GSTIN and/or CIN with the KYB provider, score the registered name against the merchant name and store the results. Optional body: { checks: ["PAN", "GSTIN", "CIN"] } (merchant:review)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Checks run and results stored',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              merchant: kybMerchantResponseSchema,
+              kyb: kybVerificationResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - Identifier missing or malformed, or GSTIN not issued on the profile PAN',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Identifier changed while it was being verified',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          503: {
+            description: 'Service Unavailable - KYB provider unavailable',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 503 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      // Body is optional - no body schema so requests without one are accepted
+      const validated = runKybChecksSchema.parse(request.body ?? {});
+      return adminController.verifyMerchantKyb({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Get Merchant Settlement Accounts (Protected)
+  fastify.get(
+    '/api/admin/merchants/:merchantId/settlement-accounts',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:read')],
+      schema: {
+        description: 'Get the merchant\'s settlement bank accounts with penny drop results and provider references, and whether settlement is active',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns the settlement accounts',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              merchant: {
+                type: 'object',
+                properties: {
+                  nineteenMerchantId: { type: 'string' },
+                  name: { type: 'string' },
+                  status: { type: 'string' },
+                  isSettlementActive: { type: 'boolean' },
+                },
+              },
+              accounts: {
+                type: 'array',
+                items: settlementAccountResponseSchema,
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.getSettlementAccounts(request as any, reply);
+    }
+  );
+
+  // Activate Merchant Settlement (Protected)
+  fastify.post(
+    '/api/admin/merchants/:merchantId/settlement/activate',
+    {
+      preHandler: [authenticateAdmin, requirePermission('settlement:manage')],
+      schema: {
+        description: 'Switch settlement on. The merchant must be active and APPROVED, with a primary settlement account verified by penny drop. (settlement:manage)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Settlement activated (or already active)',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              isSettlementActive: { type: 'boolean' },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Merchant not active and APPROVED, or no penny-drop verified settlement account',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.activateSettlement(request as any, reply);
+    }
+  );
+
+  // Deactivate Merchant Settlement (Protected)
+  fastify.post(
+    '/api/admin/merchants/:merchantId/settlement/deactivate',
+    {
+      preHandler: [authenticateAdmin, requirePermission('settlement:manage')],
+      schema: {
+        description: 'Switch settlement off (settlement:manage)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Settlement deactivated (or already inactive)',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              isSettlementActive: { type: 'boolean' },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.deactivateSettlement(request as any, reply);
+    }
+  );
+
+  // List Pending Changes (Protected - maker-checker queue)
+  fastify.get(
+    '/api/admin/pending-changes',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:read')],
+      schema: {
+        description: 'List merchant changes awaiting a second admin (pending by default) with their diffs',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ['pending', 'approved', 'rejected', 'cancelled', 'expired'] },
+            action: { type: 'string', enum: ['merchant_profile_update', 'merchant_disable', 'merchant_enable', 'merchant_suspend', 'merchant_reinstate'] },
+            merchantId: { type: 'string' },
+            page: { type: 'string', pattern: '^[0-9]+$' },
+            limit: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns the approval queue',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              pendingChanges: { type: 'array', items: pendingChangeResponseSchema },
+              pagination: {
+                type: 'object',
+                properties: {
+                  page: { type: 'number' },
+                  limit: { type: 'number' },
+                  total: { type: 'number' },
+                  totalPages: { type: 'number' },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = listPendingChangesQuerySchema.parse(request.query);
+      return adminController.listPendingChanges({ ...request, query: validated } as any, reply);
+    }
+  );
+
+  // Get Pending Change (Protected)
+  fastify.get(
+    '/api/admin/pending-changes/:changeId',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:read')],
+      schema: {
+        description: 'Get a pending change with its diff',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['changeId'],
+          properties: {
+            changeId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns the change',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              pendingChange: pendingChangeResponseSchema,
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Pending change not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Pending change not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.getPendingChange(request as any, reply);
+    }
+  );
+
+  // Approve Pending Change (Protected - checker)
+  fastify.post(
+    '/api/admin/pending-changes/:changeId/approve',
+    {
+      preHandler: [authenticateAdmin, requirePermission('change:approve')],
+      schema: {
+        description: 'Approve and apply a change proposed by another admin. Optional body: { comment } (change:approve)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['changeId'],
+          properties: {
+            changeId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Change approved and applied',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              pendingChange: pendingChangeResponseSchema,
+              // Updated profile, or the merchant for status changes
+              result: { type: 'object', additionalProperties: true },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Role lacks change:approve, or the change is your own',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Pending change or merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Change no longer pending, or the merchant changed since it was proposed',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = pendingChangeCommentSchema.parse(request.body ?? {});
+      return adminController.approvePendingChange({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Reject Pending Change (Protected - checker)
+  fastify.post(
+    '/api/admin/pending-changes/:changeId/reject',
+    {
+      preHandler: [authenticateAdmin, requirePermission('change:approve')],
+      schema: {
+        description: 'Reject a change proposed by another admin, with a reason (change:approve)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['changeId'],
+          properties: {
+            changeId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['comment'],
+          properties: {
+            comment: { type: 'string', minLength: 1, maxLength: 500 },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Change rejected',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              pendingChange: pendingChangeResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - Comment missing',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Role lacks change:approve, or the change is your own',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Pending change not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Pending change not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Change no longer pending',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = rejectPendingChangeSchema.parse(request.body);
+      return adminController.rejectPendingChange({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Cancel Pending Change (Protected - proposer, with the permission the change's action needs)
+  fastify.post(
+    '/api/admin/pending-changes/:changeId/cancel',
+    {
+      preHandler: [authenticateAdmin],
+      schema: {
+        description: 'Withdraw a change you proposed while it is still pending',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['changeId'],
+          properties: {
+            changeId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Change cancelled',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              pendingChange: pendingChangeResponseSchema,
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Not the admin who proposed the change, or missing the permission for its action',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Pending change not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Pending change not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Change no longer pending',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.cancelPendingChange(request as any, reply);
+    }
+  );
+
+  // List Documents (Protected - KYC/KYB review queue)
+  fastify.get(
+    '/api/admin/documents',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:read')],
+      schema: {
+        description: 'List merchant KYC/KYB documents for review (pending by default, oldest first)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ['PENDING', 'VERIFIED', 'REJECTED', 'REPLACED'] },
+            documentType: { type: 'string', enum: ['PAN', 'GST_CERTIFICATE', 'INCORPORATION_CERTIFICATE', 'CANCELLED_CHEQUE', 'DIRECTOR_ID'] },
+            merchantId: { type: 'string' },
+            page: { type: 'string', pattern: '^[0-9]+$' },
+            limit: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns the review queue',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              documents: { type: 'array', items: merchantDocumentResponseSchema },
+              pagination: {
+                type: 'object',
+                properties: {
+                  page: { type: 'number' },
+                  limit: { type: 'number' },
+                  total: { type: 'number' },
+                  totalPages: { type: 'number' },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = listDocumentsQuerySchema.parse(request.query);
+      return adminController.listDocuments({ ...request, query: validated } as any, reply);
+    }
+  );
+
+  // Download Document (Protected)
+  fastify.get(
+    '/api/admin/documents/:documentId/file',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:review')],
+      schema: {
+        description: 'Download a merchant document for review (merchant:review)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['documentId'],
+          properties: {
+            documentId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Document not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Document not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.getDocumentFile(request as any, reply);
+    }
+  );
+
+  // Verify Document (Protected)
+  fastify.post(
+    '/api/admin/documents/:documentId/verify',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:review')],
+      schema: {
+        description: 'Mark a pending document as verified. Optional body: { comment } (merchant:review)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['documentId'],
+          properties: {
+            documentId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Document verified',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              document: merchantDocumentResponseSchema,
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Document not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Document not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Document is not PENDING',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      // Body is optional - no body schema so requests without one are accepted
+      const validated = documentReviewCommentSchema.parse(request.body ?? {});
+      return adminController.verifyDocument({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Reject Document (Protected)
+  fastify.post(
+    '/api/admin/documents/:documentId/reject',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:review')],
+      schema: {
+        description: 'Reject a pending document with a comment telling the merchant what to fix (merchant:review)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['documentId'],
+          properties: {
+            documentId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['comment'],
+          properties: {
+            comment: { type: 'string', minLength: 1, maxLength: 500 },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Document rejected',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              document: merchantDocumentResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - Comment missing',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Document not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Document not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Document is not PENDING',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = rejectDocumentSchema.parse(request.body);
+      return adminController.rejectDocument({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Unlock Merchant Account (Protected)
+  fastify.post(
+    '/api/admin/merchants/:merchantId/unlock',
+    {
+      preHandler: [authenticateAdmin, requirePermission('merchant:unlock')],
+      schema: {
+        description: 'Lift the sign-in lockout of a merchant account (Admin only)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['merchantId'],
+          properties: {
+            merchantId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Account unlocked (or was not locked)',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              merchant: {
+                type: 'object',
+                properties: {
+                  id: { type: 'number' },
+                  merchantId: { type: 'string' },
+                  email: { type: 'string' },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.unlockMerchantAccount(request as any, reply);
+    }
+  );
+
+  // Admin Password Reset - Request OTP
+  fastify.post(
+    '/api/admin/password-reset/request',
+    {
+      schema: {
+        description: 'Request admin password reset - sends SMS OTP to registered mobile number. Returns success even if email doesn\'t exist (security best practice).',
+        tags: ['Admin'],
+        body: {
+          type: 'object',
+          required: ['email'],
+          properties: {
+            email: { type: 'string', format: 'email' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - OTP sent (or generic success message if email doesn\'t exist)',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              maskedMobile: { type: 'string' },
+              expiresIn: { type: 'number', description: 'OTP expiry time in seconds' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error (mobile not registered)',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Mobile number not registered. Please contact support to reset your password.' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          503: {
+            description: 'Service Unavailable - SMS service temporarily unavailable',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'SMS service temporarily unavailable. Please try again later or contact support.' },
+                  statusCode: { type: 'number', example: 503 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = adminPasswordResetRequestSchema.parse(request.body);
+      return adminController.requestPasswordReset({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Admin Password Reset - Verify OTP and Reset Password
+  fastify.post(
+    '/api/admin/password-reset/verify',
+    {
+      schema: {
+        description: 'Verify admin password reset OTP and set new password',
+        tags: ['Admin'],
+        body: {
+          type: 'object',
+          required: ['email', 'otp', 'newPassword'],
+          properties: {
+            email: { type: 'string', format: 'email' },
+            otp: { type: 'string', minLength: 6, maxLength: 6 },
+            newPassword: { type: 'string', minLength: 8 },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Password reset successful',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error (invalid password format or OTP format)',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Password must be at least 8 characters long' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or expired OTP',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid or expired OTP. Please request a new password reset.' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Admin not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Admin not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = adminPasswordResetVerifySchema.parse(request.body);
+      return adminController.verifyPasswordReset({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Get Audit Logs
+  fastify.get(
+    '/api/admin/audit-logs',
+    {
+      preHandler: [authenticateAdmin, requirePermission('audit:read')],
+      schema: {
+        description: 'Get merchant audit logs with filters (Admin only)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: { type: 'number', minimum: 1, description: 'Page number (default: 1)' },
+            limit: { type: 'number', minimum: 1, maximum: 100, description: 'Records per page (default: 50, max: 100)' },
+            merchantId: { type: 'string', description: 'Filter by merchant ID' },
+            userId: { type: 'number', description: 'Filter by user ID' },
+            email: { type: 'string', description: 'Filter by email (partial match)' },
+            actionType: { type: 'string', description: 'Filter by action type (e.g., signin, signup, verify_otp)' },
+            ipAddress: { type: 'string', description: 'Filter by IP address' },
+            startDate: { type: 'string', format: 'date-time', description: 'Start date (ISO format)' },
+            endDate: { type: 'string', format: 'date-time', description: 'End date (ISO format)' },
+            responseStatus: { type: 'number', description: 'Filter by HTTP response status code' },
+            sessionId: { type: 'string', description: 'Filter by session ID' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns audit logs with pagination',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              logs: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    sessionId: { type: 'string' },
+                    userId: { type: 'number' },
+                    merchantId: { type: 'string' },
+                    email: { type: 'string' },
+                    ipAddress: { type: 'string', description: 'Resolved client IP' },
+                    socketIpAddress: { type: 'string', nullable: true, description: 'TCP peer address (proxy)' },
+                    userAgent: { type: 'string' },
+                    requestMethod: { type: 'string' },
+                    requestPath: { type: 'string' },
+                    requestQuery: { type: 'object' },
+                    requestBody: { type: 'object' },
+                    responseStatus: { type: 'number' },
+                    responseTimeMs: { type: 'number' },
+                    routeName: { type: 'string' },
+                    actionType: { type: 'string' },
+                    metadata: { type: 'object' },
+                    createdAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+              pagination: {
+                type: 'object',
+                properties: {
+                  page: { type: 'number' },
+                  limit: { type: 'number' },
+                  total: { type: 'number' },
+                  totalPages: { type: 'number' },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.getAuditLogs(request, reply);
+    }
+  );
+
+  // Export Audit Logs as .txt file
+  fastify.get(
+    '/api/admin/audit-logs/export',
+    {
+      preHandler: [authenticateAdmin, requirePermission('audit:export')],
+      schema: {
+        description: 'Export merchant audit logs as standardized .txt file (Admin only)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'number', minimum: 1, maximum: 50000, description: 'Max records to export (default: 10000, max: 50000)' },
+            merchantId: { type: 'string', description: 'Filter by merchant ID' },
+            userId: { type: 'number', description: 'Filter by user ID' },
+            email: { type: 'string', description: 'Filter by email (partial match)' },
+            actionType: { type: 'string', description: 'Filter by action type (e.g., signin, signup, verify_otp)' },
+            ipAddress: { type: 'string', description: 'Filter by IP address' },
+            startDate: { type: 'string', format: 'date-time', description: 'Start date (ISO format)' },
+            endDate: { type: 'string', format: 'date-time', description: 'End date (ISO format)' },
+            responseStatus: { type: 'number', description: 'Filter by HTTP response status code' },
+            sessionId: { type: 'string', description: 'Filter by session ID' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns audit logs as .txt file',
+            type: 'string',
+            contentMediaType: 'text/plain',
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.exportAuditLogs(request, reply);
+    }
+  );
+
+  // WebAuthn - Registration options (Protected)
+  fastify.post(
+    '/api/admin/webauthn/registration/options',
+    {
+      preHandler: [authenticateAdmin, requirePermission('account:security')],
+      schema: {
+        description: 'Start security key / passkey registration. Returns options for navigator.credentials.create() (valid 5 minutes).',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              options: {
+                type: 'object',
+                additionalProperties: true,
+                description: 'PublicKeyCredentialCreationOptions (JSON)',
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.getWebauthnRegistrationOptions(request, reply);
+    }
+  );
+
+  // WebAuthn - Verify registration (Protected)
+  fastify.post(
+    '/api/admin/webauthn/registration/verify',
+    {
+      preHandler: [authenticateAdmin, requirePermission('account:security')],
+      schema: {
+        description: 'Finish security key / passkey registration. Registering the first key enables 2FA for the admin.',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['name', 'response'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100, description: 'Label, e.g. "YubiKey 5C"' },
+            response: {
+              type: 'object',
+              additionalProperties: true,
+              description: 'RegistrationResponseJSON from navigator.credentials.create()',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              credential: {
+                type: 'object',
+                properties: {
+                  id: { type: 'number' },
+                  name: { type: 'string' },
+                  deviceType: { type: 'string', description: 'singleDevice (security key) or multiDevice (synced passkey)' },
+                  backedUp: { type: 'boolean' },
+                  transports: { type: 'array', items: { type: 'string' } },
+                  createdAt: { type: 'string', format: 'date-time' },
+                  lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Bad Request - Challenge expired, verification failed or key already registered',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = webauthnRegistrationSchema.parse(request.body);
+      return adminController.verifyWebauthnRegistration({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // WebAuthn - List credentials (Protected)
+  fastify.get(
+    '/api/admin/webauthn/credentials',
+    {
+      preHandler: [authenticateAdmin, requirePermission('account:security')],
+      schema: {
+        description: 'List registered security keys / passkeys of the signed-in admin',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              credentials: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'number' },
+                    name: { type: 'string' },
+                    deviceType: { type: 'string', description: 'singleDevice (security key) or multiDevice (synced passkey)' },
+                    backedUp: { type: 'boolean' },
+                    transports: { type: 'array', items: { type: 'string' } },
+                    createdAt: { type: 'string', format: 'date-time' },
+                    lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+                  },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.listWebauthnCredentials(request, reply);
+    }
+  );
+
+  // WebAuthn - Rename credential (Protected)
+  fastify.put(
+    '/api/admin/webauthn/credentials/:credentialId',
+    {
+      preHandler: [authenticateAdmin, requirePermission('account:security')],
+      schema: {
+        description: 'Rename a security key / passkey',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['credentialId'],
+          properties: {
+            credentialId: { type: 'string' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              credential: {
+                type: 'object',
+                properties: {
+                  id: { type: 'number' },
+                  name: { type: 'string' },
+                  deviceType: { type: 'string', description: 'singleDevice (security key) or multiDevice (synced passkey)' },
+                  backedUp: { type: 'boolean' },
+                  transports: { type: 'array', items: { type: 'string' } },
+                  createdAt: { type: 'string', format: 'date-time' },
+                  lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Security key not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Security key not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = renameWebauthnCredentialSchema.parse(request.body);
+      return adminController.renameWebauthnCredential({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // WebAuthn - Remove credential (Protected)
+  fastify.delete(
+    '/api/admin/webauthn/credentials/:credentialId',
+    {
+      preHandler: [authenticateAdmin, requirePermission('account:security')],
+      schema: {
+        description: 'Remove a security key / passkey. Without security keys, sign-in falls back to SMS OTP.',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['credentialId'],
+          properties: {
+            credentialId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Security key not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Security key not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.removeWebauthnCredential(request as any, reply);
+    }
+  );
+
+  // Invite Admin (Protected - super admin)
+  fastify.post(
+    '/api/admin/admins',
+    {
+      preHandler: [authenticateAdmin, requirePermission('admin:manage')],
+      schema: {
+        description: 'Invite an admin - creates the account and emails a one-time setup link (admin:manage)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['email', 'name', 'role', 'mobile'],
+          properties: {
+            email: { type: 'string', format: 'email' },
+            name: { type: 'string', minLength: 1, maxLength: 255 },
+            role: { type: 'string', enum: ['super_admin', 'admin', 'support'] },
+            mobile: { type: 'string', minLength: 10, maxLength: 20, description: 'Used for the SMS OTP at sign-in' },
+          },
+        },
+        response: {
+          201: {
+            description: 'Created - Admin invited, setup link emailed',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              setupLinkExpiresAt: { type: 'string', format: 'date-time' },
+              admin: adminUserResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
                 },
               },
             },
           },
           401: {
-            description: 'Unauthorized',
+            description: 'Unauthorized - Invalid or missing authentication token',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
@@ -445,16 +4266,44 @@ export async function adminRoutes(fastify: FastifyInstance) {
               },
             },
           },
-          404: {
-            description: 'Not Found - Merchant not found',
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Merchant not found' },
-                  statusCode: { type: 'number', example: 404 },
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - An admin with this email already exists',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          503: {
+            description: 'Service Unavailable - Email service temporarily unavailable (admin not created)',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 503 },
                 },
               },
             },
@@ -463,97 +4312,50 @@ export async function adminRoutes(fastify: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      return adminController.getMerchantById(request as any, reply);
+      const validated = inviteAdminSchema.parse(request.body);
+      return adminController.inviteAdmin({ ...request, body: validated } as any, reply);
     }
   );
 
-  // Update Merchant Profile (Protected)
-  fastify.put(
-    '/api/admin/merchants/:merchantId/profile',
+  // List Admins (Protected - super admin)
+  fastify.get(
+    '/api/admin/admins',
     {
-      preHandler: [authenticateAdmin],
-      preValidation: async (request, reply) => {
-        // Log the incoming request body for debugging
-        logger.info('[Admin Routes] Update merchant profile request body:', {
-          body: request.body,
-          params: request.params,
-        });
-      },
+      preHandler: [authenticateAdmin, requirePermission('admin:manage')],
       schema: {
-        description: 'Update or create merchant profile (Admin only)',
+        description: 'List and search admins with status and last login (admin:manage)',
         tags: ['Admin'],
         security: [{ bearerAuth: [] }],
-        params: {
-          type: 'object',
-          required: ['merchantId'],
-          properties: {
-            merchantId: { type: 'string' },
-          },
-        },
-        body: {
+        querystring: {
           type: 'object',
           properties: {
-            typeOfEntity: { type: 'string', maxLength: 100 },
-            pan: { type: 'string', maxLength: 10 },
-            incorporationDate: { type: 'string', format: 'date' },
-            gst: { type: 'string', maxLength: 15 },
-            businessAddress: { type: 'string' },
-            registrationNumber: { type: 'string', maxLength: 100 },
-            // Allow object, array, or null for JSON fields - Zod will validate the structure
-            // Using array syntax for JSON Schema Draft 7+ compatibility
-            // Note: For response schemas, we need additionalProperties: true to preserve JSON content
-            mccCodes: { type: ['object', 'array', 'null'], additionalProperties: true },
-            directorDetails: { type: ['object', 'array', 'null'], additionalProperties: true },
-            shareholdingPatterns: { type: ['object', 'array', 'null'], additionalProperties: true },
-            uboDetails: { type: ['object', 'array', 'null'], additionalProperties: true },
-            accountDetails: { type: ['object', 'array', 'null'], additionalProperties: true },
-            whitelistedIps: { type: ['array', 'null'], items: { type: 'string' } },
-            apDetails: { type: ['object', 'array', 'null'], additionalProperties: true },
-            // Allow number or null - Zod will validate
-            averageTicketSize: { type: ['number', 'null'] },
-            averageVolume: { type: ['number', 'null'] },
-            expectedTurnover: { type: ['number', 'null'] },
-            turnoverDoneTillDate: { type: ['number', 'null'] },
-            numberOfTransactionsDone: { type: ['number', 'null'] },
+            page: { type: 'number', minimum: 1, default: 1 },
+            limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+            search: { type: 'string', description: 'Email, name or mobile' },
+            role: { type: 'string', enum: ['super_admin', 'admin', 'support'] },
+            status: { type: 'string', enum: ['active', 'invited', 'password_reset_required', 'deactivated'] },
           },
         },
         response: {
           200: {
-            description: 'Success - Profile updated',
+            description: 'Success - Returns list of admins',
             type: 'object',
             properties: {
               success: { type: 'boolean' },
-              message: { type: 'string' },
-              profile: {
+              admins: { type: 'array', items: adminUserResponseSchema },
+              pagination: {
                 type: 'object',
                 properties: {
-                  nineteenMerchantId: { type: 'string' },
-                  typeOfEntity: { type: 'string', nullable: true },
-                  pan: { type: 'string', nullable: true },
-                  incorporationDate: { type: 'string', format: 'date-time', nullable: true },
-                  gst: { type: 'string', nullable: true },
-                  businessAddress: { type: 'string', nullable: true },
-                  registrationNumber: { type: 'string', nullable: true },
-                  mccCodes: { type: 'object', nullable: true, additionalProperties: true },
-                  directorDetails: { type: 'object', nullable: true, additionalProperties: true },
-                  shareholdingPatterns: { type: 'object', nullable: true, additionalProperties: true },
-                  uboDetails: { type: 'object', nullable: true, additionalProperties: true },
-                  accountDetails: { type: 'object', nullable: true, additionalProperties: true },
-                  whitelistedIps: { type: 'array', nullable: true, items: { type: 'string' } },
-                  apDetails: { type: 'object', nullable: true, additionalProperties: true },
-                  averageTicketSize: { type: 'number', nullable: true },
-                  averageVolume: { type: 'number', nullable: true },
-                  expectedTurnover: { type: 'number', nullable: true },
-                  turnoverDoneTillDate: { type: 'number', nullable: true },
-                  numberOfTransactionsDone: { type: 'number' },
-                  createdAt: { type: 'string', format: 'date-time', nullable: true },
-                  updatedAt: { type: 'string', format: 'date-time', nullable: true },
+                  page: { type: 'number' },
+                  limit: { type: 'number' },
+                  total: { type: 'number' },
+                  totalPages: { type: 'number' },
                 },
               },
             },
           },
-          400: {
-            description: 'Bad Request - Validation error',
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
@@ -561,13 +4363,60 @@ export async function adminRoutes(fastify: FastifyInstance) {
                 type: 'object',
                 properties: {
                   message: { type: 'string' },
-                  statusCode: { type: 'number', example: 400 },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
                 },
               },
             },
           },
+        },
+      },
+    },
+    async (request, reply) => {
+      return adminController.listAdmins(request as any, reply);
+    }
+  );
+
+  // Get Admin by ID (Protected - super admin)
+  fastify.get(
+    '/api/admin/admins/:adminId',
+    {
+      preHandler: [authenticateAdmin, requirePermission('admin:manage')],
+      schema: {
+        description: 'Get admin details including last login (admin:manage)',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['adminId'],
+          properties: {
+            adminId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Returns admin details',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              admin: adminUserResponseSchema,
+            },
+          },
           401: {
-            description: 'Unauthorized',
+            description: 'Unauthorized - Invalid or missing authentication token',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
@@ -580,15 +4429,29 @@ export async function adminRoutes(fastify: FastifyInstance) {
               },
             },
           },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
           404: {
-            description: 'Not Found - Merchant not found',
+            description: 'Not Found - Admin not found',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Merchant not found' },
+                  message: { type: 'string', example: 'Admin not found' },
                   statusCode: { type: 'number', example: 404 },
                 },
               },
@@ -598,42 +4461,60 @@ export async function adminRoutes(fastify: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      const validated = updateMerchantProfileSchema.parse(request.body);
-      return adminController.updateMerchantProfile(
-        { ...request, body: validated } as any,
-        reply
-      );
+      return adminController.getAdminById(request as any, reply);
     }
   );
 
-  // Disable Merchant Account (Protected)
-  fastify.post(
-    '/api/admin/merchants/:merchantId/disable',
+  // Change Admin Role (Protected - super admin)
+  fastify.put(
+    '/api/admin/admins/:adminId/role',
     {
-      preHandler: [authenticateAdmin],
+      preHandler: [authenticateAdmin, requirePermission('admin:manage')],
       schema: {
-        description: 'Disable merchant account (Admin only)',
+        description: 'Change an admin role - the admin is signed out and gets the new role at the next sign-in (admin:manage)',
         tags: ['Admin'],
         security: [{ bearerAuth: [] }],
         params: {
           type: 'object',
-          required: ['merchantId'],
+          required: ['adminId'],
           properties: {
-            merchantId: { type: 'string' },
+            adminId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['role'],
+          properties: {
+            role: { type: 'string', enum: ['super_admin', 'admin', 'support'] },
           },
         },
         response: {
           200: {
-            description: 'Success - Account disabled',
+            description: 'Success - Role updated',
             type: 'object',
             properties: {
               success: { type: 'boolean' },
               message: { type: 'string' },
-              merchant: { type: 'object' },
+              previousRole: { type: 'string' },
+              admin: adminUserResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error or own account',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
             },
           },
           401: {
-            description: 'Unauthorized',
+            description: 'Unauthorized - Invalid or missing authentication token',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
@@ -646,16 +4527,44 @@ export async function adminRoutes(fastify: FastifyInstance) {
               },
             },
           },
-          404: {
-            description: 'Not Found - Merchant not found',
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Admin not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Admin not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - At least one active super admin is required',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Merchant not found' },
-                  statusCode: { type: 'number', example: 404 },
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
                 },
               },
             },
@@ -664,38 +4573,53 @@ export async function adminRoutes(fastify: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      return adminController.disableMerchantAccount(request as any, reply);
+      const validated = changeAdminRoleSchema.parse(request.body);
+      return adminController.changeAdminRole({ ...request, body: validated } as any, reply);
     }
   );
 
-  // Enable Merchant Account (Protected)
+  // Deactivate Admin (Protected - super admin)
   fastify.post(
-    '/api/admin/merchants/:merchantId/enable',
+    '/api/admin/admins/:adminId/deactivate',
     {
-      preHandler: [authenticateAdmin],
+      preHandler: [authenticateAdmin, requirePermission('admin:manage')],
       schema: {
-        description: 'Enable merchant account (Admin only)',
+        description: 'Deactivate an admin and sign them out everywhere (admin:manage)',
         tags: ['Admin'],
         security: [{ bearerAuth: [] }],
         params: {
           type: 'object',
-          required: ['merchantId'],
+          required: ['adminId'],
           properties: {
-            merchantId: { type: 'string' },
+            adminId: { type: 'string', pattern: '^[0-9]+$' },
           },
         },
         response: {
           200: {
-            description: 'Success - Account enabled',
+            description: 'Success - Admin deactivated',
             type: 'object',
             properties: {
               success: { type: 'boolean' },
               message: { type: 'string' },
-              merchant: { type: 'object' },
+              admin: adminUserResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - Own account',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
             },
           },
           401: {
-            description: 'Unauthorized',
+            description: 'Unauthorized - Invalid or missing authentication token',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
@@ -708,91 +4632,120 @@ export async function adminRoutes(fastify: FastifyInstance) {
               },
             },
           },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
           404: {
-            description: 'Not Found - Merchant not found',
+            description: 'Not Found - Admin not found',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Merchant not found' },
+                  message: { type: 'string', example: 'Admin not found' },
                   statusCode: { type: 'number', example: 404 },
                 },
               },
             },
           },
+          409: {
+            description: 'Conflict - At least one active super admin is required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
         },
       },
     },
     async (request, reply) => {
-      return adminController.enableMerchantAccount(request as any, reply);
+      return adminController.deactivateAdmin(request as any, reply);
     }
   );
 
-  // Admin Password Reset - Request OTP
+  // Reactivate Admin (Protected - super admin)
   fastify.post(
-    '/api/admin/password-reset/request',
+    '/api/admin/admins/:adminId/reactivate',
     {
+      preHandler: [authenticateAdmin, requirePermission('admin:manage')],
       schema: {
-        description: 'Request admin password reset - sends SMS OTP to registered mobile number. Returns success even if email doesn\'t exist (security best practice).',
+        description: 'Reactivate a deactivated admin (admin:manage)',
         tags: ['Admin'],
-        body: {
+        security: [{ bearerAuth: [] }],
+        params: {
           type: 'object',
-          required: ['email'],
+          required: ['adminId'],
           properties: {
-            email: { type: 'string', format: 'email' },
+            adminId: { type: 'string', pattern: '^[0-9]+$' },
           },
         },
         response: {
           200: {
-            description: 'Success - OTP sent (or generic success message if email doesn\'t exist)',
+            description: 'Success - Admin reactivated',
             type: 'object',
             properties: {
               success: { type: 'boolean' },
               message: { type: 'string' },
-              maskedMobile: { type: 'string' },
-              expiresIn: { type: 'number', description: 'OTP expiry time in seconds' },
+              admin: adminUserResponseSchema,
             },
           },
-          400: {
-            description: 'Bad Request - Validation error (mobile not registered)',
+          401: {
+            description: 'Unauthorized - Invalid or missing authentication token',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Mobile number not registered. Please contact support to reset your password.' },
-                  statusCode: { type: 'number', example: 400 },
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
                 },
               },
             },
           },
-          503: {
-            description: 'Service Unavailable - SMS service temporarily unavailable',
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'SMS service temporarily unavailable. Please try again later or contact support.' },
-                  statusCode: { type: 'number', example: 503 },
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
                 },
               },
             },
           },
-          500: {
-            description: 'Internal Server Error',
+          404: {
+            description: 'Not Found - Admin not found',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Internal server error' },
-                  statusCode: { type: 'number', example: 500 },
+                  message: { type: 'string', example: 'Admin not found' },
+                  statusCode: { type: 'number', example: 404 },
                 },
               },
             },
@@ -801,64 +4754,79 @@ export async function adminRoutes(fastify: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      const validated = adminPasswordResetRequestSchema.parse(request.body);
-      return adminController.requestPasswordReset({ ...request, body: validated } as any, reply);
+      return adminController.reactivateAdmin(request as any, reply);
     }
   );
 
-  // Admin Password Reset - Verify OTP and Reset Password
+  // Force Admin Password Reset (Protected - super admin)
   fastify.post(
-    '/api/admin/password-reset/verify',
+    '/api/admin/admins/:adminId/force-password-reset',
     {
+      preHandler: [authenticateAdmin, requirePermission('admin:manage')],
       schema: {
-        description: 'Verify admin password reset OTP and set new password',
+        description: 'Invalidate the admin password, sign them out everywhere and email a one-time setup link - also resends expired invites (admin:manage)',
         tags: ['Admin'],
-        body: {
+        security: [{ bearerAuth: [] }],
+        params: {
           type: 'object',
-          required: ['email', 'otp', 'newPassword'],
+          required: ['adminId'],
           properties: {
-            email: { type: 'string', format: 'email' },
-            otp: { type: 'string', minLength: 6, maxLength: 6 },
-            newPassword: { type: 'string', minLength: 8 },
+            adminId: { type: 'string', pattern: '^[0-9]+$' },
           },
         },
         response: {
           200: {
-            description: 'Success - Password reset successful',
+            description: 'Success - Password reset, setup link emailed',
             type: 'object',
             properties: {
               success: { type: 'boolean' },
               message: { type: 'string' },
+              setupLinkExpiresAt: { type: 'string', format: 'date-time' },
+              admin: adminUserResponseSchema,
             },
           },
           400: {
-            description: 'Bad Request - Validation error (invalid password format or OTP format)',
+            description: 'Bad Request - Own account or admin deactivated',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Password must be at least 8 characters long' },
+                  message: { type: 'string' },
                   statusCode: { type: 'number', example: 400 },
                 },
               },
             },
           },
           401: {
-            description: 'Unauthorized - Invalid or expired OTP',
+            description: 'Unauthorized - Invalid or missing authentication token',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Invalid or expired OTP. Please request a new password reset.' },
+                  message: { type: 'string' },
                   statusCode: { type: 'number', example: 401 },
                 },
               },
             },
           },
+          403: {
+            description: 'Forbidden - Admin role lacks the required permission',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
           404: {
             description: 'Not Found - Admin not found',
             type: 'object',
@@ -873,16 +4841,16 @@ export async function adminRoutes(fastify: FastifyInstance) {
               },
             },
           },
-          500: {
-            description: 'Internal Server Error',
+          503: {
+            description: 'Service Unavailable - Reset applied, but the email could not be sent',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Internal server error' },
-                  statusCode: { type: 'number', example: 500 },
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 503 },
                 },
               },
             },
@@ -891,80 +4859,36 @@ export async function adminRoutes(fastify: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      const validated = adminPasswordResetVerifySchema.parse(request.body);
-      return adminController.verifyPasswordReset({ ...request, body: validated } as any, reply);
+      return adminController.forceAdminPasswordReset(request as any, reply);
     }
   );
 
-  // Get Audit Logs
-  fastify.get(
-    '/api/admin/audit-logs',
+  // Admin Setup (invite / forced reset link)
+  fastify.post(
+    '/api/admin/setup',
     {
-      preHandler: [authenticateAdmin],
       schema: {
-        description: 'Get merchant audit logs with filters (Admin only)',
+        description: 'Set the admin password with the one-time link from an invite or forced reset',
         tags: ['Admin'],
-        security: [{ bearerAuth: [] }],
-        querystring: {
+        body: {
           type: 'object',
+          required: ['token', 'password'],
           properties: {
-            page: { type: 'number', minimum: 1, description: 'Page number (default: 1)' },
-            limit: { type: 'number', minimum: 1, maximum: 100, description: 'Records per page (default: 50, max: 100)' },
-            merchantId: { type: 'string', description: 'Filter by merchant ID' },
-            userId: { type: 'number', description: 'Filter by user ID' },
-            email: { type: 'string', description: 'Filter by email (partial match)' },
-            actionType: { type: 'string', description: 'Filter by action type (e.g., signin, signup, verify_otp)' },
-            ipAddress: { type: 'string', description: 'Filter by IP address' },
-            startDate: { type: 'string', format: 'date-time', description: 'Start date (ISO format)' },
-            endDate: { type: 'string', format: 'date-time', description: 'End date (ISO format)' },
-            responseStatus: { type: 'number', description: 'Filter by HTTP response status code' },
-            sessionId: { type: 'string', description: 'Filter by session ID' },
+            token: { type: 'string', minLength: 1 },
+            password: { type: 'string', minLength: 8 },
           },
         },
         response: {
           200: {
-            description: 'Success - Returns audit logs with pagination',
+            description: 'Success - Password set, admin can sign in',
             type: 'object',
             properties: {
               success: { type: 'boolean' },
-              logs: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    id: { type: 'string' },
-                    sessionId: { type: 'string' },
-                    userId: { type: 'number' },
-                    merchantId: { type: 'string' },
-                    email: { type: 'string' },
-                    ipAddress: { type: 'string' },
-                    userAgent: { type: 'string' },
-                    requestMethod: { type: 'string' },
-                    requestPath: { type: 'string' },
-                    requestQuery: { type: 'object' },
-                    requestBody: { type: 'object' },
-                    responseStatus: { type: 'number' },
-                    responseTimeMs: { type: 'number' },
-                    routeName: { type: 'string' },
-                    actionType: { type: 'string' },
-                    metadata: { type: 'object' },
-                    createdAt: { type: 'string', format: 'date-time' },
-                  },
-                },
-              },
-              pagination: {
-                type: 'object',
-                properties: {
-                  page: { type: 'number' },
-                  limit: { type: 'number' },
-                  total: { type: 'number' },
-                  totalPages: { type: 'number' },
-                },
-              },
+              message: { type: 'string' },
             },
           },
-          401: {
-            description: 'Unauthorized',
+          400: {
+            description: 'Bad Request - Validation error or password policy violation',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
@@ -972,65 +4896,13 @@ export async function adminRoutes(fastify: FastifyInstance) {
                 type: 'object',
                 properties: {
                   message: { type: 'string' },
-                  statusCode: { type: 'number', example: 401 },
-                },
-              },
-            },
-          },
-          500: {
-            description: 'Internal Server Error',
-            type: 'object',
-            properties: {
-              success: { type: 'boolean', example: false },
-              error: {
-                type: 'object',
-                properties: {
-                  message: { type: 'string', example: 'Internal server error' },
-                  statusCode: { type: 'number', example: 500 },
+                  statusCode: { type: 'number', example: 400 },
                 },
               },
             },
           },
-        },
-      },
-    },
-    async (request, reply) => {
-      return adminController.getAuditLogs(request, reply);
-    }
-  );
-
-  // Export Audit Logs as .txt file
-  fastify.get(
-    '/api/admin/audit-logs/export',
-    {
-      preHandler: [authenticateAdmin],
-      schema: {
-        description: 'Export merchant audit logs as standardized .txt file (Admin only)',
-        tags: ['Admin'],
-        security: [{ bearerAuth: [] }],
-        querystring: {
-          type: 'object',
-          properties: {
-            limit: { type: 'number', minimum: 1, maximum: 50000, description: 'Max records to export (default: 10000, max: 50000)' },
-            merchantId: { type: 'string', description: 'Filter by merchant ID' },
-            userId: { type: 'number', description: 'Filter by user ID' },
-            email: { type: 'string', description: 'Filter by email (partial match)' },
-            actionType: { type: 'string', description: 'Filter by action type (e.g., signin, signup, verify_otp)' },
-            ipAddress: { type: 'string', description: 'Filter by IP address' },
-            startDate: { type: 'string', format: 'date-time', description: 'Start date (ISO format)' },
-            endDate: { type: 'string', format: 'date-time', description: 'End date (ISO format)' },
-            responseStatus: { type: 'number', description: 'Filter by HTTP response status code' },
-            sessionId: { type: 'string', description: 'Filter by session ID' },
-          },
-        },
-        response: {
-          200: {
-            description: 'Success - Returns audit logs as .txt file',
-            type: 'string',
-            contentMediaType: 'text/plain',
-          },
           401: {
-            description: 'Unauthorized',
+            description: 'Unauthorized - Invalid, used or expired setup link',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
@@ -1043,16 +4915,16 @@ export async function adminRoutes(fastify: FastifyInstance) {
               },
             },
           },
-          500: {
-            description: 'Internal Server Error',
+          403: {
+            description: 'Forbidden - Admin account is disabled',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Internal server error' },
-                  statusCode: { type: 'number', example: 500 },
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
                 },
               },
             },
@@ -1061,8 +4933,8 @@ export async function adminRoutes(fastify: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      return adminController.exportAuditLogs(request, reply);
+      const validated = adminSetupSchema.parse(request.body);
+      return adminController.completeAdminSetup({ ...request, body: validated } as any, reply);
     }
   );
 }
-
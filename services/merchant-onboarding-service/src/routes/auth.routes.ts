@@ -31,10 +31,12 @@ const sendOtpSchema = z.object({
 const verifyOtpSchema = z.object({
   email: z.string().email().optional(),
   mfaSessionToken: z.string().optional(),
-  otp: z.string().length(6),
-  otpType: z.enum(['email', 'mobile', 'sms']),
+  otp: z.string().min(6).max(20),
+  otpType: z.enum(['email', 'mobile', 'sms', 'totp']),
 }).refine((data) => data.email || data.mfaSessionToken, {
   message: 'Either email or mfaSessionToken is required',
+}).refine((data) => data.otpType === 'totp' || data.otp.length === 6, {
+  message: 'OTP must be 6 digits',
 });
 
 const passwordResetRequestSchema = z.object({
@@ -47,6 +49,66 @@ const passwordResetVerifySchema = z.object({
   newPassword: z.string().min(8),
 });
 
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(8),
+});
+
+const changeEmailRequestSchema = z.object({
+  newEmail: z.string().email(),
+  password: z.string().min(1),
+});
+
+const changeMobileRequestSchema = z.object({
+  newMobile: z.string().min(10).max(20),
+  password: z.string().min(1),
+});
+
+const contactChangeVerifySchema = z.object({
+  currentOtp: z.string().length(6),
+  newOtp: z.string().length(6),
+});
+
+const unlockRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+const unlockVerifySchema = z.object({
+  email: z.string().email(),
+  otp: z.string().length(6),
+});
+
+const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const totpCodeSchema = z.object({
+  otp: z.string().min(6).max(20),
+});
+
+const totpConfirmSchema = z.object({
+  password: z.string().min(1),
+  otp: z.string().min(6).max(20),
+});
+
+const totpDisableSchema = z.object({
+  password: z.string().min(1),
+  otp: z.string().min(6).max(20),
+});
+
+const mfaPasswordSchema = z.object({
+  password: z.string().min(1),
+});
+
+const mfaDisableVerifySchema = z.object({
+  otp: z.string().length(6),
+});
+
+const mfaFactorSchema = z.object({
+  factor: z.enum(['sms', 'totp']),
+  password: z.string().min(1),
+});
+
 // No schema needed for logout - no body required
 
 export async function authRoutes(fastify: FastifyInstance) {
@@ -103,7 +165,7 @@ export async function authRoutes(fastify: FastifyInstance) {
     '/api/auth/signin',
     {
       schema: {
-        description: 'Sign in merchant - MFA always required. Returns 200 OK with requiresOtp flag if OTP verification is needed.',
+        description: 'Sign in merchant. Returns 200 OK with requiresOtp flag if OTP verification is needed, or tokens directly when the merchant turned 2FA off. High-risk sign-ins (impossible travel, new location from a new device and network) also require the email OTP, or an SMS OTP when 2FA is off.',
         tags: ['Auth'],
         body: {
           type: 'object',
@@ -118,11 +180,12 @@ export async function authRoutes(fastify: FastifyInstance) {
         },
         response: {
           200: {
-            description: 'Success - Password valid. OTP verification required or token returned if already authenticated.',
+            description: 'Success - Password valid. OTP verification required, or token returned if 2FA is turned off.',
             type: 'object',
             properties: {
               success: { type: 'boolean' },
               requiresOtp: { type: 'boolean' },
+              mfaMethod: { type: 'string', enum: ['sms', 'totp'], description: 'Factor to verify with /api/auth/verify-otp (MFA logins)' },
               message: { type: 'string' },
               mfaSessionToken: { type: 'string' },
               maskedMobile: { type: 'string' },
@@ -131,6 +194,8 @@ export async function authRoutes(fastify: FastifyInstance) {
               isMobileVerified: { type: 'boolean' },
               isEmailVerified: { type: 'boolean' },
               token: { type: 'string' },
+              refreshToken: { type: 'string' },
+              expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
               merchant: {
                 type: 'object',
                 properties: {
@@ -162,7 +227,7 @@ export async function authRoutes(fastify: FastifyInstance) {
             },
           },
           403: {
-            description: 'Forbidden - Account verification required. Different messages for: both unverified, only email unverified, only mobile unverified',
+            description: 'Forbidden - Account verification required (different messages for: both unverified, only email unverified, only mobile unverified), or account disabled (error body)',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: true },
@@ -182,18 +247,39 @@ export async function authRoutes(fastify: FastifyInstance) {
               needsMobileVerification: { type: 'boolean' },
               isMobileVerified: { type: 'boolean' },
               isEmailVerified: { type: 'boolean' },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Merchant account is disabled. Please contact support.' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          423: {
+            description: 'Locked - Account temporarily locked after too many failed sign-ins',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Account is temporarily locked due to too many failed sign-in attempts. Try again in 30 minute(s) or unlock it with an OTP.' },
+                  statusCode: { type: 'number', example: 423 },
+                },
+              },
             },
           },
-          422: {
-            description: 'Unprocessable Entity - Account in invalid state',
+          429: {
+            description: 'Too Many Requests - Wait before the next sign-in attempt (progressive backoff)',
             type: 'object',
             properties: {
               success: { type: 'boolean', example: false },
               error: {
                 type: 'object',
                 properties: {
-                  message: { type: 'string', example: 'Account is in an invalid state. Please contact support for assistance.' },
-                  statusCode: { type: 'number', example: 422 },
+                  message: { type: 'string', example: 'Too many failed sign-in attempts. Please wait 4 second(s) before trying again.' },
+                  statusCode: { type: 'number', example: 429 },
                 },
               },
             },
@@ -283,7 +369,7 @@ export async function authRoutes(fastify: FastifyInstance) {
     '/api/auth/verify-otp',
     {
       schema: {
-        description: 'Verify OTP and get token - MFA sessions only accept SMS OTP (not email). Supports MFA session token or email (legacy).',
+        description: 'Verify OTP and get token - MFA sessions accept the merchant\'s factor: SMS OTP, or otpType "totp" with an authenticator code or recovery code, plus the email OTP when needsEmailVerification (high-risk sign-in). Supports MFA session token or email (legacy).',
         tags: ['Auth'],
         body: {
           type: 'object',
@@ -291,8 +377,8 @@ export async function authRoutes(fastify: FastifyInstance) {
           properties: {
             email: { type: 'string', format: 'email' },
             mfaSessionToken: { type: 'string' },
-            otp: { type: 'string', minLength: 6, maxLength: 6 },
-            otpType: { type: 'string', enum: ['email', 'mobile', 'sms'] },
+            otp: { type: 'string', minLength: 6, maxLength: 20, description: '6-digit OTP or authenticator code, or a recovery code (totp only)' },
+            otpType: { type: 'string', enum: ['email', 'mobile', 'sms', 'totp'] },
           },
         },
         response: {
@@ -308,6 +394,8 @@ export async function authRoutes(fastify: FastifyInstance) {
               needsEmailVerification: { type: 'boolean' },
               needsMobileVerification: { type: 'boolean' },
               token: { type: 'string' },
+              refreshToken: { type: 'string' },
+              expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
               merchant: {
                 type: 'object',
                 properties: {
@@ -499,13 +587,1409 @@ export async function authRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Account Unlock - Request OTP
+  fastify.post(
+    '/api/auth/unlock/request',
+    {
+      schema: {
+        description: 'Request an OTP to unlock an account locked after too many failed sign-ins. Returns the same response whether or not the account exists or is locked.',
+        tags: ['Auth'],
+        body: {
+          type: 'object',
+          required: ['email'],
+          properties: {
+            email: { type: 'string', format: 'email' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - OTP sent to the registered mobile number if the account is locked',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              expiresIn: { type: 'number', description: 'OTP expiry time in seconds' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          503: {
+            description: 'Service Unavailable - SMS service temporarily unavailable',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'SMS service temporarily unavailable. Please try again later or contact support.' },
+                  statusCode: { type: 'number', example: 503 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = unlockRequestSchema.parse(request.body);
+      return authController.requestUnlock({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Account Unlock - Verify OTP
+  fastify.post(
+    '/api/auth/unlock/verify',
+    {
+      schema: {
+        description: 'Verify the unlock OTP and lift the sign-in lockout',
+        tags: ['Auth'],
+        body: {
+          type: 'object',
+          required: ['email', 'otp'],
+          properties: {
+            email: { type: 'string', format: 'email' },
+            otp: { type: 'string', minLength: 6, maxLength: 6 },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Account unlocked',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or expired OTP',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid OTP' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = unlockVerifySchema.parse(request.body);
+      return authController.verifyUnlock({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Refresh Token (merchants and admins)
+  fastify.post(
+    '/api/auth/token/refresh',
+    {
+      schema: {
+        description: 'Exchange a refresh token for a new access token and refresh token. Refresh tokens are single-use - reusing one revokes the whole session. Works for both merchant and admin sessions.',
+        tags: ['Auth'],
+        body: {
+          type: 'object',
+          required: ['refreshToken'],
+          properties: {
+            refreshToken: { type: 'string', minLength: 1 },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - New token pair issued',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              token: { type: 'string' },
+              refreshToken: { type: 'string' },
+              expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
+              refreshExpiresIn: { type: 'number', description: 'Refresh token lifetime in seconds' },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid, expired or reused refresh token',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid or expired refresh token. Please sign in again.' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = refreshTokenSchema.parse(request.body);
+      return authController.refreshToken({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // MFA - Get sign-in 2FA settings
+  fastify.get(
+    '/api/auth/mfa',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get sign-in two-factor authentication settings: whether 2FA is on, the sign-in factor and whether an authenticator app is enrolled. (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            description: 'Success - Current 2FA settings',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              enabled: { type: 'boolean', description: 'Sign-in asks for a second factor' },
+              factor: { type: 'string', enum: ['sms', 'totp'], description: 'Factor asked for at sign-in while 2FA is on' },
+              authenticatorEnrolled: { type: 'boolean' },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Authentication required' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Merchant not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return authController.getMfaSettings(request, reply);
+    }
+  );
+
+  // MFA - Enable sign-in 2FA
+  fastify.post(
+    '/api/auth/mfa/enable',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Turn sign-in two-factor authentication on. Requires password. Uses the chosen factor (SMS OTP by default). (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['password'],
+          properties: {
+            password: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - 2FA enabled',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              factor: { type: 'string', enum: ['sms', 'totp'], description: 'Factor asked for at sign-in while 2FA is on' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid password or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid password' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = mfaPasswordSchema.parse(request.body);
+      return authController.enableMfa({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // MFA - Request disabling sign-in 2FA
+  fastify.post(
+    '/api/auth/mfa/disable/request',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Request turning sign-in two-factor authentication off. Requires password; an OTP is sent to the registered mobile (valid 10 minutes). (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['password'],
+          properties: {
+            password: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - OTP sent',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              expiresIn: { type: 'number', description: 'OTP lifetime in seconds' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error, 2FA already disabled, or OTP requested too recently',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid password or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid password' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          503: {
+            description: 'Service Unavailable - SMS service temporarily unavailable',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 503 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = mfaPasswordSchema.parse(request.body);
+      return authController.requestMfaDisable({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // MFA - Confirm disabling sign-in 2FA
+  fastify.post(
+    '/api/auth/mfa/disable/verify',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Confirm turning sign-in two-factor authentication off with the OTP. Sign-in then only asks for the password. (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['otp'],
+          properties: {
+            otp: { type: 'string', minLength: 6, maxLength: 6 },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - 2FA disabled',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error or 2FA already disabled',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or expired OTP or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid or expired OTP' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = mfaDisableVerifySchema.parse(request.body);
+      return authController.verifyMfaDisable({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // MFA - Choose sign-in factor
+  fastify.put(
+    '/api/auth/mfa/factor',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Choose the sign-in factor: SMS OTP or authenticator app. Requires password; the authenticator app must be enrolled first (/api/auth/mfa/totp/setup). (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['factor', 'password'],
+          properties: {
+            factor: { type: 'string', enum: ['sms', 'totp'] },
+            password: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Sign-in factor updated',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              enabled: { type: 'boolean', description: 'Sign-in asks for a second factor' },
+              factor: { type: 'string', enum: ['sms', 'totp'], description: 'Factor asked for at sign-in while 2FA is on' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid password or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid password' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          428: {
+            description: 'Precondition Required - Authenticator app not enrolled',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 428 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = mfaFactorSchema.parse(request.body);
+      return authController.setMfaFactor({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // TOTP - Start authenticator app enrollment
+  fastify.post(
+    '/api/auth/mfa/totp/setup',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Start authenticator app (TOTP) enrollment. Returns the secret and otpauth:// URI to render as a QR code. Must be confirmed within 10 minutes. (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            description: 'Success - Enrollment pending confirmation',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              secret: { type: 'string', description: 'Base32 secret for manual entry' },
+              otpauthUrl: { type: 'string', description: 'Provisioning URI for the QR code' },
+              expiresIn: { type: 'number', description: 'Seconds left to confirm enrollment' },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Authentication required' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Authenticator app already enabled',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return authController.setupTotp(request, reply);
+    }
+  );
+
+  // TOTP - Confirm enrollment
+  fastify.post(
+    '/api/auth/mfa/totp/confirm',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Confirm authenticator app enrollment with the account password and a code from the app. Switches sign-in MFA to the authenticator app and returns recovery codes. (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['password', 'otp'],
+          properties: {
+            password: { type: 'string', minLength: 1, description: 'Current account password' },
+            otp: { type: 'string', minLength: 6, maxLength: 20, description: 'Code from the authenticator app' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Recovery codes are shown only once',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              recoveryCodes: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid password, invalid authenticator code or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid authenticator code' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = totpConfirmSchema.parse(request.body);
+      return authController.confirmTotp({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // TOTP - Regenerate recovery codes
+  fastify.post(
+    '/api/auth/mfa/totp/recovery-codes',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Replace recovery codes. Requires a current authenticator code or unused recovery code. (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['otp'],
+          properties: {
+            otp: { type: 'string', minLength: 6, maxLength: 20, description: 'Authenticator code or recovery code' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Recovery codes are shown only once',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              recoveryCodes: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid authenticator code or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid authenticator code' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = totpCodeSchema.parse(request.body);
+      return authController.regenerateRecoveryCodes({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // TOTP - Disable authenticator app
+  fastify.post(
+    '/api/auth/mfa/totp/disable',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Disable the authenticator app and fall back to SMS OTP. Requires password and a current authenticator code or recovery code. (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['password', 'otp'],
+          properties: {
+            password: { type: 'string' },
+            otp: { type: 'string', minLength: 6, maxLength: 20, description: 'Authenticator code or recovery code' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Authenticator app disabled',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid password, invalid authenticator code or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid authenticator code' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = totpDisableSchema.parse(request.body);
+      return authController.disableTotp({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Change Password (Protected)
+  fastify.post(
+    '/api/auth/password/change',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Change password of the signed-in merchant. Requires the current password; the new password must satisfy the password policy. Other sessions are signed out. (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['currentPassword', 'newPassword'],
+          properties: {
+            currentPassword: { type: 'string' },
+            newPassword: { type: 'string', minLength: 8 },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Password changed',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error or password policy violation',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Password must contain a special character' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Current password is incorrect or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Current password is incorrect' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = changePasswordSchema.parse(request.body);
+      return authController.changePassword({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Change Email - Request OTPs (Protected)
+  fastify.post(
+    '/api/auth/email/change/request',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Start changing the registered email. Requires the current password; OTPs are sent to both the current and the new email. (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['newEmail', 'password'],
+          properties: {
+            newEmail: { type: 'string', format: 'email' },
+            password: { type: 'string', description: 'Current password' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - OTPs sent',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              expiresIn: { type: 'number', description: 'OTP expiry time in seconds' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error, unchanged value or OTP requested too recently',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Current password is incorrect or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Current password is incorrect' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Email already registered',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Email already registered' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          503: {
+            description: 'Service Unavailable - Email service temporarily unavailable',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 503 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = changeEmailRequestSchema.parse(request.body);
+      return authController.requestEmailChange({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Change Email - Verify OTPs (Protected)
+  fastify.post(
+    '/api/auth/email/change/verify',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Confirm the email change with the OTPs sent to the current and new email. Marks the new email verified and signs out other sessions. (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['currentOtp', 'newOtp'],
+          properties: {
+            currentOtp: { type: 'string', minLength: 6, maxLength: 6, description: 'OTP sent to the current channel' },
+            newOtp: { type: 'string', minLength: 6, maxLength: 6, description: 'OTP sent to the new channel' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Email changed',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              email: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error or no pending change',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or expired OTP, too many attempts or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid or expired OTP' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Email was registered by another account meanwhile',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Email already registered' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = contactChangeVerifySchema.parse(request.body);
+      return authController.verifyEmailChange({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Change Mobile - Request OTPs (Protected)
+  fastify.post(
+    '/api/auth/mobile/change/request',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Start changing the registered mobile number. Requires the current password; OTPs are sent to both the current and the new mobile. (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['newMobile', 'password'],
+          properties: {
+            newMobile: { type: 'string', minLength: 10, maxLength: 20 },
+            password: { type: 'string', description: 'Current password' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - OTPs sent',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              maskedMobile: { type: 'string', description: 'Current mobile number' },
+              expiresIn: { type: 'number', description: 'OTP expiry time in seconds' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error, unchanged value or OTP requested too recently',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Current password is incorrect or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Current password is incorrect' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Mobile number already registered',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Mobile number already registered' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          503: {
+            description: 'Service Unavailable - SMS service temporarily unavailable',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 503 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = changeMobileRequestSchema.parse(request.body);
+      return authController.requestMobileChange({ ...request, body: validated } as any, reply);
+    }
+  );
+
+  // Change Mobile - Verify OTPs (Protected)
+  fastify.post(
+    '/api/auth/mobile/change/verify',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Confirm the mobile change with the OTPs sent to the current and new mobile. Marks the new mobile verified and signs out other sessions. (Protected)',
+        tags: ['Auth'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['currentOtp', 'newOtp'],
+          properties: {
+            currentOtp: { type: 'string', minLength: 6, maxLength: 6, description: 'OTP sent to the current channel' },
+            newOtp: { type: 'string', minLength: 6, maxLength: 6, description: 'OTP sent to the new channel' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Success - Mobile number changed',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              maskedMobile: { type: 'string', description: 'New mobile number' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Validation error or no pending change',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or expired OTP, too many attempts or authentication required',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Invalid or expired OTP' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Mobile number was registered by another account meanwhile',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Mobile number already registered' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const validated = contactChangeVerifySchema.parse(request.body);
+      return authController.verifyMobileChange({ ...request, body: validated } as any, reply);
+    }
+  );
+
   // Logout
   fastify.post(
     '/api/auth/logout',
     {
       preHandler: [authenticate], // Require authentication
       schema: {
-        description: 'Logout user. Requires authentication token.',
+        description: 'Logout user. Revokes the current access token and its refresh token. Requires authentication token.',
         tags: ['Auth'],
         security: [{ bearerAuth: [] }],
         response: {
@@ -1,7 +1,96 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import type { MultipartFile } from '@fastify/multipart';
+import { KYCDocumentType } from '@tsp/types';
 import { authenticate } from '../middleware/auth.middleware';
+import { authenticateApiKey } from '../middleware/apiKeyAuth.middleware';
+import { requireTpin } from '../middleware/tpin.middleware';
 import { merchantService } from '../services/merchant.service';
-import { logger, AppError, formatErrorResponse } from '@tsp/common';
+import { sessionService } from '../services/session.service';
+import { apiKeyService, CreateApiKeyInput, RotateApiKeyInput } from '../services/apiKey.service';
+import {
+  ipAllowlistService,
+  IpAllowlistChangeRequestInput,
+  IpAllowlistChangeVerifyInput,
+} from '../services/ipAllowlist.service';
+import { merchantStatusService } from '../services/merchantStatus.service';
+import { tpinService, SetTpinInput, ChangeTpinInput, TpinResetVerifyInput } from '../services/tpin.service';
+import { kycDocumentService, UploadDocumentInput } from '../services/kycDocument.service';
+import { settlementAccountService, AddSettlementAccountInput } from '../services/settlementAccount.service';
+import { logger, AppError, ValidationError, formatErrorResponse } from '@tsp/common';
+import { config } from '../config';
+
+// Settlement bank account - the account number is only ever returned masked
+const settlementAccountResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    accountNumberMasked: { type: 'string' },
+    ifsc: { type: 'string' },
+    bankName: { type: 'string' },
+    holderName: { type: 'string' },
+    status: { type: 'string', enum: ['PENDING', 'VERIFIED', 'NAME_MISMATCH', 'FAILED'] },
+    registeredName: { type: 'string', nullable: true },
+    nameMatchScore: { type: 'number', nullable: true },
+    failureReason: { type: 'string', nullable: true },
+    verificationAttempts: { type: 'number' },
+    isPrimary: { type: 'boolean' },
+    checkedAt: { type: 'string', format: 'date-time', nullable: true },
+    verifiedAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+/**
+ * Read a multipart document upload - the documentType and label fields must come before the file
+ */
+const readDocumentUpload = async (request: FastifyRequest): Promise<UploadDocumentInput> => {
+  let file: MultipartFile | undefined;
+  try {
+    file = await request.file();
+  } catch (error: any) {
+    if (error?.code === 'FST_INVALID_MULTIPART_CONTENT_TYPE') {
+      throw new ValidationError('Send the document as multipart/form-data');
+    }
+    throw error;
+  }
+
+  if (!file) {
+    throw new ValidationError('file is required');
+  }
+
+  const fieldValue = (name: string): string | undefined => {
+    const part = file!.fields[name];
+    return part && !Array.isArray(part) && part.type === 'field' ? String(part.value) : undefined;
+  };
+
+  const documentType = fieldValue('documentType');
+  if (!documentType || !(Object.values(KYCDocumentType) as string[]).includes(documentType)) {
+    throw new ValidationError(`documentType must be one of: ${Object.values(KYCDocumentType).join(', ')} (send it before the file)`);
+  }
+
+  const label = fieldValue('label');
+  if (label && label.length > 100) {
+    throw new ValidationError('label must be at most 100 characters');
+  }
+
+  let content: Buffer;
+  try {
+    content = await file.toBuffer();
+  } catch (error: any) {
+    if (error?.code === 'FST_REQ_FILE_TOO_LARGE') {
+      throw new AppError(413, `File is larger than ${Math.floor(config.kycDocuments.maxFileSizeBytes / (1024 * 1024))} MB`);
+    }
+    throw error;
+  }
+
+  return {
+    documentType: documentType as KYCDocumentType,
+    label,
+    fileName: file.filename,
+    mimeType: file.mimetype,
+    content,
+  };
+};
 
 export async function merchantRoutes(fastify: FastifyInstance) {
   // Get merchant profile with all fields from merchant_profile table
@@ -29,6 +118,9 @@ export async function merchantRoutes(fastify: FastifyInstance) {
                   kycVerified: { type: 'boolean' },
                   isActive: { type: 'boolean' },
                   isSettlementActive: { type: 'boolean' },
+                  status: { type: 'string', enum: ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'SUSPENDED'] },
+                  statusReason: { type: 'string', nullable: true },
+                  statusChangedAt: { type: 'string', format: 'date-time', nullable: true },
                   is2faActive: { type: 'boolean' },
                   isMobileVerified: { type: 'boolean' },
                   isEmailVerified: { type: 'boolean' },
@@ -116,18 +208,283 @@ export async function merchantRoutes(fastify: FastifyInstance) {
 
         const result = await merchantService.getMerchantProfile(merchantId);
 
-        // Check for new token in response header (sliding session refresh)
-        const newToken = reply.getHeader('X-New-Token');
-        if (newToken) {
-          return reply.status(200).send({
-            ...result,
-            token: newToken, // Return new token if refreshed
-          });
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Get profile error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
         }
 
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // List active sessions (devices) of the merchant
+  fastify.get(
+    '/api/merchant/sessions',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List active sign-in sessions with device, user agent, IP, location and last seen (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              sessions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    device: { type: 'string' },
+                    userAgent: { type: 'string', nullable: true },
+                    ipAddress: { type: 'string', description: 'IP address at sign-in' },
+                    lastSeenIp: { type: 'string' },
+                    location: {
+                      type: 'object',
+                      nullable: true,
+                      properties: {
+                        latitude: { type: 'number' },
+                        longitude: { type: 'number' },
+                        location: { type: 'string' },
+                      },
+                    },
+                    createdAt: { type: 'string', format: 'date-time' },
+                    lastSeenAt: { type: 'string', format: 'date-time' },
+                    current: { type: 'boolean', description: 'True for the session making this request' },
+                  },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user!;
+        const result = await sessionService.listSessions('merchant', parseInt(user.userId, 10), user.sid);
         return reply.status(200).send(result);
       } catch (error: any) {
-        logger.error('[Merchant Controller] Get profile error:', error);
+        logger.error('[Merchant Controller] List sessions error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Sign out a single session
+  fastify.delete(
+    '/api/merchant/sessions/:sessionId',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Sign out a single session (device). Its access and refresh tokens stop working immediately. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['sessionId'],
+          properties: {
+            sessionId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Session not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Session not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user!;
+        const { sessionId } = request.params as { sessionId: string };
+        const result = await sessionService.revokeSession('merchant', parseInt(user.userId, 10), sessionId);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Revoke session error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Sign out everywhere
+  fastify.delete(
+    '/api/merchant/sessions',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Sign out everywhere. Set keepCurrent=true to stay signed in on the current device. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            keepCurrent: { type: 'boolean', default: false },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              revokedSessions: { type: 'number' },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user!;
+        const { keepCurrent } = request.query as { keepCurrent?: boolean };
+        const result = await sessionService.revokeAllSessions(
+          'merchant',
+          parseInt(user.userId, 10),
+          keepCurrent ? user.sid : undefined
+        );
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Revoke all sessions error:', error);
 
         if (error instanceof AppError) {
           const errorResponse = formatErrorResponse(error);
@@ -144,5 +501,2573 @@ export async function merchantRoutes(fastify: FastifyInstance) {
       }
     }
   );
-}
 
+  // Create an API key for server-to-server calls
+  fastify.post(
+    '/api/merchant/api-keys',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Create an API key (key ID + signing secret) for server-to-server calls. The secret is returned only once. Live keys require KYC verification. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['name', 'environment', 'password'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            environment: { type: 'string', enum: ['test', 'live'] },
+            password: { type: 'string', minLength: 1, description: 'Current password (re-authentication)' },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              apiKey: {
+                type: 'object',
+                properties: {
+                  keyId: { type: 'string' },
+                  name: { type: 'string' },
+                  environment: { type: 'string', enum: ['test', 'live'] },
+                  secretLast4: { type: 'string' },
+                  status: { type: 'string', enum: ['active', 'expired', 'revoked'] },
+                  expiresAt: { type: 'string', format: 'date-time', nullable: true },
+                  revokedAt: { type: 'string', format: 'date-time', nullable: true },
+                  lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+                  lastUsedIp: { type: 'string', nullable: true },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+              secret: { type: 'string', description: 'Signing secret - shown only once' },
+            },
+          },
+          400: {
+            description: 'Bad Request - API key limit reached',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Live keys require KYC verification',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const result = await apiKeyService.createApiKey(merchantId, request.body as CreateApiKeyInput);
+        return reply.status(201).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Create API key error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // List API keys
+  fastify.get(
+    '/api/merchant/api-keys',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List API keys with status and last use. Secrets are never returned. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              apiKeys: {
+                type: 'array',
+                items: {
+                type: 'object',
+                properties: {
+                  keyId: { type: 'string' },
+                  name: { type: 'string' },
+                  environment: { type: 'string', enum: ['test', 'live'] },
+                  secretLast4: { type: 'string' },
+                  status: { type: 'string', enum: ['active', 'expired', 'revoked'] },
+                  expiresAt: { type: 'string', format: 'date-time', nullable: true },
+                  revokedAt: { type: 'string', format: 'date-time', nullable: true },
+                  lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+                  lastUsedIp: { type: 'string', nullable: true },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const result = await apiKeyService.listApiKeys(merchantId);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] List API keys error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Rotate an API key
+  fastify.post(
+    '/api/merchant/api-keys/:keyId/rotate',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Rotate an API key. A replacement key is issued; the old key keeps working for the grace period (24 hours by default). (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['keyId'],
+          properties: {
+            keyId: { type: 'string' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['password'],
+          properties: {
+            password: { type: 'string', minLength: 1, description: 'Current password (re-authentication)' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              apiKey: {
+                type: 'object',
+                properties: {
+                  keyId: { type: 'string' },
+                  name: { type: 'string' },
+                  environment: { type: 'string', enum: ['test', 'live'] },
+                  secretLast4: { type: 'string' },
+                  status: { type: 'string', enum: ['active', 'expired', 'revoked'] },
+                  expiresAt: { type: 'string', format: 'date-time', nullable: true },
+                  revokedAt: { type: 'string', format: 'date-time', nullable: true },
+                  lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+                  lastUsedIp: { type: 'string', nullable: true },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+              secret: { type: 'string', description: 'Signing secret of the new key - shown only once' },
+              previousKeyExpiresAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Key already rotated',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - API key not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'API key not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const { keyId } = request.params as { keyId: string };
+        const result = await apiKeyService.rotateApiKey(merchantId, keyId, request.body as RotateApiKeyInput);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Rotate API key error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Revoke an API key
+  fastify.delete(
+    '/api/merchant/api-keys/:keyId',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Revoke an API key. Requests signed with it are rejected immediately. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['keyId'],
+          properties: {
+            keyId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - API key not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'API key not found' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const { keyId } = request.params as { keyId: string };
+        const result = await apiKeyService.revokeApiKey(merchantId, keyId);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Revoke API key error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Check request signing (server-to-server)
+  fastify.get(
+    '/api/merchant/api-keys/verify',
+    {
+      preHandler: [authenticateApiKey],
+      schema: {
+        description: 'Check an HMAC-signed request. Returns the merchant and environment of the key when the signature is valid. (API key)',
+        tags: ['Merchant'],
+        security: [{ apiKeyAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              keyId: { type: 'string' },
+              merchantId: { type: 'string', nullable: true, description: 'nineteen_merchant_id' },
+              environment: { type: 'string', enum: ['test', 'live'] },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Forbidden - Request IP not in the merchant IP allowlist',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 403 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const apiKey = request.apiKey!;
+      return reply.status(200).send({
+        success: true,
+        keyId: apiKey.keyId,
+        merchantId: apiKey.nineteenMerchantId,
+        environment: apiKey.environment,
+      });
+    }
+  );
+
+  // Get the server-to-server IP allowlist
+  fastify.get(
+    '/api/merchant/ip-allowlist',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get the IP allowlist for API key (server-to-server) requests and any change waiting for OTP confirmation (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              ips: { type: 'array', items: { type: 'string' } },
+              pendingIps: { type: 'array', nullable: true, items: { type: 'string' } },
+            },
+          },
+          400: {
+            description: 'Bad Request - Merchant ID not assigned',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const result = await ipAllowlistService.getAllowlist(merchantId);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Get IP allowlist error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Request an IP allowlist change (OTP sent to registered mobile)
+  fastify.post(
+    '/api/merchant/ip-allowlist/request',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Request a new IP allowlist (IPs or CIDR ranges, replaces the current list). Applied after OTP confirmation. An empty list blocks all API key requests. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['ips'],
+          properties: {
+            ips: { type: 'array', maxItems: 20, items: { type: 'string', maxLength: 64 }, description: 'e.g. ["203.0.113.10", "198.51.100.0/24"]' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              ips: { type: 'array', items: { type: 'string' } },
+              expiresIn: { type: 'number' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Invalid IP/CIDR or OTP cooldown',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          503: {
+            description: 'Service Unavailable - SMS service down',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 503 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const result = await ipAllowlistService.requestChange(merchantId, request.body as IpAllowlistChangeRequestInput);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Request IP allowlist change error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Confirm an IP allowlist change
+  fastify.post(
+    '/api/merchant/ip-allowlist/verify',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Confirm the pending IP allowlist change with the OTP sent to the registered mobile (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['otp'],
+          properties: {
+            otp: { type: 'string', minLength: 6, maxLength: 6 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              ips: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          400: {
+            description: 'Bad Request - No pending change',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or expired OTP',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const result = await ipAllowlistService.verifyChange(merchantId, request.body as IpAllowlistChangeVerifyInput);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Verify IP allowlist change error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Transaction PIN status
+  fastify.get(
+    '/api/merchant/tpin',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get transaction PIN status - whether it is set and locked (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              isSet: { type: 'boolean' },
+              updatedAt: { type: 'string', format: 'date-time', nullable: true },
+              isLocked: { type: 'boolean' },
+              lockedUntil: { type: 'string', format: 'date-time', nullable: true },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const result = await tpinService.getStatus(merchantId);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Get TPIN status error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Set the first transaction PIN
+  fastify.post(
+    '/api/merchant/tpin',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Set the transaction PIN (6 digits, no repeated or sequential digits). Requires the account password. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['tpin', 'password'],
+          properties: {
+            tpin: { type: 'string', pattern: '^[0-9]{6}$' },
+            password: { type: 'string', minLength: 1 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Weak transaction PIN',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid password',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Transaction PIN already set',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const result = await tpinService.setTpin(merchantId, request.body as SetTpinInput);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Set TPIN error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Change the transaction PIN
+  fastify.post(
+    '/api/merchant/tpin/change',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Change the transaction PIN with the current one. Wrong entries count towards the TPIN lock. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['currentTpin', 'newTpin'],
+          properties: {
+            currentTpin: { type: 'string', pattern: '^[0-9]{6}$' },
+            newTpin: { type: 'string', pattern: '^[0-9]{6}$' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Weak transaction PIN',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid transaction PIN',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          423: {
+            description: 'Locked - Too many wrong transaction PIN entries',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 423 },
+                },
+              },
+            },
+          },
+          428: {
+            description: 'Precondition Required - Transaction PIN not set',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 428 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const result = await tpinService.changeTpin(merchantId, request.body as ChangeTpinInput);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Change TPIN error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Request a transaction PIN reset
+  fastify.post(
+    '/api/merchant/tpin/reset/request',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Request a transaction PIN reset - OTP sent to the registered mobile. Also the way to unlock a locked TPIN. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              expiresIn: { type: 'number' },
+            },
+          },
+          400: {
+            description: 'Bad Request - OTP cooldown',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          428: {
+            description: 'Precondition Required - Transaction PIN not set',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 428 },
+                },
+              },
+            },
+          },
+          503: {
+            description: 'Service Unavailable - SMS service down',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 503 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const result = await tpinService.requestReset(merchantId);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Request TPIN reset error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Reset the transaction PIN with the OTP
+  fastify.post(
+    '/api/merchant/tpin/reset/verify',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Set a new transaction PIN with the reset OTP. Clears a TPIN lock. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['otp', 'newTpin'],
+          properties: {
+            otp: { type: 'string', minLength: 6, maxLength: 6 },
+            newTpin: { type: 'string', pattern: '^[0-9]{6}$' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Bad Request - Weak transaction PIN',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid or expired OTP',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          428: {
+            description: 'Precondition Required - Transaction PIN not set',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 428 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const merchantId = parseInt(request.user!.userId, 10);
+        const result = await tpinService.verifyReset(merchantId, request.body as TpinResetVerifyInput);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Verify TPIN reset error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Onboarding status
+  fastify.get(
+    '/api/merchant/status',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get the onboarding status - PENDING, UNDER_REVIEW, APPROVED, REJECTED (with the reason) or SUSPENDED (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              status: { type: 'string', enum: ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'SUSPENDED'] },
+              statusReason: { type: 'string', nullable: true },
+              statusChangedAt: { type: 'string', format: 'date-time', nullable: true },
+              canSubmitForReview: { type: 'boolean' },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await merchantStatusService.getOwnStatus(request.user!.merchantId);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Get status error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Submit the application for review
+  fastify.post(
+    '/api/merchant/status/submit',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Submit the application for review once the profile has entity type, PAN and business address. Also resubmits after a rejection. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              merchant: {
+                type: 'object',
+                properties: {
+                  nineteenMerchantId: { type: 'string' },
+                  status: { type: 'string', enum: ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'SUSPENDED'] },
+                  statusReason: { type: 'string', nullable: true },
+                  statusChangedAt: { type: 'string', format: 'date-time', nullable: true },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Bad Request - Profile incomplete',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Already under review, approved or suspended',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await merchantStatusService.transition(request.user!.merchantId, 'submit', { type: 'merchant' });
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Submit for review error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Upload a KYC/KYB document
+  fastify.post(
+    '/api/merchant/documents',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Upload a KYC/KYB document as multipart/form-data: documentType and label (director name, DIRECTOR_ID only) fields, then the file. PDF, PNG or JPEG. Replaces the previous document of the same type. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        consumes: ['multipart/form-data'],
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              document: {
+                type: 'object',
+                properties: {
+                  id: { type: 'number' },
+                  documentType: { type: 'string', enum: ['PAN', 'GST_CERTIFICATE', 'INCORPORATION_CERTIFICATE', 'CANCELLED_CHEQUE', 'DIRECTOR_ID'] },
+                  label: { type: 'string', nullable: true },
+                  fileName: { type: 'string' },
+                  mimeType: { type: 'string' },
+                  sizeBytes: { type: 'number' },
+                  checksum: { type: 'string' },
+                  status: { type: 'string', enum: ['PENDING', 'VERIFIED', 'REJECTED'] },
+                  reviewComment: { type: 'string', nullable: true },
+                  reviewedAt: { type: 'string', format: 'date-time', nullable: true },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Bad Request - Missing field, unsupported or mismatched file type',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Same file already uploaded, or application under review / approved',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          413: {
+            description: 'Payload Too Large - File over the size limit',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 413 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const upload = await readDocumentUpload(request);
+        const result = await kycDocumentService.upload(request.user!.merchantId, upload);
+        return reply.status(201).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Upload document error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // List own documents
+  fastify.get(
+    '/api/merchant/documents',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List uploaded documents with their review status, and the required document types still missing (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              documents: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'number' },
+                    documentType: { type: 'string', enum: ['PAN', 'GST_CERTIFICATE', 'INCORPORATION_CERTIFICATE', 'CANCELLED_CHEQUE', 'DIRECTOR_ID'] },
+                    label: { type: 'string', nullable: true },
+                    fileName: { type: 'string' },
+                    mimeType: { type: 'string' },
+                    sizeBytes: { type: 'number' },
+                    checksum: { type: 'string' },
+                    status: { type: 'string', enum: ['PENDING', 'VERIFIED', 'REJECTED'] },
+                    reviewComment: { type: 'string', nullable: true },
+                    reviewedAt: { type: 'string', format: 'date-time', nullable: true },
+                    createdAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+              missingDocumentTypes: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await kycDocumentService.listOwn(request.user!.merchantId);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] List documents error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Download own document
+  fastify.get(
+    '/api/merchant/documents/:documentId/file',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Download an uploaded document (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['documentId'],
+          properties: {
+            documentId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Document not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { documentId } = request.params as { documentId: string };
+        const file = await kycDocumentService.getOwnFile(request.user!.merchantId, parseInt(documentId, 10));
+        return reply
+          .header('Content-Type', file.mimeType)
+          .header('Content-Disposition', `attachment; filename="${file.fileName.replace(/[^\w.-]/g, '_')}"`)
+          .header('Cache-Control', 'no-store')
+          .send(file.content);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Download document error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Delete own document
+  fastify.delete(
+    '/api/merchant/documents/:documentId',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Delete a pending or rejected document while the application is PENDING or REJECTED (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['documentId'],
+          properties: {
+            documentId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Document not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Document verified, or application under review / approved',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { documentId } = request.params as { documentId: string };
+        const result = await kycDocumentService.deleteOwn(request.user!.merchantId, parseInt(documentId, 10));
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Delete document error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // List own settlement accounts
+  fastify.get(
+    '/api/merchant/settlement-accounts',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List settlement bank accounts with their penny drop results, and whether settlement is active (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              isSettlementActive: { type: 'boolean' },
+              accounts: {
+                type: 'array',
+                items: settlementAccountResponseSchema,
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await settlementAccountService.listOwn(request.user!.merchantId);
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] List settlement accounts error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Add a settlement account (verified by penny drop right away)
+  fastify.post(
+    '/api/merchant/settlement-accounts',
+    {
+      preHandler: [authenticate, requireTpin],
+      schema: {
+        description: 'Add a settlement bank account. The IFSC must belong to a known bank. Re 1 is credited to the account and the name the bank returns is matched against the merchant name. Requires the transaction PIN in X-Tpin. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['accountNumber', 'ifsc', 'holderName'],
+          properties: {
+            accountNumber: { type: 'string', minLength: 9, maxLength: 24, description: '9-18 digits, spaces and dashes are ignored' },
+            ifsc: { type: 'string', minLength: 11, maxLength: 11, example: 'HDFC0001234' },
+            holderName: { type: 'string', minLength: 1, maxLength: 200 },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              account: settlementAccountResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - Invalid IFSC or account number, account limit reached or X-Tpin missing',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid transaction PIN',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Account already added',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          423: {
+            description: 'Locked - Too many wrong transaction PIN entries',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 423 },
+                },
+              },
+            },
+          },
+          428: {
+            description: 'Precondition Required - Transaction PIN not set',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 428 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await settlementAccountService.addAccount(
+          request.user!.merchantId,
+          request.body as AddSettlementAccountInput
+        );
+        return reply.status(201).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Add settlement account error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Retry the penny drop for a pending account
+  fastify.post(
+    '/api/merchant/settlement-accounts/:accountId/verify',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Retry the penny drop for an account still PENDING because the bank could not be reached (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['accountId'],
+          properties: {
+            accountId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              account: settlementAccountResponseSchema,
+            },
+          },
+          401: {
+            description: 'Unauthorized',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Settlement account not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Account already checked, or no verification attempts left',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          503: {
+            description: 'Service Unavailable - Bank could not be reached',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 503 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { accountId } = request.params as { accountId: string };
+        const result = await settlementAccountService.verifyOwn(request.user!.merchantId, parseInt(accountId, 10));
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Verify settlement account error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Choose the account settlements are paid into
+  fastify.post(
+    '/api/merchant/settlement-accounts/:accountId/primary',
+    {
+      preHandler: [authenticate, requireTpin],
+      schema: {
+        description: 'Make a VERIFIED account the one settlements are paid into. Requires the transaction PIN in X-Tpin. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['accountId'],
+          properties: {
+            accountId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              account: settlementAccountResponseSchema,
+            },
+          },
+          400: {
+            description: 'Bad Request - X-Tpin missing',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid transaction PIN',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Settlement account not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Account not verified',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          423: {
+            description: 'Locked - Too many wrong transaction PIN entries',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 423 },
+                },
+              },
+            },
+          },
+          428: {
+            description: 'Precondition Required - Transaction PIN not set',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 428 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { accountId } = request.params as { accountId: string };
+        const result = await settlementAccountService.setPrimary(request.user!.merchantId, parseInt(accountId, 10));
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Set primary settlement account error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+
+  // Remove a settlement account
+  fastify.delete(
+    '/api/merchant/settlement-accounts/:accountId',
+    {
+      preHandler: [authenticate, requireTpin],
+      schema: {
+        description: 'Remove a settlement account. The primary account cannot be removed while settlement is active. Requires the transaction PIN in X-Tpin. (Protected)',
+        tags: ['Merchant'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['accountId'],
+          properties: {
+            accountId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Bad Request - X-Tpin missing',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 400 },
+                },
+              },
+            },
+          },
+          401: {
+            description: 'Unauthorized - Invalid transaction PIN',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 401 },
+                },
+              },
+            },
+          },
+          404: {
+            description: 'Not Found - Settlement account not found',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 404 },
+                },
+              },
+            },
+          },
+          409: {
+            description: 'Conflict - Account receives settlements',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 409 },
+                },
+              },
+            },
+          },
+          423: {
+            description: 'Locked - Too many wrong transaction PIN entries',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 423 },
+                },
+              },
+            },
+          },
+          428: {
+            description: 'Precondition Required - Transaction PIN not set',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  statusCode: { type: 'number', example: 428 },
+                },
+              },
+            },
+          },
+          500: {
+            description: 'Internal Server Error',
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: false },
+              error: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string', example: 'Internal server error' },
+                  statusCode: { type: 'number', example: 500 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { accountId } = request.params as { accountId: string };
+        const result = await settlementAccountService.deleteOwn(request.user!.merchantId, parseInt(accountId, 10));
+        return reply.status(200).send(result);
+      } catch (error: any) {
+        logger.error('[Merchant Controller] Delete settlement account error:', error);
+
+        if (error instanceof AppError) {
+          const errorResponse = formatErrorResponse(error);
+          return reply.status(error.statusCode || 500).send(errorResponse);
+        }
+
+        return reply.status(500).send({
+          success: false,
+          error: {
+            message: 'Internal server error',
+            statusCode: 500,
+          },
+        });
+      }
+    }
+  );
+}
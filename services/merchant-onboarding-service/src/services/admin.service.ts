@@ -1,8 +1,10 @@
 import { PrismaClient } from '@prisma/client';
 import { 
   hashPassword, 
+  assertPasswordPolicy,
+  buildPasswordHistory,
+  normalizeIpAllowlist,
   comparePassword, 
-  generateToken, 
   JWTPayload, 
   logger 
 } from '@tsp/common';
@@ -11,17 +13,57 @@ import {
   NotFoundError, 
   UnauthorizedError, 
   ForbiddenError,
-  AppError
+  ConflictError,
+  TooManyRequestsError
 } from '@tsp/common';
-import { sendOtpSms } from './sms.service';
+import { MerchantStatus } from '@tsp/types';
+import { otpService, OtpSubject } from './otp.service';
+import { tokenService } from './token.service';
+import { sessionService, ClientContext } from './session.service';
+import { webauthnService } from './webauthn.service';
+import { lockoutService } from './lockout.service';
+import { getKybResetData } from './kyb.service';
+import { getRedisClient } from './redis.service';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+import crypto from 'crypto';
 
 const prisma = new PrismaClient();
 
+// Admin MFA session - created after a valid password, every admin sign-in needs a second factor
+// Security key (WebAuthn) when 2FA is enabled with registered keys, otherwise SMS OTP
+interface AdminMfaSession {
+  adminId: number;
+  email: string;
+  mfaMethod: 'webauthn' | 'sms';
+  challenge?: string; // WebAuthn assertion challenge (webauthn only)
+  mobile?: string; // OTP destination (sms only)
+  expiresAt: number; // Unix timestamp
+  attempts: number; // Max 3 attempts
+  resends: number; // Max 3 OTP resends (sms only)
+}
+
+const MAX_MFA_ATTEMPTS = 3;
+const MAX_OTP_RESENDS = 3;
+
 export interface AdminSignInInput {
   email: string;
   password: string;
 }
 
+export interface AdminVerifyOtpInput {
+  mfaSessionToken: string;
+  otp: string;
+}
+
+export interface AdminSendOtpInput {
+  mfaSessionToken: string;
+}
+
+export interface AdminVerifyWebauthnInput {
+  mfaSessionToken: string;
+  response: AuthenticationResponseJSON; // navigator.credentials.get() result
+}
+
 export interface UpdateMerchantProfileInput {
   typeOfEntity?: string;
   pan?: string;
@@ -67,12 +109,13 @@ export interface GetAuditLogsInput {
   sessionId?: string;
 }
 
-/**
- * Generate a 6-digit OTP
- */
-const generateOtp = (): string => {
-  return Math.floor(100000 + Math.random() * 900000).toString();
-};
+// OTP subject of an admin (codes are keyed by admin ID)
+const adminOtpSubject = (admin: { id: number; email: string; name: string }): OtpSubject => ({
+  type: 'admin',
+  adminId: admin.id,
+  email: admin.email,
+  name: admin.name,
+});
 
 /**
  * Mask mobile number for display
@@ -82,12 +125,105 @@ const maskMobile = (mobile: string): string => {
   return mobile.substring(0, 4) + '****' + mobile.substring(mobile.length - 3);
 };
 
+/**
+ * Generate admin MFA session token
+ */
+const generateMfaSessionToken = (): string => {
+  return crypto.randomBytes(32).toString('hex');
+};
+
+/**
+ * Load a live admin MFA session or throw
+ * Expired sessions and sessions out of attempts are deleted
+ */
+const getAdminMfaSession = async (mfaSessionToken: string): Promise<AdminMfaSession> => {
+  const redisClient = await getRedisClient();
+  const sessionKey = `admin:mfa:session:${mfaSessionToken}`;
+  const sessionData = await redisClient.get(sessionKey);
+
+  if (!sessionData) {
+    throw new UnauthorizedError('Invalid or expired MFA session. Please sign in again.');
+  }
+
+  const mfaSession = JSON.parse(sessionData) as AdminMfaSession;
+
+  if (Date.now() > mfaSession.expiresAt) {
+    await redisClient.del(sessionKey);
+    throw new UnauthorizedError('MFA session has expired. Please sign in again.');
+  }
+
+  if (mfaSession.attempts >= MAX_MFA_ATTEMPTS) {
+    await redisClient.del(sessionKey);
+    throw new UnauthorizedError('Too many failed attempts. Please sign in again.');
+  }
+
+  return mfaSession;
+};
+
+/**
+ * Persist changes to an admin MFA session, keeping its original expiry
+ */
+const saveAdminMfaSession = async (mfaSessionToken: string, mfaSession: AdminMfaSession): Promise<void> => {
+  const redisClient = await getRedisClient();
+  await redisClient.setEx(
+    `admin:mfa:session:${mfaSessionToken}`,
+    Math.max(1, Math.floor((mfaSession.expiresAt - Date.now()) / 1000)),
+    JSON.stringify(mfaSession)
+  );
+};
+
+/**
+ * Finish admin sign-in - record login and issue access + refresh tokens
+ */
+const completeSignIn = async (
+  admin: { id: number; email: string; name: string; role: string; isActive: boolean },
+  context?: ClientContext
+) => {
+  // Update last login time
+  await prisma.admin.update({
+    where: { id: admin.id },
+    data: { lastLoginAt: new Date() },
+  });
+
+  // Generate access + refresh tokens
+  const { token, refreshToken, expiresIn } = await sessionService.startSession('admin', {
+    userId: admin.id.toString(),
+    merchantId: '', // Not applicable for admin
+    role: admin.role,
+    email: admin.email,
+    kycVerified: true, // Admins are always verified
+    isActive: admin.isActive,
+  }, context);
+
+  logger.info(`[Admin Service] Admin signed in successfully: ${admin.email}`);
+
+  return {
+    success: true,
+    token,
+    refreshToken,
+    expiresIn,
+    admin: {
+      id: admin.id,
+      email: admin.email,
+      name: admin.name,
+      role: admin.role,
+      isActive: admin.isActive,
+    },
+  };
+};
+
 export const adminService = {
   /**
    * Admin sign in
-   * Follows same standards as merchant sign-in but without MFA requirement for now
+   * MFA is always required - returns an MFA challenge instead of tokens:
+   * - Security key (WebAuthn) when 2FA is enabled and keys are registered (completed via verifyWebauthn)
+   * - SMS OTP otherwise (completed via verifyOtp)
+   * Repeated failed passwords trigger progressive delays and a temporary lockout
    */
-  async signIn(input: AdminSignInInput) {
+  async signIn(input: AdminSignInInput, context?: ClientContext) {
+    // Locked accounts and accounts in backoff are rejected before the password is checked
+    await lockoutService.assertCanAttempt('admin', input.email);
+
     // Find admin by email
     const admin = await prisma.admin.findUnique({
       where: { email: input.email },
@@ -101,12 +237,16 @@ export const adminService = {
         is2faActive: true,
         isMobileVerified: true,
         isEmailVerified: true,
+        mobile: true,
+        passwordResetRequired: true,
       },
     });
 
     // Case 0a: Admin not found
     if (!admin) {
       logger.warn(`[Admin Service] Sign-in attempt with non-existent email: ${input.email}`);
+      // Counted like a real account so lockout doesn't reveal which emails exist
+      await lockoutService.recordFailure('admin', input.email, { ipAddress: context?.ipAddress || 'unknown' });
       throw new UnauthorizedError('Invalid email or password'); // 401 - Don't reveal if email exists
     }
 
@@ -116,53 +256,253 @@ export const adminService = {
     // Case 0b: Invalid password
     if (!isPasswordValid) {
       logger.warn(`[Admin Service] Invalid password attempt for email: ${input.email}`);
+      await lockoutService.recordFailure('admin', input.email, {
+        ipAddress: context?.ipAddress || 'unknown',
+        userId: admin.id,
+      });
       throw new UnauthorizedError('Invalid email or password'); // 401 - Generic error for security
     }
 
+    await lockoutService.recordSuccess('admin', input.email);
+
     // Check if admin is active
     if (!admin.isActive) {
       logger.warn(`[Admin Service] Sign-in attempt for inactive admin: ${input.email}`);
       throw new ForbiddenError('Admin account is disabled. Please contact support.');
     }
 
-    // Update last login time
-    await prisma.admin.update({
-      where: { id: admin.id },
-      data: { lastLoginAt: new Date() },
-    });
+    // Password reset forced by a super admin - the old password no longer signs in
+    if (admin.passwordResetRequired) {
+      logger.warn(`[Admin Service] Sign-in attempt for admin with a forced password reset: ${input.email}`);
+      throw new ForbiddenError('Password reset required. Use the link sent to your email or reset your password with an SMS OTP.');
+    }
 
-    // Generate JWT token
-    const token = generateToken({
-      userId: admin.id.toString(),
-      merchantId: '', // Not applicable for admin
-      role: admin.role,
+    const mfaSessionToken = generateMfaSessionToken();
+    const expiresAt = Date.now() + 10 * 60 * 1000; // 10 minutes
+    const redisClient = await getRedisClient();
+
+    // 2FA enabled with registered security keys - require a security key / passkey assertion
+    if (admin.is2faActive && (await webauthnService.hasCredentials(admin.id))) {
+      const options = await webauthnService.generateAuthenticationOptions(admin.id);
+
+      const mfaSession: AdminMfaSession = {
+        adminId: admin.id,
+        email: admin.email,
+        mfaMethod: 'webauthn',
+        challenge: options.challenge,
+        expiresAt,
+        attempts: 0,
+        resends: 0,
+      };
+
+      await redisClient.setEx(
+        `admin:mfa:session:${mfaSessionToken}`,
+        600, // 10 minutes TTL
+        JSON.stringify(mfaSession)
+      );
+
+      logger.info(`[Admin Service] Created security key MFA session for ${input.email}. Token: ${mfaSessionToken.substring(0, 8)}...`);
+
+      return {
+        success: true,
+        requiresMfa: true,
+        mfaMethod: 'webauthn',
+        message: 'Security key verification required.',
+        mfaSessionToken,
+        webauthnOptions: options,
+      };
+    }
+
+    // Otherwise SMS OTP to the registered mobile
+    if (!admin.mobile) {
+      logger.error(`[Admin Service] No second factor available for admin: ${input.email}`);
+      throw new ForbiddenError('No mobile number or security key registered for two-factor authentication. Please contact a super admin.');
+    }
+
+    const mfaSession: AdminMfaSession = {
+      adminId: admin.id,
       email: admin.email,
-      kycVerified: true, // Admins are always verified
-      isActive: admin.isActive,
-    });
+      mfaMethod: 'sms',
+      mobile: admin.mobile,
+      expiresAt,
+      attempts: 0,
+      resends: 0,
+    };
+
+    await redisClient.setEx(
+      `admin:mfa:session:${mfaSessionToken}`,
+      600, // 10 minutes TTL
+      JSON.stringify(mfaSession)
+    );
 
-    logger.info(`[Admin Service] Admin signed in successfully: ${input.email}`);
+    logger.info(`[Admin Service] Created SMS OTP MFA session for ${input.email}. Token: ${mfaSessionToken.substring(0, 8)}...`);
+
+    await otpService.issue(adminOtpSubject(admin), 'login', 'sms', admin.mobile);
 
     return {
       success: true,
-      token,
-      admin: {
-        id: admin.id,
-        email: admin.email,
-        name: admin.name,
-        role: admin.role,
-        isActive: admin.isActive,
+      requiresMfa: true,
+      mfaMethod: 'sms',
+      message: 'OTP verification required. OTP sent to your registered mobile number.',
+      mfaSessionToken,
+      maskedMobile: maskMobile(admin.mobile),
+    };
+  },
+
+  /**
+   * Complete admin sign-in with an SMS OTP
+   */
+  async verifyOtp(input: AdminVerifyOtpInput, context?: ClientContext) {
+    const mfaSession = await getAdminMfaSession(input.mfaSessionToken);
+
+    if (mfaSession.mfaMethod !== 'sms') {
+      throw new ValidationError('This sign-in requires security key verification. Use /api/admin/verify-webauthn.');
+    }
+
+    const otpMatch = await otpService.verify(
+      { type: 'admin', adminId: mfaSession.adminId, email: mfaSession.email },
+      'login',
+      'sms',
+      input.otp
+    );
+
+    if (!otpMatch) {
+      mfaSession.attempts += 1;
+      await saveAdminMfaSession(input.mfaSessionToken, mfaSession);
+      throw new UnauthorizedError('Invalid or expired OTP');
+    }
+
+    await otpService.consume(otpMatch);
+
+    // Session is single-use
+    const redisClient = await getRedisClient();
+    await redisClient.del(`admin:mfa:session:${input.mfaSessionToken}`);
+
+    const admin = await prisma.admin.findUnique({
+      where: { id: mfaSession.adminId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        isActive: true,
       },
+    });
+
+    if (!admin) {
+      throw new NotFoundError('Admin');
+    }
+
+    if (!admin.isActive) {
+      throw new ForbiddenError('Admin account is disabled. Please contact support.');
+    }
+
+    logger.info(`[Admin Service] SMS OTP verified for admin sign-in. ${admin.email}`);
+
+    return completeSignIn(admin, context);
+  },
+
+  /**
+   * Resend the sign-in OTP of an MFA session
+   * 60 second cooldown between OTPs and max 3 resends per session
+   */
+  async sendOtp(input: AdminSendOtpInput) {
+    const mfaSession = await getAdminMfaSession(input.mfaSessionToken);
+
+    if (mfaSession.mfaMethod !== 'sms' || !mfaSession.mobile) {
+      throw new ValidationError('This sign-in requires security key verification. No OTP is sent.');
+    }
+
+    if (mfaSession.resends >= MAX_OTP_RESENDS) {
+      throw new TooManyRequestsError('OTP resend limit reached. Please sign in again.');
+    }
+
+    const admin = await prisma.admin.findUnique({
+      where: { id: mfaSession.adminId },
+      select: { id: true, email: true, name: true },
+    });
+
+    if (!admin) {
+      throw new NotFoundError('Admin');
+    }
+
+    const issued = await otpService.issue(adminOtpSubject(admin), 'login', 'sms', mfaSession.mobile);
+
+    if (!issued.sent) {
+      throw new ValidationError(`Please wait ${issued.retryAfter} seconds before requesting a new OTP`);
+    }
+
+    mfaSession.resends += 1;
+    await saveAdminMfaSession(input.mfaSessionToken, mfaSession);
+
+    return {
+      success: true,
+      message: 'OTP sent to your registered mobile number.',
+      maskedMobile: maskMobile(mfaSession.mobile),
+      expiresIn: issued.expiresIn,
     };
   },
 
+  /**
+   * Complete admin sign-in with a WebAuthn assertion
+   */
+  async verifyWebauthn(input: AdminVerifyWebauthnInput, context?: ClientContext) {
+    const mfaSession = await getAdminMfaSession(input.mfaSessionToken);
+
+    if (mfaSession.mfaMethod !== 'webauthn' || !mfaSession.challenge) {
+      throw new ValidationError('This sign-in requires OTP verification. Use /api/admin/verify-otp.');
+    }
+
+    const verified = await webauthnService.verifyAuthentication(
+      mfaSession.adminId,
+      mfaSession.challenge,
+      input.response
+    );
+
+    if (!verified) {
+      mfaSession.attempts += 1;
+      await saveAdminMfaSession(input.mfaSessionToken, mfaSession);
+      throw new UnauthorizedError('Security key verification failed');
+    }
+
+    // Session (and its challenge) is single-use
+    const redisClient = await getRedisClient();
+    await redisClient.del(`admin:mfa:session:${input.mfaSessionToken}`);
+
+    const admin = await prisma.admin.findUnique({
+      where: { id: mfaSession.adminId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        isActive: true,
+      },
+    });
+
+    if (!admin) {
+      throw new NotFoundError('Admin');
+    }
+
+    if (!admin.isActive) {
+      throw new ForbiddenError('Admin account is disabled. Please contact support.');
+    }
+
+    logger.info(`[Admin Service] Security key verified for admin sign-in. ${admin.email}`);
+
+    return completeSignIn(admin, context);
+  },
+
   /**
    * Get all merchants with pagination
    */
-  async getAllMerchants(page: number = 1, limit: number = 20, search?: string) {
+  async getAllMerchants(page: number = 1, limit: number = 20, search?: string, status?: string) {
     const skip = (page - 1) * limit;
 
     const where: any = {};
+    if (status) {
+      where.status = status;
+    }
     if (search) {
       where.OR = [
         { email: { contains: search, mode: 'insensitive' } },
@@ -186,6 +526,9 @@ export const adminService = {
           kycVerified: true,
           isActive: true,
           isSettlementActive: true,
+          status: true,
+          statusReason: true,
+          statusChangedAt: true,
           is2faActive: true,
           isMobileVerified: true,
           isEmailVerified: true,
@@ -239,6 +582,9 @@ export const adminService = {
         kycVerified: true,
         isActive: true,
         isSettlementActive: true,
+        status: true,
+        statusReason: true,
+        statusChangedAt: true,
         is2faActive: true,
         isMobileVerified: true,
         isEmailVerified: true,
@@ -370,7 +716,9 @@ export const adminService = {
     if (input.shareholdingPatterns !== undefined) updateData.shareholdingPatterns = input.shareholdingPatterns;
     if (input.uboDetails !== undefined) updateData.uboDetails = input.uboDetails;
     if (input.accountDetails !== undefined) updateData.accountDetails = input.accountDetails;
-    if (input.whitelistedIps !== undefined) updateData.whitelistedIps = input.whitelistedIps;
+    if (input.whitelistedIps !== undefined) {
+      updateData.whitelistedIps = input.whitelistedIps === null ? null : normalizeIpAllowlist(input.whitelistedIps);
+    }
     if (input.apDetails !== undefined) updateData.apDetails = input.apDetails;
     if (input.averageTicketSize !== undefined) updateData.averageTicketSize = input.averageTicketSize;
     if (input.averageVolume !== undefined) updateData.averageVolume = input.averageVolume;
@@ -379,9 +727,10 @@ export const adminService = {
     if (input.numberOfTransactionsDone !== undefined) updateData.numberOfTransactionsDone = input.numberOfTransactionsDone;
 
     // Upsert profile (create if doesn't exist, update if exists)
+    // A changed PAN, GSTIN or registration number needs a fresh KYB check
     const profile = await prisma.merchantProfile.upsert({
       where: { nineteenMerchantId: merchantId },
-      update: updateData,
+      update: { ...updateData, ...getKybResetData(input) },
       create: {
         nineteenMerchantId: merchantId,
         ...updateData,
@@ -463,6 +812,9 @@ export const adminService = {
       },
     });
 
+    // Sign the merchant out everywhere
+    await tokenService.revokeAllSessions('merchant', updatedMerchant.id);
+
     logger.info(`[Admin Service] Merchant account disabled: ${merchantId}`);
 
     return {
@@ -484,6 +836,10 @@ export const adminService = {
       throw new NotFoundError('Merchant');
     }
 
+    if (merchant.status === MerchantStatus.SUSPENDED) {
+      throw new ConflictError('Merchant is suspended. Reinstate it instead of enabling the account.');
+    }
+
     if (merchant.isActive) {
       return {
         success: true,
@@ -519,6 +875,36 @@ export const adminService = {
     };
   },
 
+  /**
+   * Unlock merchant account locked after repeated failed sign-ins
+   */
+  async unlockMerchantAccount(merchantId: string) {
+    const merchant = await prisma.merchantsMaster.findUnique({
+      where: { nineteenMerchantId: merchantId },
+      select: { id: true, email: true, nineteenMerchantId: true },
+    });
+
+    if (!merchant) {
+      throw new NotFoundError('Merchant');
+    }
+
+    const wasLocked = await lockoutService.unlock('merchant', merchant.email);
+
+    if (wasLocked) {
+      logger.info(`[Admin Service] Merchant account unlocked: ${merchantId}`);
+    }
+
+    return {
+      success: true,
+      message: wasLocked ? 'Merchant account unlocked successfully' : 'Merchant account is not locked',
+      merchant: {
+        id: merchant.id,
+        merchantId: merchant.nineteenMerchantId,
+        email: merchant.email,
+      },
+    };
+  },
+
   /**
    * Request admin password reset - sends SMS OTP
    */
@@ -561,41 +947,14 @@ export const adminService = {
       throw new ValidationError('Mobile number not registered. Please contact support to reset your password.');
     }
 
-    // Generate OTP
-    const resetOtp = generateOtp();
-    const otpExpiresAt = new Date();
-    otpExpiresAt.setMinutes(otpExpiresAt.getMinutes() + 10); // 10 minutes expiry
-
-    // Store OTP in database
-    await prisma.adminOtp.create({
-      data: {
-        adminId: admin.id,
-        email: admin.email,
-        otp: resetOtp,
-        expiresAt: otpExpiresAt,
-        otpType: 'sms', // Password reset uses SMS only
-        mobile: admin.mobile,
-        isUsed: false,
-      },
-    });
-
-    // Send SMS OTP
-    try {
-      await sendOtpSms(admin.mobile, resetOtp, admin.name);
-      logger.info(`[Admin Service] Password reset OTP sent to ${admin.mobile} for ${input.email}`);
-    } catch (error: any) {
-      logger.error(`[Admin Service] Failed to send password reset SMS OTP:`, error);
-      throw new AppError(
-        503,
-        'SMS service temporarily unavailable. Please try again later or contact support.'
-      );
-    }
+    // Within the resend cooldown the previously sent OTP stays valid
+    const issued = await otpService.issue(adminOtpSubject(admin), 'password_reset', 'sms', admin.mobile);
 
     return {
       success: true,
       message: 'Password reset OTP has been sent to your registered mobile number.',
       maskedMobile: maskMobile(admin.mobile),
-      expiresIn: 600, // 10 minutes in seconds
+      expiresIn: issued.expiresIn,
     };
   },
 
@@ -603,17 +962,16 @@ export const adminService = {
    * Verify admin password reset OTP and update password
    */
   async verifyPasswordReset(input: AdminPasswordResetVerifyInput) {
-    // Validate new password
-    if (input.newPassword.length < 8) {
-      throw new ValidationError('Password must be at least 8 characters long');
-    }
-
     // Find admin
     const admin = await prisma.admin.findUnique({
       where: { email: input.email },
       select: {
         id: true,
         email: true,
+        name: true,
+        mobile: true,
+        password: true,
+        passwordHistory: true,
         isActive: true,
       },
     });
@@ -623,41 +981,46 @@ export const adminService = {
     }
 
     // Find valid OTP
-    const otpRecord = await prisma.adminOtp.findFirst({
-      where: {
-        adminId: admin.id,
-        email: input.email,
-        otp: input.otp,
-        otpType: 'sms',
-        isUsed: false,
-        expiresAt: {
-          gt: new Date(),
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
+    const otpMatch = await otpService.verify(adminOtpSubject(admin), 'password_reset', 'sms', input.otp);
 
-    if (!otpRecord) {
+    if (!otpMatch) {
       throw new UnauthorizedError('Invalid or expired OTP. Please request a new password reset.');
     }
 
-    // Mark OTP as used
-    await prisma.adminOtp.update({
-      where: { id: otpRecord.id },
-      data: { isUsed: true },
+    // Policy (including history) is checked only after the OTP is proven
+    await assertPasswordPolicy(input.newPassword, {
+      email: admin.email,
+      name: admin.name,
+      mobile: admin.mobile,
+      currentPasswordHash: admin.password,
+      passwordHistory: (admin.passwordHistory as string[] | null) || [],
     });
 
+    // Mark OTP as used
+    await otpService.consume(otpMatch);
+
     // Hash new password
     const hashedPassword = await hashPassword(input.newPassword);
 
     // Update password
     await prisma.admin.update({
       where: { email: input.email },
-      data: { password: hashedPassword },
+      data: {
+        password: hashedPassword,
+        passwordHistory: buildPasswordHistory(admin.password, admin.passwordHistory),
+        // Also completes a reset forced by a super admin (any pending setup link stops working)
+        passwordResetRequired: false,
+        setupTokenHash: null,
+        setupTokenExpiresAt: null,
+      },
     });
 
+    // Invalidate all existing admin sessions
+    await tokenService.revokeAllSessions('admin', admin.id);
+
+    // A reset proves ownership via OTP - lift any sign-in lockout
+    await lockoutService.unlock('admin', input.email);
+
     logger.info(`[Admin Service] Password reset successful for ${input.email}`);
 
     return {
@@ -797,7 +1160,7 @@ export const adminService = {
     lines.push('');
 
     // Column headers
-    lines.push('ID | Timestamp | Merchant ID | User ID | Email | Action | IP Address | Response Status | Response Time (ms) | Location');
+    lines.push('ID | Timestamp | Merchant ID | User ID | Email | Action | IP Address | Socket IP | Response Status | Response Time (ms) | Location');
     lines.push('-'.repeat(100));
 
     // Log entries
@@ -820,6 +1183,7 @@ export const adminService = {
         log.email || 'N/A',
         log.actionType || 'N/A',
         log.ipAddress,
+        log.socketIpAddress || 'N/A',
         log.responseStatus.toString(),
         log.responseTimeMs?.toString() || 'N/A',
         locationStr,
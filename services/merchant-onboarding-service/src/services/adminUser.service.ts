@@ -0,0 +1,498 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  hashPassword,
+  assertPasswordPolicy,
+  buildPasswordHistory,
+  logger,
+} from '@tsp/common';
+import {
+  AppError,
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  ForbiddenError,
+  ConflictError,
+} from '@tsp/common';
+import { AdminRole } from '../middleware/adminAuth.middleware';
+import { tokenService } from './token.service';
+import { lockoutService } from './lockout.service';
+import { sendAdminSetupEmail } from './email.service';
+import { config } from '../config';
+import crypto from 'crypto';
+
+const prisma = new PrismaClient();
+
+// invited: setup link not used yet; password_reset_required: reset forced by a super admin
+export type AdminStatus = 'active' | 'invited' | 'password_reset_required' | 'deactivated';
+
+export interface AdminInviteInput {
+  email: string;
+  name: string;
+  role: AdminRole;
+  mobile: string; // Needed for the SMS OTP second factor at sign-in
+}
+
+export interface ListAdminsInput {
+  page?: number;
+  limit?: number;
+  search?: string; // Email, name or mobile
+  role?: AdminRole;
+  status?: AdminStatus;
+}
+
+export interface ChangeAdminRoleInput {
+  role: AdminRole;
+}
+
+export interface AdminSetupInput {
+  token: string;
+  password: string;
+}
+
+// Admin fields returned by the management API (never password or setup token)
+const adminSummarySelect = {
+  id: true,
+  email: true,
+  name: true,
+  mobile: true,
+  role: true,
+  isActive: true,
+  is2faActive: true,
+  isEmailVerified: true,
+  passwordResetRequired: true,
+  invitedById: true,
+  invitedAt: true,
+  lastLoginAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+type AdminSummaryRecord = {
+  isActive: boolean;
+  isEmailVerified: boolean;
+  passwordResetRequired: boolean;
+};
+
+/**
+ * Status shown to super admins - invited admins haven't proven their email yet
+ */
+const getAdminStatus = (admin: AdminSummaryRecord): AdminStatus => {
+  if (!admin.isActive) {
+    return 'deactivated';
+  }
+  if (admin.passwordResetRequired) {
+    return admin.isEmailVerified ? 'password_reset_required' : 'invited';
+  }
+  return 'active';
+};
+
+const toAdminSummary = <T extends AdminSummaryRecord>(admin: T) => ({
+  ...admin,
+  status: getAdminStatus(admin),
+});
+
+const getStatusFilter = (status: AdminStatus) => {
+  switch (status) {
+    case 'deactivated':
+      return { isActive: false };
+    case 'invited':
+      return { isActive: true, passwordResetRequired: true, isEmailVerified: false };
+    case 'password_reset_required':
+      return { isActive: true, passwordResetRequired: true, isEmailVerified: true };
+    default:
+      return { isActive: true, passwordResetRequired: false };
+  }
+};
+
+/**
+ * One-time setup link - only the SHA-256 of the token is stored
+ */
+const generateSetupToken = () => {
+  const token = crypto.randomBytes(32).toString('hex');
+  return {
+    token,
+    tokenHash: crypto.createHash('sha256').update(token).digest('hex'),
+    expiresAt: new Date(Date.now() + config.adminUsers.setupLinkTtlHours * 60 * 60 * 1000),
+  };
+};
+
+const buildSetupUrl = (token: string): string => {
+  const separator = config.adminUsers.setupUrl.includes('?') ? '&' : '?';
+  return `${config.adminUsers.setupUrl}${separator}token=${token}`;
+};
+
+const getAdmin = async (adminId: number) => {
+  const admin = await prisma.admin.findUnique({
+    where: { id: adminId },
+    select: adminSummarySelect,
+  });
+
+  if (!admin) {
+    throw new NotFoundError('Admin');
+  }
+
+  return admin;
+};
+
+/**
+ * Super admins can't lock themselves out - changes to their own account go through someone else
+ */
+const assertNotSelf = (actorId: number, adminId: number, action: string): void => {
+  if (actorId === adminId) {
+    throw new ValidationError(`You cannot ${action} your own account`);
+  }
+};
+
+/**
+ * Keep at least one active super admin, otherwise nobody can manage admins
+ */
+const assertOtherSuperAdmin = async (adminId: number): Promise<void> => {
+  const others = await prisma.admin.count({
+    where: { role: 'super_admin', isActive: true, id: { not: adminId } },
+  });
+
+  if (others === 0) {
+    throw new ConflictError('At least one active super admin is required');
+  }
+};
+
+export const adminUserService = {
+  /**
+   * Invite an admin - creates the account and emails a one-time setup link
+   * The account has no usable password until the link is used
+   */
+  async inviteAdmin(actorId: number, input: AdminInviteInput) {
+    const existing = await prisma.admin.findUnique({ where: { email: input.email }, select: { id: true } });
+    if (existing) {
+      throw new ConflictError('An admin with this email already exists');
+    }
+
+    const setup = generateSetupToken();
+
+    const admin = await prisma.admin.create({
+      data: {
+        email: input.email,
+        name: input.name,
+        mobile: input.mobile,
+        role: input.role,
+        password: await hashPassword(crypto.randomBytes(32).toString('hex')), // Unusable until setup
+        isActive: true,
+        isEmailVerified: false,
+        passwordResetRequired: true,
+        setupTokenHash: setup.tokenHash,
+        setupTokenExpiresAt: setup.expiresAt,
+        invitedById: actorId,
+        invitedAt: new Date(),
+      },
+      select: adminSummarySelect,
+    });
+
+    try {
+      await sendAdminSetupEmail(admin.email, {
+        name: admin.name,
+        setupUrl: buildSetupUrl(setup.token),
+        expiresAt: setup.expiresAt,
+        reason: 'invite',
+      });
+    } catch (error: any) {
+      logger.error(`[Admin User Service] Failed to send invite to ${admin.email}:`, error);
+      // An invite nobody received would block the email - let the super admin retry
+      await prisma.admin.delete({ where: { id: admin.id } });
+      throw new AppError(503, 'Email service temporarily unavailable. Please try again later.');
+    }
+
+    logger.info(`[Admin User Service] Admin ${admin.email} invited as ${admin.role} by admin ${actorId}`);
+
+    return {
+      success: true,
+      message: 'Invite sent. The setup link is valid for a single use.',
+      setupLinkExpiresAt: setup.expiresAt,
+      admin: toAdminSummary(admin),
+    };
+  },
+
+  /**
+   * List and search admins
+   */
+  async listAdmins(input: ListAdminsInput) {
+    const page = input.page || 1;
+    const limit = Math.min(input.limit || 20, 100); // Max 100 per page
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+    if (input.search) {
+      where.OR = [
+        { email: { contains: input.search, mode: 'insensitive' } },
+        { name: { contains: input.search, mode: 'insensitive' } },
+        { mobile: { contains: input.search, mode: 'insensitive' } },
+      ];
+    }
+    if (input.role) {
+      where.role = input.role;
+    }
+    if (input.status) {
+      Object.assign(where, getStatusFilter(input.status));
+    }
+
+    const [admins, total] = await Promise.all([
+      prisma.admin.findMany({
+        where,
+        skip,
+        take: limit,
+        select: adminSummarySelect,
+        orderBy: {
+          createdAt: 'desc',
+        },
+      }),
+      prisma.admin.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      admins: admins.map(toAdminSummary),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  },
+
+  /**
+   * Get admin by ID
+   */
+  async getAdminById(adminId: number) {
+    const admin = await getAdmin(adminId);
+
+    return {
+      success: true,
+      admin: toAdminSummary(admin),
+    };
+  },
+
+  /**
+   * Change an admin's role
+   * The admin is signed out everywhere so the new role applies from the next sign-in
+   */
+  async changeRole(actorId: number, adminId: number, input: ChangeAdminRoleInput) {
+    assertNotSelf(actorId, adminId, 'change the role of');
+
+    const admin = await getAdmin(adminId);
+    const previousRole = admin.role;
+
+    if (previousRole === input.role) {
+      return {
+        success: true,
+        message: `Admin already has the ${input.role} role`,
+        previousRole,
+        admin: toAdminSummary(admin),
+      };
+    }
+
+    if (previousRole === 'super_admin' && admin.isActive) {
+      await assertOtherSuperAdmin(adminId);
+    }
+
+    const updatedAdmin = await prisma.admin.update({
+      where: { id: adminId },
+      data: { role: input.role },
+      select: adminSummarySelect,
+    });
+
+    await tokenService.revokeAllSessions('admin', adminId);
+
+    logger.warn(`[Admin User Service] Admin ${updatedAdmin.email} role changed from ${previousRole} to ${input.role} by admin ${actorId}`);
+
+    return {
+      success: true,
+      message: 'Role updated. The admin has been signed out and gets the new role at the next sign-in.',
+      previousRole,
+      admin: toAdminSummary(updatedAdmin),
+    };
+  },
+
+  /**
+   * Deactivate an admin and sign them out everywhere
+   */
+  async deactivateAdmin(actorId: number, adminId: number) {
+    assertNotSelf(actorId, adminId, 'deactivate');
+
+    const admin = await getAdmin(adminId);
+
+    if (!admin.isActive) {
+      return {
+        success: true,
+        message: 'Admin account is already deactivated',
+        admin: toAdminSummary(admin),
+      };
+    }
+
+    if (admin.role === 'super_admin') {
+      await assertOtherSuperAdmin(adminId);
+    }
+
+    const updatedAdmin = await prisma.admin.update({
+      where: { id: adminId },
+      data: { isActive: false },
+      select: adminSummarySelect,
+    });
+
+    await tokenService.revokeAllSessions('admin', adminId);
+
+    logger.warn(`[Admin User Service] Admin ${updatedAdmin.email} deactivated by admin ${actorId}`);
+
+    return {
+      success: true,
+      message: 'Admin account deactivated successfully',
+      admin: toAdminSummary(updatedAdmin),
+    };
+  },
+
+  /**
+   * Reactivate a deactivated admin
+   */
+  async reactivateAdmin(actorId: number, adminId: number) {
+    const admin = await getAdmin(adminId);
+
+    if (admin.isActive) {
+      return {
+        success: true,
+        message: 'Admin account is already active',
+        admin: toAdminSummary(admin),
+      };
+    }
+
+    const updatedAdmin = await prisma.admin.update({
+      where: { id: adminId },
+      data: { isActive: true },
+      select: adminSummarySelect,
+    });
+
+    logger.info(`[Admin User Service] Admin ${updatedAdmin.email} reactivated by admin ${actorId}`);
+
+    return {
+      success: true,
+      message: 'Admin account reactivated successfully',
+      admin: toAdminSummary(updatedAdmin),
+    };
+  },
+
+  /**
+   * Force a password reset - the current password stops working, the admin is signed
+   * out everywhere and a new one-time setup link is emailed (also resends expired invites)
+   */
+  async forcePasswordReset(actorId: number, adminId: number) {
+    assertNotSelf(actorId, adminId, 'force a password reset on');
+
+    const admin = await getAdmin(adminId);
+
+    if (!admin.isActive) {
+      throw new ValidationError('Admin account is deactivated. Reactivate it before resetting the password.');
+    }
+
+    const setup = generateSetupToken();
+
+    const updatedAdmin = await prisma.admin.update({
+      where: { id: adminId },
+      data: {
+        passwordResetRequired: true,
+        setupTokenHash: setup.tokenHash,
+        setupTokenExpiresAt: setup.expiresAt,
+      },
+      select: adminSummarySelect,
+    });
+
+    await tokenService.revokeAllSessions('admin', adminId);
+
+    const status = getAdminStatus(updatedAdmin);
+
+    try {
+      await sendAdminSetupEmail(updatedAdmin.email, {
+        name: updatedAdmin.name,
+        setupUrl: buildSetupUrl(setup.token),
+        expiresAt: setup.expiresAt,
+        reason: status === 'invited' ? 'invite' : 'reset',
+      });
+    } catch (error: any) {
+      logger.error(`[Admin User Service] Failed to send setup link to ${updatedAdmin.email}:`, error);
+      // The reset stands (old password and sessions stay invalid) - the request can be repeated
+      throw new AppError(503, 'Password reset applied, but the email service is temporarily unavailable. Please try again later.');
+    }
+
+    logger.warn(`[Admin User Service] Password reset forced for admin ${updatedAdmin.email} by admin ${actorId}`);
+
+    return {
+      success: true,
+      message: 'Password reset. The admin has been signed out and a setup link has been emailed.',
+      setupLinkExpiresAt: setup.expiresAt,
+      admin: toAdminSummary(updatedAdmin),
+    };
+  },
+
+  /**
+   * Set a password with a one-time setup link (invite or forced reset)
+   * Using the link also verifies the email
+   */
+  async completeSetup(input: AdminSetupInput) {
+    const tokenHash = crypto.createHash('sha256').update(input.token).digest('hex');
+
+    const admin = await prisma.admin.findUnique({
+      where: { setupTokenHash: tokenHash },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        mobile: true,
+        password: true,
+        passwordHistory: true,
+        isActive: true,
+        isEmailVerified: true,
+        setupTokenExpiresAt: true,
+      },
+    });
+
+    if (!admin || !admin.setupTokenExpiresAt || admin.setupTokenExpiresAt < new Date()) {
+      throw new UnauthorizedError('Invalid or expired setup link. Please ask a super admin for a new one.');
+    }
+
+    if (!admin.isActive) {
+      throw new ForbiddenError('Admin account is disabled. Please contact a super admin.');
+    }
+
+    // Invited admins have no real password yet, so there is nothing to keep in the history
+    const isInvite = !admin.isEmailVerified;
+
+    await assertPasswordPolicy(input.password, {
+      email: admin.email,
+      name: admin.name,
+      mobile: admin.mobile,
+      currentPasswordHash: isInvite ? undefined : admin.password,
+      passwordHistory: (admin.passwordHistory as string[] | null) || [],
+    });
+
+    const hashedPassword = await hashPassword(input.password);
+
+    await prisma.admin.update({
+      where: { id: admin.id },
+      data: {
+        password: hashedPassword,
+        passwordHistory: isInvite ? undefined : buildPasswordHistory(admin.password, admin.passwordHistory),
+        passwordResetRequired: false,
+        setupTokenHash: null,
+        setupTokenExpiresAt: null,
+        isEmailVerified: true,
+      },
+    });
+
+    // The link proves ownership of the email - lift any sign-in lockout
+    await lockoutService.unlock('admin', admin.email);
+
+    logger.info(`[Admin User Service] Password set via ${isInvite ? 'invite' : 'reset'} link for ${admin.email}`);
+
+    return {
+      success: true,
+      message: 'Password set successfully. Please sign in.',
+    };
+  },
+};
@@ -0,0 +1,330 @@
+import { PrismaClient } from '@prisma/client';
+import { comparePassword, createFieldCipher, logger } from '@tsp/common';
+import { ValidationError, NotFoundError, UnauthorizedError, ForbiddenError } from '@tsp/common';
+import { getRedisClient } from './redis.service';
+import { config } from '../config';
+import crypto from 'crypto';
+
+const prisma = new PrismaClient();
+
+export type ApiKeyEnvironment = 'test' | 'live';
+
+export interface CreateApiKeyInput {
+  name: string;
+  environment: ApiKeyEnvironment;
+  password: string; // Re-authentication - a stolen access token must not be enough to mint credentials
+}
+
+export interface RotateApiKeyInput {
+  password: string;
+}
+
+// Signed request as received by the authenticateApiKey pre-handler
+export interface SignedRequest {
+  keyId: string;
+  timestamp: string; // Unix time in seconds (X-Timestamp)
+  nonce: string; // Unique per request (X-Nonce)
+  signature: string; // Hex HMAC-SHA256 (X-Signature)
+  method: string;
+  url: string; // Path including query string
+  rawBody?: string;
+}
+
+// Caller identity attached to requests authenticated with an API key
+export interface ApiKeyContext {
+  keyId: string;
+  merchantId: number;
+  nineteenMerchantId: string | null;
+  environment: ApiKeyEnvironment;
+}
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+const getNonceKey = (keyId: string, nonce: string): string => `apikey:nonce:${keyId}:${nonce}`;
+
+// Signing secrets are encrypted rather than hashed - the server needs them to recompute signatures
+const secretCipher = createFieldCipher(config.apiKeys.encryptionKey, 'API_KEY_ENCRYPTION_KEY');
+
+/**
+ * Build the string a request signature is computed over
+ * METHOD \n PATH?QUERY \n TIMESTAMP \n NONCE \n hex(SHA-256(body))
+ */
+export const buildSigningString = (
+  method: string,
+  url: string,
+  timestamp: string,
+  nonce: string,
+  rawBody = ''
+): string => {
+  const bodyHash = crypto.createHash('sha256').update(rawBody).digest('hex');
+  return [method.toUpperCase(), url, timestamp, nonce, bodyHash].join('\n');
+};
+
+/**
+ * Create a key ID and secret pair for an environment
+ */
+const generateCredentials = (environment: ApiKeyEnvironment) => {
+  const keyId = `tsp_${environment}_${crypto.randomBytes(12).toString('hex')}`;
+  const secret = `sk_${environment}_${crypto.randomBytes(32).toString('base64url')}`;
+  return { keyId, secret };
+};
+
+/**
+ * Check the merchant's password before issuing credentials
+ */
+const assertMerchantPassword = async (merchantId: number, password: string) => {
+  const merchant = await prisma.merchantsMaster.findUnique({
+    where: { id: merchantId },
+    select: { id: true, password: true, kycVerified: true, isActive: true },
+  });
+
+  if (!merchant) {
+    throw new NotFoundError('Merchant');
+  }
+
+  if (!(await comparePassword(password, merchant.password))) {
+    throw new UnauthorizedError('Invalid password');
+  }
+
+  return merchant;
+};
+
+/**
+ * Key is usable if not revoked and (after rotation) still within its grace period
+ */
+const isKeyUsable = (key: { revokedAt: Date | null; expiresAt: Date | null }): boolean => {
+  return !key.revokedAt && (!key.expiresAt || key.expiresAt > new Date());
+};
+
+const toApiKeySummary = (key: {
+  keyId: string;
+  name: string;
+  environment: string;
+  secretLast4: string;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  createdAt: Date;
+}) => ({
+  keyId: key.keyId,
+  name: key.name,
+  environment: key.environment,
+  secretLast4: key.secretLast4,
+  status: key.revokedAt ? 'revoked' : isKeyUsable(key) ? 'active' : 'expired',
+  expiresAt: key.expiresAt,
+  revokedAt: key.revokedAt,
+  lastUsedAt: key.lastUsedAt,
+  lastUsedIp: key.lastUsedIp,
+  createdAt: key.createdAt,
+});
+
+/**
+ * Create and store a new key - the plain secret is returned to the caller only
+ */
+const issueApiKey = async (merchantId: number, name: string, environment: ApiKeyEnvironment) => {
+  const { keyId, secret } = generateCredentials(environment);
+
+  const key = await prisma.merchantApiKey.create({
+    data: {
+      merchantId,
+      keyId,
+      secret: secretCipher.encrypt(secret),
+      secretLast4: secret.slice(-4),
+      name,
+      environment,
+    },
+  });
+
+  return { key, secret };
+};
+
+export const apiKeyService = {
+  /**
+   * Create an API key for server-to-server calls
+   * The secret is returned only once - the merchant must store it
+   */
+  async createApiKey(merchantId: number, input: CreateApiKeyInput) {
+    const merchant = await assertMerchantPassword(merchantId, input.password);
+
+    if (input.environment === 'live' && !merchant.kycVerified) {
+      throw new ForbiddenError('Live API keys are available after KYC verification. Use a test key until then.');
+    }
+
+    const activeKeys = await prisma.merchantApiKey.count({
+      where: {
+        merchantId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+
+    if (activeKeys >= config.apiKeys.maxKeysPerMerchant) {
+      throw new ValidationError(
+        `API key limit reached (${config.apiKeys.maxKeysPerMerchant}). Revoke an unused key before creating a new one.`
+      );
+    }
+
+    const { key, secret } = await issueApiKey(merchantId, input.name, input.environment);
+
+    logger.info(`[API Key Service] ${input.environment} API key ${key.keyId} created for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: 'API key created. Store the secret in a safe place - it will not be shown again.',
+      apiKey: toApiKeySummary(key),
+      secret,
+    };
+  },
+
+  /**
+   * List API keys of a merchant (secrets are never returned)
+   */
+  async listApiKeys(merchantId: number) {
+    const keys = await prisma.merchantApiKey.findMany({
+      where: { merchantId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      success: true,
+      apiKeys: keys.map(toApiKeySummary),
+    };
+  },
+
+  /**
+   * Rotate an API key
+   * Issues a replacement key with the same name and environment; the old key keeps
+   * working until the end of the grace period so deployments can switch over
+   */
+  async rotateApiKey(merchantId: number, keyId: string, input: RotateApiKeyInput) {
+    await assertMerchantPassword(merchantId, input.password);
+
+    const existing = await prisma.merchantApiKey.findFirst({
+      where: { merchantId, keyId },
+    });
+
+    if (!existing || !isKeyUsable(existing)) {
+      throw new NotFoundError('API key');
+    }
+
+    if (existing.expiresAt) {
+      throw new ValidationError('This API key has already been rotated');
+    }
+
+    const graceEndsAt = new Date(Date.now() + config.apiKeys.rotationGraceSeconds * 1000);
+
+    await prisma.merchantApiKey.update({
+      where: { id: existing.id },
+      data: { expiresAt: graceEndsAt },
+    });
+
+    const { key, secret } = await issueApiKey(merchantId, existing.name, existing.environment as ApiKeyEnvironment);
+
+    logger.info(`[API Key Service] API key ${existing.keyId} rotated to ${key.keyId} for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: 'API key rotated. Store the new secret in a safe place - it will not be shown again.',
+      apiKey: toApiKeySummary(key),
+      secret,
+      previousKeyExpiresAt: graceEndsAt,
+    };
+  },
+
+  /**
+   * Revoke an API key - takes effect immediately
+   */
+  async revokeApiKey(merchantId: number, keyId: string) {
+    const existing = await prisma.merchantApiKey.findFirst({
+      where: { merchantId, keyId, revokedAt: null },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('API key');
+    }
+
+    await prisma.merchantApiKey.update({
+      where: { id: existing.id },
+      data: { revokedAt: new Date() },
+    });
+
+    logger.info(`[API Key Service] API key ${keyId} revoked for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: 'API key revoked',
+    };
+  },
+
+  /**
+   * Verify a signed server-to-server request
+   * Checks the key, timestamp window, HMAC signature and that the nonce was not used before
+   * Use is recorded separately (recordUse) once the request also passed the IP allowlist
+   */
+  async verifySignedRequest(request: SignedRequest): Promise<ApiKeyContext> {
+    const timestamp = parseInt(request.timestamp, 10);
+    if (!/^\d+$/.test(request.timestamp) || Math.abs(Date.now() / 1000 - timestamp) > config.apiKeys.signatureToleranceSeconds) {
+      throw new UnauthorizedError('Request timestamp is missing or outside the allowed window');
+    }
+
+    if (!NONCE_PATTERN.test(request.nonce)) {
+      throw new UnauthorizedError('X-Nonce must be 16-128 characters (letters, digits, "-" or "_")');
+    }
+
+    const key = await prisma.merchantApiKey.findUnique({
+      where: { keyId: request.keyId },
+      include: {
+        merchant: {
+          select: { id: true, nineteenMerchantId: true, isActive: true },
+        },
+      },
+    });
+
+    if (!key || !isKeyUsable(key)) {
+      throw new UnauthorizedError('Invalid API key');
+    }
+
+    if (!key.merchant.isActive) {
+      throw new UnauthorizedError('Merchant account is inactive');
+    }
+
+    const expected = crypto
+      .createHmac('sha256', secretCipher.decrypt(key.secret))
+      .update(buildSigningString(request.method, request.url, request.timestamp, request.nonce, request.rawBody))
+      .digest();
+    const provided = Buffer.from(request.signature, 'hex');
+
+    if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      throw new UnauthorizedError('Invalid request signature');
+    }
+
+    // Replay protection - a nonce is accepted once while its timestamp is within the window
+    const redisClient = await getRedisClient();
+    const fresh = await redisClient.set(getNonceKey(key.keyId, request.nonce), '1', {
+      condition: 'NX',
+      expiration: { type: 'EX', value: config.apiKeys.signatureToleranceSeconds * 2 },
+    });
+
+    if (!fresh) {
+      throw new UnauthorizedError('Request has already been processed (nonce reused)');
+    }
+
+    return {
+      keyId: key.keyId,
+      merchantId: key.merchant.id,
+      nineteenMerchantId: key.merchant.nineteenMerchantId,
+      environment: key.environment as ApiKeyEnvironment,
+    };
+  },
+
+  /**
+   * Record last use of a key (time and IP of the last accepted request)
+   */
+  async recordUse(keyId: string, ipAddress: string): Promise<void> {
+    await prisma.merchantApiKey.update({
+      where: { keyId },
+      data: { lastUsedAt: new Date(), lastUsedIp: ipAddress },
+    });
+  },
+};
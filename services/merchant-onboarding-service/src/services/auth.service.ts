@@ -2,8 +2,10 @@ import { PrismaClient } from '@prisma/client';
 import { 
   hashPassword, 
   comparePassword, 
-  generateToken, 
+  assertPasswordPolicy,
+  buildPasswordHistory,
   JWTPayload, 
+  revokeToken,
   logger 
 } from '@tsp/common';
 import { 
@@ -12,19 +14,21 @@ import {
   UnauthorizedError, 
   ConflictError,
   ForbiddenError,
-  UnprocessableEntityError,
-  AppError
 } from '@tsp/common';
-import { sendOtpEmail as sendBrevoEmail } from './email.service';
-import { sendOtpSms as sendSmsOtp } from './sms.service';
 import { getRedisClient } from './redis.service';
+import { tokenService } from './token.service';
+import { sessionService, ClientContext, SignInLocation } from './session.service';
+import { totpService } from './totp.service';
+import { lockoutService } from './lockout.service';
+import { otpService, OtpSubject, OtpPurpose, OtpChannel } from './otp.service';
+import { signInRiskService } from './signInRisk.service';
 import crypto from 'crypto';
 
 const prisma = new PrismaClient();
 
 // MFA Session interface
 // For first-time login: tracks both email and SMS OTP verification
-// For subsequent logins (MFA): tracks only SMS OTP verification
+// For subsequent logins (MFA): tracks only the merchant's chosen factor (SMS OTP or authenticator app)
 interface MfaSession {
   merchantId: number;
   email: string;
@@ -32,8 +36,11 @@ interface MfaSession {
   emailOtpVerified: boolean; // For first-time login
   smsOtpVerified: boolean; // For both first-time and MFA
   isMfaOnly: boolean; // true = MFA login, false = first-time activation
+  mfaFactor?: 'sms' | 'totp'; // Factor accepted for MFA login (defaults to sms)
+  factorVerified?: boolean; // MFA login: factor passed (emailOtpVerified=false means a high-risk email OTP is still due)
   expiresAt: number; // Unix timestamp
   attempts: number; // Max 3 attempts per OTP
+  signInLocation?: SignInLocation; // Location reported at sign-in - recorded on the session once MFA completes
 }
 
 export interface SignUpInput {
@@ -60,9 +67,9 @@ export interface SendOtpInput {
 
 export interface VerifyOtpInput {
   email?: string; // Optional if mfaSessionToken is provided (legacy support)
-  mfaSessionToken?: string; // MFA session token from sign-in (SMS OTP only)
-  otp: string;
-  otpType: 'email' | 'mobile' | 'sms'; // MFA sessions only accept 'sms' or 'mobile'
+  mfaSessionToken?: string; // MFA session token from sign-in
+  otp: string; // 6-digit OTP, authenticator code or recovery code (totp only)
+  otpType: 'email' | 'mobile' | 'sms' | 'totp'; // MFA sessions only accept the merchant's factor ('sms'/'mobile' or 'totp')
 }
 
 export interface PasswordResetRequestInput {
@@ -75,17 +82,56 @@ export interface PasswordResetVerifyInput {
   newPassword: string;
 }
 
+export interface ChangePasswordInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ChangeEmailRequestInput {
+  newEmail: string;
+  password: string; // Current password - re-authentication before the change
+}
+
+export interface ChangeMobileRequestInput {
+  newMobile: string;
+  password: string; // Current password - re-authentication before the change
+}
+
+export interface ContactChangeVerifyInput {
+  currentOtp: string; // OTP sent to the registered email/mobile
+  newOtp: string; // OTP sent to the new email/mobile
+}
+
+type ContactChannel = 'email' | 'mobile';
+
+// Pending email/mobile change - both channels must confirm within the OTP lifetime
+interface ContactChange {
+  newValue: string;
+  createdAt: number; // Unix timestamp
+  expiresAt: number; // Unix timestamp
+  attempts: number; // Max 5 failed verifications
+}
+
+const CONTACT_CHANGE_TTL_SECONDS = 600; // 10 minutes, same as the OTPs
+const MAX_CONTACT_CHANGE_ATTEMPTS = 5;
+
+export interface UnlockRequestInput {
+  email: string;
+}
+
+export interface UnlockVerifyInput {
+  email: string;
+  otp: string;
+}
+
+export interface RefreshTokenInput {
+  refreshToken: string;
+}
+
 export interface LogoutInput {
   // No input required - logout only needs authentication token
 }
 
-/**
- * Generate a 6-digit OTP
- */
-const generateOtp = (): string => {
-  return Math.floor(100000 + Math.random() * 900000).toString();
-};
-
 /**
  * Generate MFA session token
  */
@@ -103,17 +149,63 @@ const maskMobile = (mobile: string): string => {
 
 
 /**
- * Send OTP via Email using Brevo
+ * Count a failed verification against the MFA session
  */
-const sendOtpEmail = async (email: string, otp: string, name?: string): Promise<void> => {
-  await sendBrevoEmail(email, otp, name);
+const recordFailedMfaAttempt = async (mfaSessionToken: string, mfaSession: MfaSession): Promise<void> => {
+  const redisClient = await getRedisClient();
+  mfaSession.attempts += 1;
+  await redisClient.setEx(
+    `mfa:session:${mfaSessionToken}`,
+    Math.floor((mfaSession.expiresAt - Date.now()) / 1000),
+    JSON.stringify(mfaSession)
+  );
 };
 
+const getContactChangeKey = (merchantId: number, channel: ContactChannel): string =>
+  `contact:change:${channel}:${merchantId}`;
+
+/**
+ * OTP subject of a merchant (codes are keyed by the registered email)
+ */
+const merchantOtpSubject = (merchant: { email: string; name: string }): OtpSubject => ({
+  type: 'merchant',
+  email: merchant.email,
+  name: merchant.name,
+});
+
+/**
+ * Email-based OTPs (no MFA session) only serve account activation
+ * Once both channels are verified, access goes through sign-in (password + 2FA)
+ */
+const assertAwaitingActivation = (merchant: { isActive: boolean; isEmailVerified: boolean; isMobileVerified: boolean }): void => {
+  if (!merchant.isEmailVerified || !merchant.isMobileVerified) {
+    return;
+  }
+
+  if (!merchant.isActive) {
+    throw new ForbiddenError('Merchant account is disabled. Please contact support.');
+  }
+
+  throw new ValidationError('Account is already verified. Please sign in.');
+};
+
+/**
+ * Map the API otpType to the OTP channel ('mobile' is an alias of 'sms')
+ */
+const toOtpChannel = (otpType: 'email' | 'mobile' | 'sms'): OtpChannel => (otpType === 'email' ? 'email' : 'sms');
+
 export const authService = {
   /**
    * Sign up a new merchant
    */
   async signUp(input: SignUpInput) {
+    // Enforce password policy before touching the database
+    await assertPasswordPolicy(input.password, {
+      email: input.email,
+      name: input.name,
+      mobile: input.mobile,
+    });
+
     // Check if email already exists
     const existingMerchant = await prisma.merchantsMaster.findUnique({
       where: { email: input.email },
@@ -205,9 +297,14 @@ export const authService = {
 
   /**
    * Sign in merchant
-   * MFA is ALWAYS required - no access without phone and email verification
+   * No access without phone and email verification; activated accounts then need
+   * their 2FA factor (SMS OTP or authenticator app) unless the merchant turned 2FA off
+   * Repeated failed passwords trigger progressive delays and a temporary lockout
    */
-  async signIn(input: SignInInput) {
+  async signIn(input: SignInInput, context?: ClientContext) {
+    // Locked accounts and accounts in backoff are rejected before the password is checked
+    await lockoutService.assertCanAttempt('merchant', input.email);
+
     // Find merchant by email
     const merchant = await prisma.merchantsMaster.findUnique({
       where: { email: input.email },
@@ -223,12 +320,16 @@ export const authService = {
         is2faActive: true,
         isMobileVerified: true,
         isEmailVerified: true,
+        mfaMethod: true,
+        totpSecret: true,
       },
     });
 
     // Case 0a: Merchant not found
     if (!merchant) {
       logger.warn(`[Auth Service] Sign-in attempt with non-existent email: ${input.email}`);
+      // Counted like a real account so lockout doesn't reveal which emails exist
+      await lockoutService.recordFailure('merchant', input.email, { ipAddress: context?.ipAddress || 'unknown' });
       throw new UnauthorizedError('Invalid email or password'); // 401 - Don't reveal if email exists
     }
 
@@ -238,20 +339,29 @@ export const authService = {
     // Case 0b: Invalid password
     if (!isPasswordValid) {
       logger.warn(`[Auth Service] Invalid password attempt for email: ${input.email}`);
+      await lockoutService.recordFailure('merchant', input.email, {
+        ipAddress: context?.ipAddress || 'unknown',
+        userId: merchant.id,
+        merchantId: merchant.nineteenMerchantId || undefined,
+      });
       throw new UnauthorizedError('Invalid email or password'); // 401 - Generic error for security
     }
 
+    await lockoutService.recordSuccess('merchant', input.email);
+
     // Check account status
     const mfaEnabled = merchant.is2faActive;
     const phoneVerified = merchant.isMobileVerified;
     const emailVerified = merchant.isEmailVerified;
     const accountActive = merchant.isActive;
 
-    // Case 0c: Account suspended/disabled (if explicitly disabled after being active)
-    // Note: Inactive accounts can still sign in to complete verification (Case 1)
-    // This check would be for accounts that were previously active but then disabled
-    // For now, we'll allow inactive accounts to proceed to verification
-    
+    // Case 0c: Account disabled - inactive although email and mobile are verified
+    // (activation sets all three, so only an admin disabling the account leads here)
+    if (!accountActive && emailVerified && phoneVerified) {
+      logger.warn(`[Auth Service] Sign-in attempt on disabled account: ${input.email}`);
+      throw new ForbiddenError('Merchant account is disabled. Please contact support.');
+    }
+
     // Case 1: First-time login - Account not activated or not fully verified
     // Require BOTH email AND mobile verification to activate account
     if (!accountActive || !emailVerified || !phoneVerified) {
@@ -272,6 +382,11 @@ export const authService = {
         isMfaOnly: false, // This is first-time activation
         expiresAt,
         attempts: 0,
+        signInLocation: {
+          latitude: input.latitude,
+          longitude: input.longitude,
+          location: input.location,
+        },
       };
 
       await redisClient.setEx(
@@ -282,58 +397,19 @@ export const authService = {
 
       logger.info(`[Auth Service] Created first-time activation session for ${input.email}. Token: ${mfaSessionToken.substring(0, 8)}...`);
 
-      // Send email OTP if not verified
+      // Send email OTP if not verified (within the resend cooldown the previous code stays valid)
       if (!emailVerified) {
-        const emailOtp = generateOtp();
-        const emailOtpExpiresAt = new Date();
-        emailOtpExpiresAt.setMinutes(emailOtpExpiresAt.getMinutes() + 10);
-
-        await prisma.merchantOtp.create({
-          data: {
-            email: merchant.email,
-            otp: emailOtp,
-            expiresAt: emailOtpExpiresAt,
-            otpType: 'email',
-            isUsed: false,
-          },
-        });
-
         try {
-          await sendOtpEmail(merchant.email, emailOtp, merchant.name);
-          logger.info(`[Auth Service] Email OTP sent to ${merchant.email} for first-time activation`);
+          await otpService.issue(merchantOtpSubject(merchant), 'activation', 'email', merchant.email);
         } catch (error: any) {
+          // Email can be resent with /api/auth/send-otp - don't block activation on it
           logger.error(`[Auth Service] Failed to send email OTP:`, error);
         }
       }
 
-      // Send SMS OTP if not verified
+      // Send SMS OTP if not verified - SMS failure surfaces as 503
       if (!phoneVerified) {
-        const mobileOtp = generateOtp();
-        const mobileOtpExpiresAt = new Date();
-        mobileOtpExpiresAt.setMinutes(mobileOtpExpiresAt.getMinutes() + 10);
-
-        await prisma.merchantOtp.create({
-          data: {
-            email: merchant.email,
-            otp: mobileOtp,
-            expiresAt: mobileOtpExpiresAt,
-            otpType: 'sms',
-            mobile: merchant.mobile,
-            isUsed: false,
-          },
-        });
-
-        try {
-          await sendSmsOtp(merchant.mobile, mobileOtp, merchant.name);
-          logger.info(`[Auth Service] SMS OTP sent to ${merchant.mobile} for first-time activation`);
-        } catch (error: any) {
-          logger.error(`[Auth Service] Failed to send SMS OTP:`, error);
-          // SMS service failure - treat as temporary service unavailability
-          throw new AppError(
-            503,
-            'SMS service temporarily unavailable. Please try again later or contact support.'
-          );
-        }
+        await otpService.issue(merchantOtpSubject(merchant), 'activation', 'sms', merchant.mobile);
       }
 
       // Prepare response data
@@ -363,38 +439,49 @@ export const authService = {
         (error as any).responseData = responseData;
         throw error;
       }
-      // Case 1c: Only mobile unverified
-      else if (emailVerified && !phoneVerified) {
-        (responseData as any).message = 'Please verify your mobile number to activate your account.';
-        const error = new ForbiddenError('Account activation required: Mobile verification needed');
-        (error as any).responseData = responseData;
-        throw error;
-      }
 
-      // Should not reach here, but if it does, return the response data
-      return responseData;
+      // Case 1c: Only mobile unverified (Case 0c rules out both being verified)
+      (responseData as any).message = 'Please verify your mobile number to activate your account.';
+      const error = new ForbiddenError('Account activation required: Mobile verification needed');
+      (error as any).responseData = responseData;
+      throw error;
     }
 
-    // Case 2: Subsequent login - Account activated, MFA enabled
-    // Only require SMS OTP for MFA
-    if (accountActive && mfaEnabled && emailVerified && phoneVerified) {
-      logger.info(`[Auth Service] MFA login for ${input.email}. MFA enabled: ${mfaEnabled}`);
+    // Sign-in risk - compared with the merchant's recent sign-ins (location, device, network)
+    const signInLocation: SignInLocation = {
+      latitude: input.latitude,
+      longitude: input.longitude,
+      location: input.location,
+    };
+    const risk = await signInRiskService.assessMerchantSignIn(merchant, signInLocation, context);
+    const highRisk = risk.level === 'high';
+
+    // Case 2: Subsequent login - Account activated, MFA enabled (or high-risk sign-in)
+    // Require the merchant's MFA factor (SMS OTP or authenticator app); high risk adds an
+    // email OTP, or an SMS OTP when the merchant turned 2FA off
+    if (mfaEnabled || highRisk) {
+      const mfaFactor = mfaEnabled && merchant.mfaMethod === 'totp' && merchant.totpSecret ? 'totp' : 'sms';
+      const emailStepUp = mfaEnabled && highRisk;
+      logger.info(`[Auth Service] MFA login for ${input.email}. MFA enabled: ${mfaEnabled}, factor: ${mfaFactor}, risk: ${risk.level}`);
 
       // Generate MFA session token
       const mfaSessionToken = generateMfaSessionToken();
       const expiresAt = Date.now() + 10 * 60 * 1000; // 10 minutes
 
-      // Create MFA session in Redis (SMS OTP only)
+      // Create MFA session in Redis
       const redisClient = await getRedisClient();
       const mfaSession: MfaSession = {
         merchantId: merchant.id,
         email: merchant.email,
         mobile: merchant.mobile,
-        emailOtpVerified: true, // Not needed for MFA, but set to true
+        emailOtpVerified: !emailStepUp, // Only needed for high-risk sign-ins
         smsOtpVerified: false, // Needs SMS OTP verification
         isMfaOnly: true, // This is MFA-only login
+        mfaFactor,
+        factorVerified: false,
         expiresAt,
         attempts: 0,
+        signInLocation,
       };
 
       await redisClient.setEx(
@@ -405,53 +492,80 @@ export const authService = {
 
       logger.info(`[Auth Service] Created MFA session for ${input.email}. Token: ${mfaSessionToken.substring(0, 8)}...`);
 
-      // Send SMS OTP for MFA
-      const mobileOtp = generateOtp();
-      const mobileOtpExpiresAt = new Date();
-      mobileOtpExpiresAt.setMinutes(mobileOtpExpiresAt.getMinutes() + 10);
+      // Extra factor for a high-risk sign-in - SMS/email failure surfaces as 503
+      if (emailStepUp) {
+        await otpService.issue(merchantOtpSubject(merchant), 'login', 'email', merchant.email);
+      }
 
-      await prisma.merchantOtp.create({
-        data: {
-      email: merchant.email,
-          otp: mobileOtp,
-          expiresAt: mobileOtpExpiresAt,
-          otpType: 'sms',
-          mobile: merchant.mobile,
-          isUsed: false,
-        },
-      });
+      const stepUpMessage = highRisk ? 'Sign-in from an unusual location or device. ' : '';
 
-      try {
-        await sendSmsOtp(merchant.mobile, mobileOtp, merchant.name);
-        logger.info(`[Auth Service] SMS OTP sent to ${merchant.mobile} for MFA login`);
-      } catch (error: any) {
-        logger.error(`[Auth Service] Failed to send SMS OTP:`, error);
-        // SMS service failure - treat as temporary service unavailability
-        throw new AppError(
-          503,
-          'SMS service temporarily unavailable. Please try again later or contact support.'
-        );
+      // Authenticator app - no OTP to send, code comes from the merchant's device
+      if (mfaFactor === 'totp') {
+        return {
+          success: true,
+          requiresOtp: true,
+          mfaMethod: 'totp',
+          message: emailStepUp
+            ? `${stepUpMessage}Enter the code from your authenticator app and the OTP sent to your email.`
+            : 'Enter the 6-digit code from your authenticator app or a recovery code.',
+          mfaSessionToken,
+          needsEmailVerification: emailStepUp,
+          needsMobileVerification: false,
+          isMobileVerified: true,
+          isEmailVerified: true,
+        };
       }
 
-    return {
-      success: true,
+      // Send SMS OTP for MFA (within the resend cooldown the previous code stays valid)
+      await otpService.issue(merchantOtpSubject(merchant), 'login', 'sms', merchant.mobile);
+
+      return {
+        success: true,
         requiresOtp: true,
-        message: 'OTP verification required. OTP sent to your registered mobile number.',
+        mfaMethod: 'sms',
+        message: emailStepUp
+          ? `${stepUpMessage}Verify the OTPs sent to your registered mobile number and email.`
+          : `${stepUpMessage}OTP verification required. OTP sent to your registered mobile number.`,
         mfaSessionToken,
         maskedMobile: maskMobile(merchant.mobile),
-        needsEmailVerification: false,
+        needsEmailVerification: emailStepUp,
         needsMobileVerification: true,
         isMobileVerified: true,
         isEmailVerified: true,
       };
     }
 
-    // Case 3: Unexpected/invalid account state
-    // This should not happen in normal flow, but handle it gracefully
-    logger.error(`[Auth Service] Unexpected state reached for ${input.email}. Account active: ${accountActive}, MFA enabled: ${mfaEnabled}, Email verified: ${emailVerified}, Phone verified: ${phoneVerified}`);
-    throw new UnprocessableEntityError(
-      'Account is in an invalid state. Please contact support for assistance.'
-    ); // 422 - Valid request format but invalid state
+    // Case 3: Subsequent login - Account activated, MFA turned off by the merchant
+    // Password alone completes sign-in
+    logger.info(`[Auth Service] Password-only login for ${input.email}. MFA disabled by merchant`);
+
+    const { token, refreshToken, expiresIn } = await sessionService.startSession('merchant', {
+      userId: merchant.id.toString(),
+      merchantId: merchant.nineteenMerchantId || '',
+      role: 'merchant',
+      email: merchant.email,
+      kycVerified: merchant.kycVerified,
+      isActive: merchant.isActive,
+    }, context && { ...context, location: signInLocation });
+
+    return {
+      success: true,
+      requiresOtp: false,
+      token,
+      refreshToken,
+      expiresIn,
+      merchant: {
+        id: merchant.id,
+        merchantId: merchant.nineteenMerchantId,
+        email: merchant.email,
+        mobile: merchant.mobile,
+        name: merchant.name,
+        kycVerified: merchant.kycVerified,
+        isActive: merchant.isActive,
+        isMobileVerified: merchant.isMobileVerified,
+        isEmailVerified: merchant.isEmailVerified,
+      },
+    };
   },
 
   /**
@@ -461,6 +575,7 @@ export const authService = {
   async sendOtp(input: SendOtpInput) {
     let merchantEmail: string;
     let merchant: any;
+    let purpose: OtpPurpose = 'activation';
 
     // If mfaSessionToken is provided, get email from session
     if (input.mfaSessionToken) {
@@ -479,6 +594,20 @@ export const authService = {
         throw new UnauthorizedError('MFA session has expired. Please sign in again.');
       }
 
+      // High-risk sign-ins also need the email OTP - it can be resent for any factor
+      const emailStepUpPending = mfaSession.isMfaOnly && !mfaSession.emailOtpVerified;
+
+      if (mfaSession.mfaFactor === 'totp' && !(input.otpType === 'email' && emailStepUpPending)) {
+        throw new ValidationError('This account uses an authenticator app. Enter the code from your app or a recovery code.');
+      }
+
+      if (mfaSession.isMfaOnly) {
+        if (input.otpType === 'email' && !emailStepUpPending) {
+          throw new ValidationError('MFA verification only accepts SMS OTP. Please use otpType: "sms" or "mobile".');
+        }
+        purpose = 'login';
+      }
+
       merchantEmail = mfaSession.email;
     } else if (input.email) {
       merchantEmail = input.email;
@@ -495,83 +624,35 @@ export const authService = {
       throw new NotFoundError('Merchant');
     }
 
-    // Check if there's an active OTP (not expired, not used) created within the last 60 seconds
-    const sixtySecondsAgo = new Date();
-    sixtySecondsAgo.setSeconds(sixtySecondsAgo.getSeconds() - 60);
-
-    const activeOtp = await prisma.merchantOtp.findFirst({
-      where: {
-        email: merchantEmail,
-        otpType: input.otpType,
-        isUsed: false,
-        expiresAt: {
-          gt: new Date(), // Not expired
-        },
-        createdAt: {
-          gte: sixtySecondsAgo, // Created within last 60 seconds
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
-
-    if (activeOtp) {
-      const secondsRemaining = Math.ceil((60 - (new Date().getTime() - activeOtp.createdAt.getTime()) / 1000));
-      throw new ValidationError(`Please wait ${secondsRemaining} seconds before requesting a new OTP`);
+    if (!input.mfaSessionToken) {
+      assertAwaitingActivation(merchant);
     }
 
-    // Generate OTP
-    const otp = generateOtp();
-    const expiresAt = new Date();
-    expiresAt.setMinutes(expiresAt.getMinutes() + 10); // 10 minutes expiry
-
-    // Save OTP to database
-    await prisma.merchantOtp.create({
-      data: {
-        email: merchantEmail,
-        otp,
-        expiresAt,
-        otpType: input.otpType,
-        mobile: input.otpType === 'mobile' || input.otpType === 'sms' ? merchant.mobile : null,
-        isUsed: false,
-      },
-    });
+    const channel = toOtpChannel(input.otpType);
+    const issued = await otpService.issue(
+      merchantOtpSubject(merchant),
+      purpose,
+      channel,
+      channel === 'email' ? merchant.email : merchant.mobile
+    );
 
-    // Send OTP via appropriate channel
-    if (input.otpType === 'email') {
-      logger.info(`[Auth Service] Sending OTP email to ${merchantEmail} for merchant ${merchant.name}`);
-      try {
-        await sendOtpEmail(merchantEmail, otp, merchant.name);
-        logger.info(`[Auth Service] OTP email sent successfully to ${merchantEmail}`);
-      } catch (error: any) {
-        logger.error(`[Auth Service] Failed to send OTP email to ${merchantEmail}:`, error);
-        throw error;
-      }
-    } else if (input.otpType === 'mobile' || input.otpType === 'sms') {
-      logger.info(`[Auth Service] Sending OTP SMS to ${merchant.mobile} for merchant ${merchant.name}`);
-      try {
-        await sendSmsOtp(merchant.mobile, otp, merchant.name);
-        logger.info(`[Auth Service] OTP SMS sent successfully to ${merchant.mobile}`);
-      } catch (error: any) {
-        logger.error(`[Auth Service] Failed to send OTP SMS to ${merchant.mobile}:`, error);
-        throw error;
-      }
+    if (!issued.sent) {
+      throw new ValidationError(`Please wait ${issued.retryAfter} seconds before requesting a new OTP`);
     }
 
     return {
       success: true,
       message: `OTP sent to ${input.otpType}`,
-      expiresIn: 600, // 10 minutes in seconds
+      expiresIn: issued.expiresIn,
     };
   },
 
   /**
    * Verify OTP and return token
-   * MFA sessions only accept SMS OTP (not email OTP)
+   * MFA sessions only accept the merchant's factor: SMS OTP or authenticator app (TOTP/recovery code)
    * Supports both MFA session token and email-based verification (legacy)
    */
-  async verifyOtp(input: VerifyOtpInput) {
+  async verifyOtp(input: VerifyOtpInput, context?: ClientContext) {
     let merchantEmail: string;
     let mfaSession: MfaSession | null = null;
 
@@ -598,56 +679,67 @@ export const authService = {
         throw new UnauthorizedError('Too many failed attempts. Please sign in again.');
       }
 
-      // MFA-only sessions only accept SMS OTP, not email OTP
-      if (mfaSession.isMfaOnly && input.otpType === 'email') {
+      const mfaFactor = mfaSession.isMfaOnly ? mfaSession.mfaFactor || 'sms' : null;
+      // High-risk sign-ins also ask for the email OTP sent at sign-in
+      const emailStepUpPending = mfaSession.isMfaOnly && !mfaSession.emailOtpVerified;
+
+      if (mfaFactor && input.otpType === 'email' && !emailStepUpPending) {
+        throw new ValidationError('Email OTP is not required for this sign-in.');
+      }
+
+      // MFA-only sessions otherwise only accept the merchant's factor
+      if (mfaFactor === 'totp' && input.otpType !== 'totp' && input.otpType !== 'email') {
+        throw new ValidationError('This account uses an authenticator app. Please use otpType: "totp" with the code from your app or a recovery code.');
+      }
+
+      if (mfaFactor === 'sms' && input.otpType === 'totp') {
         throw new ValidationError('MFA verification only accepts SMS OTP. Please use otpType: "sms" or "mobile".');
       }
 
+      if (!mfaSession.isMfaOnly && input.otpType === 'totp') {
+        throw new ValidationError('Account activation requires email and mobile OTP.');
+      }
+
       merchantEmail = mfaSession.email;
     } else if (input.email) {
+      if (input.otpType === 'totp') {
+        throw new ValidationError('Authenticator codes can only be verified with an mfaSessionToken');
+      }
       merchantEmail = input.email;
     } else {
       throw new ValidationError('Either email or mfaSessionToken is required');
     }
 
-    // Find valid OTP
-    const otpRecord = await prisma.merchantOtp.findFirst({
-      where: {
-        email: merchantEmail,
-        otp: input.otp,
-        otpType: input.otpType,
-        isUsed: false,
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
+    if (input.otpType === 'totp') {
+      // Authenticator app code or recovery code (factor validated above, so MFA session exists)
+      const codeValid = await totpService.verifyCode(mfaSession!.merchantId, input.otp);
+      if (!codeValid) {
+        await recordFailedMfaAttempt(input.mfaSessionToken!, mfaSession!);
+        throw new UnauthorizedError('Invalid authenticator code');
+      }
+    } else {
+      // Login codes only verify MFA sessions; everything else is account activation
+      // (attempts are also counted on the OTP row for the email path)
+      const purpose: OtpPurpose = mfaSession?.isMfaOnly ? 'login' : 'activation';
+      const otpMatch = await otpService.verify(
+        { type: 'merchant', email: merchantEmail },
+        purpose,
+        toOtpChannel(input.otpType),
+        input.otp
+      );
 
-    if (!otpRecord) {
-      // Increment attempts if MFA session exists
-      if (mfaSession && input.mfaSessionToken) {
-        const redisClient = await getRedisClient();
-        mfaSession.attempts += 1;
-        await redisClient.setEx(
-          `mfa:session:${input.mfaSessionToken}`,
-          Math.floor((mfaSession.expiresAt - Date.now()) / 1000),
-          JSON.stringify(mfaSession)
-        );
+      if (!otpMatch) {
+        // Increment attempts if MFA session exists
+        if (mfaSession && input.mfaSessionToken) {
+          await recordFailedMfaAttempt(input.mfaSessionToken, mfaSession);
+        }
+        throw new UnauthorizedError('Invalid or expired OTP');
       }
-      throw new UnauthorizedError('Invalid OTP');
-    }
 
-    // Check if OTP is expired
-    if (new Date() > otpRecord.expiresAt) {
-      throw new UnauthorizedError('OTP has expired');
+      // Mark OTP as used
+      await otpService.consume(otpMatch);
     }
 
-    // Mark OTP as used
-    await prisma.merchantOtp.update({
-      where: { id: otpRecord.id },
-      data: { isUsed: true },
-    });
-
     // Get merchant
     const merchant = await prisma.merchantsMaster.findUnique({
       where: { email: merchantEmail },
@@ -657,68 +749,102 @@ export const authService = {
       throw new NotFoundError('Merchant');
     }
 
+    // Client details recorded on the new session (location comes from sign-in)
+    const sessionContext: ClientContext | undefined = context && {
+      ...context,
+      location: mfaSession?.signInLocation,
+    };
+
     // If MFA session exists, handle verification based on session type
     if (mfaSession && input.mfaSessionToken) {
       const redisClient = await getRedisClient();
 
-      // Case 1: MFA-only login (subsequent logins) - Only SMS OTP
+      // Case 1: MFA-only login (subsequent logins) - The merchant's factor, plus the
+      // email OTP for high-risk sign-ins
       if (mfaSession.isMfaOnly) {
-        // MFA sessions only accept SMS OTP (already validated above)
-        if (input.otpType === 'mobile' || input.otpType === 'sms') {
-          mfaSession.smsOtpVerified = true;
+        // Factor already validated above
+        if (input.otpType === 'email') {
+          mfaSession.emailOtpVerified = true;
+        } else {
+          mfaSession.factorVerified = true;
+          mfaSession.smsOtpVerified = input.otpType !== 'totp';
+        }
 
-          // SMS OTP verified for MFA - generate JWT immediately
-          const updatedMerchant = await prisma.merchantsMaster.findUnique({
-            where: { email: merchantEmail },
-            select: {
-              id: true,
-              email: true,
-              mobile: true,
-              nineteenMerchantId: true,
-              name: true,
-              kycVerified: true,
-              isActive: true,
-              isMobileVerified: true,
-              isEmailVerified: true,
-              is2faActive: true,
-            },
-          });
+        if (!mfaSession.emailOtpVerified || !mfaSession.factorVerified) {
+          // Step-up not complete yet - keep the session and ask for the other code
+          await redisClient.setEx(
+            `mfa:session:${input.mfaSessionToken}`,
+            Math.floor((mfaSession.expiresAt - Date.now()) / 1000),
+            JSON.stringify(mfaSession)
+          );
 
-          if (!updatedMerchant) {
-            throw new NotFoundError('Merchant');
-          }
+          const factorName = mfaSession.mfaFactor === 'totp' ? 'the code from your authenticator app' : 'the mobile OTP';
 
-          // Delete MFA session from Redis
-          await redisClient.del(`mfa:session:${input.mfaSessionToken}`);
+          return {
+            success: true,
+            message: mfaSession.emailOtpVerified
+              ? `Email OTP verified. Please enter ${factorName} to sign in.`
+              : `${mfaSession.mfaFactor === 'totp' ? 'Authenticator code' : 'Mobile OTP'} verified. Please enter the OTP sent to your email to sign in.`,
+            requiresOtp: true,
+            mfaSessionToken: input.mfaSessionToken,
+            needsEmailVerification: !mfaSession.emailOtpVerified,
+            needsMobileVerification: !mfaSession.factorVerified && mfaSession.mfaFactor !== 'totp',
+          };
+        }
 
-          logger.info(`[Auth Service] SMS OTP verified for MFA login. ${merchantEmail}`);
+        // All required codes verified for MFA - generate JWT
+        const updatedMerchant = await prisma.merchantsMaster.findUnique({
+          where: { email: merchantEmail },
+          select: {
+            id: true,
+            email: true,
+            mobile: true,
+            nineteenMerchantId: true,
+            name: true,
+            kycVerified: true,
+            isActive: true,
+            isMobileVerified: true,
+            isEmailVerified: true,
+            is2faActive: true,
+          },
+        });
 
-          // Generate JWT token
-          const token = generateToken({
-            userId: updatedMerchant.id.toString(),
-            merchantId: updatedMerchant.nineteenMerchantId || '',
-            role: 'merchant',
+        if (!updatedMerchant) {
+          throw new NotFoundError('Merchant');
+        }
+
+        // Delete MFA session from Redis
+        await redisClient.del(`mfa:session:${input.mfaSessionToken}`);
+
+        logger.info(`[Auth Service] ${mfaSession.mfaFactor === 'totp' ? 'Authenticator code' : 'SMS OTP'} verified for MFA login. ${merchantEmail}`);
+
+        // Generate access + refresh tokens
+        const { token, refreshToken, expiresIn } = await sessionService.startSession('merchant', {
+          userId: updatedMerchant.id.toString(),
+          merchantId: updatedMerchant.nineteenMerchantId || '',
+          role: 'merchant',
+          email: updatedMerchant.email,
+          kycVerified: updatedMerchant.kycVerified,
+          isActive: updatedMerchant.isActive,
+        }, sessionContext);
+
+        return {
+          success: true,
+          token,
+          refreshToken,
+          expiresIn,
+          merchant: {
+            id: updatedMerchant.id,
+            merchantId: updatedMerchant.nineteenMerchantId,
             email: updatedMerchant.email,
+            mobile: updatedMerchant.mobile,
+            name: updatedMerchant.name,
             kycVerified: updatedMerchant.kycVerified,
             isActive: updatedMerchant.isActive,
-          });
-
-          return {
-            success: true,
-            token,
-            merchant: {
-              id: updatedMerchant.id,
-              merchantId: updatedMerchant.nineteenMerchantId,
-              email: updatedMerchant.email,
-              mobile: updatedMerchant.mobile,
-              name: updatedMerchant.name,
-              kycVerified: updatedMerchant.kycVerified,
-              isActive: updatedMerchant.isActive,
-              isMobileVerified: updatedMerchant.isMobileVerified,
-              isEmailVerified: updatedMerchant.isEmailVerified,
-            },
-          };
-        }
+            isMobileVerified: updatedMerchant.isMobileVerified,
+            isEmailVerified: updatedMerchant.isEmailVerified,
+          },
+        };
       } 
       // Case 2: First-time activation - Both email AND SMS OTP required
       else {
@@ -761,19 +887,21 @@ export const authService = {
 
           logger.info(`[Auth Service] Both email and SMS OTP verified. Account activated and MFA enabled for ${merchantEmail}`);
 
-          // Generate JWT token
-          const token = generateToken({
+          // Generate access + refresh tokens
+          const { token, refreshToken, expiresIn } = await sessionService.startSession('merchant', {
             userId: updatedMerchant.id.toString(),
             merchantId: updatedMerchant.nineteenMerchantId || '',
             role: 'merchant',
             email: updatedMerchant.email,
             kycVerified: updatedMerchant.kycVerified,
             isActive: updatedMerchant.isActive,
-          });
+          }, sessionContext);
 
           return {
             success: true,
             token,
+            refreshToken,
+            expiresIn,
             merchant: {
               id: updatedMerchant.id,
               merchantId: updatedMerchant.nineteenMerchantId,
@@ -829,6 +957,8 @@ export const authService = {
       }
     } else {
       // Legacy flow without MFA session (for backward compatibility with send-otp endpoint)
+      assertAwaitingActivation(merchant);
+
     const updateData: any = {};
     if (input.otpType === 'email') {
       updateData.isEmailVerified = true;
@@ -866,18 +996,20 @@ export const authService = {
 
       // Only generate token if both are verified
       if (willBeEmailVerified && willBeMobileVerified) {
-    const token = generateToken({
+    const { token, refreshToken, expiresIn } = await sessionService.startSession('merchant', {
       userId: updatedMerchant.id.toString(),
       merchantId: updatedMerchant.nineteenMerchantId || '',
       role: 'merchant',
       email: updatedMerchant.email,
       kycVerified: updatedMerchant.kycVerified,
       isActive: updatedMerchant.isActive,
-    });
+    }, sessionContext);
 
     return {
       success: true,
       token,
+      refreshToken,
+      expiresIn,
       merchant: {
         id: updatedMerchant.id,
         merchantId: updatedMerchant.nineteenMerchantId,
@@ -938,40 +1070,14 @@ export const authService = {
       };
     }
 
-    // Generate OTP
-    const resetOtp = generateOtp();
-    const otpExpiresAt = new Date();
-    otpExpiresAt.setMinutes(otpExpiresAt.getMinutes() + 10); // 10 minutes expiry
-
-    // Store OTP in database with type 'password_reset'
-    await prisma.merchantOtp.create({
-      data: {
-        email: merchant.email,
-        otp: resetOtp,
-        expiresAt: otpExpiresAt,
-        otpType: 'sms', // Password reset uses SMS only
-        mobile: merchant.mobile,
-        isUsed: false,
-      },
-    });
-
-    // Send SMS OTP
-    try {
-      await sendSmsOtp(merchant.mobile, resetOtp, merchant.name);
-      logger.info(`[Auth Service] Password reset OTP sent to ${merchant.mobile} for ${input.email}`);
-    } catch (error: any) {
-      logger.error(`[Auth Service] Failed to send password reset SMS OTP:`, error);
-      throw new AppError(
-        503,
-        'SMS service temporarily unavailable. Please try again later or contact support.'
-      );
-    }
+    // Password reset uses SMS only; a repeat request within the cooldown keeps the previous code
+    const issued = await otpService.issue(merchantOtpSubject(merchant), 'password_reset', 'sms', merchant.mobile);
 
     return {
       success: true,
       message: 'Password reset OTP has been sent to your registered mobile number.',
       maskedMobile: maskMobile(merchant.mobile),
-      expiresIn: 600, // 10 minutes in seconds
+      expiresIn: issued.expiresIn,
     };
   },
 
@@ -979,11 +1085,6 @@ export const authService = {
    * Verify password reset OTP and update password
    */
   async verifyPasswordReset(input: PasswordResetVerifyInput) {
-    // Validate new password
-    if (input.newPassword.length < 8) {
-      throw new ValidationError('Password must be at least 8 characters long');
-    }
-
     // Find merchant
     const merchant = await prisma.merchantsMaster.findUnique({
       where: { email: input.email },
@@ -991,6 +1092,9 @@ export const authService = {
         id: true,
         email: true,
         mobile: true,
+        name: true,
+        password: true,
+        passwordHistory: true,
         isActive: true,
       },
     });
@@ -999,45 +1103,45 @@ export const authService = {
       throw new NotFoundError('Merchant');
     }
 
-    // Find valid OTP
-    const otpRecord = await prisma.merchantOtp.findFirst({
-      where: {
-        email: input.email,
-        otp: input.otp,
-        otpType: 'sms',
-        isUsed: false,
-        expiresAt: {
-          gt: new Date(),
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
+    // Find valid OTP - only codes issued for a password reset are accepted
+    const otpMatch = await otpService.verify(merchantOtpSubject(merchant), 'password_reset', 'sms', input.otp);
 
-    if (!otpRecord) {
+    if (!otpMatch) {
       throw new UnauthorizedError('Invalid or expired OTP. Please request a new password reset.');
     }
 
-    // Mark OTP as used
-    await prisma.merchantOtp.update({
-      where: { id: otpRecord.id },
-      data: { isUsed: true },
+    // Policy (including history) is checked only after the OTP is proven, so previous
+    // passwords can't be probed; the OTP stays usable if the new password is rejected
+    await assertPasswordPolicy(input.newPassword, {
+      email: merchant.email,
+      name: merchant.name,
+      mobile: merchant.mobile,
+      currentPasswordHash: merchant.password,
+      passwordHistory: (merchant.passwordHistory as string[] | null) || [],
     });
 
+    // Mark OTP as used
+    await otpService.consume(otpMatch);
+
     // Hash new password
     const hashedPassword = await hashPassword(input.newPassword);
 
     // Update password
     await prisma.merchantsMaster.update({
       where: { email: input.email },
-      data: { password: hashedPassword },
+      data: {
+        password: hashedPassword,
+        passwordHistory: buildPasswordHistory(merchant.password, merchant.passwordHistory),
+      },
     });
 
     logger.info(`[Auth Service] Password reset successful for ${input.email}`);
 
-    // Invalidate all existing sessions (optional - can be implemented with Redis token blacklist)
-    // For now, we just update the password
+    // Invalidate all existing sessions - refresh token families and access tokens
+    await tokenService.revokeAllSessions('merchant', merchant.id);
+
+    // A reset proves ownership via OTP - lift any sign-in lockout
+    await lockoutService.unlock('merchant', input.email);
 
     return {
       success: true,
@@ -1045,12 +1149,280 @@ export const authService = {
     };
   },
 
+  /**
+   * Change password of a signed-in merchant (requires the current password)
+   * Other sessions are signed out; the session making the change stays signed in
+   */
+  async changePassword(merchantId: number, input: ChangePasswordInput, currentSessionId?: string) {
+    const merchant = await prisma.merchantsMaster.findUnique({
+      where: { id: merchantId },
+      select: {
+        id: true,
+        email: true,
+        mobile: true,
+        name: true,
+        password: true,
+        passwordHistory: true,
+      },
+    });
+
+    if (!merchant) {
+      throw new NotFoundError('Merchant');
+    }
+
+    const isPasswordValid = await comparePassword(input.currentPassword, merchant.password);
+    if (!isPasswordValid) {
+      throw new UnauthorizedError('Current password is incorrect');
+    }
+
+    await assertPasswordPolicy(input.newPassword, {
+      email: merchant.email,
+      name: merchant.name,
+      mobile: merchant.mobile,
+      currentPasswordHash: merchant.password,
+      passwordHistory: (merchant.passwordHistory as string[] | null) || [],
+    });
+
+    const hashedPassword = await hashPassword(input.newPassword);
+
+    await prisma.merchantsMaster.update({
+      where: { id: merchant.id },
+      data: {
+        password: hashedPassword,
+        passwordHistory: buildPasswordHistory(merchant.password, merchant.passwordHistory),
+      },
+    });
+
+    await sessionService.revokeAllSessions('merchant', merchant.id, currentSessionId);
+
+    logger.info(`[Auth Service] Password changed for ${merchant.email}`);
+
+    return {
+      success: true,
+      message: 'Password changed successfully. Other devices have been signed out.',
+    };
+  },
+
+  /**
+   * Start changing the registered email or mobile of a signed-in merchant
+   * Requires the current password; OTPs are sent to both the current and the new channel
+   */
+  async requestContactChange(merchantId: number, channel: ContactChannel, newValue: string, password: string) {
+    const merchant = await prisma.merchantsMaster.findUnique({
+      where: { id: merchantId },
+      select: {
+        id: true,
+        email: true,
+        mobile: true,
+        name: true,
+        password: true,
+      },
+    });
+
+    if (!merchant) {
+      throw new NotFoundError('Merchant');
+    }
+
+    const isPasswordValid = await comparePassword(password, merchant.password);
+    if (!isPasswordValid) {
+      throw new UnauthorizedError('Current password is incorrect');
+    }
+
+    const label = channel === 'email' ? 'email' : 'mobile number';
+    const currentValue = channel === 'email' ? merchant.email : merchant.mobile;
+    if (newValue.toLowerCase() === currentValue.toLowerCase()) {
+      throw new ValidationError(`New ${label} is the same as the current ${label}`);
+    }
+
+    const existing = channel === 'email'
+      ? await prisma.merchantsMaster.findUnique({ where: { email: newValue } })
+      : await prisma.merchantsMaster.findFirst({ where: { mobile: newValue } });
+    if (existing) {
+      throw new ConflictError(channel === 'email' ? 'Email already registered' : 'Mobile number already registered');
+    }
+
+    const redisClient = await getRedisClient();
+    const changeKey = getContactChangeKey(merchant.id, channel);
+
+    // One change request per minute
+    const pendingData = await redisClient.get(changeKey);
+    if (pendingData) {
+      const pending = JSON.parse(pendingData) as ContactChange;
+      const secondsSinceRequest = Math.floor((Date.now() - pending.createdAt) / 1000);
+      if (secondsSinceRequest < 60) {
+        throw new ValidationError(`Please wait ${60 - secondsSinceRequest} seconds before requesting a new OTP`);
+      }
+    }
+
+    // Only the latest request can be verified
+    const subject = merchantOtpSubject(merchant);
+    const otpChannel: OtpChannel = channel === 'email' ? 'email' : 'sms';
+    await otpService.invalidate(subject, 'contact_change');
+
+    // Codes are bound to their destination, so the current and new channel codes can't be swapped
+    await otpService.issue(subject, 'contact_change', otpChannel, currentValue);
+    await otpService.issue(subject, 'contact_change', otpChannel, newValue);
+
+    const now = Date.now();
+    const pending: ContactChange = {
+      newValue,
+      createdAt: now,
+      expiresAt: now + CONTACT_CHANGE_TTL_SECONDS * 1000,
+      attempts: 0,
+    };
+    await redisClient.setEx(changeKey, CONTACT_CHANGE_TTL_SECONDS, JSON.stringify(pending));
+
+    logger.info(`[Auth Service] ${channel} change requested for ${merchant.email}`);
+
+    return {
+      success: true,
+      message: `OTP sent to your current and new ${label}. Enter both to confirm the change.`,
+      ...(channel === 'mobile' ? { maskedMobile: maskMobile(merchant.mobile) } : {}),
+      expiresIn: CONTACT_CHANGE_TTL_SECONDS,
+    };
+  },
+
+  /**
+   * Confirm an email or mobile change with the OTPs from both channels
+   * The new channel is marked verified and other sessions are signed out
+   */
+  async verifyContactChange(
+    merchantId: number,
+    channel: ContactChannel,
+    input: ContactChangeVerifyInput,
+    currentSessionId?: string
+  ) {
+    const redisClient = await getRedisClient();
+    const changeKey = getContactChangeKey(merchantId, channel);
+    const pendingData = await redisClient.get(changeKey);
+
+    if (!pendingData) {
+      throw new ValidationError(`No pending ${channel} change or it has expired. Please request a new one.`);
+    }
+
+    const pending = JSON.parse(pendingData) as ContactChange;
+
+    const merchant = await prisma.merchantsMaster.findUnique({
+      where: { id: merchantId },
+      select: { id: true, email: true, mobile: true },
+    });
+
+    if (!merchant) {
+      throw new NotFoundError('Merchant');
+    }
+
+    const subject: OtpSubject = { type: 'merchant', email: merchant.email };
+    const otpChannel: OtpChannel = channel === 'email' ? 'email' : 'sms';
+
+    if (pending.attempts >= MAX_CONTACT_CHANGE_ATTEMPTS) {
+      await redisClient.del(changeKey);
+      await otpService.invalidate(subject, 'contact_change');
+      throw new UnauthorizedError(`Too many failed attempts. Please request a new ${channel} change.`);
+    }
+
+    const currentValue = channel === 'email' ? merchant.email : merchant.mobile;
+    const currentOtpMatch = await otpService.verify(subject, 'contact_change', otpChannel, input.currentOtp, currentValue);
+    const newOtpMatch = await otpService.verify(subject, 'contact_change', otpChannel, input.newOtp, pending.newValue);
+
+    if (!currentOtpMatch || !newOtpMatch) {
+      pending.attempts += 1;
+      const ttl = Math.floor((pending.expiresAt - Date.now()) / 1000);
+      if (ttl > 0) {
+        await redisClient.setEx(changeKey, ttl, JSON.stringify(pending));
+      }
+      throw new UnauthorizedError('Invalid or expired OTP');
+    }
+
+    // The new value may have been taken while the change was pending
+    const existing = channel === 'email'
+      ? await prisma.merchantsMaster.findUnique({ where: { email: pending.newValue } })
+      : await prisma.merchantsMaster.findFirst({ where: { mobile: pending.newValue } });
+    if (existing && existing.id !== merchant.id) {
+      await redisClient.del(changeKey);
+      throw new ConflictError(channel === 'email' ? 'Email already registered' : 'Mobile number already registered');
+    }
+
+    await otpService.consume(currentOtpMatch, newOtpMatch);
+
+    // OTP rows follow the email change through the foreign key (ON UPDATE CASCADE)
+    await prisma.merchantsMaster.update({
+      where: { id: merchant.id },
+      data: channel === 'email'
+        ? { email: pending.newValue, isEmailVerified: true }
+        : { mobile: pending.newValue, isMobileVerified: true },
+    });
+
+    await redisClient.del(changeKey);
+
+    // Access tokens still carry the old email - other devices must sign in again
+    await sessionService.revokeAllSessions('merchant', merchant.id, currentSessionId);
+
+    logger.info(`[Auth Service] ${channel} changed for merchant ${merchant.id} (${merchant.email})`);
+
+    return {
+      success: true,
+      message: channel === 'email'
+        ? 'Email changed successfully. Other devices have been signed out.'
+        : 'Mobile number changed successfully. Other devices have been signed out.',
+      ...(channel === 'email' ? { email: pending.newValue } : { maskedMobile: maskMobile(pending.newValue) }),
+    };
+  },
+
+  /**
+   * Request an OTP to unlock an account locked after failed sign-ins
+   * Always returns the same response so locked/unknown accounts can't be told apart
+   */
+  async requestUnlock(input: UnlockRequestInput) {
+    const genericResponse = {
+      success: true,
+      message: 'If the account is locked, an unlock OTP has been sent to the registered mobile number.',
+      expiresIn: 600, // 10 minutes in seconds
+    };
+
+    if (!(await lockoutService.isLocked('merchant', input.email))) {
+      return genericResponse;
+    }
+
+    const merchant = await prisma.merchantsMaster.findUnique({
+      where: { email: input.email },
+      select: { id: true, email: true, mobile: true, name: true },
+    });
+
+    if (!merchant) {
+      return genericResponse;
+    }
+
+    // Within the resend cooldown the previous code stays valid - response is the same either way
+    await otpService.issue(merchantOtpSubject(merchant), 'account_unlock', 'sms', merchant.mobile);
+
+    return genericResponse;
+  },
+
+  /**
+   * Unlock an account with the OTP sent by requestUnlock
+   */
+  async verifyUnlock(input: UnlockVerifyInput) {
+    const otpMatch = await otpService.verify({ type: 'merchant', email: input.email }, 'account_unlock', 'sms', input.otp);
+
+    if (!otpMatch) {
+      throw new UnauthorizedError('Invalid or expired OTP');
+    }
+
+    await otpService.consume(otpMatch);
+
+    await lockoutService.unlock('merchant', input.email);
+
+    return {
+      success: true,
+      message: 'Account unlocked. You can sign in again.',
+    };
+  },
+
   /**
    * Logout user
-   * Note: Actual token invalidation should be handled via Redis token blacklist
-   * or by setting token expiry. This endpoint confirms logout action.
+   * Revokes the current token and its refresh token family server-side
    */
-  async logout(userId: number, email: string) {
+  async logout(userId: number, email: string, tokenPayload: JWTPayload) {
     // Find merchant
     const merchant = await prisma.merchantsMaster.findUnique({
       where: { email },
@@ -1064,10 +1436,13 @@ export const authService = {
       throw new UnauthorizedError('Invalid user session');
     }
 
-    logger.info(`[Auth Service] User logged out: ${email}`);
+    // Revoke the session (refresh token family) and the token used for this request
+    if (tokenPayload.sid) {
+      await tokenService.revokeSession(tokenPayload.sid);
+    }
+    await revokeToken(tokenPayload);
 
-    // Note: Actual token invalidation should be handled via Redis token blacklist
-    // or by setting token expiry. This endpoint confirms logout action.
+    logger.info(`[Auth Service] User logged out: ${email}`);
 
     return {
       success: true,
@@ -16,6 +16,12 @@ if (config.brevo.apiKey) {
 
 const apiInstance = new SibApiV3Sdk.TransactionalEmailsApi();
 
+/**
+ * Escape client-supplied text (e.g., the reported location) before putting it in HTML
+ */
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
 /**
  * Send OTP email using Brevo
  */
@@ -185,3 +191,346 @@ Support: support@nineteenpay.com
   }
 };
 
+
+export interface SignInAlertDetails {
+  name?: string;
+  location: string;
+  ipAddress: string;
+  device: string;
+  at: Date;
+}
+
+/**
+ * Send a sign-in alert for a sign-in from a new location using Brevo
+ */
+export const sendSignInAlertEmail = async (email: string, details: SignInAlertDetails): Promise<void> => {
+  if (!config.brevo.apiKey) {
+    logger.warn(`[Email Service] Brevo API key not configured. Sign-in alert for ${email} will not be sent.`);
+    return;
+  }
+
+  const when = details.at.toUTCString();
+  const rows: Array<[string, string]> = [
+    ['Location', details.location],
+    ['IP address', details.ipAddress],
+    ['Device', details.device],
+    ['Time', when],
+  ];
+
+  const htmlContent = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>New sign-in - NineteenPay</title>
+</head>
+<body style="margin: 0; padding: 20px; font-family: Arial, sans-serif; background-color: #f4f4f4;">
+  <table width="600" align="center" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; padding: 30px 40px;">
+    <tr>
+      <td>
+        <h2 style="color: #333333; margin: 0 0 20px 0; font-size: 24px;">New sign-in to your account</h2>
+        <p style="color: #666666; font-size: 16px; line-height: 1.6;">${details.name ? `Hello ${escapeHtml(details.name)},` : 'Hello,'}</p>
+        <p style="color: #666666; font-size: 16px; line-height: 1.6;">Your NineteenPay password was just used to sign in from a new location:</p>
+        <table cellpadding="6" cellspacing="0" style="color: #333333; font-size: 14px; margin: 20px 0;">
+          ${rows.map(([label, value]) => `<tr><td><strong>${label}</strong></td><td>${escapeHtml(value)}</td></tr>`).join('')}
+        </table>
+        <p style="color: #666666; font-size: 14px; line-height: 1.6;">
+          <strong>Not you?</strong> Change your password right away and sign out of all sessions, or contact
+          <a href="mailto:support@nineteenpay.com" style="color: #007bff; text-decoration: none;">support@nineteenpay.com</a>.
+        </p>
+        <p style="color: #999999; font-size: 12px; margin: 20px 0 0 0;">This is an automated email. Please do not reply to this message.</p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+
+  const textContent = `
+New sign-in to your account - NineteenPay
+
+${details.name ? `Hello ${details.name},` : 'Hello,'}
+
+Your NineteenPay password was just used to sign in from a new location:
+
+${rows.map(([label, value]) => `${label}: ${value}`).join('\n')}
+
+Not you? Change your password right away and sign out of all sessions, or contact support@nineteenpay.com.
+  `;
+
+  const sendSmtpEmail = new SibApiV3Sdk.SendSmtpEmail();
+  sendSmtpEmail.subject = 'New sign-in to your NineteenPay account';
+  sendSmtpEmail.htmlContent = htmlContent;
+  sendSmtpEmail.textContent = textContent;
+  sendSmtpEmail.sender = {
+    name: config.brevo.senderName,
+    email: config.brevo.senderEmail,
+  };
+  sendSmtpEmail.to = [{ email, name: details.name || email }];
+
+  try {
+    await apiInstance.sendTransacEmail(sendSmtpEmail);
+    logger.info(`[Email Service] Sign-in alert sent to ${email}`);
+  } catch (error: any) {
+    logger.error(`[Email Service] Failed to send sign-in alert via Brevo to ${email}: ${error?.message || 'Unknown error'}`);
+    throw new Error(`Failed to send email: ${error?.message || 'Unknown error'}`);
+  }
+};
+
+export interface AdminSetupEmailDetails {
+  name: string;
+  setupUrl: string; // One-time link with the setup token
+  expiresAt: Date;
+  reason: 'invite' | 'reset'; // New admin invite, or password reset forced by a super admin
+}
+
+/**
+ * Send an admin invite / forced password reset link using Brevo
+ * Throws when Brevo is not configured - the link grants admin access, so it is never logged instead
+ */
+export const sendAdminSetupEmail = async (email: string, details: AdminSetupEmailDetails): Promise<void> => {
+  if (!config.brevo.apiKey) {
+    logger.warn(`[Email Service] Brevo API key not configured. Admin setup link for ${email} will not be sent.`);
+    throw new Error('Failed to send email: Brevo API key not configured');
+  }
+
+  const isInvite = details.reason === 'invite';
+  const heading = isInvite ? 'You have been invited to NineteenPay Admin' : 'Set a new password for NineteenPay Admin';
+  const intro = isInvite
+    ? 'An account has been created for you on the NineteenPay admin panel. Set your password to get started:'
+    : 'A super admin has reset your NineteenPay admin password. Set a new password to sign in again:';
+  const expires = details.expiresAt.toUTCString();
+
+  const htmlContent = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${heading}</title>
+</head>
+<body style="margin: 0; padding: 20px; font-family: Arial, sans-serif; background-color: #f4f4f4;">
+  <table width="600" align="center" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; padding: 30px 40px;">
+    <tr>
+      <td>
+        <h2 style="color: #333333; margin: 0 0 20px 0; font-size: 24px;">${heading}</h2>
+        <p style="color: #666666; font-size: 16px; line-height: 1.6;">Hello ${escapeHtml(details.name)},</p>
+        <p style="color: #666666; font-size: 16px; line-height: 1.6;">${intro}</p>
+        <p style="margin: 30px 0; text-align: center;">
+          <a href="${escapeHtml(details.setupUrl)}" style="background-color: #007bff; color: #ffffff; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-size: 16px;">Set password</a>
+        </p>
+        <p style="color: #666666; font-size: 14px; line-height: 1.6;">The link can be used once and expires on ${expires}.</p>
+        <p style="color: #999999; font-size: 12px; margin: 20px 0 0 0;">This is an automated email. Please do not reply to this message.</p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+
+  const textContent = `
+${heading}
+
+Hello ${details.name},
+
+${intro}
+
+${details.setupUrl}
+
+The link can be used once and expires on ${expires}.
+  `;
+
+  const sendSmtpEmail = new SibApiV3Sdk.SendSmtpEmail();
+  sendSmtpEmail.subject = heading;
+  sendSmtpEmail.htmlContent = htmlContent;
+  sendSmtpEmail.textContent = textContent;
+  sendSmtpEmail.sender = {
+    name: config.brevo.senderName,
+    email: config.brevo.senderEmail,
+  };
+  sendSmtpEmail.to = [{ email, name: details.name }];
+
+  try {
+    await apiInstance.sendTransacEmail(sendSmtpEmail);
+    logger.info(`[Email Service] Admin setup link (${details.reason}) sent to ${email}`);
+  } catch (error: any) {
+    logger.error(`[Email Service] Failed to send admin setup link via Brevo to ${email}: ${error?.message || 'Unknown error'}`);
+    throw new Error(`Failed to send email: ${error?.message || 'Unknown error'}`);
+  }
+};
+
+export interface PendingChangeEmailDetails {
+  name: string;
+  event: 'proposed' | 'approved' | 'rejected'; // proposed goes to approvers, the outcome to the proposer
+  changeId: number;
+  summary: string; // e.g. "Disable merchant 12345678"
+  actorName: string; // Admin who proposed or reviewed
+  comment?: string | null;
+}
+
+/**
+ * Send a maker-checker notification (change awaiting approval, or its outcome) using Brevo
+ */
+export const sendPendingChangeEmail = async (email: string, details: PendingChangeEmailDetails): Promise<void> => {
+  if (!config.brevo.apiKey) {
+    logger.warn(`[Email Service] Brevo API key not configured. Pending change #${details.changeId} notification for ${email} will not be sent.`);
+    return;
+  }
+
+  const heading = details.event === 'proposed'
+    ? `Approval needed: ${details.summary}`
+    : `Change ${details.event}: ${details.summary}`;
+  const intro = details.event === 'proposed'
+    ? `${details.actorName} proposed a change that needs approval from another admin.`
+    : `${details.actorName} ${details.event} your proposed change.`;
+  const rows: Array<[string, string]> = [
+    ['Change', `#${details.changeId} - ${details.summary}`],
+    ...(details.comment ? [['Comment', details.comment] as [string, string]] : []),
+  ];
+
+  const htmlContent = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(heading)}</title>
+</head>
+<body style="margin: 0; padding: 20px; font-family: Arial, sans-serif; background-color: #f4f4f4;">
+  <table width="600" align="center" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; padding: 30px 40px;">
+    <tr>
+      <td>
+        <h2 style="color: #333333; margin: 0 0 20px 0; font-size: 24px;">${escapeHtml(heading)}</h2>
+        <p style="color: #666666; font-size: 16px; line-height: 1.6;">Hello ${escapeHtml(details.name)},</p>
+        <p style="color: #666666; font-size: 16px; line-height: 1.6;">${escapeHtml(intro)}</p>
+        <table cellpadding="6" cellspacing="0" style="color: #333333; font-size: 14px; margin: 20px 0;">
+          ${rows.map(([label, value]) => `<tr><td><strong>${label}</strong></td><td>${escapeHtml(value)}</td></tr>`).join('')}
+        </table>
+        <p style="color: #666666; font-size: 14px; line-height: 1.6;">Review the pending changes queue in the admin panel for the full diff.</p>
+        <p style="color: #999999; font-size: 12px; margin: 20px 0 0 0;">This is an automated email. Please do not reply to this message.</p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+
+  const textContent = `
+${heading}
+
+Hello ${details.name},
+
+${intro}
+
+${rows.map(([label, value]) => `${label}: ${value}`).join('\n')}
+
+Review the pending changes queue in the admin panel for the full diff.
+  `;
+
+  const sendSmtpEmail = new SibApiV3Sdk.SendSmtpEmail();
+  sendSmtpEmail.subject = heading;
+  sendSmtpEmail.htmlContent = htmlContent;
+  sendSmtpEmail.textContent = textContent;
+  sendSmtpEmail.sender = {
+    name: config.brevo.senderName,
+    email: config.brevo.senderEmail,
+  };
+  sendSmtpEmail.to = [{ email, name: details.name }];
+
+  try {
+    await apiInstance.sendTransacEmail(sendSmtpEmail);
+    logger.info(`[Email Service] Pending change #${details.changeId} (${details.event}) notification sent to ${email}`);
+  } catch (error: any) {
+    logger.error(`[Email Service] Failed to send pending change notification via Brevo to ${email}: ${error?.message || 'Unknown error'}`);
+    throw new Error(`Failed to send email: ${error?.message || 'Unknown error'}`);
+  }
+};
+
+export interface MerchantStatusEmailDetails {
+  name: string;
+  action: 'approve' | 'reject' | 'suspend' | 'reinstate';
+  reason?: string | null;
+}
+
+/**
+ * Tell a merchant their application was decided or their account suspended / reinstated using Brevo
+ */
+export const sendMerchantStatusEmail = async (email: string, details: MerchantStatusEmailDetails): Promise<void> => {
+  if (!config.brevo.apiKey) {
+    logger.warn(`[Email Service] Brevo API key not configured. Merchant status (${details.action}) email for ${email} will not be sent.`);
+    return;
+  }
+
+  const messages: Record<MerchantStatusEmailDetails['action'], { heading: string; intro: string }> = {
+    approve: {
+      heading: 'Your merchant account is approved',
+      intro: 'Your application has been reviewed and approved. You can now use all NineteenPay merchant features.',
+    },
+    reject: {
+      heading: 'Your merchant application needs changes',
+      intro: 'Your application could not be approved. Please address the reason below and submit it for review again.',
+    },
+    suspend: {
+      heading: 'Your merchant account is suspended',
+      intro: 'Your NineteenPay merchant account has been suspended. Sign-in and settlements are paused.',
+    },
+    reinstate: {
+      heading: 'Your merchant account is reinstated',
+      intro: 'Your NineteenPay merchant account has been reinstated and you can sign in again.',
+    },
+  };
+  const { heading, intro } = messages[details.action];
+
+  const htmlContent = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(heading)} - NineteenPay</title>
+</head>
+<body style="margin: 0; padding: 20px; font-family: Arial, sans-serif; background-color: #f4f4f4;">
+  <table width="600" align="center" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; padding: 30px 40px;">
+    <tr>
+      <td>
+        <h2 style="color: #333333; margin: 0 0 20px 0; font-size: 24px;">${escapeHtml(heading)}</h2>
+        <p style="color: #666666; font-size: 16px; line-height: 1.6;">Hello ${escapeHtml(details.name)},</p>
+        <p style="color: #666666; font-size: 16px; line-height: 1.6;">${escapeHtml(intro)}</p>
+        ${details.reason ? `<p style="color: #333333; font-size: 14px; line-height: 1.6;"><strong>Reason:</strong> ${escapeHtml(details.reason)}</p>` : ''}
+        <p style="color: #666666; font-size: 14px; line-height: 1.6;">
+          Questions? Contact
+          <a href="mailto:support@nineteenpay.com" style="color: #007bff; text-decoration: none;">support@nineteenpay.com</a>.
+        </p>
+        <p style="color: #999999; font-size: 12px; margin: 20px 0 0 0;">This is an automated email. Please do not reply to this message.</p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+
+  const textContent = `
+${heading} - NineteenPay
+
+Hello ${details.name},
+
+${intro}
+${details.reason ? `\nReason: ${details.reason}\n` : ''}
+Questions? Contact support@nineteenpay.com.
+  `;
+
+  const sendSmtpEmail = new SibApiV3Sdk.SendSmtpEmail();
+  sendSmtpEmail.subject = heading;
+  sendSmtpEmail.htmlContent = htmlContent;
+  sendSmtpEmail.textContent = textContent;
+  sendSmtpEmail.sender = {
+    name: config.brevo.senderName,
+    email: config.brevo.senderEmail,
+  };
+  sendSmtpEmail.to = [{ email, name: details.name }];
+
+  try {
+    await apiInstance.sendTransacEmail(sendSmtpEmail);
+    logger.info(`[Email Service] Merchant status (${details.action}) email sent to ${email}`);
+  } catch (error: any) {
+    logger.error(`[Email Service] Failed to send merchant status email via Brevo to ${email}: ${error?.message || 'Unknown error'}`);
+    throw new Error(`Failed to send email: ${error?.message || 'Unknown error'}`);
+  }
+};
@@ -0,0 +1,163 @@
+import { PrismaClient } from '@prisma/client';
+import { normalizeIpAllowlist, isIpAllowlisted, logger } from '@tsp/common';
+import { ValidationError, NotFoundError, UnauthorizedError } from '@tsp/common';
+import { otpService } from './otp.service';
+import { getRedisClient } from './redis.service';
+
+const prisma = new PrismaClient();
+
+const PENDING_CHANGE_TTL_SECONDS = 600; // Matches the OTP lifetime
+
+export interface IpAllowlistChangeRequestInput {
+  ips: string[];
+}
+
+export interface IpAllowlistChangeVerifyInput {
+  otp: string;
+}
+
+interface PendingAllowlistChange {
+  ips: string[];
+  createdAt: string;
+}
+
+const getPendingChangeKey = (merchantId: number): string => `ip-allowlist:change:${merchantId}`;
+
+/**
+ * Load merchant with the fields needed for allowlist changes
+ */
+const getMerchant = async (merchantId: number) => {
+  const merchant = await prisma.merchantsMaster.findUnique({
+    where: { id: merchantId },
+    select: { id: true, email: true, name: true, mobile: true, nineteenMerchantId: true },
+  });
+
+  if (!merchant) {
+    throw new NotFoundError('Merchant');
+  }
+
+  if (!merchant.nineteenMerchantId) {
+    throw new ValidationError('Merchant ID not assigned yet. Please complete onboarding first.');
+  }
+
+  return { ...merchant, nineteenMerchantId: merchant.nineteenMerchantId };
+};
+
+export const ipAllowlistService = {
+  /**
+   * Get the merchant's IP allowlist and any change waiting for OTP confirmation
+   */
+  async getAllowlist(merchantId: number) {
+    const merchant = await getMerchant(merchantId);
+
+    const profile = await prisma.merchantProfile.findUnique({
+      where: { nineteenMerchantId: merchant.nineteenMerchantId },
+      select: { whitelistedIps: true },
+    });
+
+    const redisClient = await getRedisClient();
+    const pending = await redisClient.get(getPendingChangeKey(merchantId));
+
+    return {
+      success: true,
+      ips: Array.isArray(profile?.whitelistedIps) ? (profile!.whitelistedIps as string[]) : [],
+      pendingIps: pending ? (JSON.parse(pending) as PendingAllowlistChange).ips : null,
+    };
+  },
+
+  /**
+   * Request an allowlist change - the new list replaces the current one once
+   * confirmed with the OTP sent to the registered mobile
+   */
+  async requestChange(merchantId: number, input: IpAllowlistChangeRequestInput) {
+    const ips = normalizeIpAllowlist(input.ips);
+    const merchant = await getMerchant(merchantId);
+
+    const issued = await otpService.issue(
+      { type: 'merchant', email: merchant.email, name: merchant.name },
+      'ip_allowlist_change',
+      'sms',
+      merchant.mobile
+    );
+
+    // The pending list is only replaced when a new code goes out, so a code always confirms the list it was sent for
+    if (!issued.sent) {
+      throw new ValidationError(`Please wait ${issued.retryAfter} seconds before requesting a new OTP`);
+    }
+
+    const pending: PendingAllowlistChange = { ips, createdAt: new Date().toISOString() };
+    const redisClient = await getRedisClient();
+    await redisClient.setEx(getPendingChangeKey(merchantId), PENDING_CHANGE_TTL_SECONDS, JSON.stringify(pending));
+
+    logger.info(`[IP Allowlist Service] Allowlist change requested for merchant ${merchantId} (${ips.length} entries)`);
+
+    return {
+      success: true,
+      message: 'OTP sent to your registered mobile number. Confirm it to apply the new IP allowlist.',
+      ips,
+      expiresIn: issued.expiresIn,
+    };
+  },
+
+  /**
+   * Confirm a pending allowlist change with the OTP
+   */
+  async verifyChange(merchantId: number, input: IpAllowlistChangeVerifyInput) {
+    const merchant = await getMerchant(merchantId);
+
+    const redisClient = await getRedisClient();
+    const pendingRaw = await redisClient.get(getPendingChangeKey(merchantId));
+
+    if (!pendingRaw) {
+      throw new ValidationError('No pending IP allowlist change. Please request the change again.');
+    }
+
+    const otpMatch = await otpService.verify(
+      { type: 'merchant', email: merchant.email },
+      'ip_allowlist_change',
+      'sms',
+      input.otp
+    );
+
+    if (!otpMatch) {
+      throw new UnauthorizedError('Invalid or expired OTP');
+    }
+
+    await otpService.consume(otpMatch);
+
+    const { ips } = JSON.parse(pendingRaw) as PendingAllowlistChange;
+
+    await prisma.merchantProfile.upsert({
+      where: { nineteenMerchantId: merchant.nineteenMerchantId },
+      update: { whitelistedIps: ips },
+      create: { nineteenMerchantId: merchant.nineteenMerchantId, whitelistedIps: ips },
+    });
+
+    await redisClient.del(getPendingChangeKey(merchantId));
+
+    logger.info(`[IP Allowlist Service] Allowlist updated for merchant ${merchantId} (${ips.length} entries)`);
+
+    return {
+      success: true,
+      message: 'IP allowlist updated',
+      ips,
+    };
+  },
+
+  /**
+   * Check if a request IP is in the merchant's allowlist
+   * An empty allowlist blocks all server-to-server requests
+   */
+  async isAllowed(nineteenMerchantId: string | null, ipAddress: string): Promise<boolean> {
+    if (!nineteenMerchantId) {
+      return false;
+    }
+
+    const profile = await prisma.merchantProfile.findUnique({
+      where: { nineteenMerchantId },
+      select: { whitelistedIps: true },
+    });
+
+    return isIpAllowlisted(ipAddress, profile?.whitelistedIps);
+  },
+};
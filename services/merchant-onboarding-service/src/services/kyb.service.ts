@@ -0,0 +1,294 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { KYBCheckType, KYBVerificationStatus } from '@tsp/types';
+import {
+  logger,
+  AppError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  normalizePan,
+  normalizeGstin,
+  normalizeCin,
+  isValidCin,
+  getPanFromGstin,
+} from '@tsp/common';
+import { getKybProvider, KybLookupResult } from './kybProvider.service';
+import { config } from '../config';
+
+const prisma = new PrismaClient();
+
+export interface RunKybChecksInput {
+  checks?: KYBCheckType[]; // Defaults to every identifier present on the profile
+}
+
+type ProfileIdentifierField = 'pan' | 'gst' | 'registrationNumber';
+
+// Profile column checked by each KYB check, and the prefix of its result columns
+const KYB_CHECK_FIELDS: Record<KYBCheckType, { field: ProfileIdentifierField; prefix: 'pan' | 'gst' | 'cin' }> = {
+  [KYBCheckType.PAN]: { field: 'pan', prefix: 'pan' },
+  [KYBCheckType.GSTIN]: { field: 'gst', prefix: 'gst' },
+  [KYBCheckType.CIN]: { field: 'registrationNumber', prefix: 'cin' },
+};
+
+// Words that say nothing about who a business is ("M/S", legal form suffixes)
+const NAME_NOISE_WORDS = new Set(['M', 'S', 'MS', 'THE', 'AND', 'CO', 'COMPANY', 'PVT', 'PRIVATE', 'LTD', 'LIMITED', 'LLP', 'OPC']);
+
+const kybResultSelect = {
+  nineteenMerchantId: true,
+  pan: true,
+  gst: true,
+  registrationNumber: true,
+  panVerificationStatus: true,
+  panRegisteredName: true,
+  panNameMatchScore: true,
+  panCheckedAt: true,
+  gstVerificationStatus: true,
+  gstRegisteredName: true,
+  gstNameMatchScore: true,
+  gstCheckedAt: true,
+  cinVerificationStatus: true,
+  cinRegisteredName: true,
+  cinNameMatchScore: true,
+  cinCheckedAt: true,
+  kybProvider: true,
+} as const;
+
+type KybProfile = Prisma.MerchantProfileGetPayload<{ select: typeof kybResultSelect }>;
+
+/**
+ * Verification columns to clear when an identifier changes - the old result belongs to the old value
+ */
+export const getKybResetData = (input: { pan?: unknown; gst?: unknown; registrationNumber?: unknown }) => {
+  const data: Prisma.MerchantProfileUpdateInput = {};
+
+  for (const { field, prefix } of Object.values(KYB_CHECK_FIELDS)) {
+    if (input[field] !== undefined) {
+      data[`${prefix}VerificationStatus`] = null;
+      data[`${prefix}RegisteredName`] = null;
+      data[`${prefix}NameMatchScore`] = null;
+      data[`${prefix}CheckedAt`] = null;
+    }
+  }
+
+  return data;
+};
+
+const toNameTokens = (name: string): string[] =>
+  name
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .split(' ')
+    .filter((token) => token && !NAME_NOISE_WORDS.has(token));
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * How closely a registered name matches the merchant name, 0-100
+ * Case, punctuation, word order, "M/S" and legal form suffixes (Pvt Ltd, LLP) are ignored.
+ * The better of word overlap and character similarity wins, so small typos still score high.
+ */
+export const getNameMatchScore = (expected: string, registered: string): number => {
+  const expectedTokens = toNameTokens(expected);
+  const registeredTokens = toNameTokens(registered);
+
+  if (expectedTokens.length === 0 || registeredTokens.length === 0) {
+    return 0;
+  }
+
+  const registeredSet = new Set(registeredTokens);
+  const shared = new Set(expectedTokens.filter((token) => registeredSet.has(token))).size;
+  const overlap = (2 * shared) / (new Set(expectedTokens).size + registeredSet.size);
+
+  const a = [...expectedTokens].sort().join(' ');
+  const b = [...registeredTokens].sort().join(' ');
+  const similarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+  return Math.round(100 * Math.max(overlap, similarity));
+};
+
+const toVerificationStatus = (lookup: KybLookupResult, nameMatchScore: number | null): KYBVerificationStatus => {
+  if (!lookup.found) {
+    return KYBVerificationStatus.NOT_FOUND;
+  }
+  if (!lookup.active) {
+    return KYBVerificationStatus.INACTIVE;
+  }
+  return nameMatchScore !== null && nameMatchScore >= config.kyb.nameMatchThreshold
+    ? KYBVerificationStatus.VERIFIED
+    : KYBVerificationStatus.NAME_MISMATCH;
+};
+
+/**
+ * Latest result per check as stored on the profile
+ */
+const toKybResponse = (profile: KybProfile | null) => {
+  const results = Object.entries(KYB_CHECK_FIELDS).map(([checkType, { field, prefix }]) => ({
+    checkType,
+    idNumber: profile?.[field] ?? null,
+    status: profile?.[`${prefix}VerificationStatus`] ?? null,
+    registeredName: profile?.[`${prefix}RegisteredName`] ?? null,
+    nameMatchScore: profile?.[`${prefix}NameMatchScore`] ?? null,
+    checkedAt: profile?.[`${prefix}CheckedAt`] ?? null,
+  }));
+
+  return {
+    provider: profile?.kybProvider ?? null,
+    nameMatchThreshold: config.kyb.nameMatchThreshold,
+    results,
+  };
+};
+
+const getMerchant = async (merchantId: string) => {
+  const merchant = await prisma.merchantsMaster.findUnique({
+    where: { nineteenMerchantId: merchantId },
+    select: { id: true, name: true, nineteenMerchantId: true },
+  });
+
+  if (!merchant) {
+    throw new NotFoundError('Merchant');
+  }
+
+  return merchant;
+};
+
+/**
+ * Identifier to check, validated before any paid provider call
+ */
+const getIdentifier = (checkType: KYBCheckType, profile: KybProfile): string => {
+  const { field } = KYB_CHECK_FIELDS[checkType];
+  const value = profile[field];
+
+  if (!value) {
+    throw new ValidationError(`Merchant profile has no ${field} to verify`);
+  }
+
+  if (checkType === KYBCheckType.PAN) {
+    return normalizePan(value);
+  }
+  if (checkType === KYBCheckType.CIN) {
+    return normalizeCin(value);
+  }
+
+  const gstin = normalizeGstin(value);
+  if (profile.pan && getPanFromGstin(gstin) !== profile.pan.toUpperCase()) {
+    throw new ValidationError(`GSTIN ${gstin} was not issued on the merchant's PAN ${profile.pan}`);
+  }
+  return gstin;
+};
+
+export const kybService = {
+  /**
+   * Check the profile's PAN, GSTIN and/or CIN with the KYB provider and store the results on the profile
+   * - Identifiers are format and checksum validated first (400), so malformed ones never reach the provider
+   * - The registered name is scored against the merchant name; VERIFIED needs KYB_NAME_MATCH_THRESHOLD
+   * - A result is only stored if the identifier did not change during the lookup (409 otherwise)
+   */
+  async verify(merchantId: string, input: RunKybChecksInput = {}, adminId?: number) {
+    const merchant = await getMerchant(merchantId);
+    const profile = await prisma.merchantProfile.findUnique({
+      where: { nineteenMerchantId: merchantId },
+      select: kybResultSelect,
+    });
+
+    if (!profile) {
+      throw new ValidationError('Merchant has no profile to verify');
+    }
+
+    const checks = input.checks?.length
+      ? [...new Set(input.checks)]
+      : (Object.keys(KYB_CHECK_FIELDS) as KYBCheckType[]).filter((checkType) => {
+          const value = profile[KYB_CHECK_FIELDS[checkType].field];
+          // registrationNumber can also hold an LLPIN or a firm registration - only CINs are checked by default
+          return checkType === KYBCheckType.CIN ? !!value && isValidCin(value) : !!value;
+        });
+
+    if (checks.length === 0) {
+      throw new ValidationError('Add a PAN, GSTIN or CIN (registrationNumber) to the merchant profile first');
+    }
+
+    // Validate everything up front so one bad identifier doesn't leave a partial run
+    const identifiers = checks.map((checkType) => ({ checkType, idNumber: getIdentifier(checkType, profile) }));
+    const provider = getKybProvider();
+
+    for (const { checkType, idNumber } of identifiers) {
+      let lookup: KybLookupResult;
+      try {
+        lookup = await provider.lookup({ checkType, idNumber, expectedName: merchant.name });
+      } catch (error: any) {
+        logger.error(`[KYB Service] ${checkType} lookup for merchant ${merchantId} failed:`, error);
+        throw new AppError(503, `KYB provider is unavailable. ${checkType} was not verified - try again later.`);
+      }
+
+      const nameMatchScore = lookup.registeredName ? getNameMatchScore(merchant.name, lookup.registeredName) : null;
+      const status = toVerificationStatus(lookup, nameMatchScore);
+      const { field, prefix } = KYB_CHECK_FIELDS[checkType];
+
+      const { count } = await prisma.merchantProfile.updateMany({
+        where: { nineteenMerchantId: merchantId, [field]: profile[field] },
+        data: {
+          [`${prefix}VerificationStatus`]: status,
+          [`${prefix}RegisteredName`]: lookup.registeredName,
+          [`${prefix}NameMatchScore`]: nameMatchScore,
+          [`${prefix}CheckedAt`]: new Date(),
+          kybProvider: provider.name,
+        },
+      });
+
+      if (count === 0) {
+        throw new ConflictError(`The merchant's ${field} changed while it was being verified. Try again.`);
+      }
+
+      logger.info(
+        `[KYB Service] ${checkType} ${idNumber} of merchant ${merchantId}: ${status}` +
+          `${lookup.sourceStatus ? ` (${lookup.sourceStatus})` : ''}${nameMatchScore !== null ? `, name match ${nameMatchScore}` : ''}` +
+          ` via ${provider.name}${adminId ? ` by admin ${adminId}` : ''}`
+      );
+    }
+
+    const updated = await prisma.merchantProfile.findUnique({
+      where: { nineteenMerchantId: merchantId },
+      select: kybResultSelect,
+    });
+
+    return {
+      success: true,
+      message: `Verified ${checks.join(', ')} with ${provider.name}`,
+      merchant: { nineteenMerchantId: merchant.nineteenMerchantId, name: merchant.name },
+      kyb: toKybResponse(updated),
+    };
+  },
+
+  /**
+   * Stored KYB results for a merchant
+   */
+  async getVerification(merchantId: string) {
+    const merchant = await getMerchant(merchantId);
+    const profile = await prisma.merchantProfile.findUnique({
+      where: { nineteenMerchantId: merchantId },
+      select: kybResultSelect,
+    });
+
+    return {
+      success: true,
+      merchant: { nineteenMerchantId: merchant.nineteenMerchantId, name: merchant.name },
+      kyb: toKybResponse(profile),
+    };
+  },
+};
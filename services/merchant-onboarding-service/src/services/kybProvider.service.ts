@@ -0,0 +1,170 @@
+import axios from 'axios';
+import { KYBCheckType } from '@tsp/types';
+import { logger } from '@tsp/common';
+import { config } from '../config';
+
+export type KybProviderName = 'surepass' | 'mock';
+
+export interface KybLookupInput {
+  checkType: KYBCheckType;
+  idNumber: string; // Already normalized and format-checked
+  expectedName: string; // Name on record - the mock echoes it back, Surepass ignores it
+}
+
+// What the issuing registry says about an identifier
+export interface KybLookupResult {
+  found: boolean;
+  active: boolean;
+  registeredName: string | null;
+  sourceStatus: string | null; // Registry status as reported, e.g. "Active", "Cancelled", "Strike Off"
+}
+
+export interface KybProvider {
+  name: KybProviderName;
+  lookup(input: KybLookupInput): Promise<KybLookupResult>;
+}
+
+let provider: KybProvider | null = null;
+
+const SUREPASS_ENDPOINTS: Record<KYBCheckType, string> = {
+  [KYBCheckType.PAN]: '/api/v1/pan/pan-comprehensive',
+  [KYBCheckType.GSTIN]: '/api/v1/corporate/gstin',
+  [KYBCheckType.CIN]: '/api/v1/corporate/company-details',
+};
+
+const NOT_FOUND_RESULT: KybLookupResult = { found: false, active: false, registeredName: null, sourceStatus: null };
+
+/**
+ * Surepass KYC API adapter
+ * Unknown identifiers come back as 404/422 and are reported as not found; anything else is thrown
+ */
+export const createSurepassProvider = (options: typeof config.surepass): KybProvider => {
+  if (!options.apiKey) {
+    throw new Error('[KYB] SUREPASS_API_KEY is not set');
+  }
+
+  const client = axios.create({
+    baseURL: options.apiUrl,
+    timeout: options.timeoutMs,
+    headers: {
+      Authorization: `Bearer ${options.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  return {
+    name: 'surepass',
+
+    async lookup({ checkType, idNumber }) {
+      let data: any;
+      try {
+        const response = await client.post(SUREPASS_ENDPOINTS[checkType], { id_number: idNumber });
+        data = response.data?.data;
+      } catch (error: any) {
+        const status = error?.response?.status;
+        if (status === 404 || status === 422) {
+          return NOT_FOUND_RESULT;
+        }
+        throw new Error(`[KYB] Surepass ${checkType} lookup failed${status ? ` with HTTP ${status}` : ''}: ${error?.message}`);
+      }
+
+      if (!data) {
+        return NOT_FOUND_RESULT;
+      }
+
+      if (checkType === KYBCheckType.PAN) {
+        return { found: true, active: true, registeredName: data.full_name || null, sourceStatus: null };
+      }
+
+      if (checkType === KYBCheckType.GSTIN) {
+        const sourceStatus: string | null = data.gstin_status || null;
+        return {
+          found: true,
+          active: !sourceStatus || /^active$/i.test(sourceStatus),
+          // Legal name is the PAN holder; trade name is only the brand
+          registeredName: data.legal_name || data.business_name || null,
+          sourceStatus,
+        };
+      }
+
+      const sourceStatus: string | null = data.company_status || data.details?.company_info?.company_status || null;
+      return {
+        found: true,
+        active: !sourceStatus || /^active$/i.test(sourceStatus),
+        registeredName: data.company_name || data.details?.company_info?.company_name || null,
+        sourceStatus,
+      };
+    },
+  };
+};
+
+/**
+ * Four digits that pick the mock outcome - the PAN's digits (also inside a GSTIN) or the end of a CIN
+ */
+const getMockScenarioKey = (checkType: KYBCheckType, idNumber: string): string => {
+  if (checkType === KYBCheckType.PAN) {
+    return idNumber.slice(5, 9);
+  }
+  if (checkType === KYBCheckType.GSTIN) {
+    return idNumber.slice(7, 11);
+  }
+  return idNumber.slice(-4);
+};
+
+/**
+ * Deterministic provider for development and tests - no network calls
+ * - digits 0000: not found
+ * - digits 9999: found but inactive (GSTIN "Cancelled", CIN "Strike Off")
+ * - digits 1111: found under an unrelated name (name mismatch)
+ * - anything else: found and active under the name on record
+ */
+export const createMockKybProvider = (): KybProvider => ({
+  name: 'mock',
+
+  async lookup({ checkType, idNumber, expectedName }) {
+    const scenario = getMockScenarioKey(checkType, idNumber);
+
+    if (scenario === '0000') {
+      return NOT_FOUND_RESULT;
+    }
+    if (scenario === '9999') {
+      return {
+        found: true,
+        active: checkType === KYBCheckType.PAN,
+        registeredName: expectedName.toUpperCase(),
+        sourceStatus: checkType === KYBCheckType.GSTIN ? 'Cancelled' : checkType === KYBCheckType.CIN ? 'Strike Off' : null,
+      };
+    }
+
+    return {
+      found: true,
+      active: true,
+      registeredName: scenario === '1111' ? 'UNRELATED TRADERS PRIVATE LIMITED' : expectedName.toUpperCase(),
+      sourceStatus: checkType === KYBCheckType.PAN ? null : 'Active',
+    };
+  },
+});
+
+/**
+ * Get the KYB provider selected by KYB_PROVIDER (created once)
+ */
+export const getKybProvider = (): KybProvider => {
+  if (!provider) {
+    const name = config.kyb.provider;
+
+    if (name === 'surepass') {
+      provider = createSurepassProvider(config.surepass);
+      logger.info(`[KYB] Using Surepass at ${config.surepass.apiUrl}`);
+    } else if (name === 'mock') {
+      if (config.nodeEnv === 'production') {
+        logger.warn('[KYB] Mock KYB provider in production - PAN, GSTIN and CIN are not checked against any registry');
+      }
+      provider = createMockKybProvider();
+      logger.info('[KYB] Using the mock KYB provider');
+    } else {
+      throw new Error(`[KYB] Unknown KYB_PROVIDER "${name}". Use "surepass" or "mock".`);
+    }
+  }
+
+  return provider;
+};
@@ -0,0 +1,460 @@
+import { PrismaClient } from '@prisma/client';
+import { KYCDocumentStatus, KYCDocumentType, MerchantStatus } from '@tsp/types';
+import { AppError, logger } from '@tsp/common';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+} from '@tsp/common';
+import crypto from 'crypto';
+import path from 'path';
+import { getStorage } from './storage.service';
+import { config } from '../config';
+
+const prisma = new PrismaClient();
+
+export interface UploadDocumentInput {
+  documentType: KYCDocumentType;
+  label?: string; // Required for DIRECTOR_ID
+  fileName: string;
+  mimeType: string; // As declared by the client - must match the file content
+  content: Buffer;
+}
+
+export interface ReviewDocumentInput {
+  comment?: string;
+}
+
+export interface RejectDocumentInput {
+  comment: string; // Tells the merchant what to fix
+}
+
+export interface ListDocumentsInput {
+  page?: number;
+  limit?: number;
+  status?: KYCDocumentStatus;
+  documentType?: KYCDocumentType;
+  merchantId?: string;
+}
+
+// Accepted file types, recognised by their leading bytes - the declared type and extension must agree
+const FILE_SIGNATURES: Array<{ mimeType: string; extensions: string[]; signature: number[] }> = [
+  { mimeType: 'application/pdf', extensions: ['.pdf'], signature: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { mimeType: 'image/png', extensions: ['.png'], signature: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', extensions: ['.jpg', '.jpeg'], signature: [0xff, 0xd8, 0xff] },
+];
+
+// Merchants can only change documents while the application is not being reviewed or live
+const EDITABLE_STATUSES: string[] = [MerchantStatus.PENDING, MerchantStatus.REJECTED];
+
+// Needed before an application can be submitted for review
+export const REQUIRED_DOCUMENT_TYPES: KYCDocumentType[] = [KYCDocumentType.PAN, KYCDocumentType.CANCELLED_CHEQUE];
+
+const MAX_DIRECTOR_IDS = 10;
+
+// Documents that still count - replaced ones are kept only for the record
+const ACTIVE_STATUSES: string[] = [KYCDocumentStatus.PENDING, KYCDocumentStatus.VERIFIED, KYCDocumentStatus.REJECTED];
+
+const documentSelect = {
+  id: true,
+  documentType: true,
+  label: true,
+  fileName: true,
+  mimeType: true,
+  sizeBytes: true,
+  checksum: true,
+  status: true,
+  reviewComment: true,
+  reviewedAt: true,
+  createdAt: true,
+} as const;
+
+const sha256 = (content: Buffer): string => crypto.createHash('sha256').update(content).digest('hex');
+
+/**
+ * Check size, type (by magic bytes) and extension - returns the detected MIME type
+ */
+const validateFile = (input: UploadDocumentInput): { mimeType: string; extension: string } => {
+  if (input.content.length === 0) {
+    throw new ValidationError('File is empty');
+  }
+  if (input.content.length > config.kycDocuments.maxFileSizeBytes) {
+    throw new AppError(413, `File is larger than ${Math.floor(config.kycDocuments.maxFileSizeBytes / (1024 * 1024))} MB`);
+  }
+
+  const detected = FILE_SIGNATURES.find(({ signature }) =>
+    signature.every((byte, index) => input.content[index] === byte)
+  );
+  if (!detected) {
+    throw new ValidationError('Unsupported file type. Upload a PDF, PNG or JPEG.');
+  }
+
+  if (input.mimeType !== detected.mimeType) {
+    throw new ValidationError(`File content is ${detected.mimeType} but was sent as ${input.mimeType}`);
+  }
+
+  const extension = path.extname(input.fileName).toLowerCase();
+  if (!detected.extensions.includes(extension)) {
+    throw new ValidationError(`File extension must be ${detected.extensions.join(' or ')} for ${detected.mimeType}`);
+  }
+
+  return { mimeType: detected.mimeType, extension };
+};
+
+const getMerchant = async (merchantId: string) => {
+  const merchant = await prisma.merchantsMaster.findUnique({
+    where: { nineteenMerchantId: merchantId },
+    select: { id: true, nineteenMerchantId: true, status: true },
+  });
+
+  if (!merchant) {
+    throw new NotFoundError('Merchant');
+  }
+
+  return merchant;
+};
+
+const findDocument = async (documentId: number) => {
+  const document = await prisma.merchantDocument.findUnique({
+    where: { id: documentId },
+    include: {
+      merchant: { select: { id: true, name: true, nineteenMerchantId: true, status: true } },
+      reviewedBy: { select: { id: true, email: true, name: true } },
+    },
+  });
+
+  if (!document) {
+    throw new NotFoundError('Document');
+  }
+
+  return document;
+};
+
+/**
+ * Read a stored file and make sure it is the one that was uploaded
+ */
+const readFile = async (document: { id: number; storageKey: string; checksum: string }): Promise<Buffer> => {
+  const content = await getStorage().get(document.storageKey);
+
+  if (sha256(content) !== document.checksum) {
+    logger.error(`[KYC Document Service] Checksum mismatch for document #${document.id} (${document.storageKey})`);
+    throw new AppError(500, 'Document failed its integrity check');
+  }
+
+  return content;
+};
+
+/**
+ * Claim a pending document for review - only one reviewer can decide it
+ */
+const reviewDocument = async (
+  reviewerId: number,
+  documentId: number,
+  status: KYCDocumentStatus.VERIFIED | KYCDocumentStatus.REJECTED,
+  comment: string | null
+) => {
+  const document = await findDocument(documentId);
+
+  const { count } = await prisma.merchantDocument.updateMany({
+    where: { id: documentId, status: KYCDocumentStatus.PENDING },
+    data: { status, reviewedById: reviewerId, reviewComment: comment, reviewedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new ConflictError(`Document is already ${document.status.toLowerCase()}`);
+  }
+
+  logger.info(`[KYC Document Service] Document #${documentId} (${document.documentType}) of merchant ${document.merchant.nineteenMerchantId} ${status.toLowerCase()} by admin ${reviewerId}`);
+
+  return findDocument(documentId);
+};
+
+const toAdminDocumentResponse = (document: Awaited<ReturnType<typeof findDocument>>) => ({
+  id: document.id,
+  merchant: document.merchant,
+  documentType: document.documentType,
+  label: document.label,
+  fileName: document.fileName,
+  mimeType: document.mimeType,
+  sizeBytes: document.sizeBytes,
+  checksum: document.checksum,
+  status: document.status,
+  reviewComment: document.reviewComment,
+  reviewedBy: document.reviewedBy,
+  reviewedAt: document.reviewedAt,
+  createdAt: document.createdAt,
+});
+
+export const kycDocumentService = {
+  /**
+   * Store a merchant document
+   * - PDF, PNG or JPEG up to KYC_DOCUMENT_MAX_SIZE_MB, type checked against the file's magic bytes
+   * - A new upload replaces the previous document of the same type (same director for DIRECTOR_ID)
+   * - Only while the application is PENDING or REJECTED
+   */
+  async upload(merchantId: string, input: UploadDocumentInput) {
+    const merchant = await getMerchant(merchantId);
+
+    if (!EDITABLE_STATUSES.includes(merchant.status)) {
+      throw new ConflictError(`Documents cannot be changed while the application is ${merchant.status}`);
+    }
+
+    const label = input.documentType === KYCDocumentType.DIRECTOR_ID ? input.label?.trim() : undefined;
+    if (input.documentType === KYCDocumentType.DIRECTOR_ID && !label) {
+      throw new ValidationError('label (director name) is required for DIRECTOR_ID documents');
+    }
+
+    const { mimeType, extension } = validateFile(input);
+    const checksum = sha256(input.content);
+
+    const active = await prisma.merchantDocument.findMany({
+      where: { merchantId: merchant.id, status: { in: ACTIVE_STATUSES } },
+      select: { id: true, documentType: true, label: true, checksum: true },
+    });
+
+    const duplicate = active.find((document) => document.checksum === checksum);
+    if (duplicate) {
+      throw new ConflictError(`This file is already uploaded as ${duplicate.documentType} (document #${duplicate.id})`);
+    }
+
+    const replaced = active.filter((document) =>
+      document.documentType === input.documentType &&
+      (!label || document.label?.toLowerCase() === label.toLowerCase())
+    );
+
+    if (
+      input.documentType === KYCDocumentType.DIRECTOR_ID &&
+      replaced.length === 0 &&
+      active.filter((document) => document.documentType === KYCDocumentType.DIRECTOR_ID).length >= MAX_DIRECTOR_IDS
+    ) {
+      throw new ValidationError(`At most ${MAX_DIRECTOR_IDS} director IDs can be uploaded`);
+    }
+
+    const storage = getStorage();
+    const storageKey = `merchants/${merchant.nineteenMerchantId}/${input.documentType}/${crypto.randomUUID()}${extension}`;
+
+    await storage.put(storageKey, input.content, mimeType);
+
+    let document;
+    try {
+      document = await prisma.merchantDocument.create({
+        data: {
+          merchantId: merchant.id,
+          documentType: input.documentType,
+          label: label || null,
+          fileName: path.basename(input.fileName).slice(0, 255),
+          mimeType,
+          sizeBytes: input.content.length,
+          checksum,
+          storageDriver: storage.name,
+          storageKey,
+        },
+        select: documentSelect,
+      });
+    } catch (error) {
+      // Don't leave an orphaned file behind
+      await storage.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+
+    if (replaced.length > 0) {
+      await prisma.merchantDocument.updateMany({
+        where: { id: { in: replaced.map((previous) => previous.id) } },
+        data: { status: KYCDocumentStatus.REPLACED },
+      });
+    }
+
+    logger.info(`[KYC Document Service] Merchant ${merchantId} uploaded ${input.documentType} document #${document.id} (${mimeType}, ${input.content.length} bytes)`);
+
+    return {
+      success: true,
+      message: replaced.length > 0 ? 'Document uploaded and replaces the previous one' : 'Document uploaded',
+      document,
+    };
+  },
+
+  /**
+   * Merchant's documents, replaced ones excluded
+   */
+  async listOwn(merchantId: string) {
+    const merchant = await getMerchant(merchantId);
+
+    const documents = await prisma.merchantDocument.findMany({
+      where: { merchantId: merchant.id, status: { in: ACTIVE_STATUSES } },
+      select: documentSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      success: true,
+      documents,
+      missingDocumentTypes: REQUIRED_DOCUMENT_TYPES.filter(
+        (type) => !documents.some((document) => document.documentType === type && document.status !== KYCDocumentStatus.REJECTED)
+      ),
+    };
+  },
+
+  /**
+   * Download one of the merchant's own documents
+   */
+  async getOwnFile(merchantId: string, documentId: number) {
+    const merchant = await getMerchant(merchantId);
+    const document = await prisma.merchantDocument.findFirst({
+      where: { id: documentId, merchantId: merchant.id },
+    });
+
+    if (!document) {
+      throw new NotFoundError('Document');
+    }
+
+    return { fileName: document.fileName, mimeType: document.mimeType, content: await readFile(document) };
+  },
+
+  /**
+   * Remove a document that is not verified (while the application can be edited)
+   */
+  async deleteOwn(merchantId: string, documentId: number) {
+    const merchant = await getMerchant(merchantId);
+
+    if (!EDITABLE_STATUSES.includes(merchant.status)) {
+      throw new ConflictError(`Documents cannot be changed while the application is ${merchant.status}`);
+    }
+
+    const document = await prisma.merchantDocument.findFirst({
+      where: { id: documentId, merchantId: merchant.id, status: { in: ACTIVE_STATUSES } },
+    });
+
+    if (!document) {
+      throw new NotFoundError('Document');
+    }
+    if (document.status === KYCDocumentStatus.VERIFIED) {
+      throw new ConflictError('Verified documents cannot be deleted. Upload a replacement instead.');
+    }
+
+    await prisma.merchantDocument.delete({ where: { id: document.id } });
+    await getStorage().delete(document.storageKey);
+
+    logger.info(`[KYC Document Service] Merchant ${merchantId} deleted document #${documentId} (${document.documentType})`);
+
+    return {
+      success: true,
+      message: 'Document deleted',
+    };
+  },
+
+  /**
+   * What stops an application from being submitted - required types missing, or rejected documents left
+   */
+  async getSubmissionBlockers(merchantId: number): Promise<string[]> {
+    const documents = await prisma.merchantDocument.findMany({
+      where: { merchantId, status: { in: ACTIVE_STATUSES } },
+      select: { documentType: true, status: true },
+    });
+
+    const blockers: string[] = [];
+
+    const missing = REQUIRED_DOCUMENT_TYPES.filter(
+      (type) => !documents.some((document) => document.documentType === type && document.status !== KYCDocumentStatus.REJECTED)
+    );
+    if (missing.length > 0) {
+      blockers.push(`missing documents: ${missing.join(', ')}`);
+    }
+
+    const rejected = documents.filter((document) => document.status === KYCDocumentStatus.REJECTED);
+    if (rejected.length > 0) {
+      blockers.push(`rejected documents to replace or delete: ${rejected.map((document) => document.documentType).join(', ')}`);
+    }
+
+    return blockers;
+  },
+
+  /**
+   * Documents not yet verified - an application can only be approved once this is empty
+   */
+  async getUnverifiedDocumentTypes(merchantId: number): Promise<string[]> {
+    const documents = await prisma.merchantDocument.findMany({
+      where: { merchantId, status: { in: [KYCDocumentStatus.PENDING, KYCDocumentStatus.REJECTED] } },
+      select: { documentType: true },
+    });
+
+    return documents.map((document) => document.documentType);
+  },
+
+  /**
+   * Review queue - pending documents by default, oldest first so nothing waits forever
+   */
+  async listDocuments(input: ListDocumentsInput) {
+    const page = input.page || 1;
+    const limit = Math.min(input.limit || 20, 100); // Max 100 per page
+    const skip = (page - 1) * limit;
+
+    const where: any = { status: input.status || KYCDocumentStatus.PENDING };
+    if (input.documentType) {
+      where.documentType = input.documentType;
+    }
+    if (input.merchantId) {
+      where.merchant = { nineteenMerchantId: input.merchantId };
+    }
+
+    const [documents, total] = await Promise.all([
+      prisma.merchantDocument.findMany({
+        where,
+        skip,
+        take: limit,
+        include: {
+          merchant: { select: { id: true, name: true, nineteenMerchantId: true, status: true } },
+          reviewedBy: { select: { id: true, email: true, name: true } },
+        },
+        orderBy: {
+          createdAt: 'asc',
+        },
+      }),
+      prisma.merchantDocument.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      documents: documents.map(toAdminDocumentResponse),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  },
+
+  /**
+   * Download a document for review
+   */
+  async getFile(documentId: number) {
+    const document = await findDocument(documentId);
+    return { fileName: document.fileName, mimeType: document.mimeType, content: await readFile(document) };
+  },
+
+  /**
+   * Mark a pending document as verified
+   */
+  async verifyDocument(reviewerId: number, documentId: number, input: ReviewDocumentInput = {}) {
+    const document = await reviewDocument(reviewerId, documentId, KYCDocumentStatus.VERIFIED, input.comment || null);
+
+    return {
+      success: true,
+      message: 'Document verified',
+      document: toAdminDocumentResponse(document),
+    };
+  },
+
+  /**
+   * Reject a pending document with a reason for the merchant
+   */
+  async rejectDocument(reviewerId: number, documentId: number, input: RejectDocumentInput) {
+    const document = await reviewDocument(reviewerId, documentId, KYCDocumentStatus.REJECTED, input.comment);
+
+    return {
+      success: true,
+      message: 'Document rejected',
+      document: toAdminDocumentResponse(document),
+    };
+  },
+};
@@ -0,0 +1,143 @@
+import {
+  TokenSubjectType,
+  AuditAlertHelper,
+  AccountLockedError,
+  TooManyRequestsError,
+  logger,
+} from '@tsp/common';
+import { getRedisClient } from './redis.service';
+
+// Failed sign-in policy (per account, independent of IP)
+const BACKOFF_AFTER_FAILURES = 3; // Progressive delay starts after this many failures
+const MAX_BACKOFF_SECONDS = 60;
+const LOCKOUT_THRESHOLD = 10; // Failures within the window that lock the account
+const FAILURE_WINDOW_SECONDS = 15 * 60; // Failures older than 15 minutes are forgotten
+const BASE_LOCKOUT_SECONDS = 30 * 60; // First lockout lasts 30 minutes, doubling on each repeat
+const MAX_LOCKOUT_SECONDS = 24 * 60 * 60;
+const LOCKOUT_HISTORY_SECONDS = 24 * 60 * 60; // Repeat lockouts within 24 hours escalate
+
+// Details of the account used for alerts (absent for unknown emails)
+export interface LockoutSubject {
+  ipAddress: string;
+  userId?: number;
+  merchantId?: string;
+}
+
+// Accounts are keyed by email, so unknown emails are counted and locked too (no enumeration)
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const getFailuresKey = (subjectType: TokenSubjectType, email: string): string =>
+  `login:failures:${subjectType}:${normalizeEmail(email)}`;
+const getBackoffKey = (subjectType: TokenSubjectType, email: string): string =>
+  `login:backoff:${subjectType}:${normalizeEmail(email)}`;
+const getLockKey = (subjectType: TokenSubjectType, email: string): string =>
+  `login:lock:${subjectType}:${normalizeEmail(email)}`;
+const getLockoutCountKey = (subjectType: TokenSubjectType, email: string): string =>
+  `login:lockouts:${subjectType}:${normalizeEmail(email)}`;
+
+export const lockoutService = {
+  /**
+   * Reject the attempt if the account is locked or still in backoff
+   * Called before the password is checked, so locked accounts can't be probed
+   */
+  async assertCanAttempt(subjectType: TokenSubjectType, email: string): Promise<void> {
+    const redisClient = await getRedisClient();
+
+    const lockedUntil = await redisClient.get(getLockKey(subjectType, email));
+    if (lockedUntil) {
+      const until = new Date(parseInt(lockedUntil, 10));
+      const minutesRemaining = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 60000));
+      throw new AccountLockedError(
+        `Account is temporarily locked due to too many failed sign-in attempts. Try again in ${minutesRemaining} minute(s) or unlock it with an OTP.`,
+        until
+      );
+    }
+
+    const backoffSeconds = await redisClient.ttl(getBackoffKey(subjectType, email));
+    if (backoffSeconds > 0) {
+      throw new TooManyRequestsError(
+        `Too many failed sign-in attempts. Please wait ${backoffSeconds} second(s) before trying again.`
+      );
+    }
+  },
+
+  /**
+   * Record a failed sign-in - applies progressive backoff and locks the account at the threshold
+   */
+  async recordFailure(subjectType: TokenSubjectType, email: string, subject: LockoutSubject): Promise<void> {
+    const redisClient = await getRedisClient();
+    const failuresKey = getFailuresKey(subjectType, email);
+
+    const failures = await redisClient.incr(failuresKey);
+    await redisClient.expire(failuresKey, FAILURE_WINDOW_SECONDS);
+
+    if (failures >= LOCKOUT_THRESHOLD) {
+      const lockoutCountKey = getLockoutCountKey(subjectType, email);
+      const lockouts = await redisClient.incr(lockoutCountKey);
+      await redisClient.expire(lockoutCountKey, LOCKOUT_HISTORY_SECONDS);
+
+      const lockSeconds = Math.min(BASE_LOCKOUT_SECONDS * 2 ** (lockouts - 1), MAX_LOCKOUT_SECONDS);
+      const lockedUntil = new Date(Date.now() + lockSeconds * 1000);
+
+      await redisClient.setEx(getLockKey(subjectType, email), lockSeconds, lockedUntil.getTime().toString());
+      await redisClient.del([failuresKey, getBackoffKey(subjectType, email)]);
+
+      logger.warn(`[Lockout Service] ${subjectType} account ${email} locked for ${lockSeconds / 60} minutes after ${failures} failed attempts`);
+
+      const activity = await AuditAlertHelper.checkAccountLockout(subject.ipAddress, failures, LOCKOUT_THRESHOLD, {
+        subjectType,
+        email,
+        userId: subject.userId,
+        merchantId: subject.merchantId,
+        lockedUntil,
+      });
+      if (activity) {
+        await AuditAlertHelper.logSuspiciousActivity(activity);
+      }
+      return;
+    }
+
+    if (failures >= BACKOFF_AFTER_FAILURES) {
+      // 1s, 2s, 4s, ... capped at 60s
+      const backoffSeconds = Math.min(2 ** (failures - BACKOFF_AFTER_FAILURES), MAX_BACKOFF_SECONDS);
+      await redisClient.setEx(getBackoffKey(subjectType, email), backoffSeconds, '1');
+    }
+  },
+
+  /**
+   * Clear failure counters after a successful sign-in
+   */
+  async recordSuccess(subjectType: TokenSubjectType, email: string): Promise<void> {
+    const redisClient = await getRedisClient();
+    await redisClient.del([getFailuresKey(subjectType, email), getBackoffKey(subjectType, email)]);
+  },
+
+  /**
+   * Check whether an account is currently locked
+   */
+  async isLocked(subjectType: TokenSubjectType, email: string): Promise<boolean> {
+    const redisClient = await getRedisClient();
+    return (await redisClient.exists(getLockKey(subjectType, email))) === 1;
+  },
+
+  /**
+   * Unlock an account (OTP unlock, password reset or admin action)
+   * Lockout history is kept so repeat lockouts still escalate
+   */
+  async unlock(subjectType: TokenSubjectType, email: string): Promise<boolean> {
+    const redisClient = await getRedisClient();
+    const wasLocked = await lockoutService.isLocked(subjectType, email);
+
+    await redisClient.del([
+      getLockKey(subjectType, email),
+      getFailuresKey(subjectType, email),
+      getBackoffKey(subjectType, email),
+    ]);
+
+    if (wasLocked) {
+      logger.info(`[Lockout Service] ${subjectType} account ${email} unlocked`);
+    }
+
+    return wasLocked;
+  },
+};
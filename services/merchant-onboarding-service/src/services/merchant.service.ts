@@ -19,6 +19,9 @@ export const merchantService = {
         kycVerified: true,
         isActive: true,
         isSettlementActive: true,
+        status: true,
+        statusReason: true,
+        statusChangedAt: true,
         is2faActive: true,
         isMobileVerified: true,
         isEmailVerified: true,
@@ -0,0 +1,301 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { MerchantStatus } from '@tsp/types';
+import { logger } from '@tsp/common';
+import {
+  ValidationError,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+} from '@tsp/common';
+import { tokenService } from './token.service';
+import { sendMerchantStatusEmail } from './email.service';
+import { kycDocumentService } from './kycDocument.service';
+
+const prisma = new PrismaClient();
+
+export type MerchantStatusAction = 'submit' | 'approve' | 'reject' | 'suspend' | 'reinstate';
+
+// Who made a transition - merchants can only submit their own application
+export interface MerchantStatusActor {
+  type: 'merchant' | 'admin';
+  adminId?: number;
+}
+
+export interface MerchantStatusTransitionInput {
+  reason?: string; // Required for reject and suspend
+}
+
+interface MerchantStatusTransition {
+  from: MerchantStatus[];
+  to: MerchantStatus;
+  reasonRequired: boolean;
+  // Account flags kept in step with the status
+  flags?: Prisma.MerchantsMasterUpdateManyMutationInput;
+}
+
+// Every allowed status move. Anything not listed here is refused with 409.
+export const MERCHANT_STATUS_TRANSITIONS: Record<MerchantStatusAction, MerchantStatusTransition> = {
+  submit: {
+    from: [MerchantStatus.PENDING, MerchantStatus.REJECTED],
+    to: MerchantStatus.UNDER_REVIEW,
+    reasonRequired: false,
+  },
+  approve: {
+    from: [MerchantStatus.UNDER_REVIEW],
+    to: MerchantStatus.APPROVED,
+    reasonRequired: false,
+    flags: { kycVerified: true },
+  },
+  reject: {
+    from: [MerchantStatus.UNDER_REVIEW],
+    to: MerchantStatus.REJECTED,
+    reasonRequired: true,
+  },
+  suspend: {
+    from: [MerchantStatus.APPROVED],
+    to: MerchantStatus.SUSPENDED,
+    reasonRequired: true,
+    flags: { isActive: false, isSettlementActive: false },
+  },
+  reinstate: {
+    from: [MerchantStatus.SUSPENDED],
+    to: MerchantStatus.APPROVED,
+    reasonRequired: false,
+    flags: { isActive: true }, // Settlement stays off until it is switched on again
+  },
+};
+
+// Profile fields a merchant needs before the application can be reviewed
+const REQUIRED_FOR_REVIEW = ['typeOfEntity', 'pan', 'businessAddress'] as const;
+
+const merchantStatusSelect = {
+  id: true,
+  name: true,
+  email: true,
+  nineteenMerchantId: true,
+  status: true,
+  statusReason: true,
+  statusChangedAt: true,
+  kycVerified: true,
+  isActive: true,
+  isSettlementActive: true,
+} as const;
+
+/**
+ * Actions that can be taken from a status (for the admin panel)
+ */
+export const getAvailableStatusActions = (status: string): MerchantStatusAction[] =>
+  (Object.keys(MERCHANT_STATUS_TRANSITIONS) as MerchantStatusAction[]).filter((action) =>
+    MERCHANT_STATUS_TRANSITIONS[action].from.includes(status as MerchantStatus)
+  );
+
+const getMerchant = async (merchantId: string) => {
+  const merchant = await prisma.merchantsMaster.findUnique({
+    where: { nineteenMerchantId: merchantId },
+    select: merchantStatusSelect,
+  });
+
+  if (!merchant) {
+    throw new NotFoundError('Merchant');
+  }
+
+  return merchant;
+};
+
+/**
+ * Submitting needs a profile and documents the reviewer can check
+ */
+const assertReadyForReview = async (merchant: { id: number; nineteenMerchantId: string | null }): Promise<void> => {
+  const profile = await prisma.merchantProfile.findUnique({
+    where: { nineteenMerchantId: merchant.nineteenMerchantId! },
+    select: { typeOfEntity: true, pan: true, businessAddress: true },
+  });
+
+  const missing = REQUIRED_FOR_REVIEW.filter((field) => !profile?.[field]);
+  if (missing.length > 0) {
+    throw new ValidationError(`Complete the merchant profile before submitting for review. Missing: ${missing.join(', ')}`);
+  }
+
+  const documentBlockers = await kycDocumentService.getSubmissionBlockers(merchant.id);
+  if (documentBlockers.length > 0) {
+    throw new ValidationError(`Documents are not ready for review - ${documentBlockers.join('; ')}`);
+  }
+};
+
+/**
+ * Every uploaded document must be verified before approval
+ */
+const assertDocumentsVerified = async (merchantId: number): Promise<void> => {
+  const unverified = await kycDocumentService.getUnverifiedDocumentTypes(merchantId);
+  if (unverified.length > 0) {
+    throw new ConflictError(`Review every document before approving. Not verified: ${unverified.join(', ')}`);
+  }
+};
+
+/**
+ * The admin who submitted an application can't also approve it
+ */
+const assertNotSubmitter = async (merchantId: number, adminId: number): Promise<void> => {
+  const submission = await prisma.merchantStatusHistory.findFirst({
+    where: { merchantId, action: 'submit' },
+    orderBy: { createdAt: 'desc' },
+    select: { actorType: true, adminId: true },
+  });
+
+  if (submission?.actorType === 'admin' && submission.adminId === adminId) {
+    throw new ForbiddenError('A merchant must be approved by a different admin than the one who submitted it');
+  }
+};
+
+const notifyMerchant = async (
+  merchant: { name: string; email: string; nineteenMerchantId: string | null },
+  action: MerchantStatusAction,
+  reason: string | null
+): Promise<void> => {
+  if (action === 'submit') {
+    return;
+  }
+
+  try {
+    await sendMerchantStatusEmail(merchant.email, { name: merchant.name, action, reason });
+  } catch (error: any) {
+    // The status is already changed - the email is informational
+    logger.error(`[Merchant Status Service] Failed to notify merchant ${merchant.nineteenMerchantId} (${action}):`, error);
+  }
+};
+
+export const merchantStatusService = {
+  /**
+   * Move a merchant through the lifecycle
+   * - The transition must be allowed from the current status (409 otherwise)
+   * - Reject and suspend need a reason; suspending signs the merchant out everywhere
+   * - Every transition is recorded in merchant_status_history
+   */
+  async transition(
+    merchantId: string,
+    action: MerchantStatusAction,
+    actor: MerchantStatusActor,
+    input: MerchantStatusTransitionInput = {}
+  ) {
+    const transition = MERCHANT_STATUS_TRANSITIONS[action];
+    const merchant = await getMerchant(merchantId);
+    const fromStatus = merchant.status as MerchantStatus;
+    const reason = input.reason?.trim() || null;
+
+    if (!transition.from.includes(fromStatus)) {
+      throw new ConflictError(`Cannot ${action} a merchant in status ${fromStatus}`);
+    }
+    if (transition.reasonRequired && !reason) {
+      throw new ValidationError(`A reason is required to ${action} a merchant`);
+    }
+    if (actor.type === 'merchant' && action !== 'submit') {
+      throw new ForbiddenError('Merchants can only submit their application for review');
+    }
+
+    if (action === 'submit') {
+      await assertReadyForReview(merchant);
+    }
+    if (action === 'approve') {
+      if (actor.adminId) {
+        await assertNotSubmitter(merchant.id, actor.adminId);
+      }
+      await assertDocumentsVerified(merchant.id);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Only move from the status that was checked - a concurrent transition wins
+      const { count } = await tx.merchantsMaster.updateMany({
+        where: { id: merchant.id, status: fromStatus },
+        data: {
+          ...transition.flags,
+          status: transition.to,
+          statusReason: reason,
+          statusChangedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new ConflictError('Merchant status was changed by someone else. Reload and try again.');
+      }
+
+      await tx.merchantStatusHistory.create({
+        data: {
+          merchantId: merchant.id,
+          action,
+          fromStatus,
+          toStatus: transition.to,
+          reason,
+          actorType: actor.type,
+          adminId: actor.adminId ?? null,
+        },
+      });
+    });
+
+    if (action === 'suspend') {
+      await tokenService.revokeAllSessions('merchant', merchant.id);
+    }
+
+    logger.info(
+      `[Merchant Status Service] Merchant ${merchantId} ${fromStatus} -> ${transition.to} (${action} by ${actor.type}${actor.adminId ? ` ${actor.adminId}` : ''})`
+    );
+
+    await notifyMerchant(merchant, action, reason);
+
+    const updated = await getMerchant(merchantId);
+
+    return {
+      success: true,
+      message: `Merchant status changed from ${fromStatus} to ${transition.to}`,
+      merchant: {
+        ...updated,
+        availableActions: getAvailableStatusActions(updated.status),
+      },
+    };
+  },
+
+  /**
+   * Current status with the full transition history, newest first
+   */
+  async getStatus(merchantId: string) {
+    const merchant = await getMerchant(merchantId);
+
+    const history = await prisma.merchantStatusHistory.findMany({
+      where: { merchantId: merchant.id },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        action: true,
+        fromStatus: true,
+        toStatus: true,
+        reason: true,
+        actorType: true,
+        admin: { select: { id: true, email: true, name: true } },
+        createdAt: true,
+      },
+    });
+
+    return {
+      success: true,
+      merchant: {
+        ...merchant,
+        availableActions: getAvailableStatusActions(merchant.status),
+      },
+      history,
+    };
+  },
+
+  /**
+   * Status as the merchant sees it - no reviewer details
+   */
+  async getOwnStatus(merchantId: string) {
+    const merchant = await getMerchant(merchantId);
+
+    return {
+      success: true,
+      status: merchant.status,
+      statusReason: merchant.statusReason,
+      statusChangedAt: merchant.statusChangedAt,
+      canSubmitForReview: MERCHANT_STATUS_TRANSITIONS.submit.from.includes(merchant.status as MerchantStatus),
+    };
+  },
+};
@@ -0,0 +1,211 @@
+import { PrismaClient } from '@prisma/client';
+import { comparePassword, logger } from '@tsp/common';
+import {
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  PreconditionRequiredError,
+} from '@tsp/common';
+import { otpService } from './otp.service';
+
+const prisma = new PrismaClient();
+
+// Second factor asked for at sign-in while 2FA is on
+export type MfaFactor = 'sms' | 'totp';
+
+export interface MfaEnableInput {
+  password: string;
+}
+
+export interface MfaDisableRequestInput {
+  password: string;
+}
+
+export interface MfaDisableVerifyInput {
+  otp: string;
+}
+
+export interface MfaFactorInput {
+  factor: MfaFactor;
+  password: string;
+}
+
+/**
+ * Load merchant with the 2FA fields, or throw
+ */
+const getMerchant = async (merchantId: number) => {
+  const merchant = await prisma.merchantsMaster.findUnique({
+    where: { id: merchantId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      mobile: true,
+      password: true,
+      is2faActive: true,
+      mfaMethod: true,
+      totpSecret: true,
+    },
+  });
+
+  if (!merchant) {
+    throw new NotFoundError('Merchant');
+  }
+
+  return merchant;
+};
+
+const assertPassword = async (password: string, storedHash: string): Promise<void> => {
+  if (!(await comparePassword(password, storedHash))) {
+    throw new UnauthorizedError('Invalid password');
+  }
+};
+
+/**
+ * Factor sign-in actually uses (same rule as authService.signIn)
+ */
+const getEffectiveFactor = (merchant: { mfaMethod: string; totpSecret: string | null }): MfaFactor =>
+  merchant.mfaMethod === 'totp' && merchant.totpSecret ? 'totp' : 'sms';
+
+export const mfaService = {
+  /**
+   * Get sign-in 2FA settings
+   */
+  async getSettings(merchantId: number) {
+    const merchant = await getMerchant(merchantId);
+
+    return {
+      success: true,
+      enabled: merchant.is2faActive,
+      factor: getEffectiveFactor(merchant),
+      authenticatorEnrolled: !!merchant.totpSecret,
+    };
+  },
+
+  /**
+   * Turn sign-in 2FA on (password required)
+   */
+  async enable(merchantId: number, input: MfaEnableInput) {
+    const merchant = await getMerchant(merchantId);
+
+    await assertPassword(input.password, merchant.password);
+
+    if (merchant.is2faActive) {
+      return {
+        success: true,
+        message: 'Two-factor authentication is already enabled',
+        factor: getEffectiveFactor(merchant),
+      };
+    }
+
+    await prisma.merchantsMaster.update({
+      where: { id: merchantId },
+      data: { is2faActive: true },
+    });
+
+    logger.info(`[MFA Service] Two-factor authentication enabled for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: 'Two-factor authentication enabled',
+      factor: getEffectiveFactor(merchant),
+    };
+  },
+
+  /**
+   * Request turning sign-in 2FA off - OTP sent to the registered mobile
+   */
+  async requestDisable(merchantId: number, input: MfaDisableRequestInput) {
+    const merchant = await getMerchant(merchantId);
+
+    if (!merchant.is2faActive) {
+      throw new ValidationError('Two-factor authentication is already disabled');
+    }
+
+    await assertPassword(input.password, merchant.password);
+
+    const issued = await otpService.issue(
+      { type: 'merchant', email: merchant.email, name: merchant.name },
+      'mfa_disable',
+      'sms',
+      merchant.mobile
+    );
+
+    if (!issued.sent) {
+      throw new ValidationError(`Please wait ${issued.retryAfter} seconds before requesting a new OTP`);
+    }
+
+    return {
+      success: true,
+      message: 'OTP sent to your registered mobile number. Confirm it to disable two-factor authentication.',
+      expiresIn: issued.expiresIn,
+    };
+  },
+
+  /**
+   * Turn sign-in 2FA off with the OTP
+   * An enrolled authenticator app is kept and used again once 2FA is re-enabled
+   */
+  async verifyDisable(merchantId: number, input: MfaDisableVerifyInput) {
+    const merchant = await getMerchant(merchantId);
+
+    if (!merchant.is2faActive) {
+      throw new ValidationError('Two-factor authentication is already disabled');
+    }
+
+    const otpMatch = await otpService.verify(
+      { type: 'merchant', email: merchant.email },
+      'mfa_disable',
+      'sms',
+      input.otp
+    );
+
+    if (!otpMatch) {
+      throw new UnauthorizedError('Invalid or expired OTP');
+    }
+
+    await otpService.consume(otpMatch);
+
+    await prisma.merchantsMaster.update({
+      where: { id: merchantId },
+      data: { is2faActive: false },
+    });
+
+    logger.warn(`[MFA Service] Two-factor authentication disabled for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: 'Two-factor authentication disabled. Sign-in will only ask for your password.',
+    };
+  },
+
+  /**
+   * Choose the sign-in factor (password required)
+   * The authenticator app must be enrolled first (/api/auth/mfa/totp/setup)
+   */
+  async setFactor(merchantId: number, input: MfaFactorInput) {
+    const merchant = await getMerchant(merchantId);
+
+    await assertPassword(input.password, merchant.password);
+
+    if (input.factor === 'totp' && !merchant.totpSecret) {
+      throw new PreconditionRequiredError('Authenticator app is not enrolled. Set it up before choosing it as the sign-in factor.');
+    }
+
+    await prisma.merchantsMaster.update({
+      where: { id: merchantId },
+      data: { mfaMethod: input.factor },
+    });
+
+    logger.info(`[MFA Service] Sign-in factor set to ${input.factor} for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: input.factor === 'totp'
+        ? 'Sign-in will ask for a code from your authenticator app.'
+        : 'Sign-in will ask for an OTP sent to your registered mobile number.',
+      enabled: merchant.is2faActive,
+      factor: input.factor,
+    };
+  },
+};
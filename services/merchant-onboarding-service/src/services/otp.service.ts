@@ -0,0 +1,244 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  generateOtp,
+  createOtpHasher,
+  MAX_OTP_ATTEMPTS,
+  AppError,
+  UnauthorizedError,
+  logger,
+} from '@tsp/common';
+import { sendOtpEmail } from './email.service';
+import { sendOtpSms } from './sms.service';
+import { config } from '../config';
+
+const prisma = new PrismaClient();
+const otpHasher = createOtpHasher(config.otp.hashSecret, 'OTP_HASH_SECRET');
+
+// What a code authorizes - a code only verifies for the purpose it was issued for
+export type OtpPurpose =
+  | 'activation' // Email/mobile verification during account activation
+  | 'login' // Second factor at sign-in
+  | 'password_reset'
+  | 'contact_change' // Email/mobile change (current and new channel)
+  | 'account_unlock' // Unlock after failed sign-in lockout
+  | 'ip_allowlist_change' // Self-service change of the server-to-server IP allowlist
+  | 'tpin_reset' // Transaction PIN reset (also unlocks a locked TPIN)
+  | 'mfa_disable' // Confirms turning off sign-in 2FA
+  | 'transaction_approval';
+
+export type OtpChannel = 'email' | 'sms';
+
+// Merchant codes are keyed by email (the OTP table's foreign key), admin codes by admin ID
+export type OtpSubject =
+  | { type: 'merchant'; email: string; name?: string }
+  | { type: 'admin'; adminId: number; email: string; name?: string };
+
+interface OtpPurposePolicy {
+  ttlSeconds: number;
+  resendCooldownSeconds: number;
+}
+
+const OTP_PURPOSE_POLICIES: Record<OtpPurpose, OtpPurposePolicy> = {
+  activation: { ttlSeconds: 10 * 60, resendCooldownSeconds: 60 },
+  login: { ttlSeconds: 5 * 60, resendCooldownSeconds: 60 },
+  password_reset: { ttlSeconds: 10 * 60, resendCooldownSeconds: 60 },
+  contact_change: { ttlSeconds: 10 * 60, resendCooldownSeconds: 60 },
+  account_unlock: { ttlSeconds: 10 * 60, resendCooldownSeconds: 60 },
+  ip_allowlist_change: { ttlSeconds: 10 * 60, resendCooldownSeconds: 60 },
+  tpin_reset: { ttlSeconds: 10 * 60, resendCooldownSeconds: 60 },
+  mfa_disable: { ttlSeconds: 10 * 60, resendCooldownSeconds: 60 },
+  transaction_approval: { ttlSeconds: 3 * 60, resendCooldownSeconds: 30 },
+};
+
+export interface IssuedOtp {
+  sent: boolean; // false while the resend cooldown is running (the previous code stays valid)
+  expiresIn: number; // Lifetime of the code in seconds
+  retryAfter?: number; // Seconds until a new code can be issued (only when not sent)
+}
+
+// Reference to a matched code - passed to consume() once the caller's checks pass
+export interface OtpMatch {
+  subjectType: OtpSubject['type'];
+  id: number;
+}
+
+const findLatestActive = async (
+  subject: OtpSubject,
+  purpose: OtpPurpose,
+  channel: OtpChannel,
+  destination?: string
+) => {
+  // Scope of a code: subject + purpose + channel (+ destination when given)
+  const where = {
+    purpose,
+    channel,
+    ...(destination ? { destination } : {}),
+    isUsed: false,
+    attempts: {
+      lt: MAX_OTP_ATTEMPTS,
+    },
+    expiresAt: {
+      gt: new Date(),
+    },
+  };
+  const orderBy = { createdAt: 'desc' as const };
+
+  if (subject.type === 'merchant') {
+    return prisma.merchantOtp.findFirst({
+      where: { ...where, email: subject.email },
+      orderBy,
+    });
+  }
+
+  return prisma.adminOtp.findFirst({
+    where: { ...where, adminId: subject.adminId },
+    orderBy,
+  });
+};
+
+const markUsed = async (subjectType: OtpSubject['type'], ids: number[]): Promise<void> => {
+  if (subjectType === 'merchant') {
+    await prisma.merchantOtp.updateMany({ where: { id: { in: ids } }, data: { isUsed: true } });
+  } else {
+    await prisma.adminOtp.updateMany({ where: { id: { in: ids } }, data: { isUsed: true } });
+  }
+};
+
+export const otpService = {
+  /**
+   * Issue a code for a purpose and send it over the channel
+   * Older unused codes of the same scope are invalidated; within the resend cooldown
+   * nothing is sent and the previous code stays valid
+   */
+  async issue(
+    subject: OtpSubject,
+    purpose: OtpPurpose,
+    channel: OtpChannel,
+    destination: string
+  ): Promise<IssuedOtp> {
+    const policy = OTP_PURPOSE_POLICIES[purpose];
+
+    const latest = await findLatestActive(subject, purpose, channel, destination);
+    if (latest) {
+      const secondsSinceIssue = Math.floor((Date.now() - latest.createdAt.getTime()) / 1000);
+      if (secondsSinceIssue < policy.resendCooldownSeconds) {
+        return {
+          sent: false,
+          expiresIn: Math.max(0, Math.floor((latest.expiresAt.getTime() - Date.now()) / 1000)),
+          retryAfter: policy.resendCooldownSeconds - secondsSinceIssue,
+        };
+      }
+    }
+
+    await otpService.invalidate(subject, purpose, channel, destination);
+
+    const otp = generateOtp();
+    const expiresAt = new Date(Date.now() + policy.ttlSeconds * 1000);
+    const data = {
+      otp: otpHasher.hash(otp),
+      purpose,
+      channel,
+      destination,
+      expiresAt,
+      isUsed: false,
+    };
+
+    const record = subject.type === 'merchant'
+      ? await prisma.merchantOtp.create({ data: { ...data, email: subject.email } })
+      : await prisma.adminOtp.create({ data: { ...data, adminId: subject.adminId, email: subject.email } });
+
+    try {
+      if (channel === 'email') {
+        await sendOtpEmail(destination, otp, subject.name);
+      } else {
+        await sendOtpSms(destination, otp, subject.name);
+      }
+      logger.info(`[OTP Service] ${purpose} OTP sent via ${channel} for ${subject.type} ${subject.email}`);
+    } catch (error: any) {
+      logger.error(`[OTP Service] Failed to send ${purpose} OTP via ${channel} for ${subject.type} ${subject.email}:`, error);
+      // Undelivered code must not hold the resend cooldown
+      await markUsed(subject.type, [record.id]);
+      throw new AppError(
+        503,
+        `${channel === 'email' ? 'Email' : 'SMS'} service temporarily unavailable. Please try again later or contact support.`
+      );
+    }
+
+    return {
+      sent: true,
+      expiresIn: policy.ttlSeconds,
+    };
+  },
+
+  /**
+   * Match a code against the latest active code of the scope
+   * Every wrong guess is counted on that code; it stops matching after MAX_OTP_ATTEMPTS.
+   * The code is not consumed - call consume() once the caller's own checks pass
+   */
+  async verify(
+    subject: OtpSubject,
+    purpose: OtpPurpose,
+    channel: OtpChannel,
+    otp: string,
+    destination?: string
+  ): Promise<OtpMatch | null> {
+    const record = await findLatestActive(subject, purpose, channel, destination);
+
+    if (!record) {
+      return null;
+    }
+
+    if (otpHasher.verify(otp, record.otp)) {
+      return { subjectType: subject.type, id: record.id };
+    }
+
+    if (subject.type === 'merchant') {
+      await prisma.merchantOtp.update({ where: { id: record.id }, data: { attempts: { increment: 1 } } });
+    } else {
+      await prisma.adminOtp.update({ where: { id: record.id }, data: { attempts: { increment: 1 } } });
+    }
+
+    return null;
+  },
+
+  /**
+   * Mark matched codes as used
+   * Each code is claimed with a conditional update - a code another request consumed
+   * since verify() fails the whole call, so one code can't authorize two requests
+   */
+  async consume(...matches: OtpMatch[]): Promise<void> {
+    for (const match of matches) {
+      const where = { id: match.id, isUsed: false };
+      const { count } = match.subjectType === 'merchant'
+        ? await prisma.merchantOtp.updateMany({ where, data: { isUsed: true } })
+        : await prisma.adminOtp.updateMany({ where, data: { isUsed: true } });
+
+      if (count !== 1) {
+        throw new UnauthorizedError('Invalid or expired OTP');
+      }
+    }
+  },
+
+  /**
+   * Invalidate unused codes of a purpose (optionally narrowed to a channel/destination)
+   */
+  async invalidate(
+    subject: OtpSubject,
+    purpose: OtpPurpose,
+    channel?: OtpChannel,
+    destination?: string
+  ): Promise<void> {
+    const scope = {
+      purpose,
+      ...(channel ? { channel } : {}),
+      ...(destination ? { destination } : {}),
+      isUsed: false,
+    };
+
+    if (subject.type === 'merchant') {
+      await prisma.merchantOtp.updateMany({ where: { ...scope, email: subject.email }, data: { isUsed: true } });
+    } else {
+      await prisma.adminOtp.updateMany({ where: { ...scope, adminId: subject.adminId }, data: { isUsed: true } });
+    }
+  },
+};
@@ -0,0 +1,699 @@
+import { PrismaClient } from '@prisma/client';
+import { MerchantStatus } from '@tsp/types';
+import { normalizeIpAllowlist, normalizePan, normalizeGstin, logger } from '@tsp/common';
+import {
+  ValidationError,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+} from '@tsp/common';
+import { adminService, UpdateMerchantProfileInput } from './admin.service';
+import {
+  merchantStatusService,
+  MERCHANT_STATUS_TRANSITIONS,
+  MerchantStatusAction,
+  MerchantStatusTransitionInput,
+} from './merchantStatus.service';
+import { sendPendingChangeEmail } from './email.service';
+import { ADMIN_ROLE_PERMISSIONS, AdminPermission, AdminRole, hasAdminPermission } from '../middleware/adminAuth.middleware';
+import { config } from '../config';
+
+const prisma = new PrismaClient();
+
+export type PendingChangeAction =
+  | 'merchant_profile_update'
+  | 'merchant_disable'
+  | 'merchant_enable'
+  | 'merchant_suspend' // Lifecycle status APPROVED -> SUSPENDED (also disables the account and settlement)
+  | 'merchant_reinstate'; // Lifecycle status SUSPENDED -> APPROVED (re-enables the account)
+
+// expired: not reviewed within PENDING_CHANGE_TTL_HOURS; cancelled: withdrawn by the proposer
+export type PendingChangeStatus = 'pending' | 'approved' | 'rejected' | 'cancelled' | 'expired';
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export type ChangeDiff = Record<string, FieldChange>;
+
+export interface ProposeProfileUpdateInput extends UpdateMerchantProfileInput {
+  comment?: string; // Reason shown to the approver
+}
+
+export interface PendingChangeCommentInput {
+  comment?: string;
+}
+
+export interface RejectPendingChangeInput {
+  comment: string; // Rejections must say why
+}
+
+export interface ListPendingChangesInput {
+  page?: number;
+  limit?: number;
+  status?: PendingChangeStatus;
+  action?: PendingChangeAction;
+  merchantId?: string;
+}
+
+// Profile fields an update can change (everything in UpdateMerchantProfileInput)
+const PROFILE_FIELDS: Array<keyof UpdateMerchantProfileInput> = [
+  'typeOfEntity',
+  'pan',
+  'incorporationDate',
+  'gst',
+  'businessAddress',
+  'registrationNumber',
+  'mccCodes',
+  'directorDetails',
+  'shareholdingPatterns',
+  'uboDetails',
+  'accountDetails',
+  'whitelistedIps',
+  'apDetails',
+  'averageTicketSize',
+  'averageVolume',
+  'expectedTurnover',
+  'turnoverDoneTillDate',
+  'numberOfTransactionsDone',
+];
+
+// Disable and enable conflict with each other - only one status change can be pending
+const STATUS_ACTIONS: PendingChangeAction[] = ['merchant_disable', 'merchant_enable', 'merchant_suspend', 'merchant_reinstate'];
+
+// Lifecycle transitions that go through approval, by pending change action
+const STATUS_TRANSITION_ACTIONS: Partial<Record<PendingChangeAction, MerchantStatusAction>> = {
+  merchant_suspend: 'suspend',
+  merchant_reinstate: 'reinstate',
+};
+
+// Permission needed to propose each action - also needed to withdraw it
+const ACTION_PERMISSIONS: Record<PendingChangeAction, AdminPermission> = {
+  merchant_profile_update: 'merchant:update',
+  merchant_disable: 'merchant:disable',
+  merchant_enable: 'merchant:disable',
+  merchant_suspend: 'merchant:disable',
+  merchant_reinstate: 'merchant:disable',
+};
+
+const adminSummarySelect = { id: true, email: true, name: true } as const;
+
+/**
+ * JSON with sorted object keys, so equal JSON values compare equal
+ */
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value ?? null, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.keys(nested).sort().reduce((sorted: Record<string, unknown>, key) => {
+        sorted[key] = nested[key];
+        return sorted;
+      }, {})
+      : nested
+  );
+
+const isSameValue = (a: unknown, b: unknown): boolean => stableStringify(a) === stableStringify(b);
+
+/**
+ * Stored profile value in the form updates use (dates as YYYY-MM-DD, decimals as numbers)
+ */
+const toComparableValue = (value: unknown): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value === 'object' && typeof (value as any).toNumber === 'function') {
+    return (value as any).toNumber(); // Prisma Decimal
+  }
+  return value;
+};
+
+/**
+ * Proposed value normalized the way updateMerchantProfile stores it
+ */
+const normalizeProposedValue = (field: keyof UpdateMerchantProfileInput, value: unknown): unknown => {
+  if (value === null) {
+    return null;
+  }
+  if (field === 'incorporationDate') {
+    const date = new Date(value as string);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError('incorporationDate must be a valid date');
+    }
+    return date.toISOString().slice(0, 10);
+  }
+  if (field === 'whitelistedIps') {
+    return normalizeIpAllowlist(value);
+  }
+  if (field === 'pan') {
+    return normalizePan(value as string);
+  }
+  if (field === 'gst') {
+    return normalizeGstin(value as string);
+  }
+  return value;
+};
+
+const getProfile = (merchantId: string) =>
+  prisma.merchantProfile.findUnique({ where: { nineteenMerchantId: merchantId } });
+
+const getMerchant = async (merchantId: string) => {
+  const merchant = await prisma.merchantsMaster.findUnique({
+    where: { nineteenMerchantId: merchantId },
+    select: { id: true, email: true, nineteenMerchantId: true, isActive: true, status: true },
+  });
+
+  if (!merchant) {
+    throw new NotFoundError('Merchant');
+  }
+
+  return merchant;
+};
+
+/**
+ * Human readable summary for the queue and notifications
+ */
+const describeChange = (change: { action: string; merchantId: string; diff: unknown }): string => {
+  if (change.action === 'merchant_disable') {
+    return `Disable merchant ${change.merchantId}`;
+  }
+  if (change.action === 'merchant_enable') {
+    return `Enable merchant ${change.merchantId}`;
+  }
+  if (change.action === 'merchant_suspend') {
+    return `Suspend merchant ${change.merchantId}`;
+  }
+  if (change.action === 'merchant_reinstate') {
+    return `Reinstate merchant ${change.merchantId}`;
+  }
+  return `Update profile of merchant ${change.merchantId} (${Object.keys(change.diff as ChangeDiff).join(', ')})`;
+};
+
+/**
+ * Mark pending changes past their expiry as expired (checked lazily on every queue operation)
+ */
+const expireStaleChanges = async (): Promise<void> => {
+  const { count } = await prisma.adminPendingChange.updateMany({
+    where: { status: 'pending', expiresAt: { lt: new Date() } },
+    data: { status: 'expired' },
+  });
+
+  if (count > 0) {
+    logger.info(`[Pending Change Service] ${count} pending change(s) expired`);
+  }
+};
+
+const findChange = async (changeId: number) => {
+  const change = await prisma.adminPendingChange.findUnique({
+    where: { id: changeId },
+    include: {
+      requestedBy: { select: adminSummarySelect },
+      reviewedBy: { select: adminSummarySelect },
+    },
+  });
+
+  if (!change) {
+    throw new NotFoundError('Pending change');
+  }
+
+  return change;
+};
+
+type PendingChangeRecord = Awaited<ReturnType<typeof findChange>>;
+
+const toPendingChangeResponse = (change: PendingChangeRecord) => ({
+  id: change.id,
+  action: change.action,
+  merchantId: change.merchantId,
+  summary: describeChange(change),
+  diff: change.diff,
+  status: change.status,
+  requestComment: change.requestComment,
+  reviewComment: change.reviewComment,
+  requestedBy: change.requestedBy,
+  reviewedBy: change.reviewedBy,
+  reviewedAt: change.reviewedAt,
+  expiresAt: change.expiresAt,
+  createdAt: change.createdAt,
+});
+
+/**
+ * Reject a proposal while another change of the same kind is waiting for review
+ */
+const assertNoPendingChange = async (merchantId: string, actions: PendingChangeAction[]): Promise<void> => {
+  const pending = await prisma.adminPendingChange.findFirst({
+    where: { merchantId, action: { in: actions }, status: 'pending' },
+    select: { id: true },
+  });
+
+  if (pending) {
+    throw new ConflictError(`Change #${pending.id} for this merchant is already awaiting approval`);
+  }
+};
+
+/**
+ * Values the diff was computed from must still be current - otherwise the approver
+ * would be approving something different from what is applied
+ */
+const assertDiffIsCurrent = async (change: PendingChangeRecord): Promise<void> => {
+  const diff = change.diff as unknown as ChangeDiff;
+
+  if (change.action === 'merchant_profile_update') {
+    const profile: Record<string, unknown> | null = await getProfile(change.merchantId);
+    const stale = Object.keys(diff).filter(
+      (field) => !isSameValue(toComparableValue(profile?.[field]), diff[field].from)
+    );
+    if (stale.length > 0) {
+      throw new ConflictError(`Merchant profile changed since this was proposed (${stale.join(', ')}). Reject it and propose again.`);
+    }
+    return;
+  }
+
+  const merchant = await getMerchant(change.merchantId);
+  if (merchant.isActive !== diff.isActive.from || (diff.status && merchant.status !== diff.status.from)) {
+    throw new ConflictError('Merchant status changed since this was proposed. Reject it and propose again.');
+  }
+};
+
+/**
+ * Apply an approved change with the same service calls the direct endpoints used
+ */
+const applyChange = (change: PendingChangeRecord, reviewerId: number) => {
+  switch (change.action) {
+    case 'merchant_disable':
+      return adminService.disableMerchantAccount(change.merchantId);
+    case 'merchant_enable':
+      return adminService.enableMerchantAccount(change.merchantId);
+    case 'merchant_suspend':
+    case 'merchant_reinstate':
+      // Status history records the approving admin; the proposer is on the pending change
+      return merchantStatusService.transition(
+        change.merchantId,
+        STATUS_TRANSITION_ACTIONS[change.action]!,
+        { type: 'admin', adminId: reviewerId },
+        change.payload as MerchantStatusTransitionInput
+      );
+    default:
+      return adminService.updateMerchantProfile(change.merchantId, change.payload as UpdateMerchantProfileInput);
+  }
+};
+
+/**
+ * Email every other admin who can approve - notification failures don't block the proposal
+ */
+const notifyApprovers = async (change: PendingChangeRecord): Promise<void> => {
+  const approverRoles = (Object.keys(ADMIN_ROLE_PERMISSIONS) as AdminRole[]).filter((role) =>
+    hasAdminPermission(role, 'change:approve')
+  );
+
+  const approvers = await prisma.admin.findMany({
+    where: {
+      role: { in: approverRoles },
+      isActive: true,
+      passwordResetRequired: false,
+      id: { not: change.requestedById },
+    },
+    select: { email: true, name: true },
+  });
+
+  await Promise.all(
+    approvers.map((approver) =>
+      sendPendingChangeEmail(approver.email, {
+        name: approver.name,
+        event: 'proposed',
+        changeId: change.id,
+        summary: describeChange(change),
+        actorName: change.requestedBy.name,
+        comment: change.requestComment,
+      }).catch((error: any) => {
+        logger.error(`[Pending Change Service] Failed to notify ${approver.email} of change #${change.id}:`, error);
+      })
+    )
+  );
+};
+
+/**
+ * Tell the proposer the outcome of their change
+ */
+const notifyRequester = async (change: PendingChangeRecord, event: 'approved' | 'rejected'): Promise<void> => {
+  try {
+    await sendPendingChangeEmail(change.requestedBy.email, {
+      name: change.requestedBy.name,
+      event,
+      changeId: change.id,
+      summary: describeChange(change),
+      actorName: change.reviewedBy?.name || 'An admin',
+      comment: change.reviewComment,
+    });
+  } catch (error: any) {
+    logger.error(`[Pending Change Service] Failed to notify ${change.requestedBy.email} of change #${change.id}:`, error);
+  }
+};
+
+/**
+ * Store a proposal and notify the approvers
+ */
+const createChange = async (
+  requestedById: number,
+  action: PendingChangeAction,
+  merchantId: string,
+  payload: object,
+  diff: ChangeDiff,
+  comment?: string
+) => {
+  const created = await prisma.adminPendingChange.create({
+    data: {
+      action,
+      merchantId,
+      payload,
+      diff: diff as object,
+      requestedById,
+      requestComment: comment || null,
+      expiresAt: new Date(Date.now() + config.makerChecker.pendingChangeTtlHours * 60 * 60 * 1000),
+    },
+  });
+
+  const change = await findChange(created.id);
+
+  logger.info(`[Pending Change Service] Change #${change.id} proposed by admin ${requestedById}: ${describeChange(change)}`);
+
+  await notifyApprovers(change);
+
+  return {
+    success: true,
+    message: 'Change submitted for approval by another admin',
+    pendingChange: toPendingChangeResponse(change),
+  };
+};
+
+export const pendingChangeService = {
+  /**
+   * Propose a merchant profile update - only fields that actually change are kept
+   */
+  async proposeProfileUpdate(requestedById: number, merchantId: string, input: ProposeProfileUpdateInput) {
+    await getMerchant(merchantId);
+    await expireStaleChanges();
+    await assertNoPendingChange(merchantId, ['merchant_profile_update']);
+
+    const profile: Record<string, unknown> | null = await getProfile(merchantId);
+    const payload: Record<string, unknown> = {};
+    const diff: ChangeDiff = {};
+
+    for (const field of PROFILE_FIELDS) {
+      if (input[field] === undefined) {
+        continue;
+      }
+
+      const to = normalizeProposedValue(field, input[field]);
+      const from = toComparableValue(profile?.[field]);
+
+      if (!isSameValue(from, to)) {
+        diff[field] = { from, to };
+        payload[field] = to;
+      }
+    }
+
+    if (Object.keys(diff).length === 0) {
+      throw new ValidationError('No changes to the merchant profile');
+    }
+
+    return createChange(requestedById, 'merchant_profile_update', merchantId, payload, diff, input.comment);
+  },
+
+  /**
+   * Propose disabling or enabling a merchant account
+   * Returns without a proposal when the account is already in that state
+   */
+  async proposeStatusChange(
+    requestedById: number,
+    merchantId: string,
+    isActive: boolean,
+    input: PendingChangeCommentInput = {}
+  ) {
+    const merchant = await getMerchant(merchantId);
+
+    if (merchant.isActive === isActive) {
+      return {
+        success: true,
+        message: `Merchant account is already ${isActive ? 'enabled' : 'disabled'}`,
+        merchant: {
+          id: merchant.id,
+          merchantId: merchant.nineteenMerchantId,
+          email: merchant.email,
+          isActive,
+        },
+      };
+    }
+
+    if (isActive && merchant.status === MerchantStatus.SUSPENDED) {
+      throw new ConflictError('Merchant is suspended. Reinstate it instead of enabling the account.');
+    }
+
+    await expireStaleChanges();
+    await assertNoPendingChange(merchantId, STATUS_ACTIONS);
+
+    return createChange(
+      requestedById,
+      isActive ? 'merchant_enable' : 'merchant_disable',
+      merchantId,
+      { isActive },
+      { isActive: { from: merchant.isActive, to: isActive } },
+      input.comment
+    );
+  },
+
+  /**
+   * Propose suspending or reinstating a merchant - they change account access, so one admin can't do it alone
+   * The transition is checked now and again when it is applied
+   */
+  async proposeStatusTransition(
+    requestedById: number,
+    merchantId: string,
+    action: 'suspend' | 'reinstate',
+    input: MerchantStatusTransitionInput = {}
+  ) {
+    const merchant = await getMerchant(merchantId);
+    const transition = MERCHANT_STATUS_TRANSITIONS[action];
+    const reason = input.reason?.trim() || null;
+
+    if (!transition.from.includes(merchant.status as MerchantStatus)) {
+      throw new ConflictError(`Cannot ${action} a merchant in status ${merchant.status}`);
+    }
+    if (transition.reasonRequired && !reason) {
+      throw new ValidationError(`A reason is required to ${action} a merchant`);
+    }
+
+    await expireStaleChanges();
+    await assertNoPendingChange(merchantId, STATUS_ACTIONS);
+
+    const isActive = action === 'reinstate';
+
+    return createChange(
+      requestedById,
+      action === 'suspend' ? 'merchant_suspend' : 'merchant_reinstate',
+      merchantId,
+      { reason },
+      {
+        status: { from: merchant.status, to: transition.to },
+        isActive: { from: merchant.isActive, to: isActive },
+      },
+      reason || undefined
+    );
+  },
+
+  /**
+   * Approval queue - pending changes first by default, newest first
+   */
+  async listChanges(input: ListPendingChangesInput) {
+    await expireStaleChanges();
+
+    const page = input.page || 1;
+    const limit = Math.min(input.limit || 20, 100); // Max 100 per page
+    const skip = (page - 1) * limit;
+
+    const where: any = { status: input.status || 'pending' };
+    if (input.action) {
+      where.action = input.action;
+    }
+    if (input.merchantId) {
+      where.merchantId = input.merchantId;
+    }
+
+    const [changes, total] = await Promise.all([
+      prisma.adminPendingChange.findMany({
+        where,
+        skip,
+        take: limit,
+        include: {
+          requestedBy: { select: adminSummarySelect },
+          reviewedBy: { select: adminSummarySelect },
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+      }),
+      prisma.adminPendingChange.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      pendingChanges: changes.map(toPendingChangeResponse),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  },
+
+  /**
+   * Get a change with its diff
+   */
+  async getChange(changeId: number) {
+    await expireStaleChanges();
+
+    return {
+      success: true,
+      pendingChange: toPendingChangeResponse(await findChange(changeId)),
+    };
+  },
+
+  /**
+   * Approve and apply a change - the approver must not be the proposer
+   */
+  async approveChange(reviewerId: number, changeId: number, input: PendingChangeCommentInput = {}) {
+    await expireStaleChanges();
+
+    const change = await findChange(changeId);
+
+    if (change.status !== 'pending') {
+      throw new ConflictError(`Change is already ${change.status}`);
+    }
+    if (change.requestedById === reviewerId) {
+      throw new ForbiddenError('A change must be approved by a different admin than the one who proposed it');
+    }
+
+    await assertDiffIsCurrent(change);
+
+    // Claim the change first so two approvers can't both apply it
+    const { count } = await prisma.adminPendingChange.updateMany({
+      where: { id: changeId, status: 'pending' },
+      data: {
+        status: 'approved',
+        reviewedById: reviewerId,
+        reviewComment: input.comment || null,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictError('Change was reviewed by another admin');
+    }
+
+    let applied;
+    try {
+      applied = await applyChange(change, reviewerId);
+    } catch (error) {
+      // Not applied - put it back in the queue
+      await prisma.adminPendingChange.update({
+        where: { id: changeId },
+        data: { status: 'pending', reviewedById: null, reviewComment: null, reviewedAt: null },
+      });
+      throw error;
+    }
+
+    const approved = await findChange(changeId);
+
+    logger.warn(`[Pending Change Service] Change #${changeId} approved by admin ${reviewerId} and applied: ${describeChange(approved)}`);
+
+    await notifyRequester(approved, 'approved');
+
+    return {
+      success: true,
+      message: 'Change approved and applied',
+      pendingChange: toPendingChangeResponse(approved),
+      result: 'profile' in applied ? applied.profile : applied.merchant,
+    };
+  },
+
+  /**
+   * Reject a change with a reason
+   */
+  async rejectChange(reviewerId: number, changeId: number, input: RejectPendingChangeInput) {
+    await expireStaleChanges();
+
+    const change = await findChange(changeId);
+
+    if (change.status !== 'pending') {
+      throw new ConflictError(`Change is already ${change.status}`);
+    }
+    if (change.requestedById === reviewerId) {
+      throw new ForbiddenError('Withdraw your own change with cancel instead of rejecting it');
+    }
+
+    const { count } = await prisma.adminPendingChange.updateMany({
+      where: { id: changeId, status: 'pending' },
+      data: {
+        status: 'rejected',
+        reviewedById: reviewerId,
+        reviewComment: input.comment,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictError('Change was reviewed by another admin');
+    }
+
+    const rejected = await findChange(changeId);
+
+    logger.info(`[Pending Change Service] Change #${changeId} rejected by admin ${reviewerId}`);
+
+    await notifyRequester(rejected, 'rejected');
+
+    return {
+      success: true,
+      message: 'Change rejected',
+      pendingChange: toPendingChangeResponse(rejected),
+    };
+  },
+
+  /**
+   * Withdraw a pending change (proposer only)
+   */
+  async cancelChange(adminId: number, adminRole: string, changeId: number) {
+    await expireStaleChanges();
+
+    const change = await findChange(changeId);
+
+    if (change.requestedById !== adminId) {
+      throw new ForbiddenError('Only the admin who proposed a change can cancel it');
+    }
+
+    // A proposer whose role has since lost the permission can't act on the change any more
+    const permission = ACTION_PERMISSIONS[change.action as PendingChangeAction];
+    if (!hasAdminPermission(adminRole, permission)) {
+      throw new ForbiddenError(`Your role does not have permission for this action (${permission})`);
+    }
+
+    const { count } = await prisma.adminPendingChange.updateMany({
+      where: { id: changeId, status: 'pending' },
+      data: { status: 'cancelled' },
+    });
+
+    if (count === 0) {
+      throw new ConflictError('Change is no longer pending');
+    }
+
+    logger.info(`[Pending Change Service] Change #${changeId} cancelled by admin ${adminId}`);
+
+    return {
+      success: true,
+      message: 'Change cancelled',
+      pendingChange: toPendingChangeResponse(await findChange(changeId)),
+    };
+  },
+};
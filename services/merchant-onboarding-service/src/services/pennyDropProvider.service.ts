@@ -0,0 +1,139 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { logger } from '@tsp/common';
+import { config } from '../config';
+
+export type PennyDropProviderName = 'surepass' | 'mock';
+
+export interface PennyDropInput {
+  accountNumber: string; // Already normalized
+  ifsc: string; // Already normalized, known bank code
+  holderName: string; // As entered by the merchant - the mock bank echoes it back, Surepass ignores it
+}
+
+// What the bank reported for the Re 1 credit
+export interface PennyDropResult {
+  accountExists: boolean;
+  registeredName: string | null; // Beneficiary name on the account
+  reference: string | null; // Bank / provider transaction reference
+  failureReason: string | null; // Why the credit failed, when it did
+}
+
+export interface PennyDropProvider {
+  name: PennyDropProviderName;
+  verify(input: PennyDropInput): Promise<PennyDropResult>;
+}
+
+let provider: PennyDropProvider | null = null;
+
+/**
+ * Surepass bank verification adapter (IMPS penny drop)
+ * Invalid or closed accounts come back as 422 or account_exists=false; anything else is thrown
+ */
+export const createSurepassPennyDropProvider = (options: typeof config.surepass): PennyDropProvider => {
+  if (!options.apiKey) {
+    throw new Error('[Penny Drop] SUREPASS_API_KEY is not set');
+  }
+
+  const client = axios.create({
+    baseURL: options.apiUrl,
+    timeout: options.timeoutMs,
+    headers: {
+      Authorization: `Bearer ${options.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  return {
+    name: 'surepass',
+
+    async verify({ accountNumber, ifsc }) {
+      let data: any;
+      try {
+        const response = await client.post('/api/v1/bank-verification/', { id_number: accountNumber, ifsc });
+        data = response.data?.data;
+      } catch (error: any) {
+        const status = error?.response?.status;
+        if (status === 422) {
+          return {
+            accountExists: false,
+            registeredName: null,
+            reference: error.response.data?.data?.client_id ?? null,
+            failureReason: error.response.data?.message || 'Account could not be credited',
+          };
+        }
+        throw new Error(`[Penny Drop] Surepass bank verification failed${status ? ` with HTTP ${status}` : ''}: ${error?.message}`);
+      }
+
+      if (!data?.account_exists) {
+        return {
+          accountExists: false,
+          registeredName: null,
+          reference: data?.client_id ?? null,
+          failureReason: data?.remarks || 'Account does not exist',
+        };
+      }
+
+      return {
+        accountExists: true,
+        registeredName: data.full_name || null,
+        reference: data.imps_ref || data.client_id || null,
+        failureReason: null,
+      };
+    },
+  };
+};
+
+/**
+ * Deterministic mock bank for development and tests - no money moves
+ * - account number ending 0000: account does not exist
+ * - ending 1111: account held under an unrelated name (name mismatch)
+ * - ending 9999: bank unreachable (throws, the account stays PENDING)
+ * - anything else: account exists under the holder name entered
+ */
+export const createMockPennyDropProvider = (): PennyDropProvider => ({
+  name: 'mock',
+
+  async verify({ accountNumber, holderName }) {
+    const scenario = accountNumber.slice(-4);
+    const reference = `MOCK${crypto.randomBytes(6).toString('hex').toUpperCase()}`;
+
+    if (scenario === '9999') {
+      throw new Error('[Penny Drop] Mock bank is unreachable');
+    }
+    if (scenario === '0000') {
+      return { accountExists: false, registeredName: null, reference, failureReason: 'Invalid account number' };
+    }
+
+    return {
+      accountExists: true,
+      registeredName: scenario === '1111' ? 'UNRELATED TRADERS PRIVATE LIMITED' : holderName.toUpperCase(),
+      reference,
+      failureReason: null,
+    };
+  },
+});
+
+/**
+ * Get the penny drop provider selected by PENNY_DROP_PROVIDER (created once)
+ */
+export const getPennyDropProvider = (): PennyDropProvider => {
+  if (!provider) {
+    const name = config.settlementAccounts.pennyDropProvider;
+
+    if (name === 'surepass') {
+      provider = createSurepassPennyDropProvider(config.surepass);
+      logger.info(`[Penny Drop] Using Surepass at ${config.surepass.apiUrl}`);
+    } else if (name === 'mock') {
+      if (config.nodeEnv === 'production') {
+        logger.warn('[Penny Drop] Mock bank in production - settlement accounts are not checked with any bank');
+      }
+      provider = createMockPennyDropProvider();
+      logger.info('[Penny Drop] Using the mock bank');
+    } else {
+      throw new Error(`[Penny Drop] Unknown PENNY_DROP_PROVIDER "${name}". Use "surepass" or "mock".`);
+    }
+  }
+
+  return provider;
+};
@@ -0,0 +1,267 @@
+import { extractIpAddress, TokenSubjectType, JWTPayload, logger } from '@tsp/common';
+import { NotFoundError } from '@tsp/common';
+import { getRedisClient } from './redis.service';
+import { tokenService, IssuedTokens } from './token.service';
+import { config } from '../config';
+
+// Sign-in location reported by the browser (required on merchant sign-in)
+export interface SignInLocation {
+  latitude: number;
+  longitude: number;
+  location: string; // City/state name
+}
+
+// Client details captured when a session starts
+export interface ClientContext {
+  ipAddress: string;
+  userAgent?: string;
+  auditSessionId?: string; // X-Session-Id assigned by audit middleware - links session to audit logs
+  location?: SignInLocation;
+}
+
+// Session registry entry - one per refresh token family
+interface SessionRecord {
+  sessionId: string; // Same as token family ID / JWT `sid` claim
+  subjectType: TokenSubjectType;
+  userId: number;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string;
+  lastSeenIp: string;
+  location: SignInLocation | null;
+  auditSessionId: string | null;
+  createdAt: number; // Unix timestamp (ms)
+  lastSeenAt: number; // Unix timestamp (ms)
+}
+
+// Completed sign-in, kept after the session ends - compared against new sign-ins by the risk check
+export interface SignInRecord {
+  at: number; // Unix timestamp (ms)
+  ipAddress: string;
+  device: string;
+  location: SignInLocation | null;
+}
+
+// Only persist last-seen once per minute per session to keep Redis writes low
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const SIGNIN_HISTORY_SIZE = 10;
+const SIGNIN_HISTORY_TTL_SECONDS = 90 * 24 * 60 * 60; // 90 days since the last sign-in
+
+const getSessionKey = (sessionId: string): string => `session:${sessionId}`;
+const getSignInHistoryKey = (subjectType: TokenSubjectType, userId: number): string =>
+  `signin:history:${subjectType}:${userId}`;
+
+/**
+ * Build client context from request headers and socket
+ */
+export const buildClientContext = (
+  headers: Record<string, string | string[] | undefined>,
+  socket?: { remoteAddress?: string },
+  auditSessionId?: string
+): ClientContext => {
+  const userAgent = headers['user-agent'];
+  return {
+    ipAddress: extractIpAddress(headers, socket),
+    userAgent: Array.isArray(userAgent) ? userAgent[0] : userAgent,
+    auditSessionId,
+  };
+};
+
+/**
+ * Derive a human readable device label from a user agent (e.g., "Chrome on Windows")
+ */
+export const describeDevice = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browsers: Array<[RegExp, string]> = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Chrome\//, 'Chrome'],
+    [/Firefox\//, 'Firefox'],
+    [/Safari\//, 'Safari'],
+    [/PostmanRuntime/, 'Postman'],
+    [/curl\//, 'curl'],
+  ];
+  const platforms: Array<[RegExp, string]> = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux'],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Unknown browser';
+  const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  return platform ? `${browser} on ${platform}` : browser;
+};
+
+export const sessionService = {
+  /**
+   * Issue tokens for a new sign-in and register the session with its client details
+   */
+  async startSession(
+    subjectType: TokenSubjectType,
+    claims: Omit<JWTPayload, 'iat' | 'exp' | 'jti' | 'sid'>,
+    context?: ClientContext
+  ): Promise<IssuedTokens> {
+    const issued = await tokenService.issueTokens(subjectType, claims);
+    const now = Date.now();
+
+    const record: SessionRecord = {
+      sessionId: issued.sessionId,
+      subjectType,
+      userId: parseInt(claims.userId, 10),
+      device: describeDevice(context?.userAgent),
+      userAgent: context?.userAgent || null,
+      ipAddress: context?.ipAddress || 'unknown',
+      lastSeenIp: context?.ipAddress || 'unknown',
+      location: context?.location || null,
+      auditSessionId: context?.auditSessionId || null,
+      createdAt: now,
+      lastSeenAt: now,
+    };
+
+    const redisClient = await getRedisClient();
+    await redisClient.setEx(
+      getSessionKey(issued.sessionId),
+      config.jwt.sessionMaxAgeSeconds,
+      JSON.stringify(record)
+    );
+
+    const signIn: SignInRecord = {
+      at: now,
+      ipAddress: record.ipAddress,
+      device: record.device,
+      location: record.location,
+    };
+    const historyKey = getSignInHistoryKey(subjectType, record.userId);
+    await redisClient.lPush(historyKey, JSON.stringify(signIn));
+    await redisClient.lTrim(historyKey, 0, SIGNIN_HISTORY_SIZE - 1);
+    await redisClient.expire(historyKey, SIGNIN_HISTORY_TTL_SECONDS);
+
+    return issued;
+  },
+
+  /**
+   * Recent completed sign-ins of a user, most recent first
+   */
+  async getRecentSignIns(subjectType: TokenSubjectType, userId: number): Promise<SignInRecord[]> {
+    const redisClient = await getRedisClient();
+    const entries = await redisClient.lRange(getSignInHistoryKey(subjectType, userId), 0, SIGNIN_HISTORY_SIZE - 1);
+    return entries.map((entry) => JSON.parse(entry) as SignInRecord);
+  },
+
+  /**
+   * Check that a session is still active and record activity
+   * Returns false if the session was signed out (or expired)
+   */
+  async touchSession(sessionId: string, ipAddress: string): Promise<boolean> {
+    if (!(await tokenService.isSessionActive(sessionId))) {
+      return false;
+    }
+
+    const redisClient = await getRedisClient();
+    const key = getSessionKey(sessionId);
+    const data = await redisClient.get(key);
+    if (!data) {
+      return true; // Active token family without registry entry - nothing to update
+    }
+
+    const record = JSON.parse(data) as SessionRecord;
+    const now = Date.now();
+    if (now - record.lastSeenAt >= LAST_SEEN_RESOLUTION_MS || record.lastSeenIp !== ipAddress) {
+      record.lastSeenAt = now;
+      record.lastSeenIp = ipAddress;
+      const ttl = await redisClient.ttl(key);
+      if (ttl > 0) {
+        await redisClient.setEx(key, ttl, JSON.stringify(record));
+      }
+    }
+
+    return true;
+  },
+
+  /**
+   * List active sessions of a user, most recently used first
+   */
+  async listSessions(subjectType: TokenSubjectType, userId: number, currentSessionId?: string) {
+    const redisClient = await getRedisClient();
+    const sessionIds = await tokenService.listSessionIds(subjectType, userId);
+
+    const sessions = [];
+    for (const sessionId of sessionIds) {
+      const data = await redisClient.get(getSessionKey(sessionId));
+      if (!data) continue;
+
+      const record = JSON.parse(data) as SessionRecord;
+      sessions.push({
+        id: record.sessionId,
+        device: record.device,
+        userAgent: record.userAgent,
+        ipAddress: record.ipAddress,
+        lastSeenIp: record.lastSeenIp,
+        location: record.location,
+        createdAt: new Date(record.createdAt).toISOString(),
+        lastSeenAt: new Date(record.lastSeenAt).toISOString(),
+        current: record.sessionId === currentSessionId,
+      });
+    }
+
+    sessions.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+
+    return {
+      success: true,
+      sessions,
+    };
+  },
+
+  /**
+   * Sign out a single session of a user
+   */
+  async revokeSession(subjectType: TokenSubjectType, userId: number, sessionId: string) {
+    const sessionIds = await tokenService.listSessionIds(subjectType, userId);
+    if (!sessionIds.includes(sessionId)) {
+      throw new NotFoundError('Session');
+    }
+
+    await tokenService.revokeSession(sessionId);
+
+    const redisClient = await getRedisClient();
+    await redisClient.del(getSessionKey(sessionId));
+
+    logger.info(`[Session Service] Session ${sessionId.substring(0, 8)}... signed out by ${subjectType} ${userId}`);
+
+    return {
+      success: true,
+      message: 'Session signed out successfully',
+    };
+  },
+
+  /**
+   * Sign out everywhere - optionally keeping the session making the request
+   */
+  async revokeAllSessions(subjectType: TokenSubjectType, userId: number, keepSessionId?: string) {
+    const redisClient = await getRedisClient();
+    const sessionIds = await tokenService.listSessionIds(subjectType, userId);
+
+    let revoked = 0;
+    for (const sessionId of sessionIds) {
+      if (sessionId === keepSessionId) continue;
+      await tokenService.revokeSession(sessionId);
+      await redisClient.del(getSessionKey(sessionId));
+      revoked++;
+    }
+
+    logger.info(`[Session Service] ${revoked} session(s) signed out for ${subjectType} ${userId}`);
+
+    return {
+      success: true,
+      message: keepSessionId
+        ? 'Signed out of all other sessions'
+        : 'Signed out of all sessions',
+      revokedSessions: revoked,
+    };
+  },
+};
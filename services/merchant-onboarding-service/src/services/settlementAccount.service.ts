@@ -0,0 +1,439 @@
+import { Prisma, PrismaClient, SettlementAccount } from '@prisma/client';
+import { MerchantStatus, SettlementAccountStatus } from '@tsp/types';
+import {
+  logger,
+  AppError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  normalizeIfsc,
+  normalizeAccountNumber,
+  getBankNameFromIfsc,
+  maskAccountNumber,
+  createFieldCipher,
+  createKeyedHash,
+} from '@tsp/common';
+import { getPennyDropProvider, PennyDropResult } from './pennyDropProvider.service';
+import { getNameMatchScore } from './kyb.service';
+import { config } from '../config';
+
+const prisma = new PrismaClient();
+
+export interface AddSettlementAccountInput {
+  accountNumber: string;
+  ifsc: string;
+  holderName: string;
+}
+
+// Encrypted rather than hashed - settlement payouts and penny drop retries need the number
+const accountNumberCipher = createFieldCipher(config.settlementAccounts.encryptionKey, 'BANK_ACCOUNT_ENCRYPTION_KEY');
+
+/**
+ * Keyed hash to find the same account without decrypting every row
+ */
+const accountNumberHash = createKeyedHash(
+  config.settlementAccounts.encryptionKey,
+  'BANK_ACCOUNT_ENCRYPTION_KEY',
+  'settlement-account-lookup'
+);
+const hashAccountNumber = (ifsc: string, accountNumber: string): string => accountNumberHash(`${ifsc}:${accountNumber}`);
+
+/**
+ * Lock the merchant row for the rest of the transaction
+ * Everything that picks the primary account takes this lock first, so a merchant never ends up with two
+ */
+const lockMerchantAccounts = async (tx: Prisma.TransactionClient, merchantId: number): Promise<void> => {
+  await tx.$queryRaw`SELECT id FROM merchants_master WHERE id = ${merchantId} FOR UPDATE`;
+};
+
+const toAccountResponse = (account: SettlementAccount) => ({
+  id: account.id,
+  accountNumberMasked: maskAccountNumber(account.accountNumberLast4),
+  ifsc: account.ifsc,
+  bankName: account.bankName,
+  holderName: account.holderName,
+  status: account.status,
+  registeredName: account.registeredName,
+  nameMatchScore: account.nameMatchScore,
+  failureReason: account.failureReason,
+  verificationAttempts: account.verificationAttempts,
+  isPrimary: account.isPrimary,
+  checkedAt: account.checkedAt,
+  verifiedAt: account.verifiedAt,
+  createdAt: account.createdAt,
+});
+
+const toAdminAccountResponse = (account: SettlementAccount) => ({
+  ...toAccountResponse(account),
+  provider: account.provider,
+  providerReference: account.providerReference,
+});
+
+const getMerchant = async (merchantId: string) => {
+  const merchant = await prisma.merchantsMaster.findUnique({
+    where: { nineteenMerchantId: merchantId },
+    select: {
+      id: true,
+      name: true,
+      nineteenMerchantId: true,
+      status: true,
+      isActive: true,
+      isSettlementActive: true,
+      profile: { select: { panRegisteredName: true } },
+    },
+  });
+
+  if (!merchant) {
+    throw new NotFoundError('Merchant');
+  }
+
+  return merchant;
+};
+
+type SettlementMerchant = Awaited<ReturnType<typeof getMerchant>>;
+
+const findOwnAccount = async (merchantDbId: number, accountId: number) => {
+  const account = await prisma.settlementAccount.findFirst({
+    where: { id: accountId, merchantId: merchantDbId },
+  });
+
+  if (!account) {
+    throw new NotFoundError('Settlement account');
+  }
+
+  return account;
+};
+
+/**
+ * Credit Re 1 to the account and record what the bank said
+ * The bank's holder name is scored against the merchant name and the PAN holder name from KYB (best wins).
+ * Returns providerError when the bank could not be reached - the account then stays PENDING.
+ */
+const runPennyDrop = async (
+  account: SettlementAccount,
+  merchant: SettlementMerchant
+): Promise<{ account: SettlementAccount; providerError: boolean }> => {
+  if (account.verificationAttempts >= config.settlementAccounts.maxVerificationAttempts) {
+    throw new ConflictError('No verification attempts left for this account. Remove it and add it again after checking the details.');
+  }
+
+  const provider = getPennyDropProvider();
+
+  let result: PennyDropResult;
+  try {
+    result = await provider.verify({
+      accountNumber: accountNumberCipher.decrypt(account.accountNumber),
+      ifsc: account.ifsc,
+      holderName: account.holderName,
+    });
+  } catch (error: any) {
+    logger.error(`[Settlement Account Service] Penny drop for account #${account.id} failed:`, error);
+    await prisma.settlementAccount.update({
+      where: { id: account.id },
+      data: {
+        provider: provider.name,
+        failureReason: 'Bank could not be reached',
+        verificationAttempts: { increment: 1 },
+        checkedAt: new Date(),
+      },
+    });
+
+    return { account: await findOwnAccount(merchant.id, account.id), providerError: true };
+  }
+
+  const expectedNames = [merchant.name, merchant.profile?.panRegisteredName].filter((name): name is string => !!name);
+  const nameMatchScore = result.registeredName
+    ? Math.max(...expectedNames.map((name) => getNameMatchScore(name, result.registeredName!)))
+    : null;
+
+  const status = !result.accountExists
+    ? SettlementAccountStatus.FAILED
+    : nameMatchScore !== null && nameMatchScore >= config.kyb.nameMatchThreshold
+      ? SettlementAccountStatus.VERIFIED
+      : SettlementAccountStatus.NAME_MISMATCH;
+
+  const now = new Date();
+  await prisma.$transaction(async (tx) => {
+    await lockMerchantAccounts(tx, merchant.id);
+
+    // The first verified account becomes the settlement account
+    const hasPrimary = status === SettlementAccountStatus.VERIFIED
+      ? (await tx.settlementAccount.count({ where: { merchantId: merchant.id, isPrimary: true } })) > 0
+      : true;
+
+    const { count } = await tx.settlementAccount.updateMany({
+      where: { id: account.id, status: SettlementAccountStatus.PENDING },
+      data: {
+        status,
+        registeredName: result.registeredName,
+        nameMatchScore,
+        provider: provider.name,
+        providerReference: result.reference,
+        failureReason: result.failureReason,
+        verificationAttempts: { increment: 1 },
+        checkedAt: now,
+        verifiedAt: status === SettlementAccountStatus.VERIFIED ? now : null,
+        isPrimary: !hasPrimary,
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictError('Settlement account was verified by another request. Reload and try again.');
+    }
+  });
+
+  logger.info(
+    `[Settlement Account Service] Penny drop for account #${account.id} of merchant ${merchant.nineteenMerchantId}: ${status}` +
+      `${nameMatchScore !== null ? `, name match ${nameMatchScore}` : ''} via ${provider.name} (${result.reference ?? 'no reference'})`
+  );
+
+  return { account: await findOwnAccount(merchant.id, account.id), providerError: false };
+};
+
+export const settlementAccountService = {
+  /**
+   * Add a settlement account and verify it by penny drop right away
+   * - IFSC must be well formed with a known bank code; account number 9-18 digits
+   * - The same account can't be added twice (409)
+   * - If the bank can't be reached the account is saved as PENDING - retry with verify
+   */
+  async addAccount(merchantId: string, input: AddSettlementAccountInput) {
+    const merchant = await getMerchant(merchantId);
+
+    const ifsc = normalizeIfsc(input.ifsc);
+    const accountNumber = normalizeAccountNumber(input.accountNumber);
+    const holderName = input.holderName.trim();
+
+    if (!holderName) {
+      throw new ValidationError('holderName is required');
+    }
+
+    // Fail on a misconfigured provider before anything is saved
+    getPennyDropProvider();
+
+    const accountNumberHash = hashAccountNumber(ifsc, accountNumber);
+
+    const [existing, total] = await Promise.all([
+      prisma.settlementAccount.findUnique({
+        where: { merchantId_accountNumberHash: { merchantId: merchant.id, accountNumberHash } },
+        select: { id: true },
+      }),
+      prisma.settlementAccount.count({ where: { merchantId: merchant.id } }),
+    ]);
+
+    if (existing) {
+      throw new ConflictError(`This account is already added (settlement account #${existing.id})`);
+    }
+    if (total >= config.settlementAccounts.maxPerMerchant) {
+      throw new ValidationError(`At most ${config.settlementAccounts.maxPerMerchant} settlement accounts can be added. Remove one first.`);
+    }
+
+    const account = await prisma.settlementAccount.create({
+      data: {
+        merchantId: merchant.id,
+        accountNumber: accountNumberCipher.encrypt(accountNumber),
+        accountNumberHash,
+        accountNumberLast4: accountNumber.slice(-4),
+        ifsc,
+        bankName: getBankNameFromIfsc(ifsc)!,
+        holderName,
+      },
+    });
+
+    logger.info(`[Settlement Account Service] Account #${account.id} (${ifsc}, XXXXXX${account.accountNumberLast4}) added by merchant ${merchantId}`);
+
+    const result = await runPennyDrop(account, merchant);
+
+    return {
+      success: true,
+      message: result.providerError
+        ? 'Account saved, but the bank could not be reached. Verify it again later.'
+        : `Account added - ${result.account.status.toLowerCase().replace('_', ' ')}`,
+      account: toAccountResponse(result.account),
+    };
+  },
+
+  /**
+   * Merchant's settlement accounts, with whether settlement is active
+   */
+  async listOwn(merchantId: string) {
+    const merchant = await getMerchant(merchantId);
+
+    const accounts = await prisma.settlementAccount.findMany({
+      where: { merchantId: merchant.id },
+      orderBy: [{ isPrimary: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return {
+      success: true,
+      isSettlementActive: merchant.isSettlementActive,
+      accounts: accounts.map(toAccountResponse),
+    };
+  },
+
+  /**
+   * Retry the penny drop for an account still PENDING (bank unreachable earlier)
+   */
+  async verifyOwn(merchantId: string, accountId: number) {
+    const merchant = await getMerchant(merchantId);
+    const account = await findOwnAccount(merchant.id, accountId);
+
+    if (account.status !== SettlementAccountStatus.PENDING) {
+      throw new ConflictError(`Account is already ${account.status.toLowerCase().replace('_', ' ')}. Add a new account to change details.`);
+    }
+
+    const result = await runPennyDrop(account, merchant);
+
+    if (result.providerError) {
+      throw new AppError(503, 'Bank could not be reached. Try verifying again later.');
+    }
+
+    return {
+      success: true,
+      message: `Account ${result.account.status.toLowerCase().replace('_', ' ')}`,
+      account: toAccountResponse(result.account),
+    };
+  },
+
+  /**
+   * Make a verified account the one settlements are paid into
+   */
+  async setPrimary(merchantId: string, accountId: number) {
+    const merchant = await getMerchant(merchantId);
+    const account = await findOwnAccount(merchant.id, accountId);
+
+    if (account.status !== SettlementAccountStatus.VERIFIED) {
+      throw new ConflictError('Only a verified account can receive settlements');
+    }
+
+    if (!account.isPrimary) {
+      await prisma.$transaction(async (tx) => {
+        await lockMerchantAccounts(tx, merchant.id);
+        await tx.settlementAccount.updateMany({
+          where: { merchantId: merchant.id, isPrimary: true },
+          data: { isPrimary: false },
+        });
+        await tx.settlementAccount.update({
+          where: { id: account.id },
+          data: { isPrimary: true },
+        });
+      });
+
+      logger.info(`[Settlement Account Service] Account #${account.id} is now the settlement account of merchant ${merchantId}`);
+    }
+
+    return {
+      success: true,
+      message: 'Settlements will be paid into this account',
+      account: toAccountResponse({ ...account, isPrimary: true }),
+    };
+  },
+
+  /**
+   * Remove an account - not the settlement account while settlement is active
+   */
+  async deleteOwn(merchantId: string, accountId: number) {
+    const merchant = await getMerchant(merchantId);
+    const account = await findOwnAccount(merchant.id, accountId);
+
+    if (account.isPrimary && merchant.isSettlementActive) {
+      throw new ConflictError('This account receives settlements. Make another verified account primary first.');
+    }
+
+    await prisma.settlementAccount.delete({ where: { id: account.id } });
+
+    logger.info(`[Settlement Account Service] Account #${account.id} removed by merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: 'Settlement account removed',
+    };
+  },
+
+  /**
+   * Settlement accounts of a merchant for the admin panel (with provider references)
+   */
+  async listAccounts(merchantId: string) {
+    const merchant = await getMerchant(merchantId);
+
+    const accounts = await prisma.settlementAccount.findMany({
+      where: { merchantId: merchant.id },
+      orderBy: [{ isPrimary: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return {
+      success: true,
+      merchant: {
+        nineteenMerchantId: merchant.nineteenMerchantId,
+        name: merchant.name,
+        status: merchant.status,
+        isSettlementActive: merchant.isSettlementActive,
+      },
+      accounts: accounts.map(toAdminAccountResponse),
+    };
+  },
+
+  /**
+   * Turn settlement on - only for an active, approved merchant whose settlement account passed the penny drop
+   */
+  async activateSettlement(merchantId: string, adminId: number) {
+    const merchant = await getMerchant(merchantId);
+
+    if (merchant.isSettlementActive) {
+      return { success: true, message: 'Settlement is already active', isSettlementActive: true };
+    }
+    if (merchant.status !== MerchantStatus.APPROVED || !merchant.isActive) {
+      throw new ConflictError(`Settlement can only be activated for an active, APPROVED merchant (merchant is ${merchant.status}${merchant.isActive ? '' : ', disabled'})`);
+    }
+
+    const primary = await prisma.settlementAccount.findFirst({
+      where: { merchantId: merchant.id, isPrimary: true, status: SettlementAccountStatus.VERIFIED },
+      select: { id: true, ifsc: true, accountNumberLast4: true },
+    });
+
+    if (!primary) {
+      throw new ConflictError('Settlement cannot be activated until a settlement account is verified by penny drop');
+    }
+
+    const { count } = await prisma.merchantsMaster.updateMany({
+      where: { id: merchant.id, isSettlementActive: false, status: MerchantStatus.APPROVED, isActive: true },
+      data: { isSettlementActive: true },
+    });
+
+    if (count === 0) {
+      throw new ConflictError('Merchant was changed by someone else. Reload and try again.');
+    }
+
+    logger.info(`[Settlement Account Service] Settlement activated for merchant ${merchantId} into account #${primary.id} by admin ${adminId}`);
+
+    return {
+      success: true,
+      message: `Settlement activated into ${primary.ifsc} XXXXXX${primary.accountNumberLast4}`,
+      isSettlementActive: true,
+    };
+  },
+
+  /**
+   * Turn settlement off
+   */
+  async deactivateSettlement(merchantId: string, adminId: number) {
+    const merchant = await getMerchant(merchantId);
+
+    if (!merchant.isSettlementActive) {
+      return { success: true, message: 'Settlement is already inactive', isSettlementActive: false };
+    }
+
+    await prisma.merchantsMaster.update({
+      where: { id: merchant.id },
+      data: { isSettlementActive: false },
+    });
+
+    logger.info(`[Settlement Account Service] Settlement deactivated for merchant ${merchantId} by admin ${adminId}`);
+
+    return {
+      success: true,
+      message: 'Settlement deactivated',
+      isSettlementActive: false,
+    };
+  },
+};
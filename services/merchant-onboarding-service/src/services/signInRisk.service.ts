@@ -0,0 +1,183 @@
+import { AuditAlertHelper, createIpMatcher, normalizeIpAddress, logger } from '@tsp/common';
+import { sessionService, describeDevice, ClientContext, SignInLocation, SignInRecord } from './session.service';
+import { sendSignInAlertEmail } from './email.service';
+
+// Faster than a commercial flight between two sign-ins is treated as impossible travel
+const MAX_TRAVEL_SPEED_KMH = 900;
+// Closer than this counts as the same place (browser geolocation is often off by tens of km)
+const SAME_LOCATION_DISTANCE_KM = 100;
+
+export type SignInRiskLevel = 'low' | 'medium' | 'high';
+
+export interface SignInRiskAssessment {
+  level: SignInRiskLevel;
+  reasons: string[];
+  impossibleTravel: boolean;
+  newLocation: boolean;
+  newDevice: boolean;
+  newIpRange: boolean;
+}
+
+// Details of an impossible travel, reported with the suspicious activity
+interface TravelDetails {
+  from: string;
+  to: string;
+  distanceKm: number;
+  elapsedMinutes: number;
+  speedKmh: number;
+}
+
+interface HistoryComparison extends SignInRiskAssessment {
+  travel?: TravelDetails;
+}
+
+export interface SignInRiskSubject {
+  id: number;
+  email: string;
+  name: string;
+  nineteenMerchantId: string | null;
+}
+
+/**
+ * Great-circle distance between two points in km (haversine)
+ */
+const distanceKm = (from: SignInLocation, to: SignInLocation): number => {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Network range of an IP - /24 for IPv4, /48 for IPv6 (typical allocation to one site)
+ */
+const toIpRange = (ip: string): string | null => {
+  const address = normalizeIpAddress(ip);
+  if (!address) {
+    return null;
+  }
+  return address.includes(':') ? `${address}/48` : `${address}/24`;
+};
+
+/**
+ * Compare a sign-in against the recent ones
+ * - impossible travel: the previous sign-in is too far away for the time elapsed (high)
+ * - new location: far from every recent sign-in (medium, high together with new device and network)
+ * - new device / new IP range: medium together, low on their own
+ * The first sign-in has nothing to compare against and is low risk
+ */
+const assessAgainstHistory = (
+  history: SignInRecord[],
+  location: SignInLocation,
+  context: ClientContext
+): HistoryComparison => {
+  const assessment: HistoryComparison = {
+    level: 'low',
+    reasons: [],
+    impossibleTravel: false,
+    newLocation: false,
+    newDevice: false,
+    newIpRange: false,
+  };
+
+  if (history.length === 0) {
+    return assessment;
+  }
+
+  const located = history.filter((signIn) => signIn.location);
+
+  const previous = located[0];
+  if (previous) {
+    const distance = distanceKm(previous.location!, location);
+    const elapsedHours = Math.max((Date.now() - previous.at) / 3600000, 1 / 60); // At least a minute
+    const speed = distance / elapsedHours;
+
+    if (distance > SAME_LOCATION_DISTANCE_KM && speed > MAX_TRAVEL_SPEED_KMH) {
+      assessment.impossibleTravel = true;
+      assessment.reasons.push(
+        `${Math.round(distance)} km from the previous sign-in (${previous.location!.location}) in ${Math.round(elapsedHours * 60)} minute(s)`
+      );
+      assessment.travel = {
+        from: previous.location!.location,
+        to: location.location,
+        distanceKm: Math.round(distance),
+        elapsedMinutes: Math.round(elapsedHours * 60),
+        speedKmh: Math.round(speed),
+      };
+    }
+  }
+
+  if (located.length > 0 && located.every((signIn) => distanceKm(signIn.location!, location) > SAME_LOCATION_DISTANCE_KM)) {
+    assessment.newLocation = true;
+    assessment.reasons.push(`new location (${location.location})`);
+  }
+
+  const device = describeDevice(context.userAgent);
+  if (!history.some((signIn) => signIn.device === device)) {
+    assessment.newDevice = true;
+    assessment.reasons.push(`new device (${device})`);
+  }
+
+  const knownRanges = history.map((signIn) => toIpRange(signIn.ipAddress)).filter((range): range is string => !!range);
+  if (!createIpMatcher(knownRanges)(context.ipAddress)) {
+    assessment.newIpRange = true;
+    assessment.reasons.push(`new network (${context.ipAddress})`);
+  }
+
+  if (
+    assessment.impossibleTravel ||
+    (assessment.newLocation && assessment.newDevice && assessment.newIpRange)
+  ) {
+    assessment.level = 'high';
+  } else if (assessment.newLocation || (assessment.newDevice && assessment.newIpRange)) {
+    assessment.level = 'medium';
+  }
+
+  return assessment;
+};
+
+export const signInRiskService = {
+  /**
+   * Assess a merchant sign-in once the password is verified
+   * Medium and high risk are reported as suspicious activity; sign-ins from a new
+   * location also email the merchant. Callers ask for an extra factor on high risk.
+   */
+  async assessMerchantSignIn(
+    merchant: SignInRiskSubject,
+    location: SignInLocation,
+    context?: ClientContext
+  ): Promise<SignInRiskAssessment> {
+    const clientContext: ClientContext = context || { ipAddress: 'unknown' };
+    const history = await sessionService.getRecentSignIns('merchant', merchant.id);
+    const { travel, ...assessment } = assessAgainstHistory(history, location, clientContext);
+
+    const activity = await AuditAlertHelper.checkSignInRisk(
+      clientContext.ipAddress,
+      { ...assessment, metadata: { location, travel } },
+      { email: merchant.email, userId: merchant.id, merchantId: merchant.nineteenMerchantId || undefined }
+    );
+    if (activity) {
+      await AuditAlertHelper.logSuspiciousActivity(activity);
+    }
+
+    if (assessment.newLocation || assessment.impossibleTravel) {
+      try {
+        await sendSignInAlertEmail(merchant.email, {
+          name: merchant.name,
+          location: location.location,
+          ipAddress: clientContext.ipAddress,
+          device: describeDevice(clientContext.userAgent),
+          at: new Date(),
+        });
+      } catch (error: any) {
+        // The alert is informational - don't block the sign-in on it
+        logger.error(`[Sign-in Risk] Failed to send new location alert to ${merchant.email}:`, error);
+      }
+    }
+
+    return assessment;
+  },
+};
@@ -0,0 +1,123 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { logger } from '@tsp/common';
+import { config } from '../config';
+
+export type StorageDriverName = 'local' | 's3';
+
+// Object storage for uploaded files - keys are relative paths like merchants/12345678/PAN/<uuid>.pdf
+export interface StorageDriver {
+  name: StorageDriverName;
+  put(key: string, content: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+let storage: StorageDriver | null = null;
+
+/**
+ * Local filesystem driver for development and tests
+ * Files are written under STORAGE_LOCAL_PATH, readable only by the service user
+ */
+export const createLocalStorage = (rootPath: string): StorageDriver => {
+  const root = path.resolve(rootPath);
+
+  // Keys come from the service, but never let one escape the root folder
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`[Storage] Invalid storage key "${key}"`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, content) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+      await fs.writeFile(filePath, content, { mode: 0o600 });
+    },
+
+    async get(key) {
+      return fs.readFile(resolveKey(key));
+    },
+
+    async delete(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+  };
+};
+
+/**
+ * S3 driver - AWS S3, or any S3-compatible store when STORAGE_ENDPOINT is set
+ * Objects are written with server-side encryption
+ */
+export const createS3Storage = (options: typeof config.storage): StorageDriver => {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint || undefined,
+    forcePathStyle: options.forcePathStyle,
+    // Without keys the SDK falls back to its default chain (instance role, env, profile)
+    credentials: options.accessKeyId
+      ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+      : undefined,
+  });
+
+  return {
+    name: 's3',
+
+    async put(key, content, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: key,
+        Body: content,
+        ContentType: contentType,
+        ServerSideEncryption: 'AES256',
+      }));
+    },
+
+    async get(key) {
+      const response = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: key }));
+      if (!response.Body) {
+        throw new Error(`[Storage] Object "${key}" has no content`);
+      }
+      return Buffer.from(await response.Body.transformToByteArray());
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    },
+  };
+};
+
+/**
+ * Get the storage driver selected by STORAGE_DRIVER (created once)
+ */
+export const getStorage = (): StorageDriver => {
+  if (!storage) {
+    const driver = config.storage.driver;
+
+    if (driver === 's3') {
+      storage = createS3Storage(config.storage);
+      logger.info(`[Storage] Using S3 bucket "${config.storage.bucket}"${config.storage.endpoint ? ` at ${config.storage.endpoint}` : ''}`);
+    } else if (driver === 'local') {
+      if (config.nodeEnv === 'production') {
+        logger.warn('[Storage] Local storage driver in production - uploaded documents are only on this server\'s disk');
+      }
+      storage = createLocalStorage(config.storage.localPath);
+      logger.info(`[Storage] Using local storage at ${config.storage.localPath}`);
+    } else {
+      throw new Error(`[Storage] Unknown STORAGE_DRIVER "${driver}". Use "local" or "s3".`);
+    }
+  }
+
+  return storage;
+};
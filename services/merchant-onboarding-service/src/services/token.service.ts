@@ -0,0 +1,314 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  generateToken,
+  verifyToken,
+  revokeToken,
+  revokeAllUserTokens,
+  getTokenLifetimeSeconds,
+  TokenSubjectType,
+  JWTPayload,
+  logger,
+} from '@tsp/common';
+import { UnauthorizedError } from '@tsp/common';
+import { getRedisClient } from './redis.service';
+import { config } from '../config';
+import crypto from 'crypto';
+
+const prisma = new PrismaClient();
+
+// Refresh token family - one per sign-in, rotated on every refresh
+// All refresh tokens descending from the same sign-in share a family
+interface RefreshTokenFamily {
+  familyId: string;
+  subjectType: TokenSubjectType;
+  userId: number;
+  currentTokenHash: string; // Only the latest refresh token of a family is valid
+  accessTokenJti?: string; // Last access token issued for this family
+  createdAt: number; // Unix timestamp (ms)
+  absoluteExpiresAt: number; // Unix timestamp (ms) - hard session limit, never extended
+}
+
+export interface IssuedTokens {
+  sessionId: string; // Token family ID (JWT `sid` claim)
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+  refreshExpiresIn: number; // Refresh token lifetime in seconds
+}
+
+/**
+ * Generate an opaque refresh token
+ */
+const generateRefreshToken = (): string => {
+  return crypto.randomBytes(48).toString('hex');
+};
+
+/**
+ * Hash refresh token for storage (raw tokens are never stored)
+ */
+const hashRefreshToken = (refreshToken: string): string => {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+};
+
+const getFamilyKey = (familyId: string): string => `refresh:family:${familyId}`;
+const getTokenKey = (tokenHash: string): string => `refresh:token:${tokenHash}`;
+const getUsedKey = (tokenHash: string): string => `refresh:used:${tokenHash}`;
+const getUserFamiliesKey = (subjectType: TokenSubjectType, userId: number): string =>
+  `refresh:user:${subjectType}:${userId}`;
+
+/**
+ * Load access token claims for a subject from the database
+ * Claims are re-read on every refresh so role/status changes take effect
+ */
+const loadClaims = async (
+  subjectType: TokenSubjectType,
+  userId: number
+): Promise<Omit<JWTPayload, 'iat' | 'exp' | 'jti' | 'sid'> | null> => {
+  if (subjectType === 'merchant') {
+    const merchant = await prisma.merchantsMaster.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        nineteenMerchantId: true,
+        kycVerified: true,
+        isActive: true,
+      },
+    });
+
+    if (!merchant) return null;
+
+    return {
+      userId: merchant.id.toString(),
+      merchantId: merchant.nineteenMerchantId || '',
+      role: 'merchant',
+      email: merchant.email,
+      kycVerified: merchant.kycVerified,
+      isActive: merchant.isActive,
+    };
+  }
+
+  const admin = await prisma.admin.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      role: true,
+      isActive: true,
+    },
+  });
+
+  if (!admin) return null;
+
+  return {
+    userId: admin.id.toString(),
+    merchantId: '', // Not applicable for admin
+    role: admin.role,
+    email: admin.email,
+    kycVerified: true, // Admins are always verified
+    isActive: admin.isActive,
+  };
+};
+
+/**
+ * Store a new refresh token for a family and issue a matching access token
+ */
+const issueForFamily = async (
+  family: RefreshTokenFamily,
+  claims: Omit<JWTPayload, 'iat' | 'exp' | 'jti' | 'sid'>
+): Promise<IssuedTokens> => {
+  const redisClient = await getRedisClient();
+
+  const secondsUntilAbsoluteExpiry = Math.floor((family.absoluteExpiresAt - Date.now()) / 1000);
+  // Less than a second left - nothing can be issued (Redis rejects a zero TTL)
+  if (secondsUntilAbsoluteExpiry <= 0) {
+    throw new UnauthorizedError('Session has expired. Please sign in again.');
+  }
+  const refreshExpiresIn = Math.min(config.jwt.refreshTokenTtlSeconds, secondsUntilAbsoluteExpiry);
+
+  const refreshToken = generateRefreshToken();
+  const tokenHash = hashRefreshToken(refreshToken);
+
+  const token = generateToken({ ...claims, sid: family.familyId });
+  const { jti } = verifyToken(token);
+
+  family.currentTokenHash = tokenHash;
+  family.accessTokenJti = jti;
+
+  await redisClient.setEx(getTokenKey(tokenHash), refreshExpiresIn, family.familyId);
+  await redisClient.setEx(getFamilyKey(family.familyId), secondsUntilAbsoluteExpiry, JSON.stringify(family));
+
+  return {
+    sessionId: family.familyId,
+    token,
+    refreshToken,
+    expiresIn: getTokenLifetimeSeconds(),
+    refreshExpiresIn,
+  };
+};
+
+export const tokenService = {
+  /**
+   * Start a new session (token family) after a successful sign-in
+   * Returns a short-lived access token plus a single-use refresh token
+   */
+  async issueTokens(
+    subjectType: TokenSubjectType,
+    claims: Omit<JWTPayload, 'iat' | 'exp' | 'jti' | 'sid'>
+  ): Promise<IssuedTokens> {
+    const userId = parseInt(claims.userId, 10);
+    const now = Date.now();
+
+    const family: RefreshTokenFamily = {
+      familyId: crypto.randomUUID(),
+      subjectType,
+      userId,
+      currentTokenHash: '',
+      createdAt: now,
+      absoluteExpiresAt: now + config.jwt.sessionMaxAgeSeconds * 1000,
+    };
+
+    const issued = await issueForFamily(family, claims);
+
+    // Index families per user so they can all be revoked at once
+    const redisClient = await getRedisClient();
+    const userFamiliesKey = getUserFamiliesKey(subjectType, userId);
+    await redisClient.sAdd(userFamiliesKey, family.familyId);
+    await redisClient.expire(userFamiliesKey, config.jwt.sessionMaxAgeSeconds);
+
+    logger.info(`[Token Service] New session ${family.familyId.substring(0, 8)}... for ${subjectType} ${userId}`);
+
+    return issued;
+  },
+
+  /**
+   * Exchange a refresh token for a new access + refresh token pair
+   * - Refresh tokens are single-use: presenting a used token kills the whole family (reuse detection)
+   * - Session can't be extended past its absolute lifetime
+   */
+  async refresh(refreshToken: string): Promise<IssuedTokens> {
+    const redisClient = await getRedisClient();
+    const tokenHash = hashRefreshToken(refreshToken);
+
+    const familyId = await redisClient.get(getTokenKey(tokenHash));
+    if (!familyId) {
+      throw new UnauthorizedError('Invalid or expired refresh token. Please sign in again.');
+    }
+
+    const familyData = await redisClient.get(getFamilyKey(familyId));
+    if (!familyData) {
+      throw new UnauthorizedError('Session has expired. Please sign in again.');
+    }
+
+    const family = JSON.parse(familyData) as RefreshTokenFamily;
+
+    // Mark token as used atomically - only the first presenter wins
+    const marked = await redisClient.set(getUsedKey(tokenHash), '1', {
+      condition: 'NX',
+      expiration: { type: 'EX', value: config.jwt.sessionMaxAgeSeconds },
+    });
+
+    // Reuse detection: token already used or superseded by a newer one
+    if (!marked || family.currentTokenHash !== tokenHash) {
+      logger.warn(`[Token Service] Refresh token reuse detected for ${family.subjectType} ${family.userId}. Revoking session ${familyId.substring(0, 8)}...`);
+      await tokenService.revokeSession(familyId);
+      throw new UnauthorizedError('Refresh token has already been used. Please sign in again.');
+    }
+
+    if (Date.now() >= family.absoluteExpiresAt) {
+      await tokenService.revokeSession(familyId);
+      throw new UnauthorizedError('Session has expired. Please sign in again.');
+    }
+
+    // Re-read claims so disabled accounts can't keep refreshing
+    const claims = await loadClaims(family.subjectType, family.userId);
+    if (!claims || !claims.isActive) {
+      await tokenService.revokeSession(familyId);
+      throw new UnauthorizedError('Account is inactive. Please contact support.');
+    }
+
+    // Retire the previous access token of this family
+    if (family.accessTokenJti) {
+      await revokeToken({ ...claims, jti: family.accessTokenJti });
+    }
+
+    return issueForFamily(family, claims);
+  },
+
+  /**
+   * Check if a session (token family) is still active
+   */
+  async isSessionActive(familyId: string): Promise<boolean> {
+    const redisClient = await getRedisClient();
+    return (await redisClient.exists(getFamilyKey(familyId))) === 1;
+  },
+
+  /**
+   * List active session (token family) IDs of a user
+   * Also prunes IDs whose family has expired
+   */
+  async listSessionIds(subjectType: TokenSubjectType, userId: number): Promise<string[]> {
+    const redisClient = await getRedisClient();
+    const userFamiliesKey = getUserFamiliesKey(subjectType, userId);
+    const familyIds = await redisClient.sMembers(userFamiliesKey);
+
+    const active: string[] = [];
+    for (const familyId of familyIds) {
+      if (await tokenService.isSessionActive(familyId)) {
+        active.push(familyId);
+      } else {
+        await redisClient.sRem(userFamiliesKey, familyId);
+      }
+    }
+
+    return active;
+  },
+
+  /**
+   * Revoke a session (token family) and its current access token
+   */
+  async revokeSession(familyId: string): Promise<void> {
+    const redisClient = await getRedisClient();
+    const familyData = await redisClient.get(getFamilyKey(familyId));
+
+    if (!familyData) {
+      return;
+    }
+
+    const family = JSON.parse(familyData) as RefreshTokenFamily;
+
+    await redisClient.del(getFamilyKey(familyId));
+    await redisClient.del(getTokenKey(family.currentTokenHash));
+    await redisClient.sRem(getUserFamiliesKey(family.subjectType, family.userId), familyId);
+
+    if (family.accessTokenJti) {
+      await revokeToken({
+        userId: family.userId.toString(),
+        merchantId: '',
+        role: family.subjectType === 'merchant' ? 'merchant' : 'admin',
+        email: '',
+        kycVerified: false,
+        isActive: false,
+        jti: family.accessTokenJti,
+      });
+    }
+
+    logger.info(`[Token Service] Session ${familyId.substring(0, 8)}... revoked for ${family.subjectType} ${family.userId}`);
+  },
+
+  /**
+   * Revoke every session and access token of a user
+   * Used on password reset and account disable
+   */
+  async revokeAllSessions(subjectType: TokenSubjectType, userId: number): Promise<void> {
+    const redisClient = await getRedisClient();
+    const familyIds = await redisClient.sMembers(getUserFamiliesKey(subjectType, userId));
+
+    for (const familyId of familyIds) {
+      await tokenService.revokeSession(familyId);
+    }
+
+    await redisClient.del(getUserFamiliesKey(subjectType, userId));
+    await revokeAllUserTokens(subjectType, userId);
+  },
+};
@@ -0,0 +1,414 @@
+import { PrismaClient } from '@prisma/client';
+import { comparePassword, createFieldCipher, createKeyedHash, logger } from '@tsp/common';
+import { ValidationError, NotFoundError, UnauthorizedError, ConflictError } from '@tsp/common';
+import { getRedisClient } from './redis.service';
+import { config } from '../config';
+import crypto from 'crypto';
+
+const prisma = new PrismaClient();
+
+// RFC 6238 parameters - the defaults every authenticator app supports
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Accept one step of clock drift either way
+const ENROLLMENT_TTL_SECONDS = 600; // 10 minutes to scan the QR code and confirm
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TotpCodeInput {
+  otp: string; // Authenticator code or recovery code
+}
+
+export interface TotpConfirmInput {
+  password: string;
+  otp: string; // Authenticator code
+}
+
+export interface TotpDisableInput {
+  password: string;
+  otp: string; // Authenticator code or recovery code
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const getEnrollmentKey = (merchantId: number): string => `totp:enroll:${merchantId}`;
+const getUsedStepKey = (merchantId: number, step: number): string => `totp:used:${merchantId}:${step}`;
+
+/**
+ * Encode bytes as RFC 4648 base32 (no padding) - the format authenticator apps expect
+ */
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decode RFC 4648 base32 string to bytes
+ */
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generate an HOTP code (RFC 4226) for a counter
+ */
+const generateHotp = (secret: Buffer, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Verify a TOTP code against a base32 secret
+ * Returns the matched time step (for replay protection) or null
+ */
+const matchTotpStep = (base32Secret: string, code: string): number | null => {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const secret = base32Decode(base32Secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const expected = generateHotp(secret, currentStep + offset);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return currentStep + offset;
+    }
+  }
+
+  return null;
+};
+
+// TOTP secrets are encrypted at rest with TOTP_ENCRYPTION_KEY
+const secretCipher = createFieldCipher(config.totp.encryptionKey, 'TOTP_ENCRYPTION_KEY');
+
+/**
+ * Normalize a recovery code as typed by the user (case, dashes, spaces)
+ */
+const normalizeRecoveryCode = (code: string): string => {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+};
+
+const recoveryCodeHash = createKeyedHash(config.totp.encryptionKey, 'TOTP_ENCRYPTION_KEY', 'totp-recovery-code');
+
+/**
+ * Hash recovery code for storage (raw codes are only shown once)
+ */
+const hashRecoveryCode = (code: string): string => recoveryCodeHash(normalizeRecoveryCode(code));
+
+// Concurrent consumptions of other codes can change the list between read and write - retry on conflict
+const RECOVERY_CODE_CONSUME_ATTEMPTS = 3;
+
+/**
+ * Remove a recovery code from the merchant's list, only if it is still there
+ * The write is conditional on the list being unchanged since it was read, so one code can't be used twice
+ */
+const consumeRecoveryCode = async (merchantId: number, code: string): Promise<number | null> => {
+  const codeHash = hashRecoveryCode(code);
+
+  for (let attempt = 0; attempt < RECOVERY_CODE_CONSUME_ATTEMPTS; attempt++) {
+    const merchant = await prisma.merchantsMaster.findUnique({
+      where: { id: merchantId },
+      select: { totpRecoveryCodes: true },
+    });
+
+    const storedHashes = (merchant?.totpRecoveryCodes as string[] | null) || [];
+    if (!storedHashes.includes(codeHash)) {
+      return null;
+    }
+
+    const remaining = storedHashes.filter((hash) => hash !== codeHash);
+    const { count } = await prisma.merchantsMaster.updateMany({
+      where: { id: merchantId, totpRecoveryCodes: { equals: storedHashes } },
+      data: { totpRecoveryCodes: remaining },
+    });
+
+    if (count === 1) {
+      return remaining.length;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Generate a set of single-use recovery codes (e.g., "A1B2C-D3E4F")
+ */
+const generateRecoveryCodes = (): string[] => {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex').toUpperCase();
+    return `${code.substring(0, 5)}-${code.substring(5)}`;
+  });
+};
+
+/**
+ * Build the otpauth:// provisioning URI rendered as a QR code by the client
+ */
+const buildProvisioningUri = (email: string, base32Secret: string): string => {
+  const issuer = config.totp.issuer;
+  const label = encodeURIComponent(`${issuer}:${email}`);
+  const params = new URLSearchParams({
+    secret: base32Secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_STEP_SECONDS.toString(),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Verify a TOTP code for a merchant, rejecting codes already used in the same time step
+ */
+const verifyTotpForMerchant = async (
+  merchantId: number,
+  base32Secret: string,
+  code: string
+): Promise<boolean> => {
+  const step = matchTotpStep(base32Secret, code);
+  if (step === null) {
+    return false;
+  }
+
+  // Each code is single-use - mark the step as consumed atomically
+  const redisClient = await getRedisClient();
+  const marked = await redisClient.set(getUsedStepKey(merchantId, step), '1', {
+    condition: 'NX',
+    expiration: { type: 'EX', value: TOTP_STEP_SECONDS * (TOTP_WINDOW * 2 + 1) },
+  });
+
+  return !!marked;
+};
+
+/**
+ * Load merchant with an enrolled authenticator app, or throw
+ * The app stays enrolled when the merchant switches the sign-in factor back to SMS
+ */
+const getTotpMerchant = async (merchantId: number) => {
+  const merchant = await prisma.merchantsMaster.findUnique({
+    where: { id: merchantId },
+  });
+
+  if (!merchant) {
+    throw new NotFoundError('Merchant');
+  }
+
+  if (!merchant.totpSecret) {
+    throw new ValidationError('Authenticator app is not enabled for this account');
+  }
+
+  return merchant;
+};
+
+export const totpService = {
+  /**
+   * Start authenticator app enrollment
+   * Returns the secret and otpauth:// URI for the QR code - not active until confirmed
+   */
+  async startEnrollment(merchantId: number) {
+    const merchant = await prisma.merchantsMaster.findUnique({
+      where: { id: merchantId },
+      select: { id: true, email: true, totpSecret: true },
+    });
+
+    if (!merchant) {
+      throw new NotFoundError('Merchant');
+    }
+
+    if (merchant.totpSecret) {
+      throw new ConflictError('Authenticator app is already enabled. Disable it first to enroll a new device.');
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20)); // 160-bit secret as recommended by RFC 4226
+
+    const redisClient = await getRedisClient();
+    await redisClient.setEx(getEnrollmentKey(merchantId), ENROLLMENT_TTL_SECONDS, secretCipher.encrypt(secret));
+
+    logger.info(`[TOTP Service] Enrollment started for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      secret,
+      otpauthUrl: buildProvisioningUri(merchant.email, secret),
+      expiresIn: ENROLLMENT_TTL_SECONDS,
+    };
+  },
+
+  /**
+   * Confirm enrollment with the account password and a code from the app
+   * Switches the merchant's MFA factor to TOTP and returns recovery codes (shown only once)
+   */
+  async confirmEnrollment(merchantId: number, password: string, code: string) {
+    const merchant = await prisma.merchantsMaster.findUnique({
+      where: { id: merchantId },
+      select: { password: true },
+    });
+
+    if (!merchant) {
+      throw new NotFoundError('Merchant');
+    }
+
+    // A bearer token alone must not be enough to change the sign-in factor
+    const isPasswordValid = await comparePassword(password, merchant.password);
+    if (!isPasswordValid) {
+      throw new UnauthorizedError('Invalid password');
+    }
+
+    const redisClient = await getRedisClient();
+    const pending = await redisClient.get(getEnrollmentKey(merchantId));
+
+    if (!pending) {
+      throw new ValidationError('No pending authenticator enrollment. Please start enrollment again.');
+    }
+
+    const secret = secretCipher.decrypt(pending);
+    if (!(await verifyTotpForMerchant(merchantId, secret, code))) {
+      throw new UnauthorizedError('Invalid authenticator code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.merchantsMaster.update({
+      where: { id: merchantId },
+      data: {
+        mfaMethod: 'totp',
+        totpSecret: pending,
+        totpEnabledAt: new Date(),
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      },
+    });
+
+    await redisClient.del(getEnrollmentKey(merchantId));
+
+    logger.info(`[TOTP Service] Authenticator app enabled for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: 'Authenticator app enabled. Store your recovery codes in a safe place - they will not be shown again.',
+      recoveryCodes,
+    };
+  },
+
+  /**
+   * Verify a login code - either a TOTP code or an unused recovery code
+   * Recovery codes are consumed on use
+   */
+  async verifyCode(merchantId: number, code: string): Promise<boolean> {
+    const merchant = await getTotpMerchant(merchantId);
+    const secret = secretCipher.decrypt(merchant.totpSecret!);
+
+    if (await verifyTotpForMerchant(merchantId, secret, code.trim())) {
+      return true;
+    }
+
+    const remaining = await consumeRecoveryCode(merchantId, code);
+    if (remaining === null) {
+      return false;
+    }
+
+    logger.warn(`[TOTP Service] Recovery code used by merchant ${merchantId}. ${remaining} remaining`);
+
+    return true;
+  },
+
+  /**
+   * Replace all recovery codes (requires a current code)
+   */
+  async regenerateRecoveryCodes(merchantId: number, code: string) {
+    await getTotpMerchant(merchantId);
+
+    if (!(await totpService.verifyCode(merchantId, code))) {
+      throw new UnauthorizedError('Invalid authenticator code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.merchantsMaster.update({
+      where: { id: merchantId },
+      data: {
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      },
+    });
+
+    logger.info(`[TOTP Service] Recovery codes regenerated for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: 'New recovery codes generated. Previous codes no longer work.',
+      recoveryCodes,
+    };
+  },
+
+  /**
+   * Disable authenticator app and fall back to SMS OTP
+   * Requires password and a current code (or recovery code)
+   */
+  async disable(merchantId: number, password: string, code: string) {
+    const merchant = await getTotpMerchant(merchantId);
+
+    const isPasswordValid = await comparePassword(password, merchant.password);
+    if (!isPasswordValid) {
+      throw new UnauthorizedError('Invalid password');
+    }
+
+    if (!(await totpService.verifyCode(merchantId, code))) {
+      throw new UnauthorizedError('Invalid authenticator code');
+    }
+
+    await prisma.merchantsMaster.update({
+      where: { id: merchantId },
+      data: {
+        mfaMethod: 'sms',
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpRecoveryCodes: [],
+      },
+    });
+
+    logger.info(`[TOTP Service] Authenticator app disabled for merchant ${merchantId}. Falling back to SMS OTP`);
+
+    return {
+      success: true,
+      message: 'Authenticator app disabled. SMS OTP will be used for sign-in.',
+    };
+  },
+};
@@ -0,0 +1,307 @@
+import { PrismaClient } from '@prisma/client';
+import { hashPassword, comparePassword, logger } from '@tsp/common';
+import {
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  ConflictError,
+  AccountLockedError,
+  PreconditionRequiredError,
+} from '@tsp/common';
+import { otpService } from './otp.service';
+import { getRedisClient } from './redis.service';
+
+const prisma = new PrismaClient();
+
+// Wrong TPIN entries allowed before the TPIN is locked (reset with OTP, or wait for the lock to expire)
+const MAX_TPIN_FAILURES = 5;
+const TPIN_FAILURE_WINDOW_SECONDS = 30 * 60;
+const TPIN_LOCK_SECONDS = 30 * 60;
+
+const TPIN_PATTERN = /^\d{6}$/;
+
+export interface SetTpinInput {
+  tpin: string;
+  password: string; // Re-authentication for the first TPIN
+}
+
+export interface ChangeTpinInput {
+  currentTpin: string;
+  newTpin: string;
+}
+
+export interface TpinResetVerifyInput {
+  otp: string;
+  newTpin: string;
+}
+
+const getFailuresKey = (merchantId: number): string => `tpin:failures:${merchantId}`;
+const getLockKey = (merchantId: number): string => `tpin:lock:${merchantId}`;
+
+/**
+ * Validate TPIN format - 6 digits, not trivially guessable
+ */
+const assertTpinFormat = (tpin: string): void => {
+  if (!TPIN_PATTERN.test(tpin)) {
+    throw new ValidationError('Transaction PIN must be exactly 6 digits');
+  }
+
+  const digits = tpin.split('').map(Number);
+  const allSame = digits.every((digit) => digit === digits[0]);
+  const ascending = digits.every((digit, i) => i === 0 || digit === (digits[i - 1] + 1) % 10);
+  const descending = digits.every((digit, i) => i === 0 || digit === (digits[i - 1] + 9) % 10);
+
+  if (allSame || ascending || descending) {
+    throw new ValidationError('Transaction PIN is too easy to guess. Avoid repeated or sequential digits.');
+  }
+};
+
+/**
+ * Load merchant with TPIN fields, or throw
+ */
+const getMerchant = async (merchantId: number) => {
+  const merchant = await prisma.merchantsMaster.findUnique({
+    where: { id: merchantId },
+    select: { id: true, email: true, name: true, mobile: true, password: true, tpin: true },
+  });
+
+  if (!merchant) {
+    throw new NotFoundError('Merchant');
+  }
+
+  return merchant;
+};
+
+/**
+ * Reject while the TPIN is locked
+ */
+const assertNotLocked = async (merchantId: number): Promise<void> => {
+  const redisClient = await getRedisClient();
+  const lockedUntil = await redisClient.get(getLockKey(merchantId));
+
+  if (lockedUntil) {
+    const until = new Date(parseInt(lockedUntil, 10));
+    const minutesRemaining = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 60000));
+    throw new AccountLockedError(
+      `Transaction PIN is locked due to too many wrong entries. Try again in ${minutesRemaining} minute(s) or reset it with an OTP.`,
+      until
+    );
+  }
+};
+
+/**
+ * Record a wrong TPIN - locks the TPIN at the threshold
+ * Returns the number of entries left before the lock
+ */
+const recordFailure = async (merchantId: number): Promise<number> => {
+  const redisClient = await getRedisClient();
+  const failuresKey = getFailuresKey(merchantId);
+
+  const failures = await redisClient.incr(failuresKey);
+  await redisClient.expire(failuresKey, TPIN_FAILURE_WINDOW_SECONDS);
+
+  if (failures >= MAX_TPIN_FAILURES) {
+    const lockedUntil = Date.now() + TPIN_LOCK_SECONDS * 1000;
+    await redisClient.setEx(getLockKey(merchantId), TPIN_LOCK_SECONDS, lockedUntil.toString());
+    await redisClient.del(failuresKey);
+    logger.warn(`[TPIN Service] Transaction PIN locked for merchant ${merchantId} after ${failures} wrong entries`);
+    return 0;
+  }
+
+  return MAX_TPIN_FAILURES - failures;
+};
+
+/**
+ * Clear failure counter and lock
+ */
+const clearFailures = async (merchantId: number): Promise<void> => {
+  const redisClient = await getRedisClient();
+  await redisClient.del([getFailuresKey(merchantId), getLockKey(merchantId)]);
+};
+
+/**
+ * Check a TPIN against the stored hash, counting wrong entries
+ */
+const checkTpin = async (merchantId: number, storedHash: string, tpin: string): Promise<void> => {
+  await assertNotLocked(merchantId);
+
+  if (!(await comparePassword(tpin, storedHash))) {
+    const remaining = await recordFailure(merchantId);
+    if (remaining === 0) {
+      await assertNotLocked(merchantId);
+    }
+    throw new UnauthorizedError(`Invalid transaction PIN. ${remaining} attempt(s) remaining.`);
+  }
+
+  await clearFailures(merchantId);
+};
+
+export const tpinService = {
+  /**
+   * Get TPIN status (never the TPIN itself)
+   */
+  async getStatus(merchantId: number) {
+    const merchant = await prisma.merchantsMaster.findUnique({
+      where: { id: merchantId },
+      select: { tpin: true, tpinUpdatedAt: true },
+    });
+
+    if (!merchant) {
+      throw new NotFoundError('Merchant');
+    }
+
+    const redisClient = await getRedisClient();
+    const lockedUntil = await redisClient.get(getLockKey(merchantId));
+
+    return {
+      success: true,
+      isSet: !!merchant.tpin,
+      updatedAt: merchant.tpinUpdatedAt,
+      isLocked: !!lockedUntil,
+      lockedUntil: lockedUntil ? new Date(parseInt(lockedUntil, 10)) : null,
+    };
+  },
+
+  /**
+   * Set the first TPIN (password required)
+   */
+  async setTpin(merchantId: number, input: SetTpinInput) {
+    const merchant = await getMerchant(merchantId);
+
+    if (merchant.tpin) {
+      throw new ConflictError('Transaction PIN is already set. Use change or reset instead.');
+    }
+
+    if (!(await comparePassword(input.password, merchant.password))) {
+      throw new UnauthorizedError('Invalid password');
+    }
+
+    assertTpinFormat(input.tpin);
+
+    await prisma.merchantsMaster.update({
+      where: { id: merchantId },
+      data: { tpin: await hashPassword(input.tpin), tpinUpdatedAt: new Date() },
+    });
+
+    logger.info(`[TPIN Service] Transaction PIN set for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: 'Transaction PIN set',
+    };
+  },
+
+  /**
+   * Change the TPIN with the current one
+   */
+  async changeTpin(merchantId: number, input: ChangeTpinInput) {
+    const merchant = await getMerchant(merchantId);
+
+    if (!merchant.tpin) {
+      throw new PreconditionRequiredError('Transaction PIN is not set');
+    }
+
+    await checkTpin(merchantId, merchant.tpin, input.currentTpin);
+
+    assertTpinFormat(input.newTpin);
+    if (input.newTpin === input.currentTpin) {
+      throw new ValidationError('New transaction PIN must be different from the current one');
+    }
+
+    await prisma.merchantsMaster.update({
+      where: { id: merchantId },
+      data: { tpin: await hashPassword(input.newTpin), tpinUpdatedAt: new Date() },
+    });
+
+    logger.info(`[TPIN Service] Transaction PIN changed for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: 'Transaction PIN changed',
+    };
+  },
+
+  /**
+   * Request a TPIN reset - OTP sent to the registered mobile
+   * Works while the TPIN is locked (this is the way to unlock it)
+   */
+  async requestReset(merchantId: number) {
+    const merchant = await getMerchant(merchantId);
+
+    if (!merchant.tpin) {
+      throw new PreconditionRequiredError('Transaction PIN is not set');
+    }
+
+    const issued = await otpService.issue(
+      { type: 'merchant', email: merchant.email, name: merchant.name },
+      'tpin_reset',
+      'sms',
+      merchant.mobile
+    );
+
+    if (!issued.sent) {
+      throw new ValidationError(`Please wait ${issued.retryAfter} seconds before requesting a new OTP`);
+    }
+
+    return {
+      success: true,
+      message: 'OTP sent to your registered mobile number.',
+      expiresIn: issued.expiresIn,
+    };
+  },
+
+  /**
+   * Reset the TPIN with the OTP - also clears a TPIN lock
+   */
+  async verifyReset(merchantId: number, input: TpinResetVerifyInput) {
+    const merchant = await getMerchant(merchantId);
+
+    if (!merchant.tpin) {
+      throw new PreconditionRequiredError('Transaction PIN is not set');
+    }
+
+    const otpMatch = await otpService.verify(
+      { type: 'merchant', email: merchant.email },
+      'tpin_reset',
+      'sms',
+      input.otp
+    );
+
+    if (!otpMatch) {
+      throw new UnauthorizedError('Invalid or expired OTP');
+    }
+
+    // Format is checked after the OTP is proven, so the OTP stays usable for a corrected TPIN
+    assertTpinFormat(input.newTpin);
+
+    await otpService.consume(otpMatch);
+
+    await prisma.merchantsMaster.update({
+      where: { id: merchantId },
+      data: { tpin: await hashPassword(input.newTpin), tpinUpdatedAt: new Date() },
+    });
+
+    await clearFailures(merchantId);
+
+    logger.info(`[TPIN Service] Transaction PIN reset for merchant ${merchantId}`);
+
+    return {
+      success: true,
+      message: 'Transaction PIN reset',
+    };
+  },
+
+  /**
+   * Verify a TPIN for a sensitive operation (used by the requireTpin pre-handler)
+   * Throws if the TPIN is not set, locked or wrong
+   */
+  async verifyTpin(merchantId: number, tpin: string): Promise<void> {
+    const merchant = await getMerchant(merchantId);
+
+    if (!merchant.tpin) {
+      throw new PreconditionRequiredError('Transaction PIN is not set. Please set a transaction PIN first.');
+    }
+
+    await checkTpin(merchantId, merchant.tpin, tpin);
+  },
+};
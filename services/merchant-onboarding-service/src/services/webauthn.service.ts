@@ -0,0 +1,317 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  RegistrationResponseJSON,
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialRequestOptionsJSON,
+} from '@simplewebauthn/server';
+import { logger } from '@tsp/common';
+import { ValidationError, NotFoundError, UnauthorizedError } from '@tsp/common';
+import { getRedisClient } from './redis.service';
+import { config } from '../config';
+
+const prisma = new PrismaClient();
+
+const CEREMONY_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes for the browser prompt
+const REGISTRATION_CHALLENGE_TTL = 300; // 5 minutes
+
+export interface WebauthnRegistrationInput {
+  name: string; // Label for the credential (e.g., "YubiKey 5C", "MacBook Touch ID")
+  response: RegistrationResponseJSON; // navigator.credentials.create() result
+}
+
+export interface RenameWebauthnCredentialInput {
+  name: string;
+}
+
+const getRegistrationChallengeKey = (adminId: number): string => `webauthn:registration:${adminId}`;
+
+/**
+ * Format credential for API responses (public key and counter are never exposed)
+ */
+const formatCredential = (credential: {
+  id: number;
+  name: string;
+  deviceType: string;
+  backedUp: boolean;
+  transports: unknown;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}) => ({
+  id: credential.id,
+  name: credential.name,
+  deviceType: credential.deviceType,
+  backedUp: credential.backedUp,
+  transports: (credential.transports as string[] | null) || [],
+  createdAt: credential.createdAt,
+  lastUsedAt: credential.lastUsedAt,
+});
+
+export const webauthnService = {
+  /**
+   * Start security key / passkey registration for an admin
+   * Existing credentials are excluded so the same authenticator isn't registered twice
+   */
+  async generateRegistrationOptions(adminId: number) {
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId },
+      include: { webauthnCredentials: true },
+    });
+
+    if (!admin) {
+      throw new NotFoundError('Admin');
+    }
+
+    const options = await generateRegistrationOptions({
+      rpName: config.webauthn.rpName,
+      rpID: config.webauthn.rpId,
+      userName: admin.email,
+      userDisplayName: admin.name,
+      userID: new TextEncoder().encode(`admin:${admin.id}`),
+      timeout: CEREMONY_TIMEOUT_MS,
+      attestationType: 'none',
+      excludeCredentials: admin.webauthnCredentials.map((credential) => ({
+        id: credential.credentialId,
+        transports: (credential.transports as AuthenticatorTransportFuture[] | null) || undefined,
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred',
+      },
+    });
+
+    const redisClient = await getRedisClient();
+    await redisClient.setEx(getRegistrationChallengeKey(adminId), REGISTRATION_CHALLENGE_TTL, options.challenge);
+
+    return {
+      success: true,
+      options,
+    };
+  },
+
+  /**
+   * Verify registration response and store the new credential
+   * Registering the first credential turns on 2FA for the admin
+   */
+  async verifyRegistration(adminId: number, input: WebauthnRegistrationInput) {
+    const redisClient = await getRedisClient();
+    const challengeKey = getRegistrationChallengeKey(adminId);
+    const expectedChallenge = await redisClient.get(challengeKey);
+
+    if (!expectedChallenge) {
+      throw new ValidationError('Registration challenge expired. Please start registration again.');
+    }
+
+    // Challenge is single-use regardless of the outcome
+    await redisClient.del(challengeKey);
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response: input.response,
+        expectedChallenge,
+        expectedOrigin: config.webauthn.origins,
+        expectedRPID: config.webauthn.rpId,
+        requireUserVerification: false,
+      });
+    } catch (error: any) {
+      logger.warn(`[WebAuthn Service] Registration verification failed for admin ${adminId}: ${error.message}`);
+      throw new ValidationError('Security key registration could not be verified');
+    }
+
+    if (!verification.verified) {
+      throw new ValidationError('Security key registration could not be verified');
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+    const existing = await prisma.adminWebauthnCredential.findUnique({
+      where: { credentialId: credential.id },
+    });
+    if (existing) {
+      throw new ValidationError('This security key is already registered');
+    }
+
+    const created = await prisma.adminWebauthnCredential.create({
+      data: {
+        adminId,
+        credentialId: credential.id,
+        publicKey: Buffer.from(credential.publicKey),
+        counter: BigInt(credential.counter),
+        transports: credential.transports || [],
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+        name: input.name,
+      },
+    });
+
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { is2faActive: true },
+    });
+    if (admin && !admin.is2faActive) {
+      await prisma.admin.update({
+        where: { id: adminId },
+        data: { is2faActive: true },
+      });
+      logger.info(`[WebAuthn Service] 2FA enabled for admin ${adminId} with first security key`);
+    }
+
+    logger.info(`[WebAuthn Service] Security key "${input.name}" registered for admin ${adminId}`);
+
+    return {
+      success: true,
+      message: 'Security key registered successfully',
+      credential: formatCredential(created),
+    };
+  },
+
+  /**
+   * List registered credentials of an admin
+   */
+  async listCredentials(adminId: number) {
+    const credentials = await prisma.adminWebauthnCredential.findMany({
+      where: { adminId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      success: true,
+      credentials: credentials.map(formatCredential),
+    };
+  },
+
+  /**
+   * Rename a credential
+   */
+  async renameCredential(adminId: number, credentialId: number, input: RenameWebauthnCredentialInput) {
+    const credential = await prisma.adminWebauthnCredential.findFirst({
+      where: { id: credentialId, adminId },
+    });
+
+    if (!credential) {
+      throw new NotFoundError('Security key');
+    }
+
+    const updated = await prisma.adminWebauthnCredential.update({
+      where: { id: credential.id },
+      data: { name: input.name },
+    });
+
+    return {
+      success: true,
+      message: 'Security key renamed successfully',
+      credential: formatCredential(updated),
+    };
+  },
+
+  /**
+   * Remove a credential
+   * Once the last one is removed, sign-in falls back to SMS OTP
+   */
+  async removeCredential(adminId: number, credentialId: number) {
+    const credential = await prisma.adminWebauthnCredential.findFirst({
+      where: { id: credentialId, adminId },
+    });
+
+    if (!credential) {
+      throw new NotFoundError('Security key');
+    }
+
+    await prisma.adminWebauthnCredential.delete({
+      where: { id: credential.id },
+    });
+
+    logger.info(`[WebAuthn Service] Security key "${credential.name}" removed for admin ${adminId}`);
+
+    return {
+      success: true,
+      message: 'Security key removed successfully',
+    };
+  },
+
+  /**
+   * Check if an admin has at least one registered credential
+   */
+  async hasCredentials(adminId: number): Promise<boolean> {
+    const count = await prisma.adminWebauthnCredential.count({ where: { adminId } });
+    return count > 0;
+  },
+
+  /**
+   * Build assertion options for sign-in
+   * Caller keeps the returned challenge in the admin MFA session
+   */
+  async generateAuthenticationOptions(adminId: number): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    const credentials = await prisma.adminWebauthnCredential.findMany({
+      where: { adminId },
+      select: { credentialId: true, transports: true },
+    });
+
+    return generateAuthenticationOptions({
+      rpID: config.webauthn.rpId,
+      timeout: CEREMONY_TIMEOUT_MS,
+      userVerification: 'preferred',
+      allowCredentials: credentials.map((credential) => ({
+        id: credential.credentialId,
+        transports: (credential.transports as AuthenticatorTransportFuture[] | null) || undefined,
+      })),
+    });
+  },
+
+  /**
+   * Verify an assertion against the expected challenge
+   * Updates the signature counter and last used time on success
+   */
+  async verifyAuthentication(
+    adminId: number,
+    expectedChallenge: string,
+    response: AuthenticationResponseJSON
+  ): Promise<boolean> {
+    const credential = await prisma.adminWebauthnCredential.findFirst({
+      where: { credentialId: response.id, adminId },
+    });
+
+    if (!credential) {
+      throw new UnauthorizedError('Security key is not registered for this account');
+    }
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: config.webauthn.origins,
+        expectedRPID: config.webauthn.rpId,
+        credential: {
+          id: credential.credentialId,
+          publicKey: new Uint8Array(credential.publicKey),
+          counter: Number(credential.counter),
+          transports: (credential.transports as AuthenticatorTransportFuture[] | null) || undefined,
+        },
+        requireUserVerification: false,
+      });
+    } catch (error: any) {
+      logger.warn(`[WebAuthn Service] Assertion verification failed for admin ${adminId}: ${error.message}`);
+      return false;
+    }
+
+    if (!verification.verified) {
+      return false;
+    }
+
+    await prisma.adminWebauthnCredential.update({
+      where: { id: credential.id },
+      data: {
+        counter: BigInt(verification.authenticationInfo.newCounter),
+        lastUsedAt: new Date(),
+      },
+    });
+
+    return true;
+  },
+};